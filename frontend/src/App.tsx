@@ -10,8 +10,10 @@ const KanbanPage = lazy(() => import('./pages/dashboard/KanbanPage'));
 const CalendarPage = lazy(() => import('./pages/dashboard/CalendarPage'));
 const TeamPage = lazy(() => import('./pages/dashboard/TeamPage'));
 const AnalyticsPage = lazy(() => import('./pages/dashboard/AnalyticsPage'));
+const TimesheetPage = lazy(() => import('./pages/dashboard/TimesheetPage'));
 const ProfilePage = lazy(() => import('./pages/dashboard/ProfilePage'));
 const GeofencePage = lazy(() => import('./pages/dashboard/GeofencePage'));
+const NotificationsPage = lazy(() => import('./pages/dashboard/NotificationsPage'));
 
 // Loading component
 const PageLoader = () => (
@@ -51,6 +53,11 @@ function App() {
                         <AnalyticsPage />
                     </Suspense>
                 } />
+                <Route path="timesheet" element={
+                    <Suspense fallback={<PageLoader />}>
+                        <TimesheetPage />
+                    </Suspense>
+                } />
                 <Route path="profile" element={
                     <Suspense fallback={<PageLoader />}>
                         <ProfilePage />
@@ -61,6 +68,11 @@ function App() {
                         <GeofencePage />
                     </Suspense>
                 } />
+                <Route path="notifications" element={
+                    <Suspense fallback={<PageLoader />}>
+                        <NotificationsPage />
+                    </Suspense>
+                } />
             </Route>
         </Routes>
     );
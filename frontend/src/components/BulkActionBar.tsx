@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { BulkAction, BulkResult } from '../lib/bulkTasks';
+import type { DbTeamMember } from '../lib/teamService';
+import { getStatusLabel, type DbWorkflowColumn } from '../lib/workflowService';
+
+interface BulkActionBarProps {
+    selectedCount: number;
+    workflow: DbWorkflowColumn[];
+    assignees: DbTeamMember[];
+    busy: boolean;
+    result: BulkResult | null;
+    onAction: (action: BulkAction) => void;
+    onClear: () => void;
+    onDismissResult: () => void;
+    onSaveTemplate?: () => void; // Only offered to users who can create tasks
+}
+
+/**
+ * Actions for the cards selected on the board, plus the report of the last run.
+ */
+export const BulkActionBar: React.FC<BulkActionBarProps> = ({
+    selectedCount,
+    workflow,
+    assignees,
+    busy,
+    result,
+    onAction,
+    onClear,
+    onDismissResult,
+    onSaveTemplate
+}) => {
+    const { t } = useTranslation();
+    const [days, setDays] = useState(1);
+
+    if (selectedCount === 0 && !result) return null;
+
+    return (
+        <div className="bulk-bar glass-card">
+            {selectedCount > 0 && (
+                <div className="bulk-bar-actions">
+                    <span className="bulk-bar-count">{t('dashboard.bulk.selected', { count: selectedCount })}</span>
+
+                    <select
+                        value=""
+                        onChange={e => e.target.value && onAction({ type: 'status', status: e.target.value })}
+                        className="kanban-select"
+                        disabled={busy}
+                    >
+                        <option value="">{t('dashboard.bulk.status')}</option>
+                        {workflow.map(c => (
+                            <option key={c.key} value={c.key}>{getStatusLabel(workflow, c.key, t)}</option>
+                        ))}
+                    </select>
+
+                    <select
+                        value=""
+                        onChange={e => e.target.value && onAction({ type: 'assignee', memberId: e.target.value })}
+                        className="kanban-select"
+                        disabled={busy}
+                    >
+                        <option value="">{t('dashboard.bulk.assignee')}</option>
+                        {assignees.map(m => (
+                            <option key={m.id} value={m.id}>{m.name}</option>
+                        ))}
+                    </select>
+
+                    <select
+                        value=""
+                        onChange={e => e.target.value && onAction({ type: 'priority', priority: e.target.value as 'low' | 'medium' | 'high' })}
+                        className="kanban-select"
+                        disabled={busy}
+                    >
+                        <option value="">{t('dashboard.bulk.priority')}</option>
+                        <option value="high">{t('dashboard.priority.high')}</option>
+                        <option value="medium">{t('dashboard.priority.medium')}</option>
+                        <option value="low">{t('dashboard.priority.low')}</option>
+                    </select>
+
+                    <div className="bulk-bar-shift">
+                        <input
+                            type="number"
+                            value={days}
+                            onChange={e => setDays(parseInt(e.target.value) || 0)}
+                            className="kanban-input"
+                            disabled={busy}
+                        />
+                        <button
+                            type="button"
+                            className="btn btn-outline btn-sm"
+                            disabled={busy || days === 0}
+                            onClick={() => onAction({ type: 'shift_deadline', days })}
+                        >
+                            📅 {t('dashboard.bulk.shiftDeadline')}
+                        </button>
+                    </div>
+
+                    {onSaveTemplate && (
+                        <button type="button" className="btn btn-outline btn-sm" disabled={busy} onClick={onSaveTemplate}>
+                            💾 {t('dashboard.templates.saveAs')}
+                        </button>
+                    )}
+                    <button type="button" className="btn btn-outline btn-sm bulk-bar-delete" disabled={busy} onClick={() => onAction({ type: 'delete' })}>
+                        🗑 {t('dashboard.bulk.delete')}
+                    </button>
+                    <button type="button" className="btn btn-outline btn-sm" disabled={busy} onClick={onClear}>
+                        {t('dashboard.bulk.clear')}
+                    </button>
+                </div>
+            )}
+
+            {result && (
+                <div className="bulk-bar-result">
+                    <div className="bulk-bar-result-header">
+                        <span>
+                            {t('dashboard.bulk.result', { succeeded: result.succeeded.length, failed: result.failed.length })}
+                        </span>
+                        <button type="button" className="kanban-delete" style={{ opacity: 1 }} onClick={onDismissResult}>✕</button>
+                    </div>
+                    {result.failed.map(failure => (
+                        <div key={failure.task.id} className="bulk-bar-failure">
+                            <strong>{failure.task.title}</strong>
+                            <span>{failure.reason}</span>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+    createCustomField, updateCustomField, deleteCustomField, CUSTOM_FIELD_TYPES,
+    type CustomFieldType, type DbCustomField
+} from '../lib/customFieldService';
+
+interface CustomFieldManagerProps {
+    organizationId: string;
+    fields: DbCustomField[];
+    onChange: (fields: DbCustomField[]) => void;
+}
+
+const parseOptions = (value: string) =>
+    Array.from(new Set(value.split(',').map(option => option.trim()).filter(Boolean)));
+
+const hasOptions = (type: CustomFieldType) => type === 'select' || type === 'multi_select';
+
+/**
+ * Owner-only list of the organization's custom task fields. Changes are saved right away;
+ * the type of an existing field is fixed so stored values stay valid.
+ */
+export const CustomFieldManager: React.FC<CustomFieldManagerProps> = ({ organizationId, fields, onChange }) => {
+    const { t } = useTranslation();
+    const [newName, setNewName] = useState('');
+    const [newType, setNewType] = useState<CustomFieldType>('text');
+    const [newOptions, setNewOptions] = useState('');
+    const [error, setError] = useState('');
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!newName.trim()) return;
+        const options = hasOptions(newType) ? parseOptions(newOptions) : [];
+        if (hasOptions(newType) && options.length === 0) {
+            setError(t('dashboard.customFields.errors.noOptions'));
+            return;
+        }
+        setError('');
+        try {
+            const created = await createCustomField(organizationId, {
+                name: newName,
+                type: newType,
+                options,
+                position: fields.length,
+            });
+            onChange([...fields, created]);
+            setNewName('');
+            setNewOptions('');
+        } catch (err) {
+            console.error('Failed to create custom field:', err);
+            setError(t('dashboard.customFields.errors.save'));
+        }
+    };
+
+    const handleUpdate = async (field: DbCustomField, updates: Partial<Pick<DbCustomField, 'name' | 'options' | 'position'>>) => {
+        setError('');
+        onChange(fields.map(f => f.id === field.id ? { ...f, ...updates } : f));
+        try {
+            await updateCustomField(field.id, updates);
+        } catch (err) {
+            console.error('Failed to update custom field:', err);
+            setError(t('dashboard.customFields.errors.save'));
+            onChange(fields);
+        }
+    };
+
+    const moveField = async (index: number, offset: number) => {
+        const target = index + offset;
+        if (target < 0 || target >= fields.length) return;
+        const next = [...fields];
+        [next[index], next[target]] = [next[target], next[index]];
+        const reordered = next.map((field, position) => ({ ...field, position }));
+        onChange(reordered);
+        try {
+            await Promise.all([
+                updateCustomField(reordered[index].id, { position: index }),
+                updateCustomField(reordered[target].id, { position: target }),
+            ]);
+        } catch (err) {
+            console.error('Failed to reorder custom fields:', err);
+            setError(t('dashboard.customFields.errors.save'));
+        }
+    };
+
+    const handleDelete = async (field: DbCustomField) => {
+        if (!window.confirm(t('dashboard.customFields.confirmDelete', { name: field.name }))) return;
+        onChange(fields.filter(f => f.id !== field.id));
+        try {
+            await deleteCustomField(field.id);
+        } catch (err) {
+            console.error('Failed to delete custom field:', err);
+            setError(t('dashboard.customFields.errors.save'));
+            onChange(fields);
+        }
+    };
+
+    return (
+        <div className="workflow-editor">
+            <p className="workflow-editor-hint">{t('dashboard.customFields.hint')}</p>
+
+            <div className="workflow-columns">
+                {fields.map((field, index) => (
+                    <div key={field.id} className="workflow-column-row">
+                        <input
+                            type="text"
+                            defaultValue={field.name}
+                            onBlur={e => e.target.value.trim() && e.target.value.trim() !== field.name && handleUpdate(field, { name: e.target.value.trim() })}
+                            className="kanban-input"
+                        />
+                        <span className="task-subtask-meta custom-field-type">{t(`dashboard.customFields.types.${field.type}`)}</span>
+                        {hasOptions(field.type) && (
+                            <input
+                                type="text"
+                                defaultValue={field.options.join(', ')}
+                                placeholder={t('dashboard.customFields.options')}
+                                onBlur={e => {
+                                    const options = parseOptions(e.target.value);
+                                    if (options.length > 0 && options.join(',') !== field.options.join(',')) handleUpdate(field, { options });
+                                }}
+                                className="kanban-input"
+                            />
+                        )}
+                        <div className="workflow-column-actions">
+                            <button type="button" onClick={() => moveField(index, -1)} disabled={index === 0}>↑</button>
+                            <button type="button" onClick={() => moveField(index, 1)} disabled={index === fields.length - 1}>↓</button>
+                            <button type="button" className="kanban-delete" style={{ opacity: 1 }} onClick={() => handleDelete(field)}>✕</button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            <form className="kanban-form-row" onSubmit={handleCreate}>
+                <input
+                    type="text"
+                    placeholder={t('dashboard.customFields.name')}
+                    value={newName}
+                    onChange={e => setNewName(e.target.value)}
+                    className="kanban-input"
+                />
+                <select value={newType} onChange={e => setNewType(e.target.value as CustomFieldType)} className="kanban-select">
+                    {CUSTOM_FIELD_TYPES.map(type => (
+                        <option key={type} value={type}>{t(`dashboard.customFields.types.${type}`)}</option>
+                    ))}
+                </select>
+                {hasOptions(newType) && (
+                    <input
+                        type="text"
+                        placeholder={t('dashboard.customFields.options')}
+                        value={newOptions}
+                        onChange={e => setNewOptions(e.target.value)}
+                        className="kanban-input"
+                    />
+                )}
+                <button type="submit" className="btn btn-primary btn-sm" disabled={!newName.trim()}>
+                    {t('dashboard.customFields.add')}
+                </button>
+            </form>
+
+            {error && <p className="task-dependency-error">{error}</p>}
+        </div>
+    );
+};
@@ -0,0 +1,131 @@
+import React, { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { formatFieldValue, setFieldValue, type CustomFieldValue, type CustomValues, type DbCustomField } from '../lib/customFieldService';
+import type { DbTeamMember } from '../lib/teamService';
+
+interface CustomFieldInputProps {
+    field: DbCustomField;
+    value: CustomFieldValue | undefined;
+    team: DbTeamMember[];
+    commitOnBlur?: boolean; // Text and number inputs report changes on blur instead of every keystroke
+    onChange: (value: CustomFieldValue) => void;
+}
+
+export const CustomFieldInput: React.FC<CustomFieldInputProps> = ({ field, value, team, commitOnBlur = false, onChange }) => {
+    const { t } = useTranslation();
+    const [draft, setDraft] = useState(value === null || value === undefined ? '' : String(value));
+
+    useEffect(() => {
+        setDraft(value === null || value === undefined ? '' : String(value));
+    }, [value]);
+
+    const parse = (raw: string): CustomFieldValue => {
+        if (field.type !== 'number') return raw.trim() || null;
+        const number = parseFloat(raw.replace(',', '.'));
+        return isNaN(number) ? null : number;
+    };
+
+    switch (field.type) {
+        case 'checkbox':
+            return (
+                <label className="kanban-toggle">
+                    <input type="checkbox" checked={value === true} onChange={e => onChange(e.target.checked)} />
+                </label>
+            );
+        case 'select':
+            return (
+                <select value={typeof value === 'string' ? value : ''} onChange={e => onChange(e.target.value || null)} className="kanban-select">
+                    <option value="">—</option>
+                    {field.options.map(option => <option key={option} value={option}>{option}</option>)}
+                </select>
+            );
+        case 'multi_select': {
+            const selected = Array.isArray(value) ? value : [];
+            return (
+                <div className="label-chips custom-field-options">
+                    {field.options.map(option => (
+                        <button
+                            key={option}
+                            type="button"
+                            className={`label-chip label-chip-toggle ${selected.includes(option) ? 'active' : ''}`}
+                            onClick={() => onChange(selected.includes(option) ? selected.filter(o => o !== option) : [...selected, option])}
+                        >
+                            {option}
+                        </button>
+                    ))}
+                </div>
+            );
+        }
+        case 'member':
+            return (
+                <select value={typeof value === 'string' ? value : ''} onChange={e => onChange(e.target.value || null)} className="kanban-select">
+                    <option value="">{t('dashboard.customFields.noMember')}</option>
+                    {team.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                </select>
+            );
+        case 'date':
+            return (
+                <input
+                    type="date"
+                    value={typeof value === 'string' ? value : ''}
+                    onChange={e => onChange(e.target.value || null)}
+                    className="kanban-input"
+                    style={{ colorScheme: 'dark' }}
+                />
+            );
+        default:
+            return (
+                <input
+                    type={field.type === 'number' ? 'number' : 'text'}
+                    step="any"
+                    value={draft}
+                    placeholder={field.name}
+                    onChange={e => {
+                        setDraft(e.target.value);
+                        if (!commitOnBlur) onChange(parse(e.target.value));
+                    }}
+                    onBlur={() => {
+                        if (commitOnBlur && parse(draft) !== (value ?? null)) onChange(parse(draft));
+                    }}
+                    className="kanban-input"
+                />
+            );
+    }
+};
+
+interface CustomFieldsEditorProps {
+    fields: DbCustomField[];
+    values: CustomValues;
+    team: DbTeamMember[];
+    canEdit: boolean;
+    commitOnBlur?: boolean;
+    onChange: (values: CustomValues) => void;
+}
+
+/**
+ * All custom fields of the organization, used by the new task form and the task modal.
+ */
+export const CustomFieldsEditor: React.FC<CustomFieldsEditorProps> = ({ fields, values, team, canEdit, commitOnBlur, onChange }) => {
+    if (fields.length === 0) return null;
+
+    return (
+        <div className="custom-fields">
+            {fields.map(field => (
+                <div key={field.id} className="custom-field-row">
+                    <span className="task-modal-label">{field.name}</span>
+                    {canEdit ? (
+                        <CustomFieldInput
+                            field={field}
+                            value={values[field.id]}
+                            team={team}
+                            commitOnBlur={commitOnBlur}
+                            onChange={value => onChange(setFieldValue(values, field.id, value))}
+                        />
+                    ) : (
+                        <span className="task-modal-value">{formatFieldValue(field, values[field.id], team)}</span>
+                    )}
+                </div>
+            ))}
+        </div>
+    );
+};
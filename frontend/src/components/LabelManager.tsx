@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { createLabel, updateLabel, deleteLabel, LABEL_COLORS, type DbLabel } from '../lib/labelService';
+
+interface LabelManagerProps {
+    organizationId: string;
+    labels: DbLabel[];
+    usage: Record<string, number>; // Task count per label id
+    onChange: (labels: DbLabel[]) => void;
+}
+
+/**
+ * Owner-only list of the organization's labels. Changes are saved right away.
+ */
+export const LabelManager: React.FC<LabelManagerProps> = ({ organizationId, labels, usage, onChange }) => {
+    const { t } = useTranslation();
+    const [newName, setNewName] = useState('');
+    const [error, setError] = useState('');
+
+    const isTaken = (name: string, exceptId?: string) =>
+        labels.some(l => l.id !== exceptId && l.name.toLowerCase() === name.trim().toLowerCase());
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!newName.trim()) return;
+        if (isTaken(newName)) {
+            setError(t('dashboard.labels.errors.duplicate'));
+            return;
+        }
+        setError('');
+        try {
+            const created = await createLabel(organizationId, newName, LABEL_COLORS[labels.length % LABEL_COLORS.length]);
+            onChange([...labels, created].sort((a, b) => a.name.localeCompare(b.name)));
+            setNewName('');
+        } catch (err) {
+            console.error('Failed to create label:', err);
+            setError(t('dashboard.labels.errors.save'));
+        }
+    };
+
+    const handleUpdate = async (label: DbLabel, updates: Partial<Pick<DbLabel, 'name' | 'color'>>) => {
+        if (updates.name !== undefined) {
+            updates.name = updates.name.trim();
+            if (!updates.name || updates.name === label.name) return;
+            if (isTaken(updates.name, label.id)) {
+                setError(t('dashboard.labels.errors.duplicate'));
+                return;
+            }
+        }
+        setError('');
+        onChange(labels.map(l => l.id === label.id ? { ...l, ...updates } : l));
+        try {
+            await updateLabel(label.id, updates);
+        } catch (err) {
+            console.error('Failed to update label:', err);
+            setError(t('dashboard.labels.errors.save'));
+            onChange(labels);
+        }
+    };
+
+    const handleDelete = async (label: DbLabel) => {
+        const count = usage[label.id] || 0;
+        if (!window.confirm(t('dashboard.labels.confirmDelete', { name: label.name, count }))) return;
+        onChange(labels.filter(l => l.id !== label.id));
+        try {
+            await deleteLabel(label.id);
+        } catch (err) {
+            console.error('Failed to delete label:', err);
+            setError(t('dashboard.labels.errors.save'));
+            onChange(labels);
+        }
+    };
+
+    return (
+        <div className="workflow-editor">
+            <p className="workflow-editor-hint">{t('dashboard.labels.hint')}</p>
+
+            <div className="workflow-columns">
+                {labels.map(label => (
+                    <div key={label.id} className="workflow-column-row">
+                        <input
+                            type="color"
+                            value={label.color}
+                            onChange={e => handleUpdate(label, { color: e.target.value })}
+                            className="workflow-color"
+                        />
+                        <input
+                            type="text"
+                            defaultValue={label.name}
+                            onBlur={e => handleUpdate(label, { name: e.target.value })}
+                            className="kanban-input"
+                        />
+                        <span className="task-subtask-meta">{t('dashboard.labels.usage', { count: usage[label.id] || 0 })}</span>
+                        <div className="workflow-column-actions">
+                            <button type="button" className="kanban-delete" style={{ opacity: 1 }} onClick={() => handleDelete(label)}>✕</button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            <form className="task-checklist-form" onSubmit={handleCreate}>
+                <input
+                    type="text"
+                    placeholder={t('dashboard.labels.add')}
+                    value={newName}
+                    onChange={e => setNewName(e.target.value)}
+                    className="kanban-input"
+                />
+            </form>
+
+            {error && <p className="task-dependency-error">{error}</p>}
+        </div>
+    );
+};
@@ -0,0 +1,184 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+    fetchNotificationPreferences, saveNotificationPreferences, getBrowserTimezone,
+    NOTIFICATION_CATEGORIES, NOTIFICATION_CHANNELS,
+    type DbNotificationPreferences, type NotificationCategory, type NotificationChannel
+} from '../lib/notificationPreferences';
+
+interface NotificationPreferencesFormProps {
+    userId: string;
+}
+
+const DEFAULT_QUIET_START = '22:00';
+const DEFAULT_QUIET_END = '08:00';
+const EMAIL_LANGUAGES = ['ru', 'en', 'kg'];
+
+export const NotificationPreferencesForm: React.FC<NotificationPreferencesFormProps> = ({ userId }) => {
+    const { t, i18n } = useTranslation();
+    const [preferences, setPreferences] = useState<DbNotificationPreferences | null>(null);
+    const [saving, setSaving] = useState(false);
+    const [saved, setSaved] = useState(false);
+
+    useEffect(() => {
+        fetchNotificationPreferences(userId)
+            .then(setPreferences)
+            .catch(err => console.error('Failed to load notification preferences:', err));
+    }, [userId]);
+
+    if (!preferences) return null;
+
+    const getChannels = (category: NotificationCategory) => preferences.channels[category] ?? ['in_app'];
+
+    const setChannels = (category: NotificationCategory, channels: NotificationChannel[]) => {
+        setPreferences({ ...preferences, channels: { ...preferences.channels, [category]: channels } });
+    };
+
+    const toggleChannel = (category: NotificationCategory, channel: NotificationChannel) => {
+        const current = getChannels(category);
+        setChannels(category, current.includes(channel)
+            ? current.filter(c => c !== channel)
+            : NOTIFICATION_CHANNELS.filter(c => c === channel || current.includes(c)));
+    };
+
+    const quietHoursEnabled = !!(preferences.quiet_hours_start && preferences.quiet_hours_end);
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSaving(true);
+        setSaved(false);
+        try {
+            const updated = await saveNotificationPreferences({
+                channels: preferences.channels,
+                quiet_hours_start: preferences.quiet_hours_start,
+                quiet_hours_end: preferences.quiet_hours_end,
+                timezone: getBrowserTimezone(),
+                digest: preferences.digest,
+                daily_digest: preferences.daily_digest,
+                language: EMAIL_LANGUAGES.includes(i18n.language) ? i18n.language : 'ru',
+            });
+            setPreferences({ ...preferences, ...updated });
+            setSaved(true);
+            setTimeout(() => setSaved(false), 3000);
+        } catch (err) {
+            console.error('Failed to save notification preferences:', err);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <form className="glass-card profile-form notification-preferences" onSubmit={handleSave} style={{ marginTop: '2rem' }}>
+            <h3>{t('dashboard.notificationPreferences.title')}</h3>
+
+            <div className="notification-matrix-wrapper">
+                <table className="notification-matrix">
+                    <thead>
+                        <tr>
+                            <th />
+                            {NOTIFICATION_CHANNELS.map(channel => (
+                                <th key={channel}>{t(`dashboard.notificationPreferences.channels.${channel}`)}</th>
+                            ))}
+                            <th>{t('dashboard.notificationPreferences.off')}</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {NOTIFICATION_CATEGORIES.map(category => {
+                            const channels = getChannels(category);
+                            return (
+                                <tr key={category}>
+                                    <td>{t(`dashboard.notificationPreferences.categories.${category}`)}</td>
+                                    {NOTIFICATION_CHANNELS.map(channel => (
+                                        <td key={channel}>
+                                            <input
+                                                type="checkbox"
+                                                checked={channels.includes(channel)}
+                                                onChange={() => toggleChannel(category, channel)}
+                                            />
+                                        </td>
+                                    ))}
+                                    <td>
+                                        <input
+                                            type="checkbox"
+                                            checked={channels.length === 0}
+                                            onChange={() => setChannels(category, channels.length === 0 ? ['in_app'] : [])}
+                                        />
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+
+            <div className="profile-form-grid notification-options">
+                <div className="profile-field">
+                    <label className="notification-option">
+                        <input
+                            type="checkbox"
+                            checked={quietHoursEnabled}
+                            onChange={e => setPreferences({
+                                ...preferences,
+                                quiet_hours_start: e.target.checked ? DEFAULT_QUIET_START : null,
+                                quiet_hours_end: e.target.checked ? DEFAULT_QUIET_END : null,
+                            })}
+                        />
+                        {t('dashboard.notificationPreferences.quietHours')}
+                    </label>
+                    {quietHoursEnabled && (
+                        <div className="notification-quiet-hours">
+                            <input
+                                type="time"
+                                value={preferences.quiet_hours_start?.slice(0, 5) || ''}
+                                onChange={e => setPreferences({ ...preferences, quiet_hours_start: e.target.value || null })}
+                                className="kanban-input"
+                                style={{ colorScheme: 'dark' }}
+                            />
+                            <span>—</span>
+                            <input
+                                type="time"
+                                value={preferences.quiet_hours_end?.slice(0, 5) || ''}
+                                onChange={e => setPreferences({ ...preferences, quiet_hours_end: e.target.value || null })}
+                                className="kanban-input"
+                                style={{ colorScheme: 'dark' }}
+                            />
+                        </div>
+                    )}
+                    <span className="notification-hint">{t('dashboard.notificationPreferences.quietHoursHint')}</span>
+                </div>
+
+                <div className="profile-field">
+                    <label className="notification-option">
+                        <input
+                            type="checkbox"
+                            checked={preferences.daily_digest}
+                            onChange={e => setPreferences({ ...preferences, daily_digest: e.target.checked })}
+                        />
+                        {t('dashboard.notificationPreferences.dailyDigest')}
+                    </label>
+                    <span className="notification-hint">{t('dashboard.notificationPreferences.dailyDigestHint')}</span>
+                    <label className="notification-option">
+                        <input
+                            type="checkbox"
+                            checked={preferences.digest}
+                            onChange={e => setPreferences({ ...preferences, digest: e.target.checked })}
+                        />
+                        {t('dashboard.notificationPreferences.digest')}
+                    </label>
+                    <span className="notification-hint">{t('dashboard.notificationPreferences.digestHint')}</span>
+                </div>
+            </div>
+
+            <div className="profile-form-footer">
+                {saved && (
+                    <span className="profile-saved animate-fade-in-up">
+                        ✅ {t('dashboard.profile.saved')}
+                    </span>
+                )}
+                <button type="submit" className="btn btn-primary" disabled={saving}>
+                    {saving ? t('auth.loading') : t('dashboard.profile.save')}
+                </button>
+            </div>
+        </form>
+    );
+};
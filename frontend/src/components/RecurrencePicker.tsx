@@ -0,0 +1,94 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { RECURRENCE_FREQUENCIES, WEEKDAY_KEYS, type RecurrenceRule } from '../lib/recurrence';
+
+interface RecurrencePickerProps {
+    value: RecurrenceRule | null;
+    onChange: (value: RecurrenceRule | null) => void;
+    defaultDate?: Date; // Seeds the weekday / month day when a rule is first chosen
+}
+
+export const RecurrencePicker: React.FC<RecurrencePickerProps> = ({ value, onChange, defaultDate }) => {
+    const { t } = useTranslation();
+    const seed = defaultDate && !isNaN(defaultDate.getTime()) ? defaultDate : new Date();
+
+    const handleFreqChange = (freq: string) => {
+        if (!freq) {
+            onChange(null);
+            return;
+        }
+        onChange({
+            freq: freq as RecurrenceRule['freq'],
+            interval: value?.interval || 1,
+            weekdays: freq === 'weekly' ? (value?.weekdays?.length ? value.weekdays : [seed.getDay()]) : undefined,
+            monthDay: freq === 'monthly' ? (value?.monthDay || seed.getDate()) : undefined,
+        });
+    };
+
+    const toggleWeekday = (day: number) => {
+        if (!value) return;
+        const current = value.weekdays || [];
+        const weekdays = current.includes(day) ? current.filter(d => d !== day) : [...current, day];
+        // Keep at least one weekday selected
+        if (weekdays.length > 0) onChange({ ...value, weekdays });
+    };
+
+    return (
+        <div className="recurrence-picker">
+            <select
+                value={value?.freq || ''}
+                onChange={e => handleFreqChange(e.target.value)}
+                className="kanban-select"
+            >
+                <option value="">🔁 {t('dashboard.recurrence.none')}</option>
+                {RECURRENCE_FREQUENCIES.map(freq => (
+                    <option key={freq} value={freq}>{t(`dashboard.recurrence.freq.${freq}`)}</option>
+                ))}
+            </select>
+
+            {value && (
+                <label className="recurrence-interval">
+                    {t('dashboard.recurrence.every')}
+                    <input
+                        type="number"
+                        min={1}
+                        max={365}
+                        value={value.interval}
+                        onChange={e => onChange({ ...value, interval: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                        className="kanban-input"
+                    />
+                    {t(`dashboard.recurrence.unit.${value.freq}`)}
+                </label>
+            )}
+
+            {value?.freq === 'weekly' && (
+                <div className="recurrence-weekdays">
+                    {WEEKDAY_KEYS.map(w => (
+                        <button
+                            key={w.day}
+                            type="button"
+                            className={`recurrence-weekday ${value.weekdays?.includes(w.day) ? 'active' : ''}`}
+                            onClick={() => toggleWeekday(w.day)}
+                        >
+                            {t(`dashboard.calendar.days.${w.key}`)}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {value?.freq === 'monthly' && (
+                <label className="recurrence-interval">
+                    {t('dashboard.recurrence.onDay')}
+                    <input
+                        type="number"
+                        min={1}
+                        max={31}
+                        value={value.monthDay || 1}
+                        onChange={e => onChange({ ...value, monthDay: Math.min(31, Math.max(1, parseInt(e.target.value, 10) || 1)) })}
+                        className="kanban-input"
+                    />
+                </label>
+            )}
+        </div>
+    );
+};
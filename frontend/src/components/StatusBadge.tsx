@@ -0,0 +1,19 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { getStatusColor, getStatusLabel, type DbWorkflowColumn } from '../lib/workflowService';
+
+interface StatusBadgeProps {
+    status: string;
+    workflow: DbWorkflowColumn[];
+}
+
+export const StatusBadge: React.FC<StatusBadgeProps> = ({ status, workflow }) => {
+    const { t } = useTranslation();
+    const color = getStatusColor(workflow, status);
+
+    return (
+        <span className="task-status-badge" style={{ background: `${color}1f`, color }}>
+            {getStatusLabel(workflow, status, t)}
+        </span>
+    );
+};
@@ -0,0 +1,80 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import type { DbTeamMember } from '../lib/teamService';
+
+interface AssigneeListEditorProps {
+    members: DbTeamMember[]; // Current assignees, primary first
+    options: DbTeamMember[]; // Members that can be added, see getEligibleAssignees
+    canEdit: boolean;
+    minCount?: number; // The task modal keeps at least the primary assignee
+    onChange: (members: DbTeamMember[]) => void;
+}
+
+export const AssigneeListEditor: React.FC<AssigneeListEditorProps> = ({ members, options, canEdit, minCount = 0, onChange }) => {
+    const { t } = useTranslation();
+    const available = options.filter(o => !members.some(m => m.id === o.id));
+
+    return (
+        <div className="task-assignees">
+            {members.map((member, index) => (
+                <span key={member.id} className={`task-assignee-chip ${index === 0 && minCount > 0 ? 'primary' : ''}`}>
+                    👤 {member.name}
+                    {canEdit && members.length > minCount && (
+                        <button
+                            type="button"
+                            onClick={() => onChange(members.filter(m => m.id !== member.id))}
+                            title={t('dashboard.assignees.remove')}
+                        >
+                            ✕
+                        </button>
+                    )}
+                </span>
+            ))}
+            {members.length === 0 && !canEdit && <span className="task-modal-value">—</span>}
+            {canEdit && available.length > 0 && (
+                <select
+                    value=""
+                    onChange={e => {
+                        const member = available.find(m => m.id === e.target.value);
+                        if (member) onChange([...members, member]);
+                    }}
+                    className="kanban-select task-assignees-add"
+                >
+                    <option value="">+ {t('dashboard.assignees.add')}</option>
+                    {available.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                </select>
+            )}
+        </div>
+    );
+};
+
+interface ReviewerSelectProps {
+    reviewerId: string | null;
+    creatorName: string; // Reviews the task when nobody is designated
+    team: DbTeamMember[];
+    assigneeIds: string[]; // Assignees cannot review their own work
+    canEdit: boolean;
+    onChange: (reviewerId: string | null) => void;
+}
+
+export const ReviewerSelect: React.FC<ReviewerSelectProps> = ({ reviewerId, creatorName, team, assigneeIds, canEdit, onChange }) => {
+    const { t } = useTranslation();
+    const fallback = t('dashboard.assignees.creatorReviews', { name: creatorName });
+
+    if (!canEdit) {
+        return (
+            <span className="task-modal-value">
+                🔍 {(reviewerId && team.find(m => m.user_id === reviewerId)?.name) || fallback}
+            </span>
+        );
+    }
+
+    return (
+        <select value={reviewerId || ''} onChange={e => onChange(e.target.value || null)} className="kanban-select">
+            <option value="">{fallback}</option>
+            {team
+                .filter(m => m.user_id && (!assigneeIds.includes(m.user_id) || m.user_id === reviewerId))
+                .map(m => <option key={m.id} value={m.user_id}>{m.name}</option>)}
+        </select>
+    );
+};
@@ -0,0 +1,171 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+    fetchAttachments, uploadAttachment, deleteAttachment, getAttachmentUrl, getAttachmentSizeLimit,
+    isImageAttachment, isPdfAttachment, formatFileSize, type DbTaskAttachment
+} from '../lib/attachmentService';
+import type { DbTask } from '../lib/taskService';
+
+interface TaskAttachmentsProps {
+    task: DbTask;
+    currentUserId: string | null;
+}
+
+/**
+ * "Files" tab of the task modal: uploads, image thumbnails and an inline preview for images and PDFs.
+ */
+export const TaskAttachments: React.FC<TaskAttachmentsProps> = ({ task, currentUserId }) => {
+    const { t } = useTranslation();
+    const [attachments, setAttachments] = useState<DbTaskAttachment[]>([]);
+    const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+    const [preview, setPreview] = useState<{ attachment: DbTaskAttachment; url: string } | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [uploading, setUploading] = useState(false);
+    const [error, setError] = useState('');
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        setLoading(true);
+        fetchAttachments(task.id)
+            .then(data => { if (!cancelled) setAttachments(data); })
+            .catch(err => console.error('Failed to load attachments:', err))
+            .finally(() => { if (!cancelled) setLoading(false); });
+        return () => { cancelled = true; };
+    }, [task.id]);
+
+    // Signed URLs for image thumbnails, requested once per attachment
+    useEffect(() => {
+        const missing = attachments.filter(a => isImageAttachment(a) && !thumbnails[a.id]);
+        if (missing.length === 0) return;
+        Promise.all(missing.map(async a => [a.id, await getAttachmentUrl(a)] as const))
+            .then(urls => setThumbnails(prev => ({ ...prev, ...Object.fromEntries(urls) })))
+            .catch(err => console.error('Failed to load thumbnails:', err));
+    }, [attachments, thumbnails]);
+
+    const handleFiles = async (files: FileList | null) => {
+        if (!files || files.length === 0) return;
+        setError('');
+
+        const tooLarge = Array.from(files).filter(file => file.size > getAttachmentSizeLimit(file.type || null));
+        if (tooLarge.length > 0) {
+            setError(tooLarge.map(file => t('dashboard.attachments.tooLarge', {
+                name: file.name,
+                limit: formatFileSize(getAttachmentSizeLimit(file.type || null)),
+            })).join(' '));
+        }
+
+        setUploading(true);
+        try {
+            for (const file of Array.from(files).filter(file => !tooLarge.includes(file))) {
+                try {
+                    const created = await uploadAttachment(task, file);
+                    setAttachments(prev => [created, ...prev]);
+                } catch (err) {
+                    console.error('Failed to upload attachment:', err);
+                    setError(prev => `${prev} ${t('dashboard.attachments.uploadError', { name: file.name })}`.trim());
+                }
+            }
+        } finally {
+            setUploading(false);
+            if (fileInputRef.current) fileInputRef.current.value = '';
+        }
+    };
+
+    const handleOpen = async (attachment: DbTaskAttachment) => {
+        try {
+            if (isImageAttachment(attachment) || isPdfAttachment(attachment)) {
+                setPreview({ attachment, url: thumbnails[attachment.id] || await getAttachmentUrl(attachment) });
+            } else {
+                window.open(await getAttachmentUrl(attachment, true), '_blank', 'noopener,noreferrer');
+            }
+        } catch (err) {
+            console.error('Failed to open attachment:', err);
+            setError(t('dashboard.attachments.openError'));
+        }
+    };
+
+    const handleDelete = async (attachment: DbTaskAttachment) => {
+        if (!confirm(t('dashboard.attachments.confirmDelete', { name: attachment.file_name }))) return;
+        setAttachments(prev => prev.filter(a => a.id !== attachment.id));
+        if (preview?.attachment.id === attachment.id) setPreview(null);
+        try {
+            await deleteAttachment(attachment);
+        } catch (err) {
+            console.error('Failed to delete attachment:', err);
+            setAttachments(prev => [attachment, ...prev]);
+        }
+    };
+
+    return (
+        <div className="task-attachments">
+            <div
+                className="task-attachments-drop"
+                onDragOver={e => e.preventDefault()}
+                onDrop={e => { e.preventDefault(); handleFiles(e.dataTransfer.files); }}
+            >
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    multiple
+                    hidden
+                    onChange={e => handleFiles(e.target.files)}
+                />
+                <button type="button" className="btn btn-outline btn-sm" disabled={uploading} onClick={() => fileInputRef.current?.click()}>
+                    📎 {uploading ? t('dashboard.attachments.uploading') : t('dashboard.attachments.upload')}
+                </button>
+                <span className="task-attachments-hint">{t('dashboard.attachments.hint')}</span>
+            </div>
+
+            {error && <p className="task-dependency-error">{error}</p>}
+
+            {preview && (
+                <div className="task-attachment-preview">
+                    <div className="task-attachment-preview-header">
+                        <span>{preview.attachment.file_name}</span>
+                        <a href={preview.url} target="_blank" rel="noopener noreferrer" className="btn btn-outline btn-sm">↗</a>
+                        <button type="button" className="kanban-delete" style={{ opacity: 1 }} onClick={() => setPreview(null)}>✕</button>
+                    </div>
+                    {isPdfAttachment(preview.attachment) ? (
+                        <iframe src={preview.url} title={preview.attachment.file_name} />
+                    ) : (
+                        <img src={preview.url} alt={preview.attachment.file_name} />
+                    )}
+                </div>
+            )}
+
+            {loading ? (
+                <p className="task-comments-empty">{t('auth.loading')}</p>
+            ) : attachments.length === 0 ? (
+                <p className="task-comments-empty">{t('dashboard.attachments.empty')}</p>
+            ) : (
+                <div className="task-attachment-list">
+                    {attachments.map(attachment => (
+                        <div key={attachment.id} className="task-attachment" onClick={() => handleOpen(attachment)} role="button">
+                            <div className="task-attachment-thumb">
+                                {isImageAttachment(attachment) && thumbnails[attachment.id] ? (
+                                    <img src={thumbnails[attachment.id]} alt={attachment.file_name} />
+                                ) : (
+                                    <span>{isPdfAttachment(attachment) ? '📕' : '📄'}</span>
+                                )}
+                            </div>
+                            <div className="task-attachment-info">
+                                <span className="task-attachment-name" title={attachment.file_name}>{attachment.file_name}</span>
+                                <span className="task-subtask-meta">
+                                    {formatFileSize(attachment.size)} · {attachment.uploader_name || '—'}
+                                </span>
+                            </div>
+                            {attachment.uploaded_by === currentUserId && (
+                                <button
+                                    type="button"
+                                    className="kanban-delete"
+                                    onClick={(e) => { e.stopPropagation(); handleDelete(attachment); }}
+                                >✕</button>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+    getSubtasks, addChecklistItem, updateChecklistItem, removeChecklistItem, formatAssignees,
+    type DbTask, type DbChecklistItem
+} from '../lib/taskService';
+import type { DbTeamMember } from '../lib/teamService';
+import { getDoneStatus, type DbWorkflowColumn } from '../lib/workflowService';
+import { StatusBadge } from './StatusBadge';
+
+interface TaskBreakdownProps {
+    task: DbTask;
+    tasks: DbTask[];
+    team: DbTeamMember[];
+    workflow: DbWorkflowColumn[];
+    assignees: DbTeamMember[];
+    canAddSubtasks: boolean;
+    onOpenTask: (taskId: string) => void;
+    onCreateSubtask: (input: { title: string; assignee: DbTeamMember | null; deadline: string }) => Promise<void>;
+    onChecklistChange: (taskId: string, checklist: DbChecklistItem[]) => void;
+}
+
+/**
+ * Subtasks and checklist section of the task detail modal.
+ * Checklist edits are saved immediately; subtask creation is delegated to the page
+ * so it goes through the same notification path as regular tasks.
+ */
+export const TaskBreakdown: React.FC<TaskBreakdownProps> = ({
+    task,
+    tasks,
+    team,
+    workflow,
+    assignees,
+    canAddSubtasks,
+    onOpenTask,
+    onCreateSubtask,
+    onChecklistChange
+}) => {
+    const { t } = useTranslation();
+    const subtasks = getSubtasks(tasks, task.id);
+    const doneStatus = getDoneStatus(workflow);
+    const checklist = task.checklist || [];
+
+    const [showSubtaskForm, setShowSubtaskForm] = useState(false);
+    const [subtaskTitle, setSubtaskTitle] = useState('');
+    const [subtaskAssigneeId, setSubtaskAssigneeId] = useState('');
+    const [subtaskDeadline, setSubtaskDeadline] = useState('');
+    const [newItem, setNewItem] = useState('');
+    const [saving, setSaving] = useState(false);
+
+    const handleCreateSubtask = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!subtaskTitle.trim()) return;
+        setSaving(true);
+        try {
+            await onCreateSubtask({
+                title: subtaskTitle.trim(),
+                assignee: assignees.find(m => m.id === subtaskAssigneeId) || null,
+                deadline: subtaskDeadline,
+            });
+            setSubtaskTitle('');
+            setSubtaskDeadline('');
+            setShowSubtaskForm(false);
+        } catch (err) {
+            console.error('Failed to create subtask:', err);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleAddItem = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!newItem.trim()) return;
+        try {
+            const position = checklist.length > 0 ? Math.max(...checklist.map(i => i.position)) + 1 : 0;
+            const item = await addChecklistItem(task.id, newItem.trim(), position);
+            onChecklistChange(task.id, [...checklist, item]);
+            setNewItem('');
+        } catch (err) {
+            console.error('Failed to add checklist item:', err);
+        }
+    };
+
+    const handleToggleItem = async (item: DbChecklistItem) => {
+        // Optimistic update
+        onChecklistChange(task.id, checklist.map(i => i.id === item.id ? { ...i, done: !i.done } : i));
+        try {
+            await updateChecklistItem(item.id, { done: !item.done });
+        } catch (err) {
+            console.error('Failed to update checklist item:', err);
+            onChecklistChange(task.id, checklist);
+        }
+    };
+
+    const handleRemoveItem = async (item: DbChecklistItem) => {
+        onChecklistChange(task.id, checklist.filter(i => i.id !== item.id));
+        try {
+            await removeChecklistItem(item.id);
+        } catch (err) {
+            console.error('Failed to remove checklist item:', err);
+            onChecklistChange(task.id, checklist);
+        }
+    };
+
+    return (
+        <div className="task-breakdown">
+            {/* Subtasks */}
+            <div className="task-modal-field">
+                <div className="task-breakdown-header">
+                    <span className="task-modal-label">{t('dashboard.kanban.subtasks')} ({subtasks.filter(s => s.status === doneStatus).length}/{subtasks.length})</span>
+                    {canAddSubtasks && !showSubtaskForm && (
+                        <button type="button" className="task-breakdown-add" onClick={() => setShowSubtaskForm(true)}>
+                            + {t('dashboard.kanban.addSubtask')}
+                        </button>
+                    )}
+                </div>
+
+                {subtasks.map(sub => (
+                    <div key={sub.id} className="task-subtask-item" onClick={() => onOpenTask(sub.id)} role="button">
+                        <StatusBadge status={sub.status} workflow={workflow} />
+                        <span className={`task-subtask-title ${sub.status === doneStatus ? 'done' : ''}`}>{sub.title}</span>
+                        <span className="task-subtask-meta">
+                            👤 {formatAssignees(sub, team)}
+                            {sub.deadline && ` · ${new Date(sub.deadline).toLocaleDateString([], { month: 'short', day: 'numeric' })}`}
+                        </span>
+                    </div>
+                ))}
+
+                {showSubtaskForm && (
+                    <form className="task-subtask-form" onSubmit={handleCreateSubtask}>
+                        <input
+                            type="text"
+                            placeholder={t('dashboard.kanban.taskTitle')}
+                            value={subtaskTitle}
+                            onChange={e => setSubtaskTitle(e.target.value)}
+                            className="kanban-input"
+                            autoFocus
+                        />
+                        <div className="kanban-form-row">
+                            <select
+                                value={subtaskAssigneeId}
+                                onChange={e => setSubtaskAssigneeId(e.target.value)}
+                                className="kanban-select"
+                            >
+                                <option value="">{t('dashboard.calendar.taskDetails.assignee')}: —</option>
+                                {assignees.map(m => (
+                                    <option key={m.id} value={m.id}>{m.name}</option>
+                                ))}
+                            </select>
+                            <input
+                                type="datetime-local"
+                                value={subtaskDeadline}
+                                onChange={e => setSubtaskDeadline(e.target.value)}
+                                className="kanban-input kanban-date-input"
+                            />
+                        </div>
+                        <div className="kanban-form-row kanban-form-row-end">
+                            <div className="kanban-form-actions">
+                                <button type="button" className="btn btn-outline btn-sm" onClick={() => setShowSubtaskForm(false)}>
+                                    {t('dashboard.kanban.cancel')}
+                                </button>
+                                <button type="submit" className="btn btn-primary btn-sm" disabled={!subtaskTitle.trim() || saving}>
+                                    {t('dashboard.kanban.create')}
+                                </button>
+                            </div>
+                        </div>
+                    </form>
+                )}
+            </div>
+
+            {/* Checklist */}
+            <div className="task-modal-field">
+                <span className="task-modal-label">{t('dashboard.kanban.checklist')} ({checklist.filter(i => i.done).length}/{checklist.length})</span>
+                {checklist.map(item => (
+                    <label key={item.id} className="task-checklist-item">
+                        <input type="checkbox" checked={item.done} onChange={() => handleToggleItem(item)} />
+                        <span className={item.done ? 'done' : ''}>{item.title}</span>
+                        <button type="button" className="kanban-delete" onClick={(e) => { e.preventDefault(); handleRemoveItem(item); }}>✕</button>
+                    </label>
+                ))}
+                <form className="task-checklist-form" onSubmit={handleAddItem}>
+                    <input
+                        type="text"
+                        placeholder={t('dashboard.kanban.addChecklistItem')}
+                        value={newItem}
+                        onChange={e => setNewItem(e.target.value)}
+                        className="kanban-input"
+                    />
+                </form>
+            </div>
+        </div>
+    );
+};
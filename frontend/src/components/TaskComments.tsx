@@ -0,0 +1,184 @@
+import React, { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { RichTextEditor } from './RichTextEditor';
+import {
+    fetchComments, createComment, updateComment, deleteComment, extractMentions, highlightMentions,
+    type DbTaskComment
+} from '../lib/commentService';
+import { composeNotification, sendNotification } from '../lib/notificationService';
+import { notifyWatchers } from '../lib/watcherService';
+import { stripHtml } from '../lib/utils';
+import type { DbTask } from '../lib/taskService';
+import type { DbTeamMember } from '../lib/teamService';
+
+interface TaskCommentsProps {
+    task: DbTask;
+    team: DbTeamMember[];
+    currentUserId: string | null;
+    onPosted?: (comment: DbTaskComment) => void;
+}
+
+export const TaskComments: React.FC<TaskCommentsProps> = ({ task, team, currentUserId, onPosted }) => {
+    const { t } = useTranslation();
+    const [comments, setComments] = useState<DbTaskComment[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [draft, setDraft] = useState('');
+    const [posting, setPosting] = useState(false);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [editDraft, setEditDraft] = useState('');
+
+    useEffect(() => {
+        let cancelled = false;
+        setLoading(true);
+        fetchComments(task.id)
+            .then(data => { if (!cancelled) setComments(data); })
+            .catch(err => console.error('Failed to load comments:', err))
+            .finally(() => { if (!cancelled) setLoading(false); });
+        return () => { cancelled = true; };
+    }, [task.id]);
+
+    const notifyMentions = async (members: DbTeamMember[]) => {
+        for (const member of members) {
+            if (member.user_id === currentUserId) continue;
+            await sendNotification(member.user_id, composeNotification(t, 'mention', { template: 'mention', task: task.title }, `/dashboard/tasks?task=${task.id}&tab=comments`));
+        }
+    };
+
+    const handlePost = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!stripHtml(draft)) return;
+        setPosting(true);
+        try {
+            const created = await createComment({
+                task_id: task.id,
+                content: draft,
+                organization_id: task.organization_id,
+            });
+            setComments(prev => [...prev, created]);
+            setDraft('');
+            onPosted?.(created);
+
+            // Mentioned people get the more specific notification, everyone else watching gets this one
+            const mentioned = extractMentions(created.content, team);
+            await notifyMentions(mentioned);
+            await notifyWatchers(task, composeNotification(t, 'task_watch', {
+                template: 'comment',
+                task: task.title,
+                excerpt: stripHtml(created.content).slice(0, 120),
+            }, `/dashboard/tasks?task=${task.id}&tab=comments`), mentioned.map(m => m.user_id));
+        } catch (err) {
+            console.error('Failed to post comment:', err);
+        } finally {
+            setPosting(false);
+        }
+    };
+
+    const handleSaveEdit = async (comment: DbTaskComment) => {
+        if (!stripHtml(editDraft)) return;
+        try {
+            const updated = await updateComment(comment.id, editDraft);
+            setComments(prev => prev.map(c => c.id === comment.id ? updated : c));
+            setEditingId(null);
+
+            // Only notify people who were not mentioned before the edit
+            const previous = new Set(extractMentions(comment.content, team).map(m => m.user_id));
+            await notifyMentions(extractMentions(updated.content, team).filter(m => !previous.has(m.user_id)));
+        } catch (err) {
+            console.error('Failed to update comment:', err);
+        }
+    };
+
+    const handleDelete = async (id: string) => {
+        if (!window.confirm(t('dashboard.comments.confirmDelete'))) return;
+        const previous = comments;
+        setComments(prev => prev.filter(c => c.id !== id));
+        try {
+            await deleteComment(id);
+        } catch (err) {
+            console.error('Failed to delete comment:', err);
+            setComments(previous);
+        }
+    };
+
+    const insertMention = (member: DbTeamMember) => {
+        setDraft(prev => `${prev}@${member.name}&nbsp;`);
+    };
+
+    return (
+        <div className="task-comments">
+            <span className="task-modal-label">{t('dashboard.comments.title')} ({comments.length})</span>
+
+            {loading ? (
+                <p className="task-comments-empty">{t('auth.loading')}</p>
+            ) : comments.length === 0 ? (
+                <p className="task-comments-empty">{t('dashboard.comments.empty')}</p>
+            ) : (
+                <div className="task-comments-list">
+                    {comments.map(comment => {
+                        const author = team.find(m => m.user_id === comment.user_id);
+                        const isAuthor = comment.user_id === currentUserId;
+                        return (
+                            <div key={comment.id} className="task-comment">
+                                <div className="task-comment-header">
+                                    <strong>{author?.name || comment.author_name}</strong>
+                                    <span className="task-comment-time">
+                                        {new Date(comment.created_at).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                                        {comment.updated_at && ` · ${t('dashboard.comments.edited')}`}
+                                    </span>
+                                    {isAuthor && editingId !== comment.id && (
+                                        <span className="task-comment-actions">
+                                            <button type="button" onClick={() => { setEditingId(comment.id); setEditDraft(comment.content); }}>
+                                                {t('dashboard.team.edit')}
+                                            </button>
+                                            <button type="button" onClick={() => handleDelete(comment.id)}>
+                                                {t('dashboard.team.delete')}
+                                            </button>
+                                        </span>
+                                    )}
+                                </div>
+                                {editingId === comment.id ? (
+                                    <div className="task-comment-edit">
+                                        <RichTextEditor value={editDraft} onChange={setEditDraft} />
+                                        <div className="kanban-form-actions">
+                                            <button type="button" className="btn btn-outline btn-sm" onClick={() => setEditingId(null)}>
+                                                {t('dashboard.kanban.cancel')}
+                                            </button>
+                                            <button type="button" className="btn btn-primary btn-sm" onClick={() => handleSaveEdit(comment)}>
+                                                {t('dashboard.team.save')}
+                                            </button>
+                                        </div>
+                                    </div>
+                                ) : (
+                                    <div
+                                        className="task-comment-body kanban-card-desc"
+                                        dangerouslySetInnerHTML={{ __html: highlightMentions(comment.content, team) }}
+                                    />
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+
+            <form className="task-comment-form" onSubmit={handlePost}>
+                <RichTextEditor
+                    placeholder={t('dashboard.comments.placeholder')}
+                    value={draft}
+                    onChange={setDraft}
+                />
+                <div className="task-comment-form-footer">
+                    <div className="task-comment-mentions">
+                        {team.filter(m => m.user_id && m.user_id !== currentUserId).slice(0, 8).map(m => (
+                            <button key={m.id} type="button" className="task-mention-chip" onClick={() => insertMention(m)}>
+                                @{m.name}
+                            </button>
+                        ))}
+                    </div>
+                    <button type="submit" className="btn btn-primary btn-sm" disabled={posting || !stripHtml(draft)}>
+                        {t('dashboard.comments.send')}
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+};
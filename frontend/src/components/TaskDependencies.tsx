@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+    addDependency, removeDependency, wouldCreateDependencyCycle,
+    type DbTaskDependency
+} from '../lib/dependencyService';
+import { formatAssignees, type DbTask } from '../lib/taskService';
+import type { DbTeamMember } from '../lib/teamService';
+import { getDoneStatus, type DbWorkflowColumn } from '../lib/workflowService';
+import { StatusBadge } from './StatusBadge';
+
+interface TaskDependenciesProps {
+    task: DbTask;
+    tasks: DbTask[];
+    dependencies: DbTaskDependency[];
+    team: DbTeamMember[];
+    workflow: DbWorkflowColumn[];
+    canEdit: boolean;
+    onOpenTask: (taskId: string) => void;
+    onDependenciesChange: (dependencies: DbTaskDependency[]) => void;
+}
+
+/**
+ * "Blocked by" / "Blocks" section of the task detail modal.
+ */
+export const TaskDependencies: React.FC<TaskDependenciesProps> = ({
+    task,
+    tasks,
+    dependencies,
+    team,
+    workflow,
+    canEdit,
+    onOpenTask,
+    onDependenciesChange
+}) => {
+    const { t } = useTranslation();
+    const [direction, setDirection] = useState<'blocked_by' | 'blocks'>('blocked_by');
+    const [otherId, setOtherId] = useState('');
+    const [error, setError] = useState('');
+    const [saving, setSaving] = useState(false);
+
+    const upstream = dependencies.filter(d => d.task_id === task.id);
+    const downstream = dependencies.filter(d => d.blocked_by_id === task.id);
+    const linkedIds = new Set([...upstream.map(d => d.blocked_by_id), ...downstream.map(d => d.task_id)]);
+    const candidates = tasks.filter(t => t.id !== task.id && !linkedIds.has(t.id));
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!otherId) return;
+        const [taskId, blockedById] = direction === 'blocked_by' ? [task.id, otherId] : [otherId, task.id];
+
+        if (wouldCreateDependencyCycle(dependencies, taskId, blockedById)) {
+            setError(t('dashboard.dependencies.cycle'));
+            return;
+        }
+
+        setSaving(true);
+        setError('');
+        try {
+            const created = await addDependency(taskId, blockedById, task.organization_id);
+            onDependenciesChange([...dependencies, created]);
+            setOtherId('');
+        } catch (err: any) {
+            console.error('Failed to add dependency:', err);
+            setError(err?.message === 'Dependency cycle' ? t('dashboard.dependencies.cycle') : t('dashboard.dependencies.saveError'));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleRemove = async (dependency: DbTaskDependency) => {
+        onDependenciesChange(dependencies.filter(d => d.id !== dependency.id));
+        try {
+            await removeDependency(dependency.id);
+        } catch (err) {
+            console.error('Failed to remove dependency:', err);
+            onDependenciesChange(dependencies);
+        }
+    };
+
+    const renderLink = (dependency: DbTaskDependency, linkedId: string) => {
+        const linked = tasks.find(t => t.id === linkedId);
+        if (!linked) return null;
+        return (
+            <div key={dependency.id} className="task-subtask-item" onClick={() => onOpenTask(linked.id)} role="button">
+                <StatusBadge status={linked.status} workflow={workflow} />
+                <span className={`task-subtask-title ${linked.status === getDoneStatus(workflow) ? 'done' : ''}`}>{linked.title}</span>
+                <span className="task-subtask-meta">
+                    👤 {formatAssignees(linked, team)}
+                </span>
+                {canEdit && (
+                    <button
+                        type="button"
+                        className="kanban-delete"
+                        onClick={(e) => { e.stopPropagation(); handleRemove(dependency); }}
+                    >✕</button>
+                )}
+            </div>
+        );
+    };
+
+    return (
+        <div className="task-dependencies">
+            <div className="task-modal-field">
+                <span className="task-modal-label">⛔ {t('dashboard.dependencies.blockedBy')} ({upstream.length})</span>
+                {upstream.length === 0 && <p className="task-comments-empty">{t('dashboard.dependencies.none')}</p>}
+                {upstream.map(d => renderLink(d, d.blocked_by_id))}
+            </div>
+
+            <div className="task-modal-field">
+                <span className="task-modal-label">➡ {t('dashboard.dependencies.blocks')} ({downstream.length})</span>
+                {downstream.length === 0 && <p className="task-comments-empty">{t('dashboard.dependencies.none')}</p>}
+                {downstream.map(d => renderLink(d, d.task_id))}
+            </div>
+
+            {canEdit && candidates.length > 0 && (
+                <form className="task-dependency-form" onSubmit={handleAdd}>
+                    <div className="kanban-form-row">
+                        <select
+                            value={direction}
+                            onChange={e => { setDirection(e.target.value as 'blocked_by' | 'blocks'); setError(''); }}
+                            className="kanban-select"
+                        >
+                            <option value="blocked_by">{t('dashboard.dependencies.blockedBy')}</option>
+                            <option value="blocks">{t('dashboard.dependencies.blocks')}</option>
+                        </select>
+                        <select
+                            value={otherId}
+                            onChange={e => { setOtherId(e.target.value); setError(''); }}
+                            className="kanban-select"
+                        >
+                            <option value="">{t('dashboard.dependencies.selectTask')}</option>
+                            {candidates.map(c => (
+                                <option key={c.id} value={c.id}>{c.title}</option>
+                            ))}
+                        </select>
+                        <button type="submit" className="btn btn-primary btn-sm" disabled={!otherId || saving}>
+                            {t('dashboard.dependencies.add')}
+                        </button>
+                    </div>
+                    {error && <p className="task-dependency-error">{error}</p>}
+                </form>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,228 @@
+import React, { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { EMPTY_FILTERS, hasActiveFilters, normalizeFilters, parseFieldFilter, type TaskFilters } from '../lib/taskFilters';
+import { fetchSavedViews, createSavedView, deleteSavedView, type DbSavedView } from '../lib/savedViewService';
+import type { DbTeamMember } from '../lib/teamService';
+import type { DbLabel } from '../lib/labelService';
+import type { DbCustomField } from '../lib/customFieldService';
+
+interface TaskFilterBarProps {
+    organizationId: string;
+    filters: TaskFilters;
+    team: DbTeamMember[];
+    labels: DbLabel[];
+    customFields: DbCustomField[];
+    userId: string | null;
+    isOwner: boolean;
+    onChange: (filters: TaskFilters) => void;
+}
+
+const sameFilters = (a: TaskFilters, b: TaskFilters) =>
+    (Object.keys(EMPTY_FILTERS) as (keyof TaskFilters)[]).every(key => a[key] === b[key]);
+
+/**
+ * Search, filters and saved views above the board. The filters themselves live in the URL,
+ * the bar only edits them.
+ */
+export const TaskFilterBar: React.FC<TaskFilterBarProps> = ({ organizationId, filters, team, labels, customFields, userId, isOwner, onChange }) => {
+    const { t } = useTranslation();
+    const [views, setViews] = useState<DbSavedView[]>([]);
+    const [showSave, setShowSave] = useState(false);
+    const [viewName, setViewName] = useState('');
+    const [shared, setShared] = useState(false);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        if (!organizationId) return;
+        fetchSavedViews(organizationId)
+            .then(setViews)
+            .catch(err => console.error('Failed to load saved views:', err));
+    }, [organizationId]);
+
+    const activeView = views.find(v => sameFilters(normalizeFilters(v.filters), filters)) || null;
+
+    const update = (updates: Partial<TaskFilters>) => onChange({ ...filters, ...updates });
+
+    const fieldFilter = parseFieldFilter(filters.field);
+    const filterField = customFields.find(f => f.id === fieldFilter.fieldId) || null;
+    const updateFieldValue = (value: string) => update({ field: `${fieldFilter.fieldId}:${value}` });
+
+    // Value control of the custom field filter; empty means "any value"
+    const renderFieldValue = (field: DbCustomField) => {
+        switch (field.type) {
+            case 'select':
+            case 'multi_select':
+                return (
+                    <select value={fieldFilter.value} onChange={e => updateFieldValue(e.target.value)} className="kanban-select">
+                        <option value="">{t('dashboard.filters.anyValue')}</option>
+                        {field.options.map(option => <option key={option} value={option}>{option}</option>)}
+                    </select>
+                );
+            case 'member':
+                return (
+                    <select value={fieldFilter.value} onChange={e => updateFieldValue(e.target.value)} className="kanban-select">
+                        <option value="">{t('dashboard.filters.anyValue')}</option>
+                        {team.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                    </select>
+                );
+            case 'checkbox':
+                return (
+                    <select value={fieldFilter.value || 'true'} onChange={e => updateFieldValue(e.target.value)} className="kanban-select">
+                        <option value="true">{t('dashboard.customFields.checked')}</option>
+                        <option value="false">{t('dashboard.customFields.unchecked')}</option>
+                    </select>
+                );
+            default:
+                return (
+                    <input
+                        type={field.type === 'text' ? 'search' : field.type}
+                        value={fieldFilter.value}
+                        onChange={e => updateFieldValue(e.target.value)}
+                        placeholder={t('dashboard.filters.anyValue')}
+                        className="kanban-input"
+                    />
+                );
+        }
+    };
+
+    const handleSelectView = (viewId: string) => {
+        const view = views.find(v => v.id === viewId);
+        onChange(view ? normalizeFilters(view.filters) : EMPTY_FILTERS);
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!viewName.trim()) return;
+        setSaving(true);
+        setError('');
+        try {
+            const created = await createSavedView(organizationId, viewName.trim(), filters, shared);
+            setViews(prev => [...prev, created].sort((a, b) => a.name.localeCompare(b.name)));
+            setViewName('');
+            setShared(false);
+            setShowSave(false);
+        } catch (err) {
+            console.error('Failed to save view:', err);
+            setError(t('dashboard.filters.saveError'));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleDeleteView = async (view: DbSavedView) => {
+        if (!confirm(t('dashboard.filters.confirmDelete', { name: view.name }))) return;
+        setViews(prev => prev.filter(v => v.id !== view.id));
+        try {
+            await deleteSavedView(view.id);
+        } catch (err) {
+            console.error('Failed to delete view:', err);
+            setViews(prev => [...prev, view]);
+        }
+    };
+
+    return (
+        <div className="task-filter-bar glass-card">
+            <div className="task-filter-row">
+                <input
+                    type="search"
+                    value={filters.q}
+                    onChange={e => update({ q: e.target.value })}
+                    placeholder={t('dashboard.filters.search')}
+                    className="kanban-input task-filter-search"
+                />
+                <select value={filters.assignee} onChange={e => update({ assignee: e.target.value })} className="kanban-select">
+                    <option value="">{t('dashboard.filters.anyAssignee')}</option>
+                    {team.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                </select>
+                <select value={filters.creator} onChange={e => update({ creator: e.target.value })} className="kanban-select">
+                    <option value="">{t('dashboard.filters.anyCreator')}</option>
+                    {team.filter(m => m.user_id).map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                </select>
+                <select value={filters.priority} onChange={e => update({ priority: e.target.value as TaskFilters['priority'] })} className="kanban-select">
+                    <option value="">{t('dashboard.filters.anyPriority')}</option>
+                    <option value="high">{t('dashboard.priority.high')}</option>
+                    <option value="medium">{t('dashboard.priority.medium')}</option>
+                    <option value="low">{t('dashboard.priority.low')}</option>
+                </select>
+                {labels.length > 0 && (
+                    <select value={filters.label} onChange={e => update({ label: e.target.value })} className="kanban-select">
+                        <option value="">{t('dashboard.filters.anyLabel')}</option>
+                        {labels.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+                    </select>
+                )}
+                {customFields.length > 0 && (
+                    <select value={fieldFilter.fieldId} onChange={e => update({ field: e.target.value ? `${e.target.value}:` : '' })} className="kanban-select">
+                        <option value="">{t('dashboard.filters.anyField')}</option>
+                        {customFields.map(f => <option key={f.id} value={f.id}>{f.name}</option>)}
+                    </select>
+                )}
+                {filterField && renderFieldValue(filterField)}
+                <label className="task-filter-range">
+                    {t('dashboard.filters.deadline')}
+                    <input type="date" value={filters.from} onChange={e => update({ from: e.target.value })} className="kanban-input" />
+                    —
+                    <input type="date" value={filters.to} onChange={e => update({ to: e.target.value })} className="kanban-input" />
+                </label>
+            </div>
+
+            <div className="task-filter-row">
+                <label className="kanban-toggle">
+                    <input type="checkbox" checked={filters.overdue} onChange={e => update({ overdue: e.target.checked })} />
+                    {t('dashboard.filters.overdue')}
+                </label>
+                <label className="kanban-toggle">
+                    <input type="checkbox" checked={filters.mine} onChange={e => update({ mine: e.target.checked })} />
+                    {t('dashboard.filters.mine')}
+                </label>
+                <label className="kanban-toggle">
+                    <input type="checkbox" checked={filters.createdByMe} onChange={e => update({ createdByMe: e.target.checked })} />
+                    {t('dashboard.filters.createdByMe')}
+                </label>
+
+                <div className="task-filter-views">
+                    <select value={activeView?.id || ''} onChange={e => handleSelectView(e.target.value)} className="kanban-select">
+                        <option value="">{t('dashboard.filters.views')}</option>
+                        {views.map(v => (
+                            <option key={v.id} value={v.id}>{v.is_shared ? '👥 ' : ''}{v.name}</option>
+                        ))}
+                    </select>
+                    {activeView && (activeView.user_id === userId || isOwner) && (
+                        <button type="button" className="kanban-delete" style={{ opacity: 1 }} onClick={() => handleDeleteView(activeView)}>✕</button>
+                    )}
+                    {hasActiveFilters(filters) && !activeView && (
+                        <button type="button" className="btn btn-outline btn-sm" onClick={() => setShowSave(!showSave)}>
+                            💾 {t('dashboard.filters.saveView')}
+                        </button>
+                    )}
+                    {hasActiveFilters(filters) && (
+                        <button type="button" className="btn btn-outline btn-sm" onClick={() => onChange(EMPTY_FILTERS)}>
+                            {t('dashboard.filters.clear')}
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            {showSave && hasActiveFilters(filters) && !activeView && (
+                <form className="task-filter-row" onSubmit={handleSave}>
+                    <input
+                        type="text"
+                        value={viewName}
+                        onChange={e => setViewName(e.target.value)}
+                        placeholder={t('dashboard.filters.viewName')}
+                        className="kanban-input"
+                        autoFocus
+                    />
+                    <label className="kanban-toggle">
+                        <input type="checkbox" checked={shared} onChange={e => setShared(e.target.checked)} />
+                        {t('dashboard.filters.shared')}
+                    </label>
+                    <button type="submit" className="btn btn-primary btn-sm" disabled={saving || !viewName.trim()}>
+                        {t('dashboard.team.save')}
+                    </button>
+                    {error && <p className="task-dependency-error">{error}</p>}
+                </form>
+            )}
+        </div>
+    );
+};
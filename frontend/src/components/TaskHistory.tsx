@@ -0,0 +1,159 @@
+import React, { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { fetchTaskActivity, fetchDeletedTaskActivity, type DbTaskActivity } from '../lib/activityService';
+import { describeRecurrence } from '../lib/recurrence';
+import type { DbTeamMember } from '../lib/teamService';
+import { getStatusLabel, type DbWorkflowColumn } from '../lib/workflowService';
+import { formatDuration } from '../lib/timeService';
+import { getLinkInfo, type TaskLink } from '../lib/links';
+import { formatFieldValue, type CustomValues, type DbCustomField } from '../lib/customFieldService';
+
+const formatDateTime = (value: string) =>
+    new Date(value).toLocaleString([], { year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const useActivityFormatters = (team: DbTeamMember[], workflow: DbWorkflowColumn[], customFields: DbCustomField[] = []) => {
+    const { t } = useTranslation();
+
+    const actorName = (entry: DbTaskActivity) =>
+        (entry.actor_id && team.find(m => m.user_id === entry.actor_id)?.name) || entry.actor_name || '—';
+
+    const fieldLabel = (field: string) => t(`dashboard.history.fields.${field}`, field);
+
+    const formatValue = (field: string, value: string | null) => {
+        if (value === null) return '—';
+        if (field === 'status') return getStatusLabel(workflow, value, t);
+        if (field === 'priority') return t(`dashboard.priority.${value}`, value);
+        if (field === 'deadline') return formatDateTime(value);
+        if (field === 'recurrence') return describeRecurrence(JSON.parse(value), t);
+        if (field === 'estimate_minutes') return formatDuration(Number(value));
+        if (field === 'custom_values') {
+            const values = JSON.parse(value) as CustomValues;
+            return customFields
+                .filter(f => f.id in values)
+                .map(f => `${f.name}: ${formatFieldValue(f, values[f.id], team)}`)
+                .join('; ') || '—';
+        }
+        if (field === 'assignee_ids') {
+            return (JSON.parse(value) as string[]).map(id => team.find(m => m.user_id === id)?.name || '—').join(', ') || '—';
+        }
+        if (field === 'reviewer_id') return team.find(m => m.user_id === value)?.name || '—';
+        if (field === 'links') return (JSON.parse(value) as TaskLink[]).map(link => getLinkInfo(link).label).join(', ') || '—';
+        return value;
+    };
+
+    return { actorName, fieldLabel, formatValue };
+};
+
+interface TaskHistoryProps {
+    taskId: string;
+    team: DbTeamMember[];
+    workflow: DbWorkflowColumn[];
+    customFields?: DbCustomField[];
+}
+
+/**
+ * Timeline of changes made to a single task, newest first.
+ */
+export const TaskHistory: React.FC<TaskHistoryProps> = ({ taskId, team, workflow, customFields }) => {
+    const { t } = useTranslation();
+    const { actorName, fieldLabel, formatValue } = useActivityFormatters(team, workflow, customFields);
+    const [entries, setEntries] = useState<DbTaskActivity[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        let cancelled = false;
+        setLoading(true);
+        fetchTaskActivity(taskId)
+            .then(data => { if (!cancelled) setEntries(data); })
+            .catch(err => console.error('Failed to load task history:', err))
+            .finally(() => { if (!cancelled) setLoading(false); });
+        return () => { cancelled = true; };
+    }, [taskId]);
+
+    if (loading) return <p className="task-comments-empty">{t('auth.loading')}</p>;
+    if (entries.length === 0) return <p className="task-comments-empty">{t('dashboard.history.empty')}</p>;
+
+    return (
+        <div className="task-history">
+            {entries.map(entry => (
+                <div key={entry.id} className="task-history-item">
+                    <span className={`task-history-dot task-history-${entry.action}`} />
+                    <div className="task-history-content">
+                        <div className="task-history-text">
+                            <strong>{actorName(entry)}</strong>{' '}
+                            {entry.action === 'updated' && entry.field ? (
+                                <>
+                                    {t('dashboard.history.changed')} <em>{fieldLabel(entry.field)}</em>
+                                    {entry.field !== 'description' && (
+                                        <>
+                                            : <span className="task-history-old">{formatValue(entry.field, entry.old_value)}</span>
+                                            {' → '}
+                                            <span className="task-history-new">{formatValue(entry.field, entry.new_value)}</span>
+                                        </>
+                                    )}
+                                </>
+                            ) : (
+                                t(`dashboard.history.${entry.action}`)
+                            )}
+                        </div>
+                        {entry.reason && <span className="task-history-reason">“{entry.reason}”</span>}
+                        <span className="task-history-time">{formatDateTime(entry.created_at)}</span>
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+interface DeletedTasksLogProps {
+    organizationId: string;
+    team: DbTeamMember[];
+    workflow: DbWorkflowColumn[];
+}
+
+/**
+ * Audit view of tasks removed from the board. The owner sees who deleted what; others only see their own deletions.
+ */
+export const DeletedTasksLog: React.FC<DeletedTasksLogProps> = ({ organizationId, team, workflow }) => {
+    const { t } = useTranslation();
+    const { actorName, formatValue } = useActivityFormatters(team, workflow);
+    const [entries, setEntries] = useState<DbTaskActivity[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        fetchDeletedTaskActivity(organizationId)
+            .then(setEntries)
+            .catch(err => console.error('Failed to load deleted tasks:', err))
+            .finally(() => setLoading(false));
+    }, [organizationId]);
+
+    if (loading) return <p className="task-comments-empty">{t('auth.loading')}</p>;
+    if (entries.length === 0) return <p className="task-comments-empty">{t('dashboard.history.noDeleted')}</p>;
+
+    return (
+        <div className="task-history">
+            {entries.map(entry => {
+                const snapshot = (entry.snapshot || {}) as Record<string, string | null>;
+                return (
+                    <div key={entry.id} className="task-history-item">
+                        <span className="task-history-dot task-history-deleted" />
+                        <div className="task-history-content">
+                            <div className="task-history-text">
+                                <strong>{entry.task_title}</strong>
+                                {snapshot.status && (
+                                    <span className="task-history-old"> · {formatValue('status', snapshot.status)}</span>
+                                )}
+                                {snapshot.assignee && (
+                                    <span className="task-history-old"> · 👤 {snapshot.assignee}</span>
+                                )}
+                            </div>
+                            <span className="task-history-time">
+                                {t('dashboard.history.deletedBy')} {actorName(entry)} · {formatDateTime(entry.created_at)}
+                            </span>
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
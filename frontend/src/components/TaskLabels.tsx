@@ -0,0 +1,66 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { getTaskLabels, type DbLabel } from '../lib/labelService';
+
+interface LabelChipsProps {
+    labelIds: string[];
+    labels: DbLabel[];
+}
+
+export const LabelChips: React.FC<LabelChipsProps> = ({ labelIds, labels }) => {
+    const taskLabels = getTaskLabels(labelIds, labels);
+    if (taskLabels.length === 0) return null;
+    return (
+        <div className="label-chips">
+            {taskLabels.map(label => (
+                <span key={label.id} className="label-chip" style={{ '--label-color': label.color } as React.CSSProperties}>
+                    {label.name}
+                </span>
+            ))}
+        </div>
+    );
+};
+
+interface TaskLabelPickerProps {
+    labelIds: string[];
+    labels: DbLabel[];
+    canEdit: boolean;
+    onChange: (labelIds: string[]) => void;
+}
+
+/**
+ * Labels field of the task modal: every organization label as a toggleable chip.
+ */
+export const TaskLabelPicker: React.FC<TaskLabelPickerProps> = ({ labelIds, labels, canEdit, onChange }) => {
+    const { t } = useTranslation();
+
+    if (!canEdit) {
+        return labelIds.length > 0
+            ? <LabelChips labelIds={labelIds} labels={labels} />
+            : <span className="task-modal-value">—</span>;
+    }
+
+    if (labels.length === 0) {
+        return <span className="task-subtask-meta">{t('dashboard.labels.none')}</span>;
+    }
+
+    const toggle = (labelId: string) => {
+        onChange(labelIds.includes(labelId) ? labelIds.filter(id => id !== labelId) : [...labelIds, labelId]);
+    };
+
+    return (
+        <div className="label-chips">
+            {labels.map(label => (
+                <button
+                    key={label.id}
+                    type="button"
+                    className={`label-chip label-chip-toggle ${labelIds.includes(label.id) ? 'active' : ''}`}
+                    style={{ '--label-color': label.color } as React.CSSProperties}
+                    onClick={() => toggle(label.id)}
+                >
+                    {label.name}
+                </button>
+            ))}
+        </div>
+    );
+};
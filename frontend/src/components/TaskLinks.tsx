@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { createLink, getLinkInfo, moveLink, normalizeUrl, type TaskLink } from '../lib/links';
+
+interface LinkBadgesProps {
+    links: TaskLink[];
+    compact?: boolean; // Icons only, e.g. in lists
+}
+
+/**
+ * Read-only list of a task's links.
+ */
+export const LinkBadges: React.FC<LinkBadgesProps> = ({ links, compact = false }) => {
+    if (links.length === 0) return null;
+    return (
+        <div className="link-badges">
+            {links.map(link => {
+                const info = getLinkInfo(link);
+                return (
+                    <a
+                        key={link.id}
+                        href={normalizeUrl(link.url)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className={`link-badge link-badge-${info.type}`}
+                        title={compact ? info.label : link.url}
+                        onClick={e => e.stopPropagation()}
+                    >
+                        {info.icon}{!compact && ` ${info.label}`}
+                    </a>
+                );
+            })}
+        </div>
+    );
+};
+
+interface TaskLinksEditorProps {
+    links: TaskLink[];
+    canEdit: boolean;
+    onChange: (links: TaskLink[]) => void;
+}
+
+/**
+ * Add, rename, reorder and remove links in the task modal.
+ */
+export const TaskLinksEditor: React.FC<TaskLinksEditorProps> = ({ links, canEdit, onChange }) => {
+    const { t } = useTranslation();
+    const [url, setUrl] = useState('');
+    const [label, setLabel] = useState('');
+
+    if (!canEdit) {
+        return links.length > 0
+            ? <LinkBadges links={links} />
+            : <span className="task-modal-value">—</span>;
+    }
+
+    const handleAdd = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!url.trim()) return;
+        onChange([...links, createLink(url, label)]);
+        setUrl('');
+        setLabel('');
+    };
+
+    const updateLabel = (id: string, value: string) => {
+        onChange(links.map(link => link.id === id ? { ...link, label: value.trim() } : link));
+    };
+
+    return (
+        <div className="task-links">
+            {links.map((link, index) => {
+                const info = getLinkInfo(link);
+                return (
+                    <div key={link.id} className="task-subtask-item task-link-item">
+                        <span className="task-link-icon">{info.icon}</span>
+                        <input
+                            type="text"
+                            defaultValue={link.label}
+                            placeholder={info.label}
+                            onBlur={e => e.target.value.trim() !== link.label && updateLabel(link.id, e.target.value)}
+                            className="task-link-label"
+                        />
+                        <a href={normalizeUrl(link.url)} target="_blank" rel="noopener noreferrer" className="task-subtask-meta task-link-url" title={link.url}>
+                            {link.url}
+                        </a>
+                        <button type="button" className="task-link-move" disabled={index === 0} onClick={() => onChange(moveLink(links, index, -1))}>↑</button>
+                        <button type="button" className="task-link-move" disabled={index === links.length - 1} onClick={() => onChange(moveLink(links, index, 1))}>↓</button>
+                        <button type="button" className="kanban-delete" onClick={() => onChange(links.filter(l => l.id !== link.id))}>✕</button>
+                    </div>
+                );
+            })}
+
+            <form className="kanban-form-row" onSubmit={handleAdd}>
+                <input
+                    type="text"
+                    value={url}
+                    onChange={e => setUrl(e.target.value)}
+                    placeholder={t('dashboard.links.urlPlaceholder')}
+                    className="kanban-input"
+                />
+                <input
+                    type="text"
+                    value={label}
+                    onChange={e => setLabel(e.target.value)}
+                    placeholder={t('dashboard.links.label')}
+                    className="kanban-input"
+                />
+                <button type="submit" className="btn btn-primary btn-sm" disabled={!url.trim()}>
+                    {t('dashboard.links.add')}
+                </button>
+            </form>
+        </div>
+    );
+};
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { resolveAssigneeByRole, type DbTaskTemplate } from '../lib/templateService';
+import type { DbTeamMember } from '../lib/teamService';
+
+interface TaskTemplatePickerProps {
+    templates: DbTaskTemplate[];
+    members: DbTeamMember[]; // Candidates for role-based assignment
+    fallbackName: string;
+    canDelete: (template: DbTaskTemplate) => boolean;
+    onCreate: (template: DbTaskTemplate) => Promise<void>;
+    onDelete: (template: DbTaskTemplate) => void;
+}
+
+/**
+ * "Create from template" row of the new task form, with a preview of who gets each task.
+ */
+export const TaskTemplatePicker: React.FC<TaskTemplatePickerProps> = ({
+    templates,
+    members,
+    fallbackName,
+    canDelete,
+    onCreate,
+    onDelete
+}) => {
+    const { t } = useTranslation();
+    const [selectedId, setSelectedId] = useState('');
+    const [creating, setCreating] = useState(false);
+
+    const selected = templates.find(tpl => tpl.id === selectedId) || null;
+
+    if (templates.length === 0) {
+        return <p className="task-template-hint">{t('dashboard.templates.empty')}</p>;
+    }
+
+    const handleCreate = async () => {
+        if (!selected) return;
+        setCreating(true);
+        try {
+            await onCreate(selected);
+            setSelectedId('');
+        } finally {
+            setCreating(false);
+        }
+    };
+
+    return (
+        <div className="task-template-picker">
+            <div className="kanban-form-row">
+                <select value={selectedId} onChange={e => setSelectedId(e.target.value)} className="kanban-select">
+                    <option value="">{t('dashboard.templates.choose')}</option>
+                    {templates.map(tpl => (
+                        <option key={tpl.id} value={tpl.id}>
+                            {tpl.name}{tpl.items.length > 1 ? ` (${t('dashboard.templates.taskCount', { count: tpl.items.length })})` : ''}
+                        </option>
+                    ))}
+                </select>
+                <button type="button" className="btn btn-outline btn-sm" disabled={!selected || creating} onClick={handleCreate}>
+                    📋 {t('dashboard.templates.create')}
+                </button>
+                {selected && canDelete(selected) && (
+                    <button
+                        type="button"
+                        className="kanban-delete"
+                        style={{ opacity: 1 }}
+                        title={t('dashboard.templates.delete')}
+                        onClick={() => { onDelete(selected); setSelectedId(''); }}
+                    >✕</button>
+                )}
+            </div>
+
+            {selected && (
+                <div className="task-template-items">
+                    {selected.items.map((item, index) => {
+                        const assignee = resolveAssigneeByRole(item.assignee_role, members);
+                        return (
+                            <div key={index} className="task-subtask-item">
+                                <span className={`task-priority-dot priority-${item.priority}`} />
+                                <span className="task-subtask-title">{item.title}</span>
+                                <span className="task-subtask-meta">
+                                    {item.assignee_role && `${item.assignee_role} → `}{assignee?.name || fallbackName}
+                                    {item.deadline_offset_days !== null && ` · ${t('dashboard.templates.offset', { count: item.deadline_offset_days })}`}
+                                    {item.checklist.length > 0 && ` · ☑ ${item.checklist.length}`}
+                                </span>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,196 @@
+import React, { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+    fetchTimeEntries, addTimeEntry, deleteTimeEntry, getEntryMinutes, formatDuration, parseDuration, toDateKey,
+    type DbTimeEntry
+} from '../lib/timeService';
+import type { DbTask } from '../lib/taskService';
+
+interface TaskTimeLogProps {
+    task: DbTask;
+    userId: string | null;
+    isOwner: boolean;
+    canEditEstimate: boolean;
+    runningTimer: DbTimeEntry | null;
+    onToggleTimer: (task: DbTask) => void;
+    onEstimateChange: (task: DbTask, minutes: number | null) => void;
+}
+
+/**
+ * "Time" tab of the task modal: estimate, timer, manual entries and the log.
+ */
+export const TaskTimeLog: React.FC<TaskTimeLogProps> = ({
+    task,
+    userId,
+    isOwner,
+    canEditEstimate,
+    runningTimer,
+    onToggleTimer,
+    onEstimateChange
+}) => {
+    const { t } = useTranslation();
+    const [entries, setEntries] = useState<DbTimeEntry[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [estimate, setEstimate] = useState(task.estimate_minutes ? formatDuration(task.estimate_minutes) : '');
+    const [date, setDate] = useState(() => toDateKey(new Date()));
+    const [duration, setDuration] = useState('');
+    const [note, setNote] = useState('');
+    const [error, setError] = useState('');
+    const [saving, setSaving] = useState(false);
+
+    // Reload when a timer starts or stops so the running entry shows up in the log
+    useEffect(() => {
+        let cancelled = false;
+        setLoading(true);
+        fetchTimeEntries(task.organization_id, { taskId: task.id })
+            .then(data => { if (!cancelled) setEntries(data); })
+            .catch(err => console.error('Failed to load time entries:', err))
+            .finally(() => { if (!cancelled) setLoading(false); });
+        return () => { cancelled = true; };
+    }, [task.id, task.organization_id, runningTimer?.id]);
+
+    const logged = entries.reduce((sum, entry) => sum + getEntryMinutes(entry), 0);
+    const isRunning = runningTimer?.task_id === task.id;
+
+    const handleEstimateBlur = () => {
+        const minutes = estimate.trim() ? parseDuration(estimate) : null;
+        if (estimate.trim() && !minutes) {
+            setError(t('dashboard.time.errors.duration'));
+            return;
+        }
+        setError('');
+        if (minutes !== task.estimate_minutes) onEstimateChange(task, minutes);
+    };
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const minutes = parseDuration(duration);
+        if (!minutes) {
+            setError(t('dashboard.time.errors.duration'));
+            return;
+        }
+        setSaving(true);
+        setError('');
+        try {
+            const [year, month, day] = date.split('-').map(Number);
+            const created = await addTimeEntry(task, { startedAt: new Date(year, month - 1, day, 9, 0), minutes, note });
+            setEntries(prev => [created, ...prev].sort((a, b) => b.started_at.localeCompare(a.started_at)));
+            setDuration('');
+            setNote('');
+        } catch (err) {
+            console.error('Failed to add time entry:', err);
+            setError(t('dashboard.time.errors.save'));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleDelete = async (entry: DbTimeEntry) => {
+        setEntries(prev => prev.filter(e => e.id !== entry.id));
+        try {
+            await deleteTimeEntry(entry.id);
+        } catch (err) {
+            console.error('Failed to delete time entry:', err);
+            setEntries(prev => [...prev, entry].sort((a, b) => b.started_at.localeCompare(a.started_at)));
+        }
+    };
+
+    return (
+        <div className="task-time">
+            <div className="task-modal-grid">
+                <div className="task-modal-field">
+                    <span className="task-modal-label">{t('dashboard.time.estimate')}</span>
+                    {canEditEstimate ? (
+                        <input
+                            type="text"
+                            value={estimate}
+                            onChange={e => setEstimate(e.target.value)}
+                            onBlur={handleEstimateBlur}
+                            placeholder={t('dashboard.time.durationPlaceholder')}
+                            className="kanban-input"
+                        />
+                    ) : (
+                        <span>{task.estimate_minutes ? formatDuration(task.estimate_minutes) : '—'}</span>
+                    )}
+                </div>
+                <div className="task-modal-field">
+                    <span className="task-modal-label">{t('dashboard.time.logged')}</span>
+                    <span className={task.estimate_minutes && logged > task.estimate_minutes ? 'task-time-over' : ''}>
+                        {formatDuration(logged)}
+                        {task.estimate_minutes ? ` / ${formatDuration(task.estimate_minutes)}` : ''}
+                    </span>
+                </div>
+            </div>
+
+            {task.estimate_minutes ? (
+                <div className="task-progress">
+                    <div className="task-progress-track">
+                        <div
+                            className={`task-progress-fill ${logged > task.estimate_minutes ? 'over' : ''}`}
+                            style={{ width: `${Math.min(100, (logged / task.estimate_minutes) * 100)}%` }}
+                        />
+                    </div>
+                </div>
+            ) : null}
+
+            <button
+                type="button"
+                className={`btn btn-sm ${isRunning ? 'btn-outline' : 'btn-primary'} task-time-toggle`}
+                onClick={() => onToggleTimer(task)}
+            >
+                {isRunning ? `⏹ ${t('dashboard.time.stop')} (${formatDuration(getEntryMinutes(runningTimer!))})` : `▶ ${t('dashboard.time.start')}`}
+            </button>
+
+            <form className="task-time-form" onSubmit={handleAdd}>
+                <div className="kanban-form-row">
+                    <input type="date" value={date} onChange={e => setDate(e.target.value)} className="kanban-input" required />
+                    <input
+                        type="text"
+                        value={duration}
+                        onChange={e => setDuration(e.target.value)}
+                        placeholder={t('dashboard.time.durationPlaceholder')}
+                        className="kanban-input"
+                    />
+                </div>
+                <div className="kanban-form-row">
+                    <input
+                        type="text"
+                        value={note}
+                        onChange={e => setNote(e.target.value)}
+                        placeholder={t('dashboard.time.note')}
+                        className="kanban-input"
+                    />
+                    <button type="submit" className="btn btn-primary btn-sm" disabled={saving || !duration.trim()}>
+                        {t('dashboard.time.add')}
+                    </button>
+                </div>
+                {error && <p className="task-dependency-error">{error}</p>}
+            </form>
+
+            {loading ? (
+                <p className="task-comments-empty">{t('auth.loading')}</p>
+            ) : entries.length === 0 ? (
+                <p className="task-comments-empty">{t('dashboard.time.empty')}</p>
+            ) : (
+                <div className="task-time-entries">
+                    {entries.map(entry => (
+                        <div key={entry.id} className="task-subtask-item">
+                            <span className="task-time-duration">
+                                {entry.ended_at ? formatDuration(entry.minutes) : `⏱ ${formatDuration(getEntryMinutes(entry))}`}
+                            </span>
+                            <span className="task-subtask-title">
+                                {entry.note || <em>{t('dashboard.time.noNote')}</em>}
+                            </span>
+                            <span className="task-subtask-meta">
+                                👤 {entry.user_name || '—'} · {new Date(entry.started_at).toLocaleDateString([], { month: 'short', day: 'numeric' })}
+                            </span>
+                            {entry.ended_at && (entry.user_id === userId || isOwner) && (
+                                <button type="button" className="kanban-delete" onClick={() => handleDelete(entry)}>✕</button>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
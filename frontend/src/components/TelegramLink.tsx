@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+    fetchTelegramLink, createTelegramLinkCode, unlinkTelegram, getTelegramStartLink,
+    type DbTelegramLink, type TelegramLinkCode
+} from '../lib/telegramService';
+
+export const TelegramLinkCard: React.FC = () => {
+    const { t } = useTranslation();
+    const [link, setLink] = useState<DbTelegramLink | null>(null);
+    const [code, setCode] = useState<TelegramLinkCode | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [busy, setBusy] = useState(false);
+
+    const loadLink = () => fetchTelegramLink()
+        .then(data => {
+            setLink(data);
+            if (data) setCode(null);
+        })
+        .catch(err => console.error('Failed to load Telegram link:', err))
+        .finally(() => setLoading(false));
+
+    useEffect(() => {
+        loadLink();
+    }, []);
+
+    const handleCreateCode = async () => {
+        setBusy(true);
+        try {
+            setCode(await createTelegramLinkCode());
+        } catch (err) {
+            console.error('Failed to create Telegram link code:', err);
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleUnlink = async () => {
+        if (!confirm(t('dashboard.telegram.unlinkConfirm'))) return;
+        setBusy(true);
+        try {
+            await unlinkTelegram();
+            setLink(null);
+        } catch (err) {
+            console.error('Failed to unlink Telegram:', err);
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    if (loading) return null;
+
+    const startLink = code ? getTelegramStartLink(code.code) : null;
+
+    return (
+        <div className="glass-card profile-form telegram-link" style={{ marginTop: '2rem' }}>
+            <h3>{t('dashboard.telegram.title')}</h3>
+
+            {link ? (
+                <div className="telegram-link-status">
+                    <span>
+                        ✅ {t('dashboard.telegram.linked', { username: link.username ? `@${link.username}` : link.chat_id })}
+                    </span>
+                    <button type="button" className="btn btn-outline btn-sm" onClick={handleUnlink} disabled={busy}>
+                        {t('dashboard.telegram.unlink')}
+                    </button>
+                </div>
+            ) : code ? (
+                <div className="telegram-link-code">
+                    <p>{t('dashboard.telegram.sendCode')}</p>
+                    <code>/start {code.code}</code>
+                    <p className="notification-hint">
+                        {t('dashboard.telegram.expires', { time: new Date(code.expires_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) })}
+                    </p>
+                    <div className="telegram-link-actions">
+                        {startLink && (
+                            <a href={startLink} target="_blank" rel="noopener noreferrer" className="btn btn-primary btn-sm">
+                                {t('dashboard.telegram.openBot')}
+                            </a>
+                        )}
+                        <button type="button" className="btn btn-outline btn-sm" onClick={loadLink}>
+                            {t('dashboard.telegram.checkLink')}
+                        </button>
+                    </div>
+                </div>
+            ) : (
+                <div className="telegram-link-status">
+                    <span className="notification-hint">{t('dashboard.telegram.description')}</span>
+                    <button type="button" className="btn btn-primary btn-sm" onClick={handleCreateCode} disabled={busy}>
+                        {t('dashboard.telegram.link')}
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
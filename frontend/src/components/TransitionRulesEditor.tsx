@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+    saveTransitionRules, getDefaultTransitionRules, TRANSITION_ROLES,
+    type DbTransitionRule, type TransitionRuleInput, type TransitionRole
+} from '../lib/transitionService';
+import { getStatusLabel, type DbWorkflowColumn } from '../lib/workflowService';
+
+interface TransitionRulesEditorProps {
+    organizationId: string;
+    workflow: DbWorkflowColumn[];
+    rules: DbTransitionRule[];
+    onSaved: (rules: DbTransitionRule[]) => void;
+    onClose: () => void;
+}
+
+const toInput = (rule: DbTransitionRule): TransitionRuleInput => ({
+    from_status: rule.from_status,
+    to_status: rule.to_status,
+    roles: [...rule.roles],
+    require_reason: rule.require_reason,
+    require_approval: rule.require_approval,
+});
+
+/**
+ * Owner-only editor for which status moves are allowed, who may make them
+ * and which ones need a reason or an approval. Moves without a rule are rejected.
+ */
+export const TransitionRulesEditor: React.FC<TransitionRulesEditorProps> = ({ organizationId, workflow, rules: initialRules, onSaved, onClose }) => {
+    const { t } = useTranslation();
+    const [rules, setRules] = useState<TransitionRuleInput[]>(() => initialRules.map(toInput));
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    const updateRule = (index: number, updates: Partial<TransitionRuleInput>) => {
+        setRules(prev => prev.map((r, i) => i === index ? { ...r, ...updates } : r));
+    };
+
+    const toggleRole = (index: number, role: TransitionRole) => {
+        const roles = rules[index].roles;
+        updateRule(index, { roles: roles.includes(role) ? roles.filter(r => r !== role) : [...roles, role] });
+    };
+
+    const addRule = () => {
+        setRules(prev => [...prev, {
+            from_status: null,
+            to_status: workflow[0]?.key || '',
+            roles: [...TRANSITION_ROLES],
+            require_reason: false,
+            require_approval: false,
+        }]);
+    };
+
+    const resetToDefault = () => {
+        setRules(getDefaultTransitionRules(workflow).map(toInput));
+    };
+
+    const handleSave = async () => {
+        if (rules.some(r => r.roles.length === 0)) {
+            setError(t('dashboard.transitions.errors.noRoles'));
+            return;
+        }
+        setSaving(true);
+        setError('');
+        try {
+            const saved = await saveTransitionRules(organizationId, rules);
+            onSaved(saved);
+        } catch (err) {
+            console.error('Failed to save transition rules:', err);
+            setError(t('dashboard.transitions.errors.save'));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="workflow-editor">
+            <p className="workflow-editor-hint">{t('dashboard.transitions.hint')}</p>
+
+            <div className="workflow-columns">
+                {rules.map((rule, index) => (
+                    <div key={index} className="transition-rule">
+                        <div className="workflow-column-row">
+                            <select
+                                value={rule.from_status ?? ''}
+                                onChange={e => updateRule(index, { from_status: e.target.value || null })}
+                                className="kanban-select"
+                            >
+                                <option value="">{t('dashboard.transitions.anyColumn')}</option>
+                                {workflow.map(c => (
+                                    <option key={c.key} value={c.key}>{getStatusLabel(workflow, c.key, t)}</option>
+                                ))}
+                            </select>
+                            <span>→</span>
+                            <select
+                                value={rule.to_status}
+                                onChange={e => updateRule(index, { to_status: e.target.value })}
+                                className="kanban-select"
+                            >
+                                {workflow.map(c => (
+                                    <option key={c.key} value={c.key}>{getStatusLabel(workflow, c.key, t)}</option>
+                                ))}
+                            </select>
+                            <div className="workflow-column-actions">
+                                <button type="button" className="kanban-delete" style={{ opacity: 1 }} onClick={() => setRules(prev => prev.filter((_, i) => i !== index))}>✕</button>
+                            </div>
+                        </div>
+                        <div className="transition-rule-options">
+                            {TRANSITION_ROLES.map(role => (
+                                <label key={role} className="kanban-toggle">
+                                    <input type="checkbox" checked={rule.roles.includes(role)} onChange={() => toggleRole(index, role)} />
+                                    {t(`dashboard.transitions.roles.${role}`)}
+                                </label>
+                            ))}
+                            <label className="kanban-toggle">
+                                <input type="checkbox" checked={rule.require_reason} onChange={e => updateRule(index, { require_reason: e.target.checked })} />
+                                {t('dashboard.transitions.requireReason')}
+                            </label>
+                            <label className="kanban-toggle">
+                                <input type="checkbox" checked={rule.require_approval} onChange={e => updateRule(index, { require_approval: e.target.checked })} />
+                                {t('dashboard.transitions.requireApproval')}
+                            </label>
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            <div className="transition-rule-buttons">
+                <button type="button" className="task-breakdown-add" onClick={addRule}>
+                    + {t('dashboard.transitions.addRule')}
+                </button>
+                <button type="button" className="task-breakdown-add" onClick={resetToDefault}>
+                    ↺ {t('dashboard.transitions.reset')}
+                </button>
+            </div>
+
+            {error && <p className="task-dependency-error">{error}</p>}
+
+            <div className="kanban-form-actions workflow-editor-actions">
+                <button type="button" className="btn btn-outline" onClick={onClose}>
+                    {t('dashboard.kanban.cancel')}
+                </button>
+                <button type="button" className="btn btn-primary" onClick={handleSave} disabled={saving}>
+                    {t('dashboard.team.save')}
+                </button>
+            </div>
+        </div>
+    );
+};
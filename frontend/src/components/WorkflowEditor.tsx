@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { saveWorkflow, makeStatusKey, type DbWorkflowColumn, type WorkflowColumnInput } from '../lib/workflowService';
+
+interface WorkflowEditorProps {
+    organizationId: string;
+    workflow: DbWorkflowColumn[];
+    taskCounts: Record<string, number>;
+    onSaved: (workflow: DbWorkflowColumn[]) => void;
+    onClose: () => void;
+}
+
+/**
+ * Owner-only editor for the organization's board columns.
+ */
+export const WorkflowEditor: React.FC<WorkflowEditorProps> = ({ organizationId, workflow, taskCounts, onSaved, onClose }) => {
+    const { t } = useTranslation();
+    const [columns, setColumns] = useState<WorkflowColumnInput[]>(() => workflow.map(c => ({ ...c })));
+    const [newName, setNewName] = useState('');
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    const updateColumn = (index: number, updates: Partial<WorkflowColumnInput>) => {
+        setColumns(prev => prev.map((c, i) => i === index ? { ...c, ...updates } : c));
+    };
+
+    const setDoneColumn = (index: number) => {
+        setColumns(prev => prev.map((c, i) => ({ ...c, is_done: i === index, is_review: c.is_review && i !== index })));
+    };
+
+    // At most one review column; unchecking it leaves the workflow without one
+    const toggleReviewColumn = (index: number) => {
+        setColumns(prev => prev.map((c, i) => ({ ...c, is_review: i === index && !c.is_review })));
+    };
+
+    const moveColumn = (index: number, offset: number) => {
+        const target = index + offset;
+        if (target < 0 || target >= columns.length) return;
+        setColumns(prev => {
+            const next = [...prev];
+            [next[index], next[target]] = [next[target], next[index]];
+            return next;
+        });
+    };
+
+    const removeColumn = (index: number) => {
+        const column = columns[index];
+        const count = taskCounts[column.key] || 0;
+        if (count > 0 && !window.confirm(t('dashboard.workflow.confirmRemove', { count }))) return;
+        setColumns(prev => prev.filter((_, i) => i !== index));
+    };
+
+    const addColumn = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!newName.trim()) return;
+        setColumns(prev => [...prev, {
+            key: makeStatusKey(newName, prev.map(c => c.key)),
+            name: newName.trim(),
+            color: '#6366f1',
+            position: prev.length,
+            is_done: false,
+            is_review: false,
+            wip_limit: null,
+        }]);
+        setNewName('');
+    };
+
+    const handleSave = async () => {
+        if (columns.length < 2) {
+            setError(t('dashboard.workflow.errors.tooFew'));
+            return;
+        }
+        if (columns.filter(c => c.is_done).length !== 1) {
+            setError(t('dashboard.workflow.errors.noDone'));
+            return;
+        }
+        setSaving(true);
+        setError('');
+        try {
+            const saved = await saveWorkflow(organizationId, columns, columns[0].key);
+            onSaved(saved);
+        } catch (err) {
+            console.error('Failed to save workflow:', err);
+            setError(t('dashboard.workflow.errors.save'));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="workflow-editor">
+            <p className="workflow-editor-hint">{t('dashboard.workflow.hint')}</p>
+
+            <div className="workflow-columns">
+                {columns.map((column, index) => (
+                    <div key={column.key} className="workflow-column-row">
+                        <input
+                            type="color"
+                            value={column.color}
+                            onChange={e => updateColumn(index, { color: e.target.value })}
+                            className="workflow-color"
+                        />
+                        <input
+                            type="text"
+                            value={column.name}
+                            placeholder={t(`dashboard.status.${column.key}`, column.key)}
+                            onChange={e => updateColumn(index, { name: e.target.value })}
+                            className="kanban-input"
+                        />
+                        <input
+                            type="number"
+                            min={0}
+                            value={column.wip_limit ?? ''}
+                            placeholder={t('dashboard.workflow.wipLimit')}
+                            title={t('dashboard.workflow.wipLimit')}
+                            onChange={e => updateColumn(index, { wip_limit: parseInt(e.target.value, 10) > 0 ? parseInt(e.target.value, 10) : null })}
+                            className="kanban-input workflow-wip"
+                        />
+                        <label className="workflow-done" title={t('dashboard.workflow.reviewColumn')}>
+                            <input
+                                type="checkbox"
+                                checked={column.is_review}
+                                disabled={column.is_done}
+                                onChange={() => toggleReviewColumn(index)}
+                            />
+                            🔍
+                        </label>
+                        <label className="workflow-done" title={t('dashboard.workflow.doneColumn')}>
+                            <input type="radio" checked={column.is_done} onChange={() => setDoneColumn(index)} />
+                            ✅
+                        </label>
+                        <div className="workflow-column-actions">
+                            <button type="button" onClick={() => moveColumn(index, -1)} disabled={index === 0}>↑</button>
+                            <button type="button" onClick={() => moveColumn(index, 1)} disabled={index === columns.length - 1}>↓</button>
+                            <button type="button" className="kanban-delete" style={{ opacity: 1 }} onClick={() => removeColumn(index)}>✕</button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            <form className="task-checklist-form" onSubmit={addColumn}>
+                <input
+                    type="text"
+                    placeholder={t('dashboard.workflow.addColumn')}
+                    value={newName}
+                    onChange={e => setNewName(e.target.value)}
+                    className="kanban-input"
+                />
+            </form>
+
+            {error && <p className="task-dependency-error">{error}</p>}
+
+            <div className="kanban-form-actions workflow-editor-actions">
+                <button type="button" className="btn btn-outline" onClick={onClose}>
+                    {t('dashboard.kanban.cancel')}
+                </button>
+                <button type="button" className="btn btn-primary" onClick={handleSave} disabled={saving}>
+                    {t('dashboard.team.save')}
+                </button>
+            </div>
+        </div>
+    );
+};
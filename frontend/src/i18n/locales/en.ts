@@ -149,6 +149,7 @@ export const en = {
             calendar: 'Calendar',
             team: 'Team',
             analytics: 'Analytics',
+            timesheet: 'Timesheet',
             profile: 'Profile',
             geofence: 'Geozones',
         },
@@ -160,6 +161,43 @@ export const en = {
             new_task_msg: 'You have been assigned a task',
             task_review_title: 'Task Review',
             task_review_msg: 'Task is waiting for review',
+            mention_title: 'You were mentioned',
+            mention_msg: 'You were mentioned in a comment on task',
+            task_unblocked_title: 'Task unblocked',
+            task_unblocked_msg: 'All blockers are done, you can start',
+            approval_title: 'Approval requested',
+            approval_msg: 'A status change needs your approval',
+            approved_title: 'Status change approved',
+            rejected_title: 'Status change rejected',
+            task_watch_title: 'Watched task updated',
+            deadline_title: 'Deadline changed',
+            reviewer_title: 'Reviewer assigned',
+            reviewer_msg: 'You were asked to review a task',
+            comment_title: 'New comment on a watched task',
+            join_request_title: 'New join request',
+            join_request_msg: '{{name}} wants to join your organization',
+            viewAll: 'View all notifications',
+            subtitle: 'Everything that was sent to you',
+            allTypes: 'All types',
+            markRead: 'Mark as read',
+            page: 'Page {{page}} of {{total}}',
+            tabs: {
+                all: 'All',
+                unread: 'Unread',
+                read: 'Read',
+            },
+            types: {
+                task_assigned: 'Assignment',
+                task_review: 'Review',
+                task_completed: 'Completed',
+                task_unblocked: 'Unblocked',
+                approval: 'Approval',
+                mention: 'Mention',
+                task_watch: 'Watched task',
+                system: 'System',
+                deadline: 'Deadline',
+                join_request: 'Join request',
+            },
         },
         status: {
             new: 'New',
@@ -204,6 +242,380 @@ export const en = {
                 complete: 'Complete',
                 approve: 'Approve',
             },
+            subtasks: 'Subtasks',
+            addSubtask: 'Add subtask',
+            checklist: 'Checklist',
+            addChecklistItem: 'Add checklist item and press Enter',
+            topLevelOnly: 'Top-level only',
+            swimlanes: {
+                label: 'Group by',
+                none: 'No swimlanes',
+                assignee: 'By assignee',
+                priority: 'By priority',
+                deadline: 'By deadline',
+                line: 'By reporting line',
+                unassigned: 'Unassigned',
+                other: 'Other',
+                buckets: {
+                    overdue: 'Overdue',
+                    this_week: 'This week',
+                    later: 'Later',
+                    no_deadline: 'No deadline',
+                },
+                cannotDrop: 'Cards can\'t be moved into this lane',
+                cannotAssign: 'You can\'t assign tasks to this member',
+            },
+            parentTask: 'Parent task',
+            progress: 'Progress',
+            tabs: {
+                details: 'Details',
+                time: 'Time',
+                files: 'Files',
+                comments: 'Comments',
+                history: 'History',
+            },
+        },
+        history: {
+            empty: 'No changes recorded yet',
+            created: 'created the task',
+            deleted: 'deleted the task',
+            changed: 'changed',
+            deletedTasks: 'Deleted tasks',
+            deletedBy: 'Deleted by',
+            noDeleted: 'No deleted tasks',
+            fields: {
+                title: 'title',
+                description: 'description',
+                status: 'status',
+                priority: 'priority',
+                assignee: 'assignee',
+                deadline: 'deadline',
+                link_url: 'link',
+                links: 'links',
+                custom_values: 'custom fields',
+                parent_id: 'parent task',
+                recurrence: 'repeat',
+                estimate_minutes: 'estimate',
+                assignee_ids: 'assignees',
+                reviewer_id: 'reviewer',
+            },
+        },
+        recurrence: {
+            none: 'Does not repeat',
+            repeat: 'Repeats',
+            stop: 'Stop repeating',
+            every: 'Every',
+            onDay: 'On day',
+            freq: {
+                daily: 'Daily',
+                weekly: 'Weekly',
+                monthly: 'Monthly',
+                after_completion: 'After completion',
+            },
+            unit: {
+                daily: 'day(s)',
+                weekly: 'week(s)',
+                monthly: 'month(s)',
+                after_completion: 'day(s) after completion',
+            },
+            summary: {
+                daily: 'Every day',
+                everyNDays: 'Every {{n}} days',
+                weekly: 'Every week on {{days}}',
+                everyNWeeks: 'Every {{n}} weeks on {{days}}',
+                monthly: 'Every month on day {{day}}',
+                everyNMonths: 'Every {{n}} months on day {{day}}',
+                afterCompletion: '{{n}} day(s) after completion',
+            },
+        },
+        dependencies: {
+            blockedBy: 'Blocked by',
+            blocks: 'Blocks',
+            blocked: 'Blocked',
+            none: 'None',
+            add: 'Link',
+            selectTask: 'Select a task...',
+            cycle: 'This link would create a dependency cycle',
+            saveError: 'Could not save the link',
+            warnStart: 'This task is still blocked by: {{tasks}}. Start it anyway?',
+            warnStartBulk: 'Some tasks are still blocked: {{tasks}}. Start them anyway?',
+        },
+        workflow: {
+            title: 'Columns',
+            tabs: {
+                columns: 'Columns',
+                transitions: 'Transitions',
+                labels: 'Labels',
+                fields: 'Fields',
+            },
+            hint: 'Columns are shown on the board in this order. Mark one column as the final "done" state.',
+            wipLimit: 'WIP limit',
+            doneColumn: 'Final "done" column',
+            reviewColumn: 'Review column: tasks here wait for the reviewer',
+            addColumn: 'Add a column and press Enter...',
+            confirmRemove: 'This column has {{count}} task(s). They will be moved to the first column. Continue?',
+            wipExceeded: 'The "{{column}}" column is at its limit of {{limit}} task(s). Move the task anyway?',
+            errors: {
+                tooFew: 'A workflow needs at least two columns',
+                noDone: 'Mark exactly one column as done',
+                save: 'Could not save the workflow',
+            },
+        },
+        transitions: {
+            hint: 'Only the moves listed here are allowed. A rule for a specific column wins over an "any column" rule.',
+            anyColumn: 'Any column',
+            roles: {
+                assignee: 'Assignee',
+                creator: 'Creator',
+                reviewer: 'Reviewer',
+                manager: 'Manager',
+                owner: 'Owner',
+            },
+            requireReason: 'Reason required',
+            requireApproval: 'Approval required',
+            addRule: 'Add rule',
+            reset: 'Reset to default',
+            reasonPrompt: 'Why is the task moving to "{{to}}"?',
+            sentForApproval: 'The move was sent for approval',
+            alreadyPending: 'This task already has a status change waiting for approval',
+            pending: '{{name}} asks to move the task from "{{from}}" to "{{to}}"',
+            approve: 'Approve',
+            reject: 'Reject',
+            rejected: {
+                role: 'Moving to "{{to}}" is only allowed for: {{roles}}',
+                notAllowed: 'Tasks cannot be moved from "{{from}}" to "{{to}}"',
+            },
+            errors: {
+                noRoles: 'Every rule needs at least one role',
+                save: 'Could not save the rules',
+            },
+        },
+        filters: {
+            search: 'Search tasks…',
+            anyAssignee: 'Any assignee',
+            anyCreator: 'Any creator',
+            anyPriority: 'Any priority',
+            anyLabel: 'Any label',
+            anyField: 'Any custom field',
+            anyValue: 'Any value',
+            deadline: 'Deadline',
+            overdue: 'Overdue only',
+            mine: 'Assigned to me',
+            createdByMe: 'Created by me',
+            views: 'Saved views',
+            saveView: 'Save view',
+            viewName: 'View name',
+            shared: 'Share with organization',
+            clear: 'Clear',
+            saveError: 'Could not save the view',
+            confirmDelete: 'Delete view "{{name}}"?',
+        },
+        bulk: {
+            select: 'Select (Shift+click for a range)',
+            selected: 'Selected: {{count}}',
+            status: 'Change status…',
+            assignee: 'Re-assign…',
+            priority: 'Change priority…',
+            shiftDeadline: 'Shift deadline (days)',
+            delete: 'Delete',
+            clear: 'Clear selection',
+            confirmDelete: 'Delete {{count}} selected tasks?',
+            result: 'Done: {{succeeded}}, failed: {{failed}}',
+            errors: {
+                noAccess: 'You can\'t edit this task',
+                noDeadline: 'The task has no deadline',
+            },
+        },
+        time: {
+            estimate: 'Estimate',
+            logged: 'Logged',
+            start: 'Start timer',
+            stop: 'Stop timer',
+            durationPlaceholder: '1:30 or 1.5h',
+            note: 'Note',
+            add: 'Log time',
+            empty: 'No time logged yet',
+            noNote: 'no note',
+            errors: {
+                duration: 'Enter a duration like 1:30, 1.5 or 90m',
+                save: 'Could not save the time entry',
+            },
+        },
+        timesheet: {
+            title: 'Timesheet',
+            subtitle: 'Logged hours by task and day',
+            allMembers: 'All members',
+            member: 'Member',
+            task: 'Task',
+            total: 'Total',
+            export: 'Export CSV',
+            empty: 'No time logged this week',
+        },
+        attachments: {
+            upload: 'Attach files',
+            uploading: 'Uploading…',
+            hint: 'Drop files here. Images up to 5 MB, PDFs up to 20 MB, other files up to 10 MB.',
+            empty: 'No files attached',
+            tooLarge: '"{{name}}" is larger than {{limit}}.',
+            uploadError: 'Could not upload "{{name}}".',
+            openError: 'Could not open the file',
+            confirmDelete: 'Delete "{{name}}"?',
+        },
+        links: {
+            title: 'Links',
+            add: 'Add link',
+            urlPlaceholder: 'URL: Google Docs, Figma, GitHub…',
+            label: 'Label (optional)',
+        },
+        templates: {
+            choose: 'Create from template…',
+            create: 'Create from template',
+            taskCount: '{{count}} tasks',
+            offset: 'due in {{count}} d',
+            empty: 'No templates yet. Select tasks on the board and save them as a template.',
+            saveAs: 'Save as template',
+            namePrompt: 'Template name',
+            saved: 'Template "{{name}}" saved',
+            saveError: 'Could not save the template',
+            createError: 'Some tasks could not be created from the template',
+            delete: 'Delete template',
+            confirmDelete: 'Delete template "{{name}}"?',
+        },
+        labels: {
+            title: 'Labels',
+            none: 'No labels yet. The owner can add them in the board settings.',
+            hint: 'Labels are shared by the whole organization. Renaming or deleting a label updates every task that uses it.',
+            add: 'New label name, press Enter',
+            usage: '{{count}} task(s)',
+            confirmDelete: 'Delete label "{{name}}"? It will be removed from {{count}} task(s).',
+            byLabel: 'By label',
+            noLabels: 'No labelled tasks yet',
+            errors: {
+                duplicate: 'A label with this name already exists',
+                save: 'Could not save the label',
+            },
+        },
+        customFields: {
+            hint: 'Extra task fields for your organization. They appear in the new task form and the task modal. The type of a field cannot be changed later.',
+            name: 'Field name',
+            add: 'Add field',
+            options: 'Options, comma separated',
+            noMember: 'Nobody',
+            checked: 'Yes',
+            unchecked: 'No',
+            confirmDelete: 'Delete field "{{name}}"? Its values will be removed from all tasks.',
+            analytics: 'Custom fields',
+            filled: 'Filled in on {{count}} of {{total}} tasks',
+            sum: 'Sum',
+            average: 'Average',
+            types: {
+                text: 'Text',
+                number: 'Number',
+                date: 'Date',
+                select: 'Single select',
+                multi_select: 'Multi select',
+                member: 'Team member',
+                checkbox: 'Checkbox',
+            },
+            errors: {
+                noOptions: 'Add at least one option',
+                save: 'Could not save the field',
+            },
+        },
+        watchers: {
+            watch: 'Watch',
+            watching: 'Watching',
+            changes: {
+                status: 'status {{from}} → {{to}}',
+                assignee: 'assigned to {{name}}',
+                deadline: 'deadline {{date}}',
+            },
+        },
+        assignees: {
+            title: 'Assignees',
+            add: 'Add assignee',
+            remove: 'Remove assignee',
+            reviewer: 'Reviewer',
+            creatorReviews: 'Creator ({{name}})',
+        },
+        realtime: {
+            conflict: 'Someone else just changed this task ({{fields}}). The view shows their latest version.',
+            deleted: 'The task "{{title}}" was deleted by someone else.',
+        },
+        notificationPreferences: {
+            title: 'Notifications',
+            off: 'Off',
+            channels: {
+                in_app: 'In app',
+                email: 'Email',
+                telegram: 'Telegram',
+            },
+            categories: {
+                task_assigned: 'Task assigned to me',
+                task_review: 'Review and approval requests',
+                task_completed: 'Task completed',
+                mention: 'Mentions',
+                task_updates: 'Watched and unblocked tasks',
+                deadline: 'Deadlines',
+                join_request: 'Join requests',
+            },
+            quietHours: 'Quiet hours',
+            quietHoursHint: 'Email and Telegram messages are held until quiet hours end',
+            dailyDigest: 'Daily summary email',
+            dailyDigestHint: 'Every morning: tasks due today, overdue tasks, tasks waiting for your review and today in the team',
+            digest: 'Batch emails into the summary',
+            digestHint: 'Notification emails are added to the daily summary instead of being sent one by one',
+        },
+        telegram: {
+            title: 'Telegram',
+            description: 'Get task notifications in Telegram and move tasks right from the chat',
+            link: 'Link Telegram',
+            linked: 'Linked to {{username}}',
+            unlink: 'Unlink',
+            unlinkConfirm: 'Stop receiving notifications in Telegram?',
+            sendCode: 'Send this message to the bot:',
+            expires: 'The code works until {{time}}',
+            openBot: 'Open the bot',
+            checkLink: 'I sent it',
+            bot: {
+                startHelp: 'To link your account, open Profile in Taskedo, press "Link Telegram" and send the code here: /start CODE',
+                linkExpired: 'The code is invalid or expired. Create a new one in your Taskedo profile.',
+                linked: 'Your account is linked. Task assignments and review requests will arrive here. Reply to a task message to comment on it.',
+                notLinked: 'This chat is not linked to a Taskedo account yet. Send /start with the code from your profile.',
+                unlinked: 'Telegram is unlinked. You will not receive notifications here anymore.',
+                help: 'Reply to a task message to add a comment, or use its buttons to move the task. /unlink stops notifications.',
+                taskNotFound: 'Task not found',
+                commentAdded: 'Comment added to "{{title}}"',
+                commentFailed: 'Could not add the comment',
+                moved: 'Moved to {{status}}',
+                moveNotAllowed: 'You cannot move this task there',
+                moveInApp: 'This move needs a reason or approval, open the task in Taskedo',
+                open: 'Open',
+            },
+        },
+        email: {
+            open: 'Open in Taskedo',
+            footer: 'You receive this email because of your notification settings in Taskedo.',
+            settings: 'Notification settings',
+            digest: {
+                subject: 'Taskedo: your day, {{date}}',
+                greeting: 'Hello, {{name}}!',
+                intro: 'Here is what needs your attention today.',
+                overdue: 'Overdue',
+                dueToday: 'Due today',
+                awaitingReview: 'Waiting for your review',
+                announcements: 'Today in the team',
+                notifications: 'Notifications',
+                due: 'due {{date}}',
+            },
+        },
+        comments: {
+            title: 'Comments',
+            empty: 'No comments yet',
+            placeholder: 'Write a comment, use @ to mention a teammate...',
+            send: 'Send',
+            edited: 'edited',
+            confirmDelete: 'Delete this comment?',
         },
         calendar: {
             title: 'Calendar',
@@ -301,6 +713,8 @@ export const en = {
             byStatus: 'By status',
             teamPerformance: 'Team performance',
             byPriority: 'By priority',
+            estimateVsActual: 'Estimate vs actual',
+            noEstimates: 'No tasks with an estimate yet',
         },
         geofence: {
             title: 'Geozones',
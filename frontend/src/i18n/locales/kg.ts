@@ -147,6 +147,7 @@ export const kg = {
             calendar: 'Календарь',
             team: 'Команда',
             analytics: 'Аналитика',
+            timesheet: 'Табель',
             profile: 'Профиль',
             geofence: 'Геозоналар',
         },
@@ -158,6 +159,43 @@ export const kg = {
             new_task_msg: 'Сизге тапшырма берилди',
             task_review_title: 'Текшерүүдө',
             task_review_msg: 'Тапшырма текшерүүнү күтүүдө',
+            mention_title: 'Сизди белгилешти',
+            mention_msg: 'Сизди тапшырмадагы комментарийде белгилешти',
+            task_unblocked_title: 'Тапшырма бөгөттөн чыкты',
+            task_unblocked_msg: 'Бардык бөгөттөөчү тапшырмалар аткарылды, баштасаңыз болот',
+            approval_title: 'Макулдатуу суралды',
+            approval_msg: 'Статусту өзгөртүү сиздин макулдугуңузду күтүүдө',
+            approved_title: 'Статусту өзгөртүү макулдашылды',
+            rejected_title: 'Статусту өзгөртүү четке кагылды',
+            task_watch_title: 'Көзөмөлдөгөн тапшырмада өзгөрүү',
+            deadline_title: 'Мөөнөт өзгөртүлдү',
+            reviewer_title: 'Сиз текшерүүчү болуп дайындалдыңыз',
+            reviewer_msg: 'Сизден тапшырманы текшерүү суралды',
+            comment_title: 'Көзөмөлдөгөн тапшырмада жаңы комментарий',
+            join_request_title: 'Кошулууга жаңы өтүнүч',
+            join_request_msg: '{{name}} уюмуңузга кошулууну каалайт',
+            viewAll: 'Бардык билдирмелер',
+            subtitle: 'Сизге жөнөтүлгөндөрдүн баары',
+            allTypes: 'Бардык түрлөрү',
+            markRead: 'Окулду деп белгилөө',
+            page: '{{total}} ичинен {{page}}-барак',
+            tabs: {
+                all: 'Баары',
+                unread: 'Окулбагандар',
+                read: 'Окулгандар',
+            },
+            types: {
+                task_assigned: 'Дайындоо',
+                task_review: 'Текшерүү',
+                task_completed: 'Аткарылды',
+                task_unblocked: 'Бөгөт алынды',
+                approval: 'Макулдашуу',
+                mention: 'Эскерүү',
+                task_watch: 'Көзөмөлдөгөн тапшырма',
+                system: 'Системалык',
+                deadline: 'Мөөнөт',
+                join_request: 'Кошулууга өтүнүч',
+            },
         },
         status: {
             new: 'Жаңы',
@@ -202,6 +240,380 @@ export const kg = {
                 complete: 'Аткардым',
                 approve: 'Аткарылды',
             },
+            subtasks: 'Подтапшырмалар',
+            addSubtask: 'Подтапшырма кошуу',
+            checklist: 'Текшерүү тизмеси',
+            addChecklistItem: 'Пункт кошуп, Enter басыңыз',
+            topLevelOnly: 'Негизгилер гана',
+            swimlanes: {
+                label: 'Топтоо',
+                none: 'Жолчолорсуз',
+                assignee: 'Аткаруучу боюнча',
+                priority: 'Артыкчылык боюнча',
+                deadline: 'Мөөнөт боюнча',
+                line: 'Баш ийүү линиясы боюнча',
+                unassigned: 'Аткаруучусуз',
+                other: 'Башкалар',
+                buckets: {
+                    overdue: 'Мөөнөтү өткөн',
+                    this_week: 'Ушул жумада',
+                    later: 'Кийинчерээк',
+                    no_deadline: 'Мөөнөтсүз',
+                },
+                cannotDrop: 'Бул жолчого карточканы жылдырууга болбойт',
+                cannotAssign: 'Бул кызматкерге тапшырма бере албайсыз',
+            },
+            parentTask: 'Негизги тапшырма',
+            progress: 'Прогресс',
+            tabs: {
+                details: 'Маалымат',
+                time: 'Убакыт',
+                files: 'Файлдар',
+                comments: 'Комментарийлер',
+                history: 'Тарых',
+            },
+        },
+        history: {
+            empty: 'Азырынча өзгөртүүлөр жок',
+            created: 'тапшырманы түздү',
+            deleted: 'тапшырманы өчүрдү',
+            changed: 'өзгөрттү',
+            deletedTasks: 'Өчүрүлгөн тапшырмалар',
+            deletedBy: 'Өчүргөн',
+            noDeleted: 'Өчүрүлгөн тапшырмалар жок',
+            fields: {
+                title: 'аталышы',
+                description: 'сүрөттөмө',
+                status: 'статус',
+                priority: 'маанилүүлүгү',
+                assignee: 'жооптуу',
+                deadline: 'мөөнөт',
+                link_url: 'шилтеме',
+                links: 'шилтемелер',
+                custom_values: 'кошумча талаалар',
+                parent_id: 'негизги тапшырма',
+                recurrence: 'кайталоо',
+                estimate_minutes: 'баалоо',
+                assignee_ids: 'аткаруучулар',
+                reviewer_id: 'текшерүүчү',
+            },
+        },
+        recurrence: {
+            none: 'Кайталанбайт',
+            repeat: 'Кайталоо',
+            stop: 'Кайталоону токтотуу',
+            every: 'Ар бир',
+            onDay: 'Күнү',
+            freq: {
+                daily: 'Күн сайын',
+                weekly: 'Жума сайын',
+                monthly: 'Ай сайын',
+                after_completion: 'Аткарылгандан кийин',
+            },
+            unit: {
+                daily: 'күн',
+                weekly: 'жума',
+                monthly: 'ай',
+                after_completion: 'күндөн кийин (аткарылгандан соң)',
+            },
+            summary: {
+                daily: 'Күн сайын',
+                everyNDays: 'Ар бир {{n}} күн',
+                weekly: 'Жума сайын: {{days}}',
+                everyNWeeks: 'Ар бир {{n}} жумада: {{days}}',
+                monthly: 'Ай сайын, {{day}}-күнү',
+                everyNMonths: 'Ар бир {{n}} айда, {{day}}-күнү',
+                afterCompletion: 'Аткарылгандан {{n}} күн кийин',
+            },
+        },
+        dependencies: {
+            blockedBy: 'Бөгөттөгөн тапшырмалар',
+            blocks: 'Бөгөттөйт',
+            blocked: 'Бөгөттөлгөн',
+            none: 'Жок',
+            add: 'Байланыштыруу',
+            selectTask: 'Тапшырманы тандаңыз...',
+            cycle: 'Бул байланыш циклдик көз карандылыкты түзөт',
+            saveError: 'Байланышты сактоо мүмкүн болгон жок',
+            warnStart: 'Тапшырма дагы эле бөгөттөлгөн: {{tasks}}. Баары бир баштайсызбы?',
+            warnStartBulk: 'Айрым тапшырмалар дагы эле бөгөттөлгөн: {{tasks}}. Баары бир баштайсызбы?',
+        },
+        workflow: {
+            title: 'Мамычалар',
+            tabs: {
+                columns: 'Мамычалар',
+                transitions: 'Өтүүлөр',
+                labels: 'Белгилер',
+                fields: 'Талаалар',
+            },
+            hint: 'Мамычалар тактада ушул тартипте көрсөтүлөт. Бир мамычаны акыркы («бүттү») деп белгилеңиз.',
+            wipLimit: 'WIP чеги',
+            doneColumn: 'Акыркы «бүттү» мамычасы',
+            reviewColumn: 'Текшерүү мамычасы: бул жердеги тапшырма текшерүүчүнү күтөт',
+            addColumn: 'Мамыча кошуп, Enter басыңыз...',
+            confirmRemove: 'Мамычада {{count}} тапшырма бар. Алар биринчи мамычага өткөрүлөт. Улантасызбы?',
+            wipExceeded: '«{{column}}» мамычасы чегине жетти ({{limit}}). Баары бир жылдырасызбы?',
+            errors: {
+                tooFew: 'Жок дегенде эки мамыча керек',
+                noDone: 'Так бир мамычаны акыркы деп белгилеңиз',
+                save: 'Мамычаларды сактоо мүмкүн болгон жок',
+            },
+        },
+        transitions: {
+            hint: 'Бул жерде көрсөтүлгөн өтүүлөр гана уруксат. Белгилүү мамыча үчүн эреже «каалаган мамыча» эрежесинен артык.',
+            anyColumn: 'Каалаган мамыча',
+            roles: {
+                assignee: 'Аткаруучу',
+                creator: 'Автор',
+                reviewer: 'Текшерүүчү',
+                manager: 'Жетекчи',
+                owner: 'Ээси',
+            },
+            requireReason: 'Себеп керек',
+            requireApproval: 'Макулдатуу керек',
+            addRule: 'Эреже кошуу',
+            reset: 'Демейкиге кайтаруу',
+            reasonPrompt: 'Тапшырма эмне үчүн «{{to}}» мамычасына өтүүдө?',
+            sentForApproval: 'Өтүү макулдатууга жөнөтүлдү',
+            alreadyPending: 'Бул тапшырманын статусун өзгөртүү буга чейин эле макулдатууну күтүүдө',
+            pending: '{{name}} тапшырманы «{{from}}» мамычасынан «{{to}}» мамычасына жылдырууну сурайт',
+            approve: 'Макулдашуу',
+            reject: 'Четке кагуу',
+            rejected: {
+                role: '«{{to}}» мамычасына жылдыруу төмөнкүлөргө гана уруксат: {{roles}}',
+                notAllowed: 'Тапшырмаларды «{{from}}» мамычасынан «{{to}}» мамычасына жылдырууга болбойт',
+            },
+            errors: {
+                noRoles: 'Ар бир эреже үчүн жок дегенде бир роль керек',
+                save: 'Эрежелерди сактоо мүмкүн болгон жок',
+            },
+        },
+        filters: {
+            search: 'Тапшырмаларды издөө…',
+            anyAssignee: 'Каалаган аткаруучу',
+            anyCreator: 'Каалаган автор',
+            anyPriority: 'Каалаган артыкчылык',
+            anyLabel: 'Каалаган белги',
+            anyField: 'Каалаган кошумча талаа',
+            anyValue: 'Каалаган маани',
+            deadline: 'Мөөнөт',
+            overdue: 'Мөөнөтү өткөндөр гана',
+            mine: 'Мага дайындалган',
+            createdByMe: 'Мен түзгөн',
+            views: 'Сакталган көрүнүштөр',
+            saveView: 'Көрүнүштү сактоо',
+            viewName: 'Көрүнүштүн аталышы',
+            shared: 'Уюм үчүн жалпы',
+            clear: 'Тазалоо',
+            saveError: 'Көрүнүштү сактоо мүмкүн болгон жок',
+            confirmDelete: '«{{name}}» көрүнүшүн өчүрөсүзбү?',
+        },
+        bulk: {
+            select: 'Тандоо (Shift+чыкылдатуу — аралык)',
+            selected: 'Тандалды: {{count}}',
+            status: 'Статусту өзгөртүү…',
+            assignee: 'Кайра дайындоо…',
+            priority: 'Артыкчылыкты өзгөртүү…',
+            shiftDeadline: 'Мөөнөттү жылдыруу (күн)',
+            delete: 'Өчүрүү',
+            clear: 'Тандоону алып салуу',
+            confirmDelete: 'Тандалган тапшырмаларды ({{count}}) өчүрөсүзбү?',
+            result: 'Даяр: {{succeeded}}, ката: {{failed}}',
+            errors: {
+                noAccess: 'Бул тапшырманы өзгөртүүгө укугуңуз жок',
+                noDeadline: 'Тапшырманын мөөнөтү жок',
+            },
+        },
+        time: {
+            estimate: 'Баалоо',
+            logged: 'Сарпталды',
+            start: 'Таймерди иштетүү',
+            stop: 'Таймерди токтотуу',
+            durationPlaceholder: '1:30 же 1.5с',
+            note: 'Комментарий',
+            add: 'Убакытты жазуу',
+            empty: 'Убакыт азырынча жазыла элек',
+            noNote: 'комментарийсиз',
+            errors: {
+                duration: 'Узактыгын жазыңыз, мисалы 1:30, 1.5 же 90m',
+                save: 'Убакыт жазуусун сактоо мүмкүн болгон жок',
+            },
+        },
+        timesheet: {
+            title: 'Табель',
+            subtitle: 'Тапшырмалар жана күндөр боюнча сааттар',
+            allMembers: 'Бардык кызматкерлер',
+            member: 'Кызматкер',
+            task: 'Тапшырма',
+            total: 'Жалпы',
+            export: 'CSV экспорттоо',
+            empty: 'Бул жумада убакыт жазылган жок',
+        },
+        attachments: {
+            upload: 'Файл тиркөө',
+            uploading: 'Жүктөлүүдө…',
+            hint: 'Файлдарды бул жерге сүйрөңүз. Сүрөттөр 5 МБ чейин, PDF 20 МБ чейин, башка файлдар 10 МБ чейин.',
+            empty: 'Файлдар жок',
+            tooLarge: '«{{name}}» {{limit}} чоң.',
+            uploadError: '«{{name}}» жүктөлгөн жок.',
+            openError: 'Файлды ачуу мүмкүн болгон жок',
+            confirmDelete: '«{{name}}» өчүрөсүзбү?',
+        },
+        links: {
+            title: 'Шилтемелер',
+            add: 'Шилтеме кошуу',
+            urlPlaceholder: 'URL: Google Docs, Figma, GitHub…',
+            label: 'Аталышы (милдеттүү эмес)',
+        },
+        templates: {
+            choose: 'Шаблондон түзүү…',
+            create: 'Шаблон боюнча түзүү',
+            taskCount: 'тапшырма: {{count}}',
+            offset: 'мөөнөтү {{count}} күндөн кийин',
+            empty: 'Азырынча шаблондор жок. Тактадан тапшырмаларды тандап, шаблон катары сактаңыз.',
+            saveAs: 'Шаблон катары сактоо',
+            namePrompt: 'Шаблондун аталышы',
+            saved: '«{{name}}» шаблону сакталды',
+            saveError: 'Шаблонду сактоо мүмкүн болгон жок',
+            createError: 'Шаблон боюнча бардык тапшырмалар түзүлгөн жок',
+            delete: 'Шаблонду өчүрүү',
+            confirmDelete: '«{{name}}» шаблонун өчүрөсүзбү?',
+        },
+        labels: {
+            title: 'Белгилер',
+            none: 'Азырынча белгилер жок. Ээси аларды такта жөндөөлөрүнөн кошо алат.',
+            hint: 'Белгилер бүт уюм үчүн жалпы. Белгинин атын өзгөртүү же өчүрүү аны колдонгон бардык тапшырмаларды жаңылайт.',
+            add: 'Жаңы белгинин аталышы, Enter басыңыз',
+            usage: 'тапшырма: {{count}}',
+            confirmDelete: '«{{name}}» белгисин өчүрөсүзбү? Ал {{count}} тапшырмадан алынат.',
+            byLabel: 'Белгилер боюнча',
+            noLabels: 'Азырынча белгиленген тапшырмалар жок',
+            errors: {
+                duplicate: 'Мындай аталыштагы белги бар',
+                save: 'Белгини сактоо мүмкүн болгон жок',
+            },
+        },
+        customFields: {
+            hint: 'Уюмуңуздун тапшырмалары үчүн кошумча талаалар. Алар жаңы тапшырма формасында жана тапшырма терезесинде көрүнөт. Талаанын түрүн кийин өзгөртүүгө болбойт.',
+            name: 'Талаанын аталышы',
+            add: 'Талаа кошуу',
+            options: 'Варианттар үтүр менен',
+            noMember: 'Эч ким',
+            checked: 'Ооба',
+            unchecked: 'Жок',
+            confirmDelete: '«{{name}}» талаасын өчүрөсүзбү? Анын маанилери бардык тапшырмалардан өчүрүлөт.',
+            analytics: 'Кошумча талаалар',
+            filled: '{{total}} тапшырманын {{count}} толтурулган',
+            sum: 'Суммасы',
+            average: 'Орточо',
+            types: {
+                text: 'Текст',
+                number: 'Сан',
+                date: 'Күн',
+                select: 'Бир вариант',
+                multi_select: 'Бир нече вариант',
+                member: 'Команда мүчөсү',
+                checkbox: 'Белги',
+            },
+            errors: {
+                noOptions: 'Жок дегенде бир вариант кошуңуз',
+                save: 'Талааны сактоо мүмкүн болгон жок',
+            },
+        },
+        watchers: {
+            watch: 'Көзөмөлдөө',
+            watching: 'Көзөмөлдөп жатасыз',
+            changes: {
+                status: 'абалы {{from}} → {{to}}',
+                assignee: 'аткаруучу {{name}}',
+                deadline: 'мөөнөтү {{date}}',
+            },
+        },
+        assignees: {
+            title: 'Аткаруучулар',
+            add: 'Аткаруучу кошуу',
+            remove: 'Аткаруучуну алып салуу',
+            reviewer: 'Текшерүүчү',
+            creatorReviews: 'Автор ({{name}})',
+        },
+        realtime: {
+            conflict: 'Бул тапшырманы башка бирөө жаңы эле өзгөрттү ({{fields}}). Акыркы версиясы көрсөтүлдү.',
+            deleted: '«{{title}}» тапшырмасын башка колдонуучу өчүрдү.',
+        },
+        notificationPreferences: {
+            title: 'Билдирмелер',
+            off: 'Өчүк',
+            channels: {
+                in_app: 'Колдонмодо',
+                email: 'Email',
+                telegram: 'Telegram',
+            },
+            categories: {
+                task_assigned: 'Мага тапшырма дайындалды',
+                task_review: 'Текшерүү жана макулдашуу суроолору',
+                task_completed: 'Тапшырма аткарылды',
+                mention: 'Эскерүүлөр',
+                task_updates: 'Көзөмөлдөгөн жана бөгөтү алынган тапшырмалар',
+                deadline: 'Мөөнөттөр',
+                join_request: 'Кошулууга өтүнүчтөр',
+            },
+            quietHours: 'Тынч сааттар',
+            quietHoursHint: 'Каттар жана Telegram билдирүүлөрү тынч сааттар бүткөндөн кийин келет',
+            dailyDigest: 'Күнүмдүк жыйынтык почтага',
+            dailyDigestHint: 'Ар күнү эртең менен: мөөнөтү бүгүн бүткөн, мөөнөтү өткөн, сиздин текшерүүңүздү күткөн тапшырмалар жана команданын окуялары',
+            digest: 'Каттарды жыйынтыкка чогултуу',
+            digestHint: 'Билдирме каттары бирден жөнөтүлбөй, күнүмдүк жыйынтыкка кошулат',
+        },
+        telegram: {
+            title: 'Telegram',
+            description: 'Тапшырмалар боюнча билдирмелерди Telegramдан алып, статусту түз чаттан өзгөртүңүз',
+            link: 'Telegramды байлоо',
+            linked: '{{username}} менен байланган',
+            unlink: 'Ажыратуу',
+            unlinkConfirm: 'Telegramдан билдирме алууну токтотосузбу?',
+            sendCode: 'Ботко бул билдирүүнү жөнөтүңүз:',
+            expires: 'Код {{time}} чейин жарактуу',
+            openBot: 'Ботту ачуу',
+            checkLink: 'Жөнөттүм',
+            bot: {
+                startHelp: 'Аккаунтту байлоо үчүн Taskedo профилин ачып, «Telegramды байлоо» баскычын басып, кодду бул жакка жөнөтүңүз: /start КОД',
+                linkExpired: 'Код туура эмес же мөөнөтү бүткөн. Taskedo профилинде жаңысын түзүңүз.',
+                linked: 'Аккаунт байланды. Бул жакка тапшырма дайындоолору жана текшерүү суроолору келет. Комментарий калтыруу үчүн тапшырма тууралуу билдирүүгө жооп бериңиз.',
+                notLinked: 'Бул чат азырынча Taskedo аккаунтуна байланган эмес. Профилдеги код менен /start жөнөтүңүз.',
+                unlinked: 'Telegram ажыратылды. Бул жакка билдирмелер мындан ары келбейт.',
+                help: 'Комментарий кошуу үчүн тапшырма тууралуу билдирүүгө жооп бериңиз же статусту баскычтар менен өзгөртүңүз. /unlink билдирмелерди өчүрөт.',
+                taskNotFound: 'Тапшырма табылган жок',
+                commentAdded: '«{{title}}» тапшырмасына комментарий кошулду',
+                commentFailed: 'Комментарий кошулган жок',
+                moved: '«{{status}}» абалына жылдырылды',
+                moveNotAllowed: 'Бул тапшырманы ал жакка жылдыра албайсыз',
+                moveInApp: 'Бул өтүү үчүн себеп же макулдашуу керек, тапшырманы Taskedoдо ачыңыз',
+                open: 'Ачуу',
+            },
+        },
+        email: {
+            open: 'Taskedoдо ачуу',
+            footer: 'Бул кат Taskedoдогу билдирме жөндөөлөрүңүзгө ылайык жөнөтүлдү.',
+            settings: 'Билдирме жөндөөлөрү',
+            digest: {
+                subject: 'Taskedo: сиздин күнүңүз, {{date}}',
+                greeting: 'Саламатсызбы, {{name}}!',
+                intro: 'Бүгүн сиздин көңүлүңүздү талап кылгандар.',
+                overdue: 'Мөөнөтү өткөн',
+                dueToday: 'Мөөнөтү бүгүн',
+                awaitingReview: 'Сиздин текшерүүңүздү күтүүдө',
+                announcements: 'Бүгүн командада',
+                notifications: 'Билдирмелер',
+                due: 'мөөнөтү {{date}}',
+            },
+        },
+        comments: {
+            title: 'Комментарийлер',
+            empty: 'Азырынча комментарий жок',
+            placeholder: 'Комментарий жазыңыз, кесиптешти белгилөө үчүн @...',
+            send: 'Жөнөтүү',
+            edited: 'өзгөртүлдү',
+            confirmDelete: 'Бул комментарийди өчүрөсүзбү?',
         },
         calendar: {
             title: 'Календарь',
@@ -280,6 +692,8 @@ export const kg = {
             byStatus: 'Статус боюнча',
             teamPerformance: 'Команданын натыйжалуулугу',
             byPriority: 'Приоритет боюнча',
+            estimateVsActual: 'Баалоо жана факт',
+            noEstimates: 'Азырынча бааланган тапшырмалар жок',
         },
         geofence: {
             title: 'Геозоналар',
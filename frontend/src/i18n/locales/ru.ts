@@ -149,6 +149,7 @@ export const ru = {
             calendar: 'Календарь',
             team: 'Команда',
             analytics: 'Аналитика',
+            timesheet: 'Табель',
             profile: 'Профиль',
             geofence: 'Геозоны',
         },
@@ -160,6 +161,43 @@ export const ru = {
             new_task_msg: 'Вам назначена задача',
             task_review_title: 'Задача на проверке',
             task_review_msg: 'Задача ожидает проверки',
+            mention_title: 'Вас упомянули',
+            mention_msg: 'Вас упомянули в комментарии к задаче',
+            task_unblocked_title: 'Задача разблокирована',
+            task_unblocked_msg: 'Все блокирующие задачи выполнены, можно начинать',
+            approval_title: 'Запрос на согласование',
+            approval_msg: 'Смена статуса ждёт вашего согласования',
+            approved_title: 'Смена статуса согласована',
+            rejected_title: 'Смена статуса отклонена',
+            task_watch_title: 'Изменения в отслеживаемой задаче',
+            deadline_title: 'Срок изменён',
+            reviewer_title: 'Вы назначены проверяющим',
+            reviewer_msg: 'Вас попросили проверить задачу',
+            comment_title: 'Новый комментарий в отслеживаемой задаче',
+            join_request_title: 'Новая заявка на вступление',
+            join_request_msg: '{{name}} хочет вступить в вашу организацию',
+            viewAll: 'Все уведомления',
+            subtitle: 'Всё, что было вам отправлено',
+            allTypes: 'Все типы',
+            markRead: 'Отметить прочитанным',
+            page: 'Страница {{page}} из {{total}}',
+            tabs: {
+                all: 'Все',
+                unread: 'Непрочитанные',
+                read: 'Прочитанные',
+            },
+            types: {
+                task_assigned: 'Назначение',
+                task_review: 'Проверка',
+                task_completed: 'Выполнено',
+                task_unblocked: 'Разблокировано',
+                approval: 'Согласование',
+                mention: 'Упоминание',
+                task_watch: 'Отслеживаемая задача',
+                system: 'Системное',
+                deadline: 'Срок',
+                join_request: 'Заявка на вступление',
+            },
         },
         status: {
             new: 'Новое',
@@ -204,6 +242,380 @@ export const ru = {
                 complete: 'Выполнил',
                 approve: 'Завершить',
             },
+            subtasks: 'Подзадачи',
+            addSubtask: 'Добавить подзадачу',
+            checklist: 'Чек-лист',
+            addChecklistItem: 'Добавьте пункт и нажмите Enter',
+            topLevelOnly: 'Только основные',
+            swimlanes: {
+                label: 'Группировка',
+                none: 'Без дорожек',
+                assignee: 'По исполнителю',
+                priority: 'По приоритету',
+                deadline: 'По сроку',
+                line: 'По линии подчинения',
+                unassigned: 'Без исполнителя',
+                other: 'Другие',
+                buckets: {
+                    overdue: 'Просрочено',
+                    this_week: 'На этой неделе',
+                    later: 'Позже',
+                    no_deadline: 'Без срока',
+                },
+                cannotDrop: 'В эту дорожку нельзя переместить карточку',
+                cannotAssign: 'Вы не можете назначать задачи этому сотруднику',
+            },
+            parentTask: 'Родительская задача',
+            progress: 'Прогресс',
+            tabs: {
+                details: 'Детали',
+                time: 'Время',
+                files: 'Файлы',
+                comments: 'Комментарии',
+                history: 'История',
+            },
+        },
+        history: {
+            empty: 'Изменений пока нет',
+            created: 'создал(а) задачу',
+            deleted: 'удалил(а) задачу',
+            changed: 'изменил(а)',
+            deletedTasks: 'Удалённые задачи',
+            deletedBy: 'Удалил(а)',
+            noDeleted: 'Удалённых задач нет',
+            fields: {
+                title: 'название',
+                description: 'описание',
+                status: 'статус',
+                priority: 'приоритет',
+                assignee: 'ответственного',
+                deadline: 'дедлайн',
+                link_url: 'ссылку',
+                links: 'ссылки',
+                custom_values: 'доп. поля',
+                parent_id: 'родительскую задачу',
+                recurrence: 'повтор',
+                estimate_minutes: 'оценка',
+                assignee_ids: 'исполнители',
+                reviewer_id: 'проверяющий',
+            },
+        },
+        recurrence: {
+            none: 'Не повторять',
+            repeat: 'Повтор',
+            stop: 'Остановить повтор',
+            every: 'Каждые',
+            onDay: 'В день',
+            freq: {
+                daily: 'Ежедневно',
+                weekly: 'Еженедельно',
+                monthly: 'Ежемесячно',
+                after_completion: 'После выполнения',
+            },
+            unit: {
+                daily: 'дн.',
+                weekly: 'нед.',
+                monthly: 'мес.',
+                after_completion: 'дн. после выполнения',
+            },
+            summary: {
+                daily: 'Каждый день',
+                everyNDays: 'Каждые {{n}} дн.',
+                weekly: 'Каждую неделю: {{days}}',
+                everyNWeeks: 'Каждые {{n}} нед.: {{days}}',
+                monthly: 'Каждый месяц, {{day}}-го числа',
+                everyNMonths: 'Каждые {{n}} мес., {{day}}-го числа',
+                afterCompletion: 'Через {{n}} дн. после выполнения',
+            },
+        },
+        dependencies: {
+            blockedBy: 'Заблокирована задачами',
+            blocks: 'Блокирует',
+            blocked: 'Заблокирована',
+            none: 'Нет',
+            add: 'Связать',
+            selectTask: 'Выберите задачу...',
+            cycle: 'Эта связь создаст циклическую зависимость',
+            saveError: 'Не удалось сохранить связь',
+            warnStart: 'Задача ещё заблокирована: {{tasks}}. Всё равно начать?',
+            warnStartBulk: 'Некоторые задачи ещё заблокированы: {{tasks}}. Всё равно начать?',
+        },
+        workflow: {
+            title: 'Колонки',
+            tabs: {
+                columns: 'Колонки',
+                transitions: 'Переходы',
+                labels: 'Метки',
+                fields: 'Поля',
+            },
+            hint: 'Колонки показываются на доске в этом порядке. Отметьте одну колонку как финальную («готово»).',
+            wipLimit: 'Лимит WIP',
+            doneColumn: 'Финальная колонка «готово»',
+            reviewColumn: 'Колонка проверки: задача здесь ждёт проверяющего',
+            addColumn: 'Добавьте колонку и нажмите Enter...',
+            confirmRemove: 'В колонке задач: {{count}}. Они будут перенесены в первую колонку. Продолжить?',
+            wipExceeded: 'Колонка «{{column}}» достигла лимита ({{limit}}). Всё равно переместить задачу?',
+            errors: {
+                tooFew: 'Нужно хотя бы две колонки',
+                noDone: 'Отметьте ровно одну колонку как финальную',
+                save: 'Не удалось сохранить колонки',
+            },
+        },
+        transitions: {
+            hint: 'Разрешены только перечисленные переходы. Правило для конкретной колонки важнее правила «любая колонка».',
+            anyColumn: 'Любая колонка',
+            roles: {
+                assignee: 'Исполнитель',
+                creator: 'Автор',
+                reviewer: 'Проверяющий',
+                manager: 'Руководитель',
+                owner: 'Владелец',
+            },
+            requireReason: 'Нужна причина',
+            requireApproval: 'Нужно согласование',
+            addRule: 'Добавить правило',
+            reset: 'Сбросить по умолчанию',
+            reasonPrompt: 'Почему задача переходит в «{{to}}»?',
+            sentForApproval: 'Переход отправлен на согласование',
+            alreadyPending: 'У задачи уже есть смена статуса, ожидающая согласования',
+            pending: '{{name}} просит перенести задачу из «{{from}}» в «{{to}}»',
+            approve: 'Согласовать',
+            reject: 'Отклонить',
+            rejected: {
+                role: 'Перенос в «{{to}}» разрешён только: {{roles}}',
+                notAllowed: 'Задачи нельзя переносить из «{{from}}» в «{{to}}»',
+            },
+            errors: {
+                noRoles: 'В каждом правиле должна быть хотя бы одна роль',
+                save: 'Не удалось сохранить правила',
+            },
+        },
+        filters: {
+            search: 'Поиск задач…',
+            anyAssignee: 'Любой исполнитель',
+            anyCreator: 'Любой автор',
+            anyPriority: 'Любой приоритет',
+            anyLabel: 'Любая метка',
+            anyField: 'Любое доп. поле',
+            anyValue: 'Любое значение',
+            deadline: 'Срок',
+            overdue: 'Только просроченные',
+            mine: 'Назначены мне',
+            createdByMe: 'Созданы мной',
+            views: 'Сохранённые виды',
+            saveView: 'Сохранить вид',
+            viewName: 'Название вида',
+            shared: 'Общий для организации',
+            clear: 'Сбросить',
+            saveError: 'Не удалось сохранить вид',
+            confirmDelete: 'Удалить вид «{{name}}»?',
+        },
+        bulk: {
+            select: 'Выбрать (Shift+клик — диапазон)',
+            selected: 'Выбрано: {{count}}',
+            status: 'Изменить статус…',
+            assignee: 'Переназначить…',
+            priority: 'Изменить приоритет…',
+            shiftDeadline: 'Сдвинуть срок (дни)',
+            delete: 'Удалить',
+            clear: 'Снять выделение',
+            confirmDelete: 'Удалить выбранные задачи ({{count}})?',
+            result: 'Готово: {{succeeded}}, с ошибкой: {{failed}}',
+            errors: {
+                noAccess: 'Нет прав на изменение этой задачи',
+                noDeadline: 'У задачи нет срока',
+            },
+        },
+        time: {
+            estimate: 'Оценка',
+            logged: 'Затрачено',
+            start: 'Запустить таймер',
+            stop: 'Остановить таймер',
+            durationPlaceholder: '1:30 или 1.5ч',
+            note: 'Комментарий',
+            add: 'Записать время',
+            empty: 'Время ещё не записано',
+            noNote: 'без комментария',
+            errors: {
+                duration: 'Укажите длительность, например 1:30, 1.5 или 90m',
+                save: 'Не удалось сохранить запись времени',
+            },
+        },
+        timesheet: {
+            title: 'Табель',
+            subtitle: 'Затраченные часы по задачам и дням',
+            allMembers: 'Все сотрудники',
+            member: 'Сотрудник',
+            task: 'Задача',
+            total: 'Итого',
+            export: 'Экспорт CSV',
+            empty: 'На этой неделе время не записано',
+        },
+        attachments: {
+            upload: 'Прикрепить файлы',
+            uploading: 'Загрузка…',
+            hint: 'Перетащите файлы сюда. Изображения до 5 МБ, PDF до 20 МБ, остальные файлы до 10 МБ.',
+            empty: 'Файлов нет',
+            tooLarge: '«{{name}}» больше {{limit}}.',
+            uploadError: 'Не удалось загрузить «{{name}}».',
+            openError: 'Не удалось открыть файл',
+            confirmDelete: 'Удалить «{{name}}»?',
+        },
+        links: {
+            title: 'Ссылки',
+            add: 'Добавить ссылку',
+            urlPlaceholder: 'URL: Google Docs, Figma, GitHub…',
+            label: 'Название (необязательно)',
+        },
+        templates: {
+            choose: 'Создать из шаблона…',
+            create: 'Создать по шаблону',
+            taskCount: 'задач: {{count}}',
+            offset: 'срок через {{count}} дн.',
+            empty: 'Шаблонов пока нет. Выделите задачи на доске и сохраните их как шаблон.',
+            saveAs: 'Сохранить как шаблон',
+            namePrompt: 'Название шаблона',
+            saved: 'Шаблон «{{name}}» сохранён',
+            saveError: 'Не удалось сохранить шаблон',
+            createError: 'Не все задачи удалось создать по шаблону',
+            delete: 'Удалить шаблон',
+            confirmDelete: 'Удалить шаблон «{{name}}»?',
+        },
+        labels: {
+            title: 'Метки',
+            none: 'Меток пока нет. Владелец может добавить их в настройках доски.',
+            hint: 'Метки общие для всей организации. Переименование или удаление метки сразу меняет все задачи с ней.',
+            add: 'Название новой метки, нажмите Enter',
+            usage: 'задач: {{count}}',
+            confirmDelete: 'Удалить метку «{{name}}»? Она будет снята с задач: {{count}}.',
+            byLabel: 'По меткам',
+            noLabels: 'Задач с метками пока нет',
+            errors: {
+                duplicate: 'Метка с таким названием уже есть',
+                save: 'Не удалось сохранить метку',
+            },
+        },
+        customFields: {
+            hint: 'Дополнительные поля задач вашей организации. Они появляются в форме новой задачи и в карточке задачи. Тип поля потом изменить нельзя.',
+            name: 'Название поля',
+            add: 'Добавить поле',
+            options: 'Варианты через запятую',
+            noMember: 'Никто',
+            checked: 'Да',
+            unchecked: 'Нет',
+            confirmDelete: 'Удалить поле «{{name}}»? Его значения будут удалены из всех задач.',
+            analytics: 'Дополнительные поля',
+            filled: 'Заполнено в {{count}} из {{total}} задач',
+            sum: 'Сумма',
+            average: 'Среднее',
+            types: {
+                text: 'Текст',
+                number: 'Число',
+                date: 'Дата',
+                select: 'Один вариант',
+                multi_select: 'Несколько вариантов',
+                member: 'Участник команды',
+                checkbox: 'Флажок',
+            },
+            errors: {
+                noOptions: 'Добавьте хотя бы один вариант',
+                save: 'Не удалось сохранить поле',
+            },
+        },
+        watchers: {
+            watch: 'Следить',
+            watching: 'Вы следите',
+            changes: {
+                status: 'статус {{from}} → {{to}}',
+                assignee: 'исполнитель {{name}}',
+                deadline: 'срок {{date}}',
+            },
+        },
+        assignees: {
+            title: 'Исполнители',
+            add: 'Добавить исполнителя',
+            remove: 'Убрать исполнителя',
+            reviewer: 'Проверяющий',
+            creatorReviews: 'Автор ({{name}})',
+        },
+        realtime: {
+            conflict: 'Кто-то только что изменил эту задачу ({{fields}}). Показана последняя версия.',
+            deleted: 'Задачу «{{title}}» удалил другой пользователь.',
+        },
+        notificationPreferences: {
+            title: 'Уведомления',
+            off: 'Выкл.',
+            channels: {
+                in_app: 'В приложении',
+                email: 'Email',
+                telegram: 'Telegram',
+            },
+            categories: {
+                task_assigned: 'Мне назначили задачу',
+                task_review: 'Запросы на проверку и согласование',
+                task_completed: 'Задача выполнена',
+                mention: 'Упоминания',
+                task_updates: 'Отслеживаемые и разблокированные задачи',
+                deadline: 'Сроки',
+                join_request: 'Заявки на вступление',
+            },
+            quietHours: 'Тихие часы',
+            quietHoursHint: 'Письма и сообщения Telegram придут после окончания тихих часов',
+            dailyDigest: 'Ежедневная сводка на почту',
+            dailyDigestHint: 'Каждое утро: задачи со сроком сегодня, просроченные, ожидающие вашей проверки и события команды',
+            digest: 'Собирать письма в сводку',
+            digestHint: 'Письма-уведомления добавляются в ежедневную сводку, а не отправляются по одному',
+        },
+        telegram: {
+            title: 'Telegram',
+            description: 'Получайте уведомления о задачах в Telegram и меняйте статус прямо из чата',
+            link: 'Привязать Telegram',
+            linked: 'Привязан к {{username}}',
+            unlink: 'Отвязать',
+            unlinkConfirm: 'Перестать получать уведомления в Telegram?',
+            sendCode: 'Отправьте боту сообщение:',
+            expires: 'Код действует до {{time}}',
+            openBot: 'Открыть бота',
+            checkLink: 'Я отправил',
+            bot: {
+                startHelp: 'Чтобы привязать аккаунт, откройте профиль в Taskedo, нажмите «Привязать Telegram» и отправьте код сюда: /start КОД',
+                linkExpired: 'Код неверный или истёк. Создайте новый в профиле Taskedo.',
+                linked: 'Аккаунт привязан. Сюда будут приходить назначения задач и запросы на проверку. Ответьте на сообщение о задаче, чтобы оставить комментарий.',
+                notLinked: 'Этот чат ещё не привязан к аккаунту Taskedo. Отправьте /start с кодом из профиля.',
+                unlinked: 'Telegram отвязан. Уведомления сюда больше не придут.',
+                help: 'Ответьте на сообщение о задаче, чтобы добавить комментарий, или используйте кнопки, чтобы сменить статус. /unlink отключает уведомления.',
+                taskNotFound: 'Задача не найдена',
+                commentAdded: 'Комментарий добавлен к «{{title}}»',
+                commentFailed: 'Не удалось добавить комментарий',
+                moved: 'Перемещено в «{{status}}»',
+                moveNotAllowed: 'Вы не можете переместить задачу сюда',
+                moveInApp: 'Для этого перехода нужна причина или согласование, откройте задачу в Taskedo',
+                open: 'Открыть',
+            },
+        },
+        email: {
+            open: 'Открыть в Taskedo',
+            footer: 'Вы получили это письмо согласно настройкам уведомлений в Taskedo.',
+            settings: 'Настройки уведомлений',
+            digest: {
+                subject: 'Taskedo: ваш день, {{date}}',
+                greeting: 'Здравствуйте, {{name}}!',
+                intro: 'Вот что требует вашего внимания сегодня.',
+                overdue: 'Просрочено',
+                dueToday: 'Срок сегодня',
+                awaitingReview: 'Ждут вашей проверки',
+                announcements: 'Сегодня в команде',
+                notifications: 'Уведомления',
+                due: 'срок {{date}}',
+            },
+        },
+        comments: {
+            title: 'Комментарии',
+            empty: 'Комментариев пока нет',
+            placeholder: 'Напишите комментарий, @ чтобы упомянуть коллегу...',
+            send: 'Отправить',
+            edited: 'изменено',
+            confirmDelete: 'Удалить этот комментарий?',
         },
         calendar: {
             title: 'Календарь',
@@ -301,6 +713,8 @@ export const ru = {
             byStatus: 'По статусу',
             teamPerformance: 'Продуктивность команды',
             byPriority: 'По приоритету',
+            estimateVsActual: 'Оценка и факт',
+            noEstimates: 'Пока нет задач с оценкой',
         },
         geofence: {
             title: 'Геозоны',
@@ -0,0 +1,56 @@
+import { supabase } from './supabase';
+
+// Entries are written by a trigger on tasks (supabase_migration_task_activity.sql), never by the client
+export interface DbTaskActivity {
+    id: string;
+    task_id: string; // Not a foreign key: entries outlive deleted tasks
+    task_title: string;
+    organization_id: string;
+    actor_id: string | null;
+    actor_name: string | null;
+    action: 'created' | 'updated' | 'deleted';
+    field: string | null;
+    old_value: string | null;
+    new_value: string | null;
+    snapshot: Record<string, unknown> | null; // Full task row, stored for deletions
+    reason?: string | null; // Given by the user for status moves that require one
+    created_at: string;
+}
+
+/**
+ * Normalizes a task field value for comparison. Timestamps are compared by instant,
+ * since Postgres and the browser format them differently.
+ */
+export function normalizeActivityValue(field: string, value: unknown): string | null {
+    if (value === null || value === undefined || value === '') return null;
+    if (field === 'deadline') {
+        const date = new Date(String(value));
+        return isNaN(date.getTime()) ? String(value) : date.toISOString();
+    }
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+}
+
+export async function fetchTaskActivity(taskId: string): Promise<DbTaskActivity[]> {
+    const { data, error } = await supabase
+        .from('task_activity')
+        .select('*')
+        .eq('task_id', taskId)
+        .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+}
+
+export async function fetchDeletedTaskActivity(organizationId: string): Promise<DbTaskActivity[]> {
+    const { data, error } = await supabase
+        .from('task_activity')
+        .select('*')
+        .eq('organization_id', organizationId)
+        .eq('action', 'deleted')
+        .order('created_at', { ascending: false })
+        .limit(100);
+
+    if (error) throw error;
+    return data || [];
+}
@@ -0,0 +1,127 @@
+import { supabase } from './supabase';
+import type { DbTask } from './taskService';
+
+export interface DbTaskAttachment {
+    id: string;
+    task_id: string;
+    organization_id: string;
+    uploaded_by: string;
+    uploader_name: string | null;
+    file_name: string;
+    file_path: string; // Object path in the bucket: <organization_id>/<task_id>/<uuid>-<file_name>
+    mime_type: string | null;
+    size: number;
+    created_at: string;
+}
+
+// Private bucket: files are served through short-lived signed URLs, see getAttachmentUrl
+const BUCKET = 'task-attachments';
+const SIGNED_URL_TTL = 60 * 60; // seconds
+
+const MB = 1024 * 1024;
+
+export function isImageAttachment(attachment: Pick<DbTaskAttachment, 'mime_type'>): boolean {
+    return !!attachment.mime_type?.startsWith('image/');
+}
+
+export function isPdfAttachment(attachment: Pick<DbTaskAttachment, 'mime_type'>): boolean {
+    return attachment.mime_type === 'application/pdf';
+}
+
+/**
+ * Maximum upload size in bytes for a file type. Keep in sync with the bucket limit in the migration.
+ */
+export function getAttachmentSizeLimit(mimeType: string | null): number {
+    if (mimeType?.startsWith('image/')) return 5 * MB;
+    if (mimeType === 'application/pdf') return 20 * MB;
+    return 10 * MB;
+}
+
+export function formatFileSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < MB) return `${Math.round(bytes / 1024)} KB`;
+    return `${(bytes / MB).toFixed(1)} MB`;
+}
+
+export async function fetchAttachments(taskId: string): Promise<DbTaskAttachment[]> {
+    const { data, error } = await supabase
+        .from('task_attachments')
+        .select('*')
+        .eq('task_id', taskId)
+        .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+}
+
+export async function uploadAttachment(task: DbTask, file: File): Promise<DbTaskAttachment> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    if (file.size > getAttachmentSizeLimit(file.type || null)) {
+        throw new Error('File too large');
+    }
+
+    // Storage keys only allow a safe subset of characters, the original name is kept in the table
+    const safeName = file.name.replace(/[^\w.-]+/g, '_');
+    const filePath = `${task.organization_id}/${task.id}/${crypto.randomUUID()}-${safeName}`;
+
+    const { error: uploadError } = await supabase.storage
+        .from(BUCKET)
+        .upload(filePath, file, { contentType: file.type || undefined });
+
+    if (uploadError) throw uploadError;
+
+    const { data, error } = await supabase
+        .from('task_attachments')
+        .insert({
+            task_id: task.id,
+            organization_id: task.organization_id,
+            uploaded_by: user.id,
+            uploader_name: user.user_metadata?.full_name || user.email?.split('@')[0] || null,
+            file_name: file.name,
+            file_path: filePath,
+            mime_type: file.type || null,
+            size: file.size,
+        })
+        .select()
+        .single();
+
+    if (error) {
+        // Don't leave an orphaned file behind
+        await supabase.storage.from(BUCKET).remove([filePath]);
+        throw error;
+    }
+    return data;
+}
+
+/**
+ * Signed URL for viewing or downloading. Storage policies only sign files of tasks the user can see.
+ */
+export async function getAttachmentUrl(attachment: DbTaskAttachment, download = false): Promise<string> {
+    const { data, error } = await supabase.storage
+        .from(BUCKET)
+        .createSignedUrl(attachment.file_path, SIGNED_URL_TTL, download ? { download: attachment.file_name } : undefined);
+
+    if (error) throw error;
+    return data.signedUrl;
+}
+
+/**
+ * Removes the file first: if that fails the attachment stays listed and can be deleted again,
+ * instead of leaving a file nobody can reach.
+ */
+export async function deleteAttachment(attachment: DbTaskAttachment) {
+    const { error: storageError } = await supabase.storage
+        .from(BUCKET)
+        .remove([attachment.file_path]);
+
+    if (storageError) throw storageError;
+
+    const { error } = await supabase
+        .from('task_attachments')
+        .delete()
+        .eq('id', attachment.id);
+
+    if (error) throw error;
+}
@@ -0,0 +1,63 @@
+import { getTaskAssignees, type DbTask } from './taskService';
+import type { DbTeamMember } from './teamService';
+import { getEligibleAssignees } from './hierarchy';
+
+export type BulkAction =
+    | { type: 'status'; status: string }
+    | { type: 'assignee'; memberId: string }
+    | { type: 'priority'; priority: DbTask['priority'] }
+    | { type: 'shift_deadline'; days: number }
+    | { type: 'delete' };
+
+export interface BulkFailure {
+    task: DbTask;
+    reason: string;
+}
+
+export interface BulkResult {
+    action: BulkAction['type'];
+    succeeded: string[]; // Task ids
+    failed: BulkFailure[];
+}
+
+/**
+ * Whether the user may edit a task from the bulk bar. Owners can edit everything, others only
+ * tasks they created or tasks where one of the assignees is a member they can assign to (see getEligibleAssignees).
+ * Status changes are decided by the transition policy instead.
+ */
+export function canBulkEdit(task: DbTask, userId: string | null, team: DbTeamMember[], isOwner: boolean): boolean {
+    if (isOwner) return true;
+    if (!userId) return false;
+    if (task.creator_id === userId) return true;
+    const assignees = getTaskAssignees(task, team);
+    return getEligibleAssignees(team, userId).some(m => assignees.some(a => a.id === m.id));
+}
+
+/**
+ * Moves a deadline by whole days, keeping the time of day.
+ */
+export function shiftDeadline(deadline: string, days: number): string {
+    const date = new Date(deadline);
+    date.setDate(date.getDate() + days);
+    return date.toISOString();
+}
+
+/**
+ * Runs `apply` for every task and collects the outcome per task instead of stopping at the first error.
+ */
+export async function runBulk(action: BulkAction, tasks: DbTask[], apply: (task: DbTask) => Promise<void>): Promise<BulkResult> {
+    const results = await Promise.allSettled(tasks.map(task => apply(task)));
+    const result: BulkResult = { action: action.type, succeeded: [], failed: [] };
+
+    results.forEach((outcome, index) => {
+        const task = tasks[index];
+        if (outcome.status === 'fulfilled') {
+            result.succeeded.push(task.id);
+        } else {
+            const reason = outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason);
+            result.failed.push({ task, reason });
+        }
+    });
+
+    return result;
+}
@@ -0,0 +1,104 @@
+import { supabase } from './supabase';
+import { stripHtml } from './utils';
+import { escapeRegExp, findMentions } from './mentions';
+import type { DbTeamMember } from './teamService';
+
+export interface DbTaskComment {
+    id: string;
+    task_id: string;
+    user_id: string;
+    author_name: string;
+    content: string; // HTML from RichTextEditor
+    organization_id: string;
+    created_at: string;
+    updated_at: string | null;
+}
+
+export async function fetchComments(taskId: string): Promise<DbTaskComment[]> {
+    const { data, error } = await supabase
+        .from('task_comments')
+        .select('*')
+        .eq('task_id', taskId)
+        .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+}
+
+export async function createComment(comment: {
+    task_id: string;
+    content: string;
+    organization_id: string;
+}): Promise<DbTaskComment> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const { data: profile } = await supabase
+        .from('profiles')
+        .select('display_name')
+        .eq('id', user.id)
+        .single();
+
+    const authorName = profile?.display_name || user.user_metadata?.full_name || user.email?.split('@')[0] || 'Unknown';
+
+    const { data, error } = await supabase
+        .from('task_comments')
+        .insert({
+            task_id: comment.task_id,
+            user_id: user.id,
+            author_name: authorName,
+            content: comment.content,
+            organization_id: comment.organization_id,
+        })
+        .select()
+        .single();
+
+    if (error) throw error;
+    return data;
+}
+
+export async function updateComment(commentId: string, content: string): Promise<DbTaskComment> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const { data, error } = await supabase
+        .from('task_comments')
+        .update({ content, updated_at: new Date().toISOString() })
+        .eq('id', commentId)
+        .eq('user_id', user.id) // Only the author can edit
+        .select()
+        .single();
+
+    if (error) throw error;
+    return data;
+}
+
+export async function deleteComment(commentId: string) {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const { error } = await supabase
+        .from('task_comments')
+        .delete()
+        .eq('id', commentId)
+        .eq('user_id', user.id); // Only the author can delete
+
+    if (error) throw error;
+}
+
+/** Team members mentioned as `@Name` in a comment. */
+export function extractMentions(html: string, team: DbTeamMember[]): DbTeamMember[] {
+    return findMentions(stripHtml(html), team);
+}
+
+/**
+ * Wraps `@Name` mentions of known members in a highlight span for rendering.
+ * Longer names are replaced first so "@Anna Lee" wins over "@Anna".
+ */
+export function highlightMentions(html: string, team: DbTeamMember[]): string {
+    const names = [...new Set(team.map(m => m.name).filter(Boolean))].sort((a, b) => b.length - a.length);
+    if (names.length === 0) return html;
+
+    const pattern = new RegExp(`@(${names.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}_])(?![^<]*>)`, 'giu');
+    return html.replace(pattern, match => `<span class="comment-mention">${match}</span>`);
+}
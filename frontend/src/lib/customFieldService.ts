@@ -0,0 +1,159 @@
+import { supabase } from './supabase';
+import type { DbTask } from './taskService';
+import type { DbTeamMember } from './teamService';
+
+export type CustomFieldType = 'text' | 'number' | 'date' | 'select' | 'multi_select' | 'member' | 'checkbox';
+
+export const CUSTOM_FIELD_TYPES: CustomFieldType[] = ['text', 'number', 'date', 'select', 'multi_select', 'member', 'checkbox'];
+
+export interface DbCustomField {
+    id: string;
+    organization_id: string;
+    name: string;
+    type: CustomFieldType;
+    options: string[]; // Choices of select and multi_select fields
+    position: number;
+    created_at: string;
+}
+
+// text and select: string, date: YYYY-MM-DD, member: team member id
+export type CustomFieldValue = string | number | boolean | string[] | null;
+
+// Stored in tasks.custom_values, keyed by field id
+export type CustomValues = Record<string, CustomFieldValue>;
+
+export function isEmptyFieldValue(value: CustomFieldValue | undefined): boolean {
+    return value === null || value === undefined || value === '' || value === false || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Drops empty values so tasks only store what was actually filled in.
+ */
+export function setFieldValue(values: CustomValues, fieldId: string, value: CustomFieldValue): CustomValues {
+    const next = { ...values };
+    if (isEmptyFieldValue(value)) delete next[fieldId];
+    else next[fieldId] = value;
+    return next;
+}
+
+/**
+ * Human-readable value for cards, history and analytics.
+ */
+export function formatFieldValue(field: DbCustomField, value: CustomFieldValue | undefined, team: DbTeamMember[]): string {
+    if (isEmptyFieldValue(value)) return '—';
+    switch (field.type) {
+        case 'checkbox':
+            return '✓';
+        case 'multi_select':
+            return (Array.isArray(value) ? value : [String(value)]).join(', ');
+        case 'member':
+            return team.find(m => m.id === value)?.name || '—';
+        case 'date':
+            return new Date(`${value}T00:00:00`).toLocaleDateString([], { year: 'numeric', month: 'short', day: 'numeric' });
+        default:
+            return String(value);
+    }
+}
+
+/**
+ * Board filter on one field. An empty `filter` matches any task where the field is filled in.
+ * Text matches by substring, multi-select when it contains the option, the rest by equality.
+ */
+export function matchesFieldFilter(field: DbCustomField, value: CustomFieldValue | undefined, filter: string): boolean {
+    if (!filter) return !isEmptyFieldValue(value);
+    switch (field.type) {
+        case 'checkbox':
+            return (value === true) === (filter === 'true');
+        case 'text':
+            return typeof value === 'string' && value.toLowerCase().includes(filter.toLowerCase());
+        case 'number':
+            return typeof value === 'number' && value === Number(filter);
+        case 'multi_select':
+            return Array.isArray(value) && value.includes(filter);
+        default:
+            return value === filter;
+    }
+}
+
+export interface FieldAggregate {
+    filled: number;
+    sum: number | null; // Number fields only
+    average: number | null;
+    counts: { key: string; label: string; count: number }[]; // Per option/member/yes-no, most used first
+}
+
+/**
+ * Summary of a field over `tasks`, used by the analytics page.
+ */
+export function aggregateField(field: DbCustomField, tasks: DbTask[], team: DbTeamMember[]): FieldAggregate {
+    const values = tasks.map(task => task.custom_values?.[field.id]).filter(value => !isEmptyFieldValue(value));
+    const counts = new Map<string, number>();
+    const count = (key: string) => counts.set(key, (counts.get(key) || 0) + 1);
+
+    if (field.type === 'select' || field.type === 'member') values.forEach(value => count(String(value)));
+    if (field.type === 'multi_select') values.forEach(value => (Array.isArray(value) ? value : [String(value)]).forEach(count));
+    if (field.type === 'checkbox') {
+        counts.set('true', values.length);
+        counts.set('false', tasks.length - values.length);
+    }
+
+    const numbers = field.type === 'number' ? values.map(Number).filter(n => !isNaN(n)) : [];
+    const sum = numbers.reduce((total, n) => total + n, 0);
+
+    return {
+        filled: values.length,
+        sum: field.type === 'number' ? sum : null,
+        average: numbers.length > 0 ? sum / numbers.length : null,
+        counts: Array.from(counts, ([key, n]) => ({
+            key,
+            label: field.type === 'member' ? team.find(m => m.id === key)?.name || '—' : key,
+            count: n,
+        })).sort((a, b) => b.count - a.count),
+    };
+}
+
+export async function fetchCustomFields(organizationId: string): Promise<DbCustomField[]> {
+    const { data, error } = await supabase
+        .from('custom_fields')
+        .select('*')
+        .eq('organization_id', organizationId)
+        .order('position', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+}
+
+export async function createCustomField(
+    organizationId: string,
+    field: Pick<DbCustomField, 'name' | 'type' | 'options' | 'position'>
+): Promise<DbCustomField> {
+    const { data, error } = await supabase
+        .from('custom_fields')
+        .insert({ organization_id: organizationId, ...field, name: field.name.trim() })
+        .select()
+        .single();
+
+    if (error) throw error;
+    return data;
+}
+
+export async function updateCustomField(fieldId: string, updates: Partial<Pick<DbCustomField, 'name' | 'options' | 'position'>>) {
+    const { error } = await supabase
+        .from('custom_fields')
+        .update(updates)
+        .eq('id', fieldId);
+
+    if (error) throw error;
+}
+
+/**
+ * A trigger removes the field's values from all tasks, see supabase_migration_custom_fields.sql.
+ */
+export async function deleteCustomField(fieldId: string) {
+    const { error } = await supabase
+        .from('custom_fields')
+        .delete()
+        .eq('id', fieldId);
+
+    if (error) throw error;
+}
@@ -0,0 +1,99 @@
+import { supabase } from './supabase';
+import type { DbTask } from './taskService';
+
+export interface DbTaskDependency {
+    id: string;
+    task_id: string; // The blocked task
+    blocked_by_id: string; // The task that has to be done first
+    organization_id: string;
+    created_at: string;
+}
+
+/**
+ * Checks whether making `taskId` wait for `blockedById` would close a loop,
+ * i.e. `blockedById` already (transitively) waits for `taskId`.
+ */
+export function wouldCreateDependencyCycle(dependencies: DbTaskDependency[], taskId: string, blockedById: string): boolean {
+    if (taskId === blockedById) return true;
+
+    const visited = new Set<string>();
+    const stack = [blockedById];
+    while (stack.length > 0) {
+        const current = stack.pop()!;
+        if (current === taskId) return true;
+        if (visited.has(current)) continue;
+        visited.add(current);
+        dependencies
+            .filter(d => d.task_id === current)
+            .forEach(d => stack.push(d.blocked_by_id));
+    }
+    return false;
+}
+
+/**
+ * Tasks that `task` waits for (upstream).
+ */
+export function getBlockers(taskId: string, dependencies: DbTaskDependency[], tasks: DbTask[]): DbTask[] {
+    const ids = dependencies.filter(d => d.task_id === taskId).map(d => d.blocked_by_id);
+    return tasks.filter(t => ids.includes(t.id));
+}
+
+/**
+ * Tasks waiting for `task` (downstream).
+ */
+export function getBlockedTasks(taskId: string, dependencies: DbTaskDependency[], tasks: DbTask[]): DbTask[] {
+    const ids = dependencies.filter(d => d.blocked_by_id === taskId).map(d => d.task_id);
+    return tasks.filter(t => ids.includes(t.id));
+}
+
+/**
+ * Blockers of a task that are not done yet. An empty list means the task can be worked on.
+ */
+export function getOpenBlockers(taskId: string, dependencies: DbTaskDependency[], tasks: DbTask[], doneStatus: string): DbTask[] {
+    return getBlockers(taskId, dependencies, tasks).filter(t => t.status !== doneStatus);
+}
+
+export async function fetchDependencies(organizationId: string): Promise<DbTaskDependency[]> {
+    const { data, error } = await supabase
+        .from('task_dependencies')
+        .select('*')
+        .eq('organization_id', organizationId);
+
+    if (error) throw error;
+    return data || [];
+}
+
+export async function addDependency(taskId: string, blockedById: string, organizationId: string): Promise<DbTaskDependency> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+        throw new Error('Not authenticated');
+    }
+
+    // Check against the latest links, not the possibly stale copy on the page
+    const current = await fetchDependencies(organizationId);
+    if (wouldCreateDependencyCycle(current, taskId, blockedById)) {
+        throw new Error('Dependency cycle');
+    }
+
+    const { data, error } = await supabase
+        .from('task_dependencies')
+        .insert({
+            task_id: taskId,
+            blocked_by_id: blockedById,
+            organization_id: organizationId,
+        })
+        .select()
+        .single();
+
+    if (error) throw error;
+    return data;
+}
+
+export async function removeDependency(dependencyId: string) {
+    const { error } = await supabase
+        .from('task_dependencies')
+        .delete()
+        .eq('id', dependencyId);
+
+    if (error) throw error;
+}
@@ -36,26 +36,10 @@ export function getEligibleAssignees(team: DbTeamMember[], currentUserId: string
     return [currentMember, ...subordinates];
 }
 
-/**
- * Returns a list of names of members whose tasks are visible to the current user.
- * - Top-level: All names in the team.
- * - Others: Their own name + all subordinates' names.
- */
-export function getVisibleAssigneeNames(team: DbTeamMember[], currentUserId: string): string[] {
-    const currentMember = team.find(m => m.user_id === currentUserId);
-    if (!currentMember) return [];
-
-    // Top-level users see everyone
-    if (!currentMember.manager_id) {
-        return team.map(m => m.name);
-    }
-
-    // Others see themselves and their subordinates
-    const subordinates = getAllSubordinates(team, currentMember.id);
-    return [currentMember.name, ...subordinates.map(s => s.name)];
-}
 /**
  * Returns a list of user IDs whose tasks are visible to the current user.
+ * The database enforces the same rule with the can_view_task policy
+ * (supabase_migration_task_visibility.sql), so this only shapes views of already visible data.
  */
 export function getVisibleUserIds(team: DbTeamMember[], currentUserId: string): string[] {
     const currentMember = team.find(m => m.user_id === currentUserId);
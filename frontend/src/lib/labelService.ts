@@ -0,0 +1,97 @@
+import { supabase } from './supabase';
+
+export interface DbLabel {
+    id: string;
+    organization_id: string;
+    name: string;
+    color: string; // Hex, e.g. #6366f1
+    created_at: string;
+}
+
+export interface DbTaskLabel {
+    task_id: string;
+    label_id: string;
+    created_at: string;
+}
+
+// Offered when creating a label; any hex color can be picked afterwards
+export const LABEL_COLORS = ['#6366f1', '#8b5cf6', '#ec4899', '#f87171', '#fbbf24', '#34d399', '#06b6d4', '#94a3b8'];
+
+/**
+ * Labels of a task in the organization's order. Ids of deleted labels are skipped.
+ */
+export function getTaskLabels(labelIds: string[], labels: DbLabel[]): DbLabel[] {
+    return labels.filter(label => labelIds.includes(label.id));
+}
+
+export async function fetchLabels(organizationId: string): Promise<DbLabel[]> {
+    const { data, error } = await supabase
+        .from('labels')
+        .select('*')
+        .eq('organization_id', organizationId)
+        .order('name', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+}
+
+export async function createLabel(organizationId: string, name: string, color: string): Promise<DbLabel> {
+    const { data, error } = await supabase
+        .from('labels')
+        .insert({ organization_id: organizationId, name: name.trim(), color })
+        .select()
+        .single();
+
+    if (error) throw error;
+    return data;
+}
+
+/**
+ * Tasks reference labels by id, so a rename or color change shows up on every task at once.
+ */
+export async function updateLabel(labelId: string, updates: Partial<Pick<DbLabel, 'name' | 'color'>>) {
+    const { error } = await supabase
+        .from('labels')
+        .update(updates)
+        .eq('id', labelId);
+
+    if (error) throw error;
+}
+
+/**
+ * Deleting a label removes it from all tasks (task_labels rows cascade).
+ */
+export async function deleteLabel(labelId: string) {
+    const { error } = await supabase
+        .from('labels')
+        .delete()
+        .eq('id', labelId);
+
+    if (error) throw error;
+}
+
+/**
+ * Replaces the labels of a task with `labelIds`, touching only the rows that change.
+ */
+export async function setTaskLabels(taskId: string, current: string[], labelIds: string[]) {
+    const removed = current.filter(id => !labelIds.includes(id));
+    const added = labelIds.filter(id => !current.includes(id));
+
+    if (removed.length > 0) {
+        const { error } = await supabase
+            .from('task_labels')
+            .delete()
+            .eq('task_id', taskId)
+            .in('label_id', removed);
+
+        if (error) throw error;
+    }
+
+    if (added.length > 0) {
+        const { error } = await supabase
+            .from('task_labels')
+            .insert(added.map(label_id => ({ task_id: taskId, label_id })));
+
+        if (error) throw error;
+    }
+}
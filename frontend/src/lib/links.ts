@@ -0,0 +1,86 @@
+export type TaskLinkType = 'google_doc' | 'google_sheet' | 'google_slides' | 'figma' | 'github_pr' | 'github_issue' | 'url';
+
+export interface TaskLink {
+    id: string;
+    url: string;
+    label: string; // Empty means "use the default label for the type"
+    type: TaskLinkType;
+}
+
+export interface LinkInfo {
+    type: TaskLinkType;
+    icon: string;
+    label: string;
+}
+
+const LINK_ICONS: Record<TaskLinkType, string> = {
+    google_doc: '📄',
+    google_sheet: '📊',
+    google_slides: '📽',
+    figma: '🎨',
+    github_pr: '🔀',
+    github_issue: '🐞',
+    url: '🔗',
+};
+
+const GITHUB_PATTERN = /github\.com\/[^/]+\/[^/]+\/(pull|issues)\/(\d+)/i;
+
+export function detectLinkType(url: string): TaskLinkType {
+    if (/docs\.google\.com\/spreadsheets/i.test(url)) return 'google_sheet';
+    if (/docs\.google\.com\/presentation/i.test(url)) return 'google_slides';
+    if (/(docs|drive)\.google\.com/i.test(url)) return 'google_doc';
+    if (/figma\.com/i.test(url)) return 'figma';
+    const github = url.match(GITHUB_PATTERN);
+    if (github) return github[1].toLowerCase() === 'pull' ? 'github_pr' : 'github_issue';
+    return 'url';
+}
+
+/**
+ * Adds a scheme to bare domains ("figma.com/file/…") so links open as absolute URLs.
+ * Only web and mail links keep their scheme; anything else (javascript:, data:) becomes a harmless https URL.
+ */
+export function normalizeUrl(url: string): string {
+    const trimmed = url.trim();
+    return /^(https?:\/\/|mailto:)/i.test(trimmed) ? trimmed : `https://${trimmed}`;
+}
+
+export function createLink(url: string, label = ''): TaskLink {
+    const normalized = normalizeUrl(url);
+    return { id: crypto.randomUUID(), url: normalized, label: label.trim(), type: detectLinkType(normalized) };
+}
+
+const defaultLabel = (type: TaskLinkType, url: string) => {
+    switch (type) {
+        case 'google_doc': return 'Google Doc';
+        case 'google_sheet': return 'Google Sheet';
+        case 'google_slides': return 'Google Slides';
+        case 'figma': return 'Figma';
+        case 'github_pr': return `PR #${url.match(GITHUB_PATTERN)?.[2] ?? ''}`;
+        case 'github_issue': return `Issue #${url.match(GITHUB_PATTERN)?.[2] ?? ''}`;
+        default:
+            try {
+                return new URL(url).hostname.replace(/^www\./, '');
+            } catch {
+                return 'Link';
+            }
+    }
+};
+
+/**
+ * Icon and display label of a link, shared by the board, calendar and overview.
+ */
+export function getLinkInfo(link: Pick<TaskLink, 'url' | 'label'> & { type?: TaskLinkType }): LinkInfo {
+    const type = link.type || detectLinkType(link.url);
+    return { type, icon: LINK_ICONS[type], label: link.label || defaultLabel(type, link.url) };
+}
+
+/**
+ * Returns a copy of `links` with the item at `index` moved by `offset` places.
+ */
+export function moveLink(links: TaskLink[], index: number, offset: number): TaskLink[] {
+    const target = index + offset;
+    if (target < 0 || target >= links.length) return links;
+    const next = [...links];
+    [next[index], next[target]] = [next[target], next[index]];
+    return next;
+}
@@ -0,0 +1,28 @@
+// @mentions in comments, shared by the comment box (commentService.ts) and the Telegram bot
+// (supabase/functions/telegram-bot). No imports, so the edge functions load it as is.
+
+export interface MentionableMember {
+    user_id: string | null;
+    name: string;
+}
+
+export const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Finds members mentioned as `@Name` in plain text.
+ * Names may contain spaces, so every member name is matched against the text
+ * instead of tokenizing on whitespace. Members without an account are skipped.
+ */
+export function findMentions<M extends MentionableMember>(text: string, members: M[]): M[] {
+    const mentioned = new Map<string, M>();
+
+    for (const member of members) {
+        if (!member.user_id || !member.name) continue;
+        const pattern = new RegExp(`@${escapeRegExp(member.name)}(?![\\p{L}\\p{N}_])`, 'iu');
+        if (pattern.test(text)) {
+            mentioned.set(member.user_id, member);
+        }
+    }
+
+    return Array.from(mentioned.values());
+}
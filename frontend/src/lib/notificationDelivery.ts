@@ -0,0 +1,295 @@
+// How notifications are worded and which channels they go to when, shared by the web app
+// (notificationService.ts) and the edge functions. No imports, so Deno loads it as is.
+
+export const NOTIFICATION_TYPES = [
+    'task_assigned', 'task_review', 'task_completed', 'task_unblocked', 'approval', 'mention', 'task_watch',
+    'deadline', 'join_request', 'system'
+] as const;
+
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+
+export const NOTIFICATION_CHANNELS = ['in_app', 'email', 'telegram'] as const;
+
+export type NotificationChannel = typeof NOTIFICATION_CHANNELS[number];
+
+// What users choose channels for; several notification types can share a category
+export const NOTIFICATION_CATEGORIES = [
+    'task_assigned', 'task_review', 'task_completed', 'mention', 'task_updates', 'deadline', 'join_request'
+] as const;
+
+export type NotificationCategory = typeof NOTIFICATION_CATEGORIES[number];
+
+const CATEGORY_BY_TYPE: Record<NotificationType, NotificationCategory | null> = {
+    task_assigned: 'task_assigned',
+    task_review: 'task_review',
+    approval: 'task_review',
+    task_completed: 'task_completed',
+    mention: 'mention',
+    task_unblocked: 'task_updates',
+    task_watch: 'task_updates',
+    deadline: 'deadline', // new deadlines, for assignees and watchers alike
+    join_request: 'join_request',
+    system: null, // always delivered in-app
+};
+
+export interface DbNotificationPreferences {
+    user_id: string;
+    channels: Partial<Record<NotificationCategory, NotificationChannel[]>>;
+    quiet_hours_start: string | null; // 'HH:MM' in `timezone`
+    quiet_hours_end: string | null;
+    timezone: string;
+    digest: boolean; // emails are batched into the daily digest
+    daily_digest: boolean; // the digest also lists due, overdue and review tasks and today's announcements
+    language: string; // of emails and other messages sent outside the app
+    updated_at?: string;
+}
+
+export interface NotificationDelivery {
+    channel: NotificationChannel;
+    deliver_after: string | null; // null delivers right away
+    digest: boolean;
+}
+
+const DEFAULT_CHANNELS: NotificationChannel[] = ['in_app'];
+
+export function getBrowserTimezone(): string {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+export function getDefaultPreferences(userId: string): DbNotificationPreferences {
+    return {
+        user_id: userId,
+        channels: {},
+        quiet_hours_start: null,
+        quiet_hours_end: null,
+        timezone: getBrowserTimezone(),
+        digest: false,
+        daily_digest: false,
+        language: 'ru',
+    };
+}
+
+/** Channels chosen for a notification type; categories never configured stay in-app only. */
+export function getNotificationChannels(preferences: DbNotificationPreferences, type: NotificationType): NotificationChannel[] {
+    const category = CATEGORY_BY_TYPE[type];
+    if (!category) return DEFAULT_CHANNELS;
+    return preferences.channels[category] ?? DEFAULT_CHANNELS;
+}
+
+const toMinutes = (time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + (minutes || 0);
+};
+
+const getLocalMinutes = (date: Date, timezone: string) => {
+    try {
+        const parts = new Intl.DateTimeFormat('en-GB', { timeZone: timezone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }).formatToParts(date);
+        const part = (type: string) => Number(parts.find(p => p.type === type)?.value || 0);
+        return part('hour') * 60 + part('minute');
+    } catch {
+        return date.getUTCHours() * 60 + date.getUTCMinutes();
+    }
+};
+
+/**
+ * When the quiet hours covering `now` end, or null outside of them.
+ * The window may wrap past midnight (22:00 - 08:00).
+ */
+export function getQuietHoursEnd(preferences: DbNotificationPreferences, now: Date): Date | null {
+    const { quiet_hours_start: start, quiet_hours_end: end } = preferences;
+    if (!start || !end || start === end) return null;
+
+    const current = getLocalMinutes(now, preferences.timezone);
+    const from = toMinutes(start);
+    const to = toMinutes(end);
+    const quiet = from < to ? current >= from && current < to : current >= from || current < to;
+    if (!quiet) return null;
+
+    const minutesLeft = (to - current + 24 * 60) % (24 * 60);
+    const endsAt = new Date(now.getTime() + minutesLeft * 60 * 1000);
+    endsAt.setSeconds(0, 0);
+    return endsAt;
+}
+
+/**
+ * Where and when a notification goes. In-app rows are silent and always written right away;
+ * email and Telegram wait for the end of quiet hours, and email can be held for the digest.
+ */
+export function planDelivery(preferences: DbNotificationPreferences, type: NotificationType, now: Date): NotificationDelivery[] {
+    const quietUntil = getQuietHoursEnd(preferences, now)?.toISOString() ?? null;
+
+    return getNotificationChannels(preferences, type).map(channel => {
+        if (channel === 'in_app') return { channel, deliver_after: null, digest: false };
+        if (channel === 'email' && preferences.digest) return { channel, deliver_after: null, digest: true };
+        return { channel, deliver_after: quietUntil, digest: false };
+    });
+}
+
+/** A workflow column. Built-in columns have no name and are labelled through i18n. */
+export interface NotificationStatus {
+    key: string;
+    name: string;
+}
+
+export type NotificationChange =
+    | { field: 'status'; from: NotificationStatus; to: NotificationStatus }
+    | { field: 'assignee'; name: string }
+    | { field: 'deadline'; date: string | null };
+
+/**
+ * What a notification says, without the wording. Stored with queued notifications so email
+ * and Telegram word them in the recipient's language rather than the sender's.
+ */
+export type NotificationParams =
+    | { template: 'new_task' | 'reviewer' | 'task_review' | 'task_unblocked' | 'mention'; task: string }
+    | { template: 'approval' | 'approved' | 'rejected'; task: string; status: NotificationStatus }
+    | { template: 'task_watch'; task: string; changes: NotificationChange[] }
+    | { template: 'deadline'; task: string; date: string | null }
+    | { template: 'comment'; task: string; excerpt: string }
+    | { template: 'join_request'; name: string };
+
+// i18next's t() and the edge functions' translator both fit
+type Translate = (key: string, values?: Record<string, string | number>) => string;
+
+const statusLabel = (t: Translate, status: NotificationStatus) => {
+    if (status.name) return status.name;
+    const key = `dashboard.status.${status.key}`;
+    const label = t(key);
+    return label === key ? status.key : label;
+};
+
+const formatChangeDate = (date: string) =>
+    new Date(date).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Title and message of a notification in the language of `t`. `formatDate` lets the edge
+ * functions write deadlines in the recipient's locale and timezone.
+ */
+export function renderNotification(
+    params: NotificationParams,
+    t: Translate,
+    formatDate: (date: string) => string = formatChangeDate
+): { title: string; message: string } {
+    const key = (name: string) => `dashboard.notifications.${name}`;
+
+    switch (params.template) {
+        case 'new_task':
+        case 'reviewer':
+        case 'task_review':
+        case 'task_unblocked':
+        case 'mention':
+            return { title: t(key(`${params.template}_title`)), message: `${t(key(`${params.template}_msg`))}: ${params.task}` };
+        case 'approval':
+            return { title: t(key('approval_title')), message: `${t(key('approval_msg'))}: ${params.task} → ${statusLabel(t, params.status)}` };
+        case 'approved':
+        case 'rejected':
+            return { title: t(key(`${params.template}_title`)), message: `${params.task} → ${statusLabel(t, params.status)}` };
+        case 'task_watch': {
+            const changes = params.changes.map(change => {
+                switch (change.field) {
+                    case 'status':
+                        return t('dashboard.watchers.changes.status', { from: statusLabel(t, change.from), to: statusLabel(t, change.to) });
+                    case 'assignee':
+                        return t('dashboard.watchers.changes.assignee', { name: change.name });
+                    case 'deadline':
+                        return t('dashboard.watchers.changes.deadline', { date: change.date ? formatDate(change.date) : '—' });
+                }
+            });
+            return { title: t(key('task_watch_title')), message: `${params.task}: ${changes.join('; ')}` };
+        }
+        case 'deadline':
+            return {
+                title: t(key('deadline_title')),
+                message: `${params.task}: ${t('dashboard.watchers.changes.deadline', { date: params.date ? formatDate(params.date) : '—' })}`,
+            };
+        case 'comment':
+            return { title: t(key('comment_title')), message: `${params.task}: ${params.excerpt}` };
+        case 'join_request':
+            return { title: t(key('join_request_title')), message: t(key('join_request_msg'), { name: params.name }) };
+    }
+}
+
+export interface NotificationMessage {
+    title: string; // in the sender's language, for the in-app list
+    message: string;
+    type: NotificationType;
+    link_url?: string;
+    params?: NotificationParams;
+}
+
+/** A notification worded in the sender's language that other channels can word again for the recipient. */
+export function composeNotification(
+    t: Translate,
+    type: NotificationType,
+    params: NotificationParams,
+    link_url?: string
+): NotificationMessage {
+    return { ...renderNotification(params, t), type, link_url, params };
+}
+
+/** The wording a channel outside the app should use: from `params` when stored, as sent otherwise. */
+export function getNotificationText(
+    notification: { title: string; message: string; params?: NotificationParams | null },
+    t: Translate,
+    formatDate?: (date: string) => string
+): { title: string; message: string } {
+    return notification.params
+        ? renderNotification(notification.params, t, formatDate)
+        : { title: notification.title, message: notification.message };
+}
+
+/** Delivers a notification over one channel. */
+export interface NotificationTransport {
+    channel: NotificationChannel;
+    deliver(userId: string, notification: NotificationMessage, delivery: NotificationDelivery): Promise<void>;
+}
+
+/** Records deliveries instead of sending them, for exercising the dispatcher locally. */
+export function createMemoryTransport(channel: NotificationChannel) {
+    const deliveries: { userId: string; notification: NotificationMessage; delivery: NotificationDelivery }[] = [];
+    const transport: NotificationTransport = {
+        channel,
+        async deliver(userId, notification, delivery) {
+            deliveries.push({ userId, notification, delivery });
+        }
+    };
+    return { transport, deliveries };
+}
+
+export interface NotificationDispatcher {
+    /** Sends a notification according to the recipient's preferences and returns what was delivered. */
+    dispatch(userId: string, notification: NotificationMessage): Promise<NotificationDelivery[]>;
+}
+
+export function createNotificationDispatcher(options: {
+    transports: NotificationTransport[];
+    loadPreferences: (userId: string) => Promise<DbNotificationPreferences>;
+    now?: () => Date;
+}): NotificationDispatcher {
+    const now = options.now ?? (() => new Date());
+
+    return {
+        async dispatch(userId, notification) {
+            let preferences: DbNotificationPreferences;
+            try {
+                preferences = await options.loadPreferences(userId);
+            } catch (err) {
+                console.error('Error loading notification preferences:', err);
+                preferences = getDefaultPreferences(userId);
+            }
+
+            const delivered: NotificationDelivery[] = [];
+            for (const delivery of planDelivery(preferences, notification.type, now())) {
+                const transport = options.transports.find(t => t.channel === delivery.channel);
+                if (!transport) continue;
+                try {
+                    await transport.deliver(userId, notification, delivery);
+                    delivered.push(delivery);
+                } catch (err) {
+                    console.error(`Error sending ${delivery.channel} notification:`, err);
+                }
+            }
+            return delivered;
+        }
+    };
+}
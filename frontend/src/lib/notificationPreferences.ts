@@ -0,0 +1,37 @@
+import { supabase } from './supabase';
+import { getDefaultPreferences, type DbNotificationPreferences } from './notificationDelivery';
+
+// Channel planning is shared with the edge functions, see notificationDelivery.ts
+export {
+    NOTIFICATION_CHANNELS, NOTIFICATION_CATEGORIES, getBrowserTimezone, getDefaultPreferences,
+    getNotificationChannels, getQuietHoursEnd, planDelivery,
+    type NotificationChannel, type NotificationCategory, type DbNotificationPreferences, type NotificationDelivery
+} from './notificationDelivery';
+
+/** Preferences of any user (senders need the recipient's), with defaults for users who never saved any. */
+export async function fetchNotificationPreferences(userId: string): Promise<DbNotificationPreferences> {
+    const { data, error } = await supabase
+        .from('notification_preferences')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+    if (error) throw error;
+    return data ? { ...getDefaultPreferences(userId), ...data, channels: data.channels || {} } : getDefaultPreferences(userId);
+}
+
+export async function saveNotificationPreferences(
+    updates: Omit<DbNotificationPreferences, 'user_id' | 'updated_at'>
+): Promise<DbNotificationPreferences> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const { data, error } = await supabase
+        .from('notification_preferences')
+        .upsert({ ...updates, user_id: user.id, updated_at: new Date().toISOString() })
+        .select()
+        .single();
+
+    if (error) throw error;
+    return data;
+}
@@ -0,0 +1,154 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createMemoryTransport, createNotificationDispatcher, type NotificationMessage } from './notificationService';
+import { getDefaultPreferences, type DbNotificationPreferences } from './notificationPreferences';
+
+vi.mock('./supabase', () => ({ supabase: {} }));
+
+const USER_ID = 'user-1';
+
+const assigned: NotificationMessage = {
+    title: 'New task',
+    message: 'New task: Write the report',
+    type: 'task_assigned',
+    link_url: '/dashboard/tasks?task=task-1',
+};
+
+const preferencesWith = (overrides: Partial<DbNotificationPreferences>): DbNotificationPreferences => ({
+    ...getDefaultPreferences(USER_ID),
+    timezone: 'UTC',
+    ...overrides,
+});
+
+function setup(preferences: DbNotificationPreferences | Error, now = new Date('2026-03-10T12:00:00Z')) {
+    const inApp = createMemoryTransport('in_app');
+    const email = createMemoryTransport('email');
+    const telegram = createMemoryTransport('telegram');
+    const dispatcher = createNotificationDispatcher({
+        transports: [inApp.transport, email.transport, telegram.transport],
+        loadPreferences: async () => {
+            if (preferences instanceof Error) throw preferences;
+            return preferences;
+        },
+        now: () => now,
+    });
+    return { dispatcher, inApp: inApp.deliveries, email: email.deliveries, telegram: telegram.deliveries };
+}
+
+describe('createNotificationDispatcher', () => {
+    it('sends to the channels chosen for the category', async () => {
+        const { dispatcher, inApp, email, telegram } = setup(preferencesWith({ channels: { task_assigned: ['in_app', 'telegram'] } }));
+
+        await dispatcher.dispatch(USER_ID, assigned);
+
+        expect(inApp).toHaveLength(1);
+        expect(inApp[0]).toMatchObject({ userId: USER_ID, notification: assigned });
+        expect(email).toHaveLength(0);
+        expect(telegram).toHaveLength(1);
+        expect(telegram[0].delivery).toEqual({ channel: 'telegram', deliver_after: null, digest: false });
+    });
+
+    it('keeps categories nobody configured in the app', async () => {
+        const { dispatcher, inApp, email, telegram } = setup(preferencesWith({ channels: { mention: ['email'] } }));
+
+        await dispatcher.dispatch(USER_ID, assigned);
+
+        expect(inApp).toHaveLength(1);
+        expect(email).toHaveLength(0);
+        expect(telegram).toHaveLength(0);
+    });
+
+    it('sends nothing for a category that is turned off', async () => {
+        const { dispatcher, inApp, email, telegram } = setup(preferencesWith({ channels: { task_assigned: [] } }));
+
+        expect(await dispatcher.dispatch(USER_ID, assigned)).toEqual([]);
+        expect(inApp.length + email.length + telegram.length).toBe(0);
+    });
+
+    it('routes new deadlines by their own category', async () => {
+        const { dispatcher, inApp, email } = setup(preferencesWith({ channels: { deadline: ['email'], task_updates: ['in_app'] } }));
+
+        await dispatcher.dispatch(USER_ID, { title: 'Deadline changed', message: 'Write the report: deadline —', type: 'deadline' });
+
+        expect(inApp).toHaveLength(0);
+        expect(email).toHaveLength(1);
+    });
+
+    it('always delivers system notifications in the app', async () => {
+        const { dispatcher, inApp, email } = setup(preferencesWith({ channels: { task_assigned: [] } }));
+
+        await dispatcher.dispatch(USER_ID, { title: 'Maintenance', message: '', type: 'system' });
+
+        expect(inApp).toHaveLength(1);
+        expect(email).toHaveLength(0);
+    });
+
+    it('holds email and Telegram until quiet hours end, but not in-app rows', async () => {
+        const { dispatcher, inApp, email, telegram } = setup(
+            preferencesWith({
+                channels: { task_assigned: ['in_app', 'email', 'telegram'] },
+                quiet_hours_start: '22:00',
+                quiet_hours_end: '08:00',
+            }),
+            new Date('2026-03-10T23:30:00Z')
+        );
+
+        await dispatcher.dispatch(USER_ID, assigned);
+
+        expect(inApp[0].delivery.deliver_after).toBeNull();
+        expect(email[0].delivery.deliver_after).toBe('2026-03-11T08:00:00.000Z');
+        expect(telegram[0].delivery.deliver_after).toBe('2026-03-11T08:00:00.000Z');
+    });
+
+    it('reads quiet hours in the recipient timezone', async () => {
+        const { dispatcher, email } = setup(
+            preferencesWith({
+                channels: { task_assigned: ['email'] },
+                quiet_hours_start: '22:00',
+                quiet_hours_end: '08:00',
+                timezone: 'Asia/Bishkek', // UTC+6: 12:00 UTC is 18:00 there
+            })
+        );
+
+        await dispatcher.dispatch(USER_ID, assigned);
+
+        expect(email[0].delivery.deliver_after).toBeNull();
+    });
+
+    it('holds email for the digest while Telegram still goes out', async () => {
+        const { dispatcher, email, telegram } = setup(
+            preferencesWith({ channels: { task_assigned: ['email', 'telegram'] }, digest: true })
+        );
+
+        await dispatcher.dispatch(USER_ID, assigned);
+
+        expect(email[0].delivery).toEqual({ channel: 'email', deliver_after: null, digest: true });
+        expect(telegram[0].delivery).toEqual({ channel: 'telegram', deliver_after: null, digest: false });
+    });
+
+    it('falls back to in-app delivery when preferences cannot be loaded', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const { dispatcher, inApp, email } = setup(new Error('network'));
+
+        await dispatcher.dispatch(USER_ID, assigned);
+
+        expect(inApp).toHaveLength(1);
+        expect(email).toHaveLength(0);
+    });
+
+    it('keeps delivering when one channel fails', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const inApp = createMemoryTransport('in_app');
+        const dispatcher = createNotificationDispatcher({
+            transports: [
+                { channel: 'email', deliver: async () => { throw new Error('queue down'); } },
+                inApp.transport,
+            ],
+            loadPreferences: async () => preferencesWith({ channels: { task_assigned: ['email', 'in_app'] } }),
+        });
+
+        const delivered = await dispatcher.dispatch(USER_ID, assigned);
+
+        expect(delivered.map(d => d.channel)).toEqual(['in_app']);
+        expect(inApp.deliveries).toHaveLength(1);
+    });
+});
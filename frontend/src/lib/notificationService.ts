@@ -1,17 +1,30 @@
 import { supabase } from './supabase';
+import type { RealtimeChange } from './realtime';
+import { fetchNotificationPreferences } from './notificationPreferences';
+import {
+    createNotificationDispatcher as createDispatcher,
+    type DbNotificationPreferences, type NotificationChannel, type NotificationDispatcher,
+    type NotificationMessage, type NotificationTransport, type NotificationType
+} from './notificationDelivery';
+
+export {
+    NOTIFICATION_TYPES, composeNotification, createMemoryTransport,
+    type NotificationType, type NotificationMessage, type NotificationParams, type NotificationChange,
+    type NotificationTransport, type NotificationDispatcher
+} from './notificationDelivery';
 
 export interface DbNotification {
     id: string;
     user_id: string;
     title: string;
     message: string;
-    type: 'task_assigned' | 'task_review' | 'task_completed' | 'system';
+    type: NotificationType;
     read: boolean;
     created_at: string;
     link_url?: string;
 }
 
-export async function fetchNotifications(): Promise<DbNotification[]> {
+export async function fetchNotifications(limit = 20): Promise<DbNotification[]> {
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) return [];
 
@@ -20,7 +33,7 @@ export async function fetchNotifications(): Promise<DbNotification[]> {
         .select('*')
         .eq('user_id', user.id)
         .order('created_at', { ascending: false })
-        .limit(20);
+        .limit(limit);
 
     if (error) {
         console.error('Error fetching notifications:', error);
@@ -29,23 +42,142 @@ export async function fetchNotifications(): Promise<DbNotification[]> {
     return data || [];
 }
 
-export async function sendNotification(userId: string, notification: {
-    title: string;
-    message: string;
-    type: DbNotification['type'];
-    link_url?: string;
-}) {
-    const { error } = await supabase
+export interface NotificationPageQuery {
+    page: number;
+    pageSize: number;
+    type?: NotificationType | null;
+    read?: boolean | null;
+}
+
+/** One page of the current user's notifications (newest first) with the total matching count. */
+export async function fetchNotificationPage(query: NotificationPageQuery): Promise<{ notifications: DbNotification[]; total: number }> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const from = query.page * query.pageSize;
+    let request = supabase
         .from('notifications')
-        .insert({
-            user_id: userId,
-            ...notification,
-            read: false
-        });
+        .select('*', { count: 'exact' })
+        .eq('user_id', user.id);
+
+    if (query.type) request = request.eq('type', query.type);
+    if (query.read !== null && query.read !== undefined) request = request.eq('read', query.read);
+
+    const { data, error, count } = await request
+        .order('created_at', { ascending: false })
+        .range(from, from + query.pageSize - 1);
+
+    if (error) throw error;
+    return { notifications: data || [], total: count || 0 };
+}
+
+export async function fetchUnreadCount(): Promise<number> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return 0;
+
+    const { count, error } = await supabase
+        .from('notifications')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', user.id)
+        .eq('read', false);
 
     if (error) {
-        console.error('Error sending notification:', error);
+        console.error('Error counting notifications:', error);
+        return 0;
+    }
+    return count || 0;
+}
+
+/**
+ * Subscribes to the user's notification rows and returns the unsubscribe function.
+ * `scope` keeps channels of different views (the bell, the notifications page) apart.
+ * Deletes cannot be filtered by column, so callers only apply ids they already hold.
+ */
+export function subscribeToNotifications(
+    userId: string,
+    onChange: (change: RealtimeChange<DbNotification>) => void,
+    scope = 'bell'
+): () => void {
+    const channel = supabase.channel(`notifications-${scope}-${userId}`);
+
+    for (const event of ['INSERT', 'UPDATE'] as const) {
+        channel.on(
+            'postgres_changes',
+            { event, schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+            (payload) => onChange({ eventType: event, new: payload.new as DbNotification, old: payload.old as Partial<DbNotification> })
+        );
+    }
+    channel.on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'notifications' },
+        (payload) => onChange({ eventType: 'DELETE', new: null, old: payload.old as Partial<DbNotification> })
+    );
+
+    channel.subscribe();
+    return () => {
+        supabase.removeChannel(channel);
+    };
+}
+
+export const inAppTransport: NotificationTransport = {
+    channel: 'in_app',
+    async deliver(userId, notification) {
+        const { error } = await supabase
+            .from('notifications')
+            .insert({
+                user_id: userId,
+                title: notification.title,
+                message: notification.message,
+                type: notification.type,
+                link_url: notification.link_url,
+                read: false
+            });
+
+        if (error) throw error;
     }
+};
+
+/**
+ * Queues a notification in `notification_outbox`; server functions send pending rows once
+ * `deliver_after` has passed (digest rows go out with the daily digest). The queue only takes
+ * recipients who share an organization with the sender (queue_notification in the migration).
+ */
+export function createOutboxTransport(channel: Exclude<NotificationChannel, 'in_app'>): NotificationTransport {
+    return {
+        channel,
+        async deliver(userId, notification, delivery) {
+            const { error } = await supabase.rpc('queue_notification', {
+                p_user_id: userId,
+                p_channel: channel,
+                p_type: notification.type,
+                p_title: notification.title,
+                p_message: notification.message,
+                p_link_url: notification.link_url || null,
+                p_params: notification.params || null,
+                p_deliver_after: delivery.deliver_after || new Date().toISOString(),
+                p_digest: delivery.digest,
+            });
+
+            if (error) throw error;
+        }
+    };
+}
+
+/** The shared dispatcher, reading preferences through the signed-in client unless told otherwise. */
+export function createNotificationDispatcher(options: {
+    transports: NotificationTransport[];
+    loadPreferences?: (userId: string) => Promise<DbNotificationPreferences>;
+    now?: () => Date;
+}): NotificationDispatcher {
+    return createDispatcher({ ...options, loadPreferences: options.loadPreferences ?? fetchNotificationPreferences });
+}
+
+const defaultDispatcher = createNotificationDispatcher({
+    transports: [inAppTransport, createOutboxTransport('email'), createOutboxTransport('telegram')]
+});
+
+export async function sendNotification(userId: string, notification: NotificationMessage) {
+    await defaultDispatcher.dispatch(userId, notification);
 }
 
 export async function markAsRead(notificationId: string) {
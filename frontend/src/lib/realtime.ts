@@ -0,0 +1,149 @@
+import { useEffect, useRef } from 'react';
+import { supabase } from './supabase';
+import { normalizeActivityValue } from './activityService';
+import type { DbTask } from './taskService';
+import type { DbEvent } from './eventService';
+import type { DbAnnouncement } from './announcementService';
+import type { DbTaskLabel } from './labelService';
+
+/** Row type of each table the app listens to. */
+export interface RealtimeRows {
+    tasks: DbTask;
+    events: DbEvent;
+    announcements: DbAnnouncement;
+    task_labels: DbTaskLabel;
+}
+
+export type RealtimeTable = keyof RealtimeRows;
+
+// task_labels has no organization_id: its changes are not filtered here, RLS limits them to visible tasks
+const ORGANIZATION_COLUMN: Record<RealtimeTable, boolean> = {
+    tasks: true,
+    events: true,
+    announcements: true,
+    task_labels: false,
+};
+
+export interface RealtimeChange<T> {
+    eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+    new: T | null;
+    old: Partial<T> & { id?: string };
+}
+
+/**
+ * Arguments of a change handler for `T`: checking `table` narrows `change` to that table's rows.
+ */
+export type RealtimeHandlerArgs<T extends RealtimeTable> = {
+    [K in T]: [table: K, change: RealtimeChange<RealtimeRows[K]>]
+}[T];
+
+/**
+ * Subscribes to row changes of `tables` in one organization and returns the unsubscribe function.
+ * Deletes cannot be filtered by column, so they arrive for every organization and are only
+ * applied when the id is already in local state (see mergeRealtimeChange).
+ */
+export function subscribeToOrgChanges<T extends RealtimeTable>(
+    organizationId: string,
+    tables: T[],
+    onChange: (...args: RealtimeHandlerArgs<T>) => void
+): () => void {
+    const channel = supabase.channel(`org-changes-${organizationId}-${tables.join('-')}`);
+    const emit = <K extends T>(table: K, change: RealtimeChange<RealtimeRows[K]>) =>
+        onChange(...[table, change] as RealtimeHandlerArgs<T>);
+
+    for (const table of tables) {
+        const filter = ORGANIZATION_COLUMN[table] ? `organization_id=eq.${organizationId}` : undefined;
+        for (const event of ['INSERT', 'UPDATE'] as const) {
+            channel.on<RealtimeRows[typeof table]>(
+                'postgres_changes',
+                { event, schema: 'public', table, filter },
+                (payload) => emit(table, { eventType: event, new: payload.new as RealtimeRows[typeof table], old: payload.old })
+            );
+        }
+        channel.on<RealtimeRows[typeof table]>(
+            'postgres_changes',
+            { event: 'DELETE', schema: 'public', table },
+            (payload) => emit(table, { eventType: 'DELETE', new: null, old: payload.old })
+        );
+    }
+
+    channel.subscribe();
+    return () => {
+        supabase.removeChannel(channel);
+    };
+}
+
+/**
+ * Keeps a subscription open while the component is mounted. The latest `onChange` is always
+ * used, so handlers can read current state without resubscribing.
+ */
+export function useOrgRealtime<T extends RealtimeTable>(
+    organizationId: string | null,
+    tables: T[],
+    onChange: (...args: RealtimeHandlerArgs<T>) => void
+) {
+    const handler = useRef(onChange);
+    useEffect(() => {
+        handler.current = onChange;
+    });
+
+    const tableKey = tables.join(',');
+    useEffect(() => {
+        if (!organizationId) return;
+        return subscribeToOrgChanges(organizationId, tableKey.split(',') as T[], (...args) => handler.current(...args));
+    }, [organizationId, tableKey]);
+}
+
+/**
+ * Applies an incoming change to a list of rows. Updates are merged over the local row so
+ * joined fields (checklists, labels) survive; inserts are completed by `create`, or skipped
+ * when it returns null (e.g. rows outside the loaded range).
+ */
+export function mergeRealtimeChange<T extends { id: string }>(
+    items: T[],
+    change: RealtimeChange<T>,
+    create: (row: T) => T | null = row => row,
+    compare?: (a: T, b: T) => number
+): T[] {
+    if (change.eventType === 'DELETE') {
+        return change.old.id ? items.filter(item => item.id !== change.old.id) : items;
+    }
+    if (!change.new) return items;
+
+    const incoming = change.new;
+    const exists = items.some(item => item.id === incoming.id);
+    let next: T[];
+    if (exists) {
+        next = items.map(item => item.id === incoming.id ? { ...item, ...incoming } : item);
+    } else {
+        const created = create(incoming);
+        if (!created) return items;
+        next = [created, ...items];
+    }
+    return compare ? [...next].sort(compare) : next;
+}
+
+// jsonb does not keep key order, so objects are compared with sorted keys
+const sortKeys = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(sortKeys);
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.keys(value).sort().map(key => [key, sortKeys((value as Record<string, unknown>)[key])]));
+    }
+    return value;
+};
+
+const toComparable = (field: string, value: unknown) =>
+    value && typeof value === 'object' ? JSON.stringify(sortKeys(value)) : normalizeActivityValue(field, value);
+
+/**
+ * Fields whose value differs between the local row and an incoming one. Changes made by the
+ * current user were already applied optimistically, so their echo comes back without differences.
+ */
+export function getChangedFields<T extends object>(local: T, incoming: Partial<T>, ignore: string[] = []): string[] {
+    return Object.keys(incoming)
+        .filter(field => !ignore.includes(field))
+        .filter(field =>
+            toComparable(field, (local as Record<string, unknown>)[field]) !==
+            toComparable(field, (incoming as Record<string, unknown>)[field])
+        );
+}
@@ -0,0 +1,141 @@
+// No imports: the Telegram bot schedules the next instance of a completed task with this module too.
+
+// i18next's t() and the edge functions' translator both fit
+type Translate = (key: string, values?: Record<string, string | number>) => string;
+
+export interface RecurrenceRule {
+    freq: 'daily' | 'weekly' | 'monthly' | 'after_completion';
+    interval: number; // Every N days / weeks / months; days after completion for 'after_completion'
+    weekdays?: number[]; // 0 (Sunday) - 6 (Saturday), weekly only
+    monthDay?: number; // 1 - 31, monthly only. Clamped to the length of shorter months
+}
+
+export const RECURRENCE_FREQUENCIES: RecurrenceRule['freq'][] = ['daily', 'weekly', 'monthly', 'after_completion'];
+
+// Monday-first, matching the calendar grid
+export const WEEKDAY_KEYS = [
+    { day: 1, key: 'mon' }, { day: 2, key: 'tue' }, { day: 3, key: 'wed' }, { day: 4, key: 'thu' },
+    { day: 5, key: 'fri' }, { day: 6, key: 'sat' }, { day: 0, key: 'sun' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const addDays = (date: Date, days: number) => {
+    const next = new Date(date);
+    next.setDate(next.getDate() + days);
+    return next;
+};
+
+const startOfWeek = (date: Date) => {
+    const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    const offset = (start.getDay() + 6) % 7; // Monday = 0
+    start.setDate(start.getDate() - offset);
+    return start;
+};
+
+const daysInMonth = (year: number, month: number) => new Date(year, month + 1, 0).getDate();
+
+/**
+ * Returns the first occurrence strictly after `from`, keeping the time of day of `from`.
+ * For 'after_completion', `from` is expected to be the completion moment.
+ */
+export function getNextOccurrence(rule: RecurrenceRule, from: Date): Date {
+    const interval = Math.max(1, Math.floor(rule.interval || 1));
+
+    switch (rule.freq) {
+        case 'daily':
+        case 'after_completion':
+            return addDays(from, interval);
+
+        case 'weekly': {
+            const weekdays = rule.weekdays && rule.weekdays.length > 0 ? rule.weekdays : [from.getDay()];
+            const anchorWeek = startOfWeek(from).getTime();
+            // Worst case: the only weekday is the one before `from` in a week `interval` weeks away
+            for (let i = 1; i <= 7 * interval + 7; i++) {
+                const candidate = addDays(from, i);
+                const weeksApart = Math.round((startOfWeek(candidate).getTime() - anchorWeek) / (7 * DAY_MS));
+                if (weeksApart % interval === 0 && weekdays.includes(candidate.getDay())) {
+                    return candidate;
+                }
+            }
+            return addDays(from, 7 * interval);
+        }
+
+        case 'monthly': {
+            const day = rule.monthDay || from.getDate();
+            const sameMonthDay = Math.min(day, daysInMonth(from.getFullYear(), from.getMonth()));
+            const monthOffset = from.getDate() < sameMonthDay ? 0 : interval;
+            const year = from.getFullYear();
+            const month = from.getMonth() + monthOffset;
+            const next = new Date(from);
+            next.setDate(1);
+            next.setFullYear(year, month, 1);
+            next.setDate(Math.min(day, daysInMonth(next.getFullYear(), next.getMonth())));
+            return next;
+        }
+    }
+}
+
+/** The task fields that decide when the next instance is due. */
+export interface RecurringTaskFields {
+    recurrence: RecurrenceRule | null;
+    recurrence_next_id: string | null;
+    recurrence_last_deadline: string | null;
+    deadline: string | null;
+}
+
+/**
+ * Deadline of the instance that follows `task`, or null when none is due: the next instance
+ * exists already, or an 'after_completion' task was completed before. 'after_completion' counts
+ * from `completedAt`, keeping the time of day of the deadline; date-based series skip occurrences
+ * missed while nobody opened the board instead of piling up overdue copies.
+ */
+export function getNextInstanceDeadline(task: RecurringTaskFields, completedAt: Date, now: Date): Date | null {
+    if (!task.recurrence || task.recurrence_next_id) return null;
+    const afterCompletion = task.recurrence.freq === 'after_completion';
+    if (afterCompletion && task.recurrence_last_deadline) return null;
+
+    let base: Date;
+    if (afterCompletion) {
+        base = new Date(completedAt);
+        if (task.deadline) {
+            const deadline = new Date(task.deadline);
+            base.setHours(deadline.getHours(), deadline.getMinutes(), 0, 0);
+        }
+    } else {
+        base = new Date(task.recurrence_last_deadline || task.deadline || now);
+    }
+    let nextDeadline = getNextOccurrence(task.recurrence, base);
+    if (!afterCompletion) {
+        while (nextDeadline <= now) {
+            nextDeadline = getNextOccurrence(task.recurrence, nextDeadline);
+        }
+    }
+    return nextDeadline;
+}
+
+/**
+ * Human readable summary of a rule, e.g. "Every 2 weeks on Mon, Thu".
+ */
+export function describeRecurrence(rule: RecurrenceRule, t: Translate): string {
+    const n = Math.max(1, rule.interval || 1);
+    switch (rule.freq) {
+        case 'daily':
+            return n === 1 ? t('dashboard.recurrence.summary.daily') : t('dashboard.recurrence.summary.everyNDays', { n });
+        case 'weekly': {
+            const days = WEEKDAY_KEYS
+                .filter(w => (rule.weekdays || []).includes(w.day))
+                .map(w => t(`dashboard.calendar.days.${w.key}`))
+                .join(', ');
+            return n === 1
+                ? t('dashboard.recurrence.summary.weekly', { days })
+                : t('dashboard.recurrence.summary.everyNWeeks', { n, days });
+        }
+        case 'monthly':
+            return n === 1
+                ? t('dashboard.recurrence.summary.monthly', { day: rule.monthDay || 1 })
+                : t('dashboard.recurrence.summary.everyNMonths', { n, day: rule.monthDay || 1 });
+        case 'after_completion':
+            return t('dashboard.recurrence.summary.afterCompletion', { n });
+    }
+}
@@ -0,0 +1,63 @@
+import { supabase } from './supabase';
+import type { TaskFilters } from './taskFilters';
+
+export interface DbSavedView {
+    id: string;
+    organization_id: string;
+    user_id: string;
+    name: string;
+    filters: Partial<TaskFilters>;
+    is_shared: boolean; // Visible to the whole organization, not only its author
+    created_at: string;
+}
+
+/**
+ * The user's own views plus the ones shared with the organization.
+ */
+export async function fetchSavedViews(organizationId: string): Promise<DbSavedView[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+        throw new Error('Not authenticated');
+    }
+
+    const { data, error } = await supabase
+        .from('saved_views')
+        .select('*')
+        .eq('organization_id', organizationId)
+        .or(`user_id.eq.${user.id},is_shared.eq.true`)
+        .order('name', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+}
+
+export async function createSavedView(organizationId: string, name: string, filters: TaskFilters, isShared: boolean): Promise<DbSavedView> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+        throw new Error('Not authenticated');
+    }
+
+    const { data, error } = await supabase
+        .from('saved_views')
+        .insert({
+            organization_id: organizationId,
+            user_id: user.id,
+            name,
+            filters,
+            is_shared: isShared,
+        })
+        .select()
+        .single();
+
+    if (error) throw error;
+    return data;
+}
+
+export async function deleteSavedView(viewId: string) {
+    const { error } = await supabase
+        .from('saved_views')
+        .delete()
+        .eq('id', viewId);
+
+    if (error) throw error;
+}
@@ -0,0 +1,157 @@
+import { getTaskAssignees, toAssigneeFields, type DbTask } from './taskService';
+import type { DbTeamMember } from './teamService';
+import { getAllSubordinates } from './hierarchy';
+
+export type SwimlaneGrouping = 'none' | 'assignee' | 'priority' | 'deadline' | 'line';
+
+export const SWIMLANE_GROUPINGS: SwimlaneGrouping[] = ['none', 'assignee', 'priority', 'deadline', 'line'];
+
+export interface Swimlane {
+    key: string;
+    label: string; // Display name, or an i18n key when `translate` is set
+    translate: boolean;
+    tasks: DbTask[];
+}
+
+export type DeadlineBucket = 'overdue' | 'this_week' | 'later' | 'no_deadline';
+
+const DEADLINE_BUCKETS: DeadlineBucket[] = ['overdue', 'this_week', 'later', 'no_deadline'];
+const PRIORITIES: DbTask['priority'][] = ['high', 'medium', 'low'];
+const UNASSIGNED = 'unassigned';
+
+/**
+ * End of the current week (Sunday 23:59:59), matching the Monday-first calendar.
+ */
+function endOfWeek(now: Date): Date {
+    const end = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 23, 59, 59, 999);
+    end.setDate(end.getDate() + (7 - end.getDay()) % 7);
+    return end;
+}
+
+export function getDeadlineBucket(task: DbTask, doneStatus: string, now: Date = new Date()): DeadlineBucket {
+    if (!task.deadline) return 'no_deadline';
+    const deadline = new Date(task.deadline);
+    if (deadline < now && task.status !== doneStatus) return 'overdue';
+    return deadline <= endOfWeek(now) ? 'this_week' : 'later';
+}
+
+// Cards sit in the lane of their primary assignee
+const findAssignee = (task: DbTask, team: DbTeamMember[]) => getTaskAssignees(task, team)[0] || null;
+
+/**
+ * Heads of reporting lines: the direct reports of top-level members. Small teams where nobody
+ * reports to anyone fall back to the top-level members themselves.
+ */
+export function getLineHeads(team: DbTeamMember[]): DbTeamMember[] {
+    const roots = team.filter(m => !m.manager_id || !team.some(o => o.id === m.manager_id));
+    const heads = team.filter(m => roots.some(r => r.id === m.manager_id));
+    return heads.length > 0 ? heads : roots;
+}
+
+/**
+ * Splits tasks into lanes. Lanes are returned even when empty so tasks can be dropped into them.
+ */
+export function groupTasksIntoLanes(tasks: DbTask[], grouping: SwimlaneGrouping, team: DbTeamMember[], doneStatus: string): Swimlane[] {
+    switch (grouping) {
+        case 'none':
+            return [{ key: 'all', label: '', translate: false, tasks }];
+
+        case 'priority':
+            return PRIORITIES.map(priority => ({
+                key: priority,
+                label: `dashboard.priority.${priority}`,
+                translate: true,
+                tasks: tasks.filter(t => t.priority === priority),
+            }));
+
+        case 'deadline': {
+            const now = new Date();
+            return DEADLINE_BUCKETS.map(bucket => ({
+                key: bucket,
+                label: `dashboard.kanban.swimlanes.buckets.${bucket}`,
+                translate: true,
+                tasks: tasks.filter(t => getDeadlineBucket(t, doneStatus, now) === bucket),
+            }));
+        }
+
+        case 'assignee': {
+            const lanes: Swimlane[] = team.map(member => ({
+                key: member.id,
+                label: member.name,
+                translate: false,
+                tasks: tasks.filter(t => findAssignee(t, team)?.id === member.id),
+            }));
+            const unassigned = tasks.filter(t => !findAssignee(t, team));
+            if (unassigned.length > 0) {
+                lanes.push({ key: UNASSIGNED, label: 'dashboard.kanban.swimlanes.unassigned', translate: true, tasks: unassigned });
+            }
+            return lanes;
+        }
+
+        case 'line': {
+            const heads = getLineHeads(team);
+            const placed = new Set<string>();
+            const lanes: Swimlane[] = heads.map(head => {
+                const memberIds = new Set([head.id, ...getAllSubordinates(team, head.id).map(s => s.id)]);
+                const laneTasks = tasks.filter(t => {
+                    const assignee = findAssignee(t, team);
+                    return !!assignee && memberIds.has(assignee.id);
+                });
+                laneTasks.forEach(t => placed.add(t.id));
+                return { key: head.id, label: head.name, translate: false, tasks: laneTasks };
+            });
+            // Tasks of top-level members and unassigned ones
+            const rest = tasks.filter(t => !placed.has(t.id));
+            if (rest.length > 0) {
+                lanes.push({ key: UNASSIGNED, label: 'dashboard.kanban.swimlanes.other', translate: true, tasks: rest });
+            }
+            return lanes;
+        }
+    }
+}
+
+/**
+ * The task fields to change when a card is dropped into another lane, or null if the lane
+ * cannot be targeted (e.g. "overdue" or "unassigned").
+ */
+export function getLaneUpdates(
+    task: DbTask,
+    grouping: SwimlaneGrouping,
+    laneKey: string,
+    team: DbTeamMember[]
+): Partial<Pick<DbTask, 'assignee' | 'assignee_id' | 'assignee_ids' | 'priority' | 'deadline'>> | null {
+    switch (grouping) {
+        case 'priority':
+            return { priority: laneKey as DbTask['priority'] };
+
+        case 'assignee':
+        case 'line': {
+            // The lane member replaces the primary assignee, co-assignees stay on the task
+            const member = team.find(m => m.id === laneKey);
+            if (!member) return null;
+            const others = getTaskAssignees(task, team).slice(1).filter(m => m.id !== member.id);
+            return toAssigneeFields([member, ...others]);
+        }
+
+        case 'deadline': {
+            // Keep the time of day of the current deadline
+            const current = task.deadline ? new Date(task.deadline) : null;
+            const withTime = (date: Date) => {
+                date.setHours(current ? current.getHours() : 18, current ? current.getMinutes() : 0, 0, 0);
+                return date.toISOString();
+            };
+            const weekEnd = endOfWeek(new Date());
+            if (laneKey === 'this_week') return { deadline: withTime(weekEnd) };
+            if (laneKey === 'later') {
+                const nextMonday = new Date(weekEnd);
+                nextMonday.setDate(nextMonday.getDate() + 1);
+                return { deadline: withTime(nextMonday) };
+            }
+            if (laneKey === 'no_deadline') return { deadline: null };
+            return null;
+        }
+
+        default:
+            return null;
+    }
+}
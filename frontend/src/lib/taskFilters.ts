@@ -0,0 +1,157 @@
+import { getTaskAssignees, isTaskAssignee, type DbTask } from './taskService';
+import type { DbTeamMember } from './teamService';
+import { stripHtml } from './utils';
+import { matchesFieldFilter, type DbCustomField } from './customFieldService';
+
+export interface TaskFilters {
+    q: string; // Full-text search over title and description
+    assignee: string; // Team member id
+    creator: string; // Team member id
+    priority: DbTask['priority'] | '';
+    label: string; // Label id
+    field: string; // Custom field filter, "<field id>:<value>", see parseFieldFilter
+    from: string; // Deadline range, YYYY-MM-DD
+    to: string;
+    overdue: boolean;
+    mine: boolean; // Assigned to me
+    createdByMe: boolean;
+}
+
+export const EMPTY_FILTERS: TaskFilters = {
+    q: '',
+    assignee: '',
+    creator: '',
+    priority: '',
+    label: '',
+    field: '',
+    from: '',
+    to: '',
+    overdue: false,
+    mine: false,
+    createdByMe: false,
+};
+
+// Query string names, kept short so shared links stay readable
+const PARAMS: Record<keyof TaskFilters, string> = {
+    q: 'q',
+    assignee: 'assignee',
+    creator: 'creator',
+    priority: 'priority',
+    label: 'label',
+    field: 'field',
+    from: 'from',
+    to: 'to',
+    overdue: 'overdue',
+    mine: 'mine',
+    createdByMe: 'created',
+};
+
+const PRIORITIES: DbTask['priority'][] = ['low', 'medium', 'high'];
+
+export function parseFilters(params: URLSearchParams): TaskFilters {
+    const priority = params.get(PARAMS.priority) as DbTask['priority'] | null;
+    return {
+        q: params.get(PARAMS.q) || '',
+        assignee: params.get(PARAMS.assignee) || '',
+        creator: params.get(PARAMS.creator) || '',
+        priority: priority && PRIORITIES.includes(priority) ? priority : '',
+        label: params.get(PARAMS.label) || '',
+        field: params.get(PARAMS.field) || '',
+        from: params.get(PARAMS.from) || '',
+        to: params.get(PARAMS.to) || '',
+        overdue: params.get(PARAMS.overdue) === '1',
+        mine: params.get(PARAMS.mine) === '1',
+        createdByMe: params.get(PARAMS.createdByMe) === '1',
+    };
+}
+
+/**
+ * Writes the filters into a copy of `params`, leaving unrelated parameters (e.g. ?task=) alone.
+ */
+export function applyFiltersToParams(filters: TaskFilters, params: URLSearchParams): URLSearchParams {
+    const next = new URLSearchParams(params);
+    (Object.keys(PARAMS) as (keyof TaskFilters)[]).forEach(key => {
+        const value = filters[key];
+        if (value === '' || value === false) next.delete(PARAMS[key]);
+        else next.set(PARAMS[key], value === true ? '1' : value);
+    });
+    return next;
+}
+
+export function hasActiveFilters(filters: TaskFilters): boolean {
+    return (Object.keys(EMPTY_FILTERS) as (keyof TaskFilters)[]).some(key => filters[key] !== EMPTY_FILTERS[key]);
+}
+
+/**
+ * Saved views may come from an older version of the filter bar, so missing keys get defaults.
+ */
+export function normalizeFilters(value: Partial<TaskFilters> | null | undefined): TaskFilters {
+    return { ...EMPTY_FILTERS, ...(value || {}) };
+}
+
+/**
+ * Splits the `field` filter into the field id and the wanted value (empty: any filled-in value).
+ */
+export function parseFieldFilter(value: string): { fieldId: string; value: string } {
+    const separator = value.indexOf(':');
+    return separator < 0
+        ? { fieldId: value, value: '' }
+        : { fieldId: value.slice(0, separator), value: value.slice(separator + 1) };
+}
+
+export interface TaskFilterContext {
+    userId: string | null;
+    team: DbTeamMember[];
+    doneStatus: string;
+    customFields?: DbCustomField[];
+}
+
+const isAssignedTo = (task: DbTask, member: DbTeamMember, team: DbTeamMember[]) =>
+    getTaskAssignees(task, team).some(m => m.id === member.id);
+
+export function matchesFilters(task: DbTask, filters: TaskFilters, context: TaskFilterContext): boolean {
+    const query = filters.q.trim().toLowerCase();
+    if (query) {
+        const text = `${task.title} ${stripHtml(task.description)}`.toLowerCase();
+        // Every word has to match, in any order
+        if (!query.split(/\s+/).every(word => text.includes(word))) return false;
+    }
+
+    if (filters.assignee) {
+        const member = context.team.find(m => m.id === filters.assignee);
+        if (!member || !isAssignedTo(task, member, context.team)) return false;
+    }
+
+    if (filters.creator) {
+        const member = context.team.find(m => m.id === filters.creator);
+        if (!member || !member.user_id || task.creator_id !== member.user_id) return false;
+    }
+
+    if (filters.priority && task.priority !== filters.priority) return false;
+
+    if (filters.label && !task.label_ids.includes(filters.label)) return false;
+
+    if (filters.field) {
+        const { fieldId, value } = parseFieldFilter(filters.field);
+        const field = context.customFields?.find(f => f.id === fieldId);
+        // Filters on a deleted field are ignored rather than hiding every task
+        if (field && !matchesFieldFilter(field, task.custom_values?.[field.id], value)) return false;
+    }
+
+    if (filters.from || filters.to) {
+        if (!task.deadline) return false;
+        const deadline = new Date(task.deadline);
+        if (filters.from && deadline < new Date(`${filters.from}T00:00:00`)) return false;
+        if (filters.to && deadline > new Date(`${filters.to}T23:59:59.999`)) return false;
+    }
+
+    if (filters.overdue && (!task.deadline || task.status === context.doneStatus || new Date(task.deadline) >= new Date())) return false;
+
+    if (filters.mine) {
+        if (!isTaskAssignee(task, context.userId)) return false;
+    }
+
+    if (filters.createdByMe && task.creator_id !== context.userId) return false;
+
+    return true;
+}
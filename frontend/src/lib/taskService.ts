@@ -1,4 +1,18 @@
 import { supabase } from './supabase';
+import { getNextInstanceDeadline, type RecurrenceRule } from './recurrence';
+import type { TaskLink } from './links';
+import type { CustomValues } from './customFieldService';
+import type { DbTeamMember } from './teamService';
+import { getAssigneeIds } from './transitionRules';
+
+export interface DbChecklistItem {
+    id: string;
+    task_id: string;
+    title: string;
+    done: boolean;
+    position: number;
+    created_at: string;
+}
 
 export interface DbTask {
     id: string;
@@ -6,25 +20,108 @@ export interface DbTask {
     creator_id: string; // The person who assigned the task
     title: string;
     description: string;
-    status: 'new' | 'progress' | 'review' | 'done';
+    status: string; // Key of a column in the organization's workflow
     priority: 'low' | 'medium' | 'high';
-    assignee: string;
-    assignee_id: string | null;
+    assignee: string; // Display cache of the primary assignee's name, never used to match members
+    assignee_id: string | null; // Primary assignee, always the first of assignee_ids
+    assignee_ids: string[]; // Everyone working on the task
+    reviewer_id: string | null; // Approves the final step; the creator when not set
     deadline: string | null;
-    link_url: string | null;
+    links: TaskLink[]; // Ordered, see lib/links.ts
+    parent_id: string | null; // Set for subtasks, null for top-level tasks
+    recurrence: RecurrenceRule | null;
+    recurrence_next_id: string | null; // Instance generated from this one; cleared when that instance is deleted
+    recurrence_last_deadline: string | null; // Deadline of the last occurrence generated from this one, kept after deletion
+    estimate_minutes: number | null; // Original estimate of the effort
+    custom_values: CustomValues; // Organization-defined fields, keyed by field id
     organization_id: string;
     created_at: string;
+    // joined fields
+    checklist?: DbChecklistItem[];
+    label_ids: string[]; // From task_labels, see labelService
 }
 
+// Header values must be ASCII, reasons are often not
+const encodeHeaderValue = (value: string) => btoa(String.fromCharCode(...new TextEncoder().encode(value)));
+
+/**
+ * Tasks of the organization the current user may see. Row-level security limits regular
+ * employees to their own reporting line, see supabase_migration_task_visibility.sql.
+ */
 export async function fetchTasks(organizationId: string): Promise<DbTask[]> {
     const { data, error } = await supabase
         .from('tasks')
-        .select('*')
+        .select('*, checklist:task_checklist_items(*), task_labels(label_id)')
         .eq('organization_id', organizationId)
         .order('created_at', { ascending: false });
 
     if (error) throw error;
-    return data || [];
+    return (data || []).map(({ task_labels, ...task }) => ({
+        ...task,
+        checklist: [...(task.checklist || [])].sort((a: DbChecklistItem, b: DbChecklistItem) => a.position - b.position),
+        label_ids: (task_labels || []).map((row: { label_id: string }) => row.label_id),
+    }));
+}
+
+/**
+ * Returns the direct subtasks of a task from the flat task list.
+ */
+export function getSubtasks(tasks: DbTask[], parentId: string): DbTask[] {
+    return tasks.filter(t => t.parent_id === parentId);
+}
+
+/**
+ * Calculates completion progress of a task from its direct subtasks and checklist items.
+ * Returns null when the task has neither, so callers can skip rendering a progress bar.
+ */
+export function getTaskProgress(task: DbTask, tasks: DbTask[], doneStatus: string): { done: number; total: number; percent: number } | null {
+    const subtasks = getSubtasks(tasks, task.id);
+    const checklist = task.checklist || [];
+    const total = subtasks.length + checklist.length;
+    if (total === 0) return null;
+
+    const done = subtasks.filter(t => t.status === doneStatus).length + checklist.filter(i => i.done).length;
+    return { done, total, percent: Math.round((done / total) * 100) };
+}
+
+// Lives with the transition policy so the Telegram bot can load it too
+export { getAssigneeIds };
+
+/**
+ * Team members assigned to the task, primary assignee first.
+ */
+export function getTaskAssignees(task: DbTask, team: DbTeamMember[]): DbTeamMember[] {
+    return getAssigneeIds(task)
+        .map(id => team.find(m => m.user_id === id))
+        .filter((m): m is DbTeamMember => !!m);
+}
+
+export function isTaskAssignee(task: DbTask, userId: string | null): boolean {
+    return !!userId && getAssigneeIds(task).includes(userId);
+}
+
+/**
+ * Names of all assignees for cards and details. The cached name only covers a primary
+ * assignee who is no longer in the team.
+ */
+export function formatAssignees(task: DbTask, team: DbTeamMember[]): string {
+    const names = getAssigneeIds(task)
+        .map(id => team.find(m => m.user_id === id)?.name || (id === task.assignee_id ? task.assignee : null))
+        .filter(Boolean);
+    return names.length > 0 ? names.join(', ') : '—';
+}
+
+/**
+ * Assignee columns for a set of members. The first one becomes the primary assignee
+ * that single-person views (swimlanes, legacy clients) keep using.
+ */
+export function toAssigneeFields(members: DbTeamMember[]): Pick<DbTask, 'assignee' | 'assignee_id' | 'assignee_ids'> {
+    const primary = members[0];
+    return {
+        assignee: primary?.name || '',
+        assignee_id: primary?.user_id || null,
+        assignee_ids: [...new Set(members.map(m => m.user_id).filter(Boolean))],
+    };
 }
 
 export async function createTask(task: {
@@ -34,8 +131,17 @@ export async function createTask(task: {
     priority: string;
     assignee: string;
     assignee_id: string | null;
+    assignee_ids?: string[]; // Defaults to the primary assignee
+    reviewer_id?: string | null;
     deadline: string;
-    link_url?: string;
+    links?: TaskLink[];
+    parent_id?: string | null;
+    checklist?: string[];
+    label_ids?: string[];
+    recurrence?: RecurrenceRule | null;
+    estimate_minutes?: number | null;
+    custom_values?: CustomValues;
+    creator_id?: string; // Defaults to the current user; recurring instances keep the original creator
     organization_id: string;
 }): Promise<DbTask> {
     const { data: { user } } = await supabase.auth.getUser();
@@ -48,35 +154,70 @@ export async function createTask(task: {
         .from('tasks')
         .insert({
             user_id: user.id,
-            creator_id: user.id, // Store who created the task
+            creator_id: task.creator_id || user.id, // Store who created the task
             title: task.title,
             description: task.description,
             status: task.status,
             priority: task.priority,
             assignee: task.assignee,
             assignee_id: task.assignee_id,
+            assignee_ids: task.assignee_ids || (task.assignee_id ? [task.assignee_id] : []),
+            reviewer_id: task.reviewer_id || null,
             deadline: task.deadline || null,
-            link_url: task.link_url || null,
+            links: task.links || [],
+            parent_id: task.parent_id || null,
+            recurrence: task.recurrence || null,
+            estimate_minutes: task.estimate_minutes || null,
+            custom_values: task.custom_values || {},
             organization_id: task.organization_id,
         })
         .select()
         .single();
 
     if (error) throw error;
-    return data;
+
+    let checklist: DbChecklistItem[] = [];
+    const titles = (task.checklist || []).map(title => title.trim()).filter(Boolean);
+    if (titles.length > 0) {
+        const { data: items, error: checklistError } = await supabase
+            .from('task_checklist_items')
+            .insert(titles.map((title, position) => ({ task_id: data.id, title, position, done: false })))
+            .select();
+
+        if (checklistError) throw checklistError;
+        checklist = items || [];
+    }
+
+    const labelIds = task.label_ids || [];
+    if (labelIds.length > 0) {
+        const { error: labelsError } = await supabase
+            .from('task_labels')
+            .insert(labelIds.map(label_id => ({ task_id: data.id, label_id })));
+
+        if (labelsError) throw labelsError;
+    }
+
+    return { ...data, checklist, label_ids: labelIds };
 }
 
-export async function updateTask(taskId: string, updates: Partial<Pick<DbTask, 'status' | 'title' | 'description' | 'priority' | 'assignee' | 'assignee_id' | 'deadline' | 'link_url'>>) {
+export async function updateTask(
+    taskId: string,
+    updates: Partial<Pick<DbTask, 'status' | 'title' | 'description' | 'priority' | 'assignee' | 'assignee_id' | 'assignee_ids' | 'reviewer_id' | 'deadline' | 'links' | 'parent_id' | 'recurrence' | 'estimate_minutes' | 'custom_values'>>,
+    reason?: string | null // Why the change was made, stored with the history entries
+) {
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) {
         throw new Error('Not authenticated');
     }
 
-    const { error } = await supabase
+    // History is written by a database trigger, which reads the reason from this header
+    let query = supabase
         .from('tasks')
         .update(updates)
         .eq('id', taskId);
+    if (reason) query = query.setHeader('x-change-reason', encodeHeaderValue(reason));
 
+    const { error } = await query;
     if (error) throw error;
 }
 
@@ -86,6 +227,8 @@ export async function removeTask(taskId: string) {
         throw new Error('Not authenticated');
     }
 
+    // Attachment rows go with the cascade (subtasks included); the database queues their files
+    // for the attachment-cleanup function
     const { error } = await supabase
         .from('tasks')
         .delete()
@@ -93,3 +236,128 @@ export async function removeTask(taskId: string) {
 
     if (error) throw error;
 }
+
+// ===== CHECKLIST ITEMS =====
+
+export async function addChecklistItem(taskId: string, title: string, position: number): Promise<DbChecklistItem> {
+    const { data, error } = await supabase
+        .from('task_checklist_items')
+        .insert({ task_id: taskId, title, position, done: false })
+        .select()
+        .single();
+
+    if (error) throw error;
+    return data;
+}
+
+export async function updateChecklistItem(itemId: string, updates: Partial<Pick<DbChecklistItem, 'title' | 'done' | 'position'>>) {
+    const { error } = await supabase
+        .from('task_checklist_items')
+        .update(updates)
+        .eq('id', itemId);
+
+    if (error) throw error;
+}
+
+export async function removeChecklistItem(itemId: string) {
+    const { error } = await supabase
+        .from('task_checklist_items')
+        .delete()
+        .eq('id', itemId);
+
+    if (error) throw error;
+}
+
+// ===== RECURRING TASKS =====
+
+/**
+ * Creates the next instance of a recurring task and links it from the current one.
+ * Several clients may try this at once, so the occurrence is claimed first by advancing
+ * `recurrence_last_deadline` with a conditional update. The claim outlives the instance:
+ * an occurrence deleted from the board counts as skipped and is not generated again.
+ * Returns the new instance, or null if nothing was generated.
+ */
+export async function spawnRecurringInstance(task: DbTask, initialStatus: string, completedAt?: Date): Promise<DbTask | null> {
+    const nextDeadline = getNextInstanceDeadline(task, completedAt || new Date(), new Date());
+    if (!nextDeadline) return null;
+
+    let claim = supabase
+        .from('tasks')
+        .update({ recurrence_last_deadline: nextDeadline.toISOString() })
+        .eq('id', task.id)
+        .is('recurrence_next_id', null);
+    claim = task.recurrence_last_deadline
+        ? claim.eq('recurrence_last_deadline', task.recurrence_last_deadline)
+        : claim.is('recurrence_last_deadline', null);
+
+    const { data: claimed, error: claimError } = await claim.select('id');
+    if (claimError) throw claimError;
+    if (!claimed || claimed.length === 0) return null;
+
+    let instance: DbTask;
+    try {
+        instance = await createTask({
+            title: task.title,
+            description: task.description,
+            status: initialStatus,
+            priority: task.priority,
+            assignee: task.assignee,
+            assignee_id: task.assignee_id,
+            assignee_ids: getAssigneeIds(task),
+            reviewer_id: task.reviewer_id,
+            deadline: nextDeadline.toISOString(),
+            links: task.links,
+            parent_id: task.parent_id,
+            checklist: (task.checklist || []).map(item => item.title),
+            label_ids: task.label_ids,
+            recurrence: task.recurrence,
+            estimate_minutes: task.estimate_minutes,
+            custom_values: task.custom_values,
+            creator_id: task.creator_id,
+            organization_id: task.organization_id,
+        });
+    } catch (err) {
+        // Give the occurrence back so the next attempt can generate it
+        await supabase
+            .from('tasks')
+            .update({ recurrence_last_deadline: task.recurrence_last_deadline })
+            .eq('id', task.id)
+            .eq('recurrence_last_deadline', nextDeadline.toISOString());
+        throw err;
+    }
+
+    const { error } = await supabase
+        .from('tasks')
+        .update({ recurrence_next_id: instance.id })
+        .eq('id', task.id);
+
+    if (error) throw error;
+    return instance;
+}
+
+/**
+ * Generates instances for date-based recurring tasks whose deadline has arrived. After the generated
+ * instance was deleted, the series continues from the skipped occurrence once its date has passed.
+ * 'after_completion' rules are only advanced when the task is completed.
+ */
+export async function syncRecurringTasks(tasks: DbTask[], initialStatus: string): Promise<DbTask[]> {
+    const now = new Date();
+    const due = tasks.filter(t =>
+        t.recurrence &&
+        t.recurrence.freq !== 'after_completion' &&
+        !t.recurrence_next_id &&
+        (t.recurrence_last_deadline || t.deadline) &&
+        new Date(t.recurrence_last_deadline || t.deadline!) <= now
+    );
+
+    const created: DbTask[] = [];
+    for (const task of due) {
+        try {
+            const instance = await spawnRecurringInstance(task, initialStatus);
+            if (instance) created.push(instance);
+        } catch (err) {
+            console.error('Failed to generate recurring task:', err);
+        }
+    }
+    return created;
+}
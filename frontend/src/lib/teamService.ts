@@ -1,4 +1,6 @@
+import type { TFunction } from 'i18next';
 import { supabase } from './supabase';
+import { composeNotification, sendNotification } from './notificationService';
 
 export interface DbTeamMember {
     id: string;
@@ -314,7 +316,7 @@ export async function joinOrganization(inviteCode: string): Promise<any> {
 // JOIN REQUESTS (New Implementation)
 // ============================================================================
 
-export async function createJoinRequest(organizationId: string): Promise<void> {
+export async function createJoinRequest(organizationId: string, t: TFunction): Promise<void> {
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) throw new Error('Not authenticated');
 
@@ -332,19 +334,33 @@ export async function createJoinRequest(organizationId: string): Promise<void> {
         throw new Error('Request already sent.');
     }
 
-    const { error } = await supabase
+    const { data: request, error } = await supabase
         .from('join_requests')
         .insert({
             user_id: user.id,
             organization_id: organizationId,
             status: 'pending'
-        });
+        })
+        .select('id')
+        .single();
 
     if (error) {
         // Handle unique constraint violation gracefully
         if (error.code === '23505') throw new Error('Request already sent.');
         throw error;
     }
+
+    // The owner is told through their notification preferences, with a link to the request
+    const [{ data: org }, { data: profile }] = await Promise.all([
+        supabase.from('organizations').select('owner_id').eq('id', organizationId).maybeSingle(),
+        supabase.from('profiles').select('display_name').eq('id', user.id).maybeSingle()
+    ]);
+    if (org?.owner_id && org.owner_id !== user.id) {
+        await sendNotification(org.owner_id, composeNotification(t, 'join_request', {
+            template: 'join_request',
+            name: profile?.display_name || user.email || '—',
+        }, `/dashboard/team?request=${request.id}`));
+    }
 }
 
 export async function fetchJoinRequests(organizationId: string): Promise<DbJoinRequest[]> {
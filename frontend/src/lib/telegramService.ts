@@ -0,0 +1,76 @@
+import { supabase } from './supabase';
+
+export interface DbTelegramLink {
+    user_id: string;
+    chat_id: number;
+    username: string | null;
+    language: string;
+    linked_at: string;
+}
+
+export interface TelegramLinkCode {
+    code: string;
+    expires_at: string;
+}
+
+const LINK_CODE_TTL_MINUTES = 15;
+// No 0/O or 1/I, the code is often typed by hand
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+function generateLinkCode(length = 8): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(length));
+    return Array.from(bytes, byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+}
+
+export async function fetchTelegramLink(): Promise<DbTelegramLink | null> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const { data, error } = await supabase
+        .from('telegram_links')
+        .select('*')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+    if (error) throw error;
+    return data;
+}
+
+/**
+ * Creates a one-time code the user sends to the bot (/start <code>). Earlier codes stop working.
+ */
+export async function createTelegramLinkCode(): Promise<TelegramLinkCode> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    await supabase.from('telegram_link_codes').delete().eq('user_id', user.id);
+
+    const code = {
+        code: generateLinkCode(),
+        expires_at: new Date(Date.now() + LINK_CODE_TTL_MINUTES * 60 * 1000).toISOString(),
+    };
+    const { error } = await supabase
+        .from('telegram_link_codes')
+        .insert({ ...code, user_id: user.id });
+
+    if (error) throw error;
+    return code;
+}
+
+export async function unlinkTelegram() {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const { error } = await supabase
+        .from('telegram_links')
+        .delete()
+        .eq('user_id', user.id);
+
+    if (error) throw error;
+}
+
+/** Deep link that opens the bot with the code prefilled, or null when the bot name is not configured. */
+export function getTelegramStartLink(code: string): string | null {
+    const botUsername = import.meta.env.VITE_TELEGRAM_BOT_USERNAME;
+    return botUsername ? `https://t.me/${botUsername}?start=${code}` : null;
+}
@@ -0,0 +1,134 @@
+import { supabase } from './supabase';
+import { createTask, getTaskAssignees, type DbTask } from './taskService';
+import type { DbTeamMember } from './teamService';
+
+export interface TemplateTaskItem {
+    title: string;
+    description: string; // HTML, as produced by the rich text editor
+    priority: DbTask['priority'];
+    deadline_offset_days: number | null; // Days from the moment the template is used
+    checklist: string[];
+    assignee_role: string | null; // Resolved against team roles when the template is used
+}
+
+export interface DbTaskTemplate {
+    id: string;
+    organization_id: string;
+    created_by: string;
+    name: string;
+    items: TemplateTaskItem[]; // One item for a single task, several for a bundle
+    created_at: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Captures a task as a template item. The deadline is stored relative to the task's creation date
+ * and the assignee by their role, so the template works for any start date and team.
+ */
+export function taskToTemplateItem(task: DbTask, team: DbTeamMember[]): TemplateTaskItem {
+    const assignee = getTaskAssignees(task, team)[0];
+    return {
+        title: task.title,
+        description: task.description || '',
+        priority: task.priority,
+        deadline_offset_days: task.deadline
+            ? Math.max(0, Math.round((new Date(task.deadline).getTime() - new Date(task.created_at).getTime()) / DAY_MS))
+            : null,
+        checklist: (task.checklist || []).map(item => item.title),
+        assignee_role: assignee?.role?.trim() || null,
+    };
+}
+
+/**
+ * First member whose role matches (case-insensitive), or null when nobody holds the role.
+ */
+export function resolveAssigneeByRole(role: string | null, members: DbTeamMember[]): DbTeamMember | null {
+    if (!role) return null;
+    const normalized = role.trim().toLowerCase();
+    return members.find(m => m.role?.trim().toLowerCase() === normalized) || null;
+}
+
+export async function fetchTemplates(organizationId: string): Promise<DbTaskTemplate[]> {
+    const { data, error } = await supabase
+        .from('task_templates')
+        .select('*')
+        .eq('organization_id', organizationId)
+        .order('name', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+}
+
+export async function createTemplate(organizationId: string, name: string, items: TemplateTaskItem[]): Promise<DbTaskTemplate> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+        throw new Error('Not authenticated');
+    }
+
+    const { data, error } = await supabase
+        .from('task_templates')
+        .insert({
+            organization_id: organizationId,
+            created_by: user.id,
+            name,
+            items,
+        })
+        .select()
+        .single();
+
+    if (error) throw error;
+    return data;
+}
+
+export async function deleteTemplate(templateId: string) {
+    const { error } = await supabase
+        .from('task_templates')
+        .delete()
+        .eq('id', templateId);
+
+    if (error) throw error;
+}
+
+/**
+ * Creates every task of a template, one after another. Assignees are looked up by role among `members`;
+ * items whose role nobody holds go to `fallback`. If one task fails, the ones already created are
+ * deleted again so a template is never half applied.
+ */
+export async function instantiateTemplate(
+    template: DbTaskTemplate,
+    options: { status: string; members: DbTeamMember[]; fallback: { name: string; user_id: string | null }; start?: Date }
+): Promise<DbTask[]> {
+    const start = options.start || new Date();
+    const created: DbTask[] = [];
+
+    try {
+        for (const item of template.items) {
+            const assignee = resolveAssigneeByRole(item.assignee_role, options.members);
+            created.push(await createTask({
+                title: item.title,
+                description: item.description,
+                status: options.status,
+                priority: item.priority,
+                assignee: assignee?.name || options.fallback.name,
+                assignee_id: assignee ? assignee.user_id : options.fallback.user_id,
+                deadline: item.deadline_offset_days !== null
+                    ? new Date(start.getTime() + item.deadline_offset_days * DAY_MS).toISOString()
+                    : '',
+                checklist: item.checklist,
+                organization_id: template.organization_id,
+            }));
+        }
+    } catch (err) {
+        if (created.length > 0) {
+            const { error } = await supabase
+                .from('tasks')
+                .delete()
+                .in('id', created.map(task => task.id));
+            if (error) console.error('Failed to roll back template tasks:', error);
+        }
+        throw err;
+    }
+
+    return created;
+}
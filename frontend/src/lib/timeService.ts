@@ -0,0 +1,271 @@
+import { supabase } from './supabase';
+import type { DbTask } from './taskService';
+
+export interface DbTimeEntry {
+    id: string;
+    task_id: string;
+    organization_id: string;
+    user_id: string;
+    user_name: string | null;
+    started_at: string;
+    ended_at: string | null; // null while the timer is running
+    minutes: number; // Filled in when the timer stops or for manual entries
+    note: string | null;
+    created_at: string;
+}
+
+export interface TimesheetRow {
+    key: string;
+    user_id: string;
+    user_name: string;
+    task_id: string;
+    task_title: string;
+    days: number[]; // Minutes per day, Monday first
+    total: number;
+}
+
+export interface Timesheet {
+    weekStart: Date;
+    rows: TimesheetRow[];
+    dayTotals: number[];
+    total: number;
+}
+
+/**
+ * Duration of an entry in minutes. Running timers count up to `now`.
+ */
+export function getEntryMinutes(entry: DbTimeEntry, now: Date = new Date()): number {
+    if (entry.ended_at) return entry.minutes;
+    return Math.max(0, Math.floor((now.getTime() - new Date(entry.started_at).getTime()) / 60000));
+}
+
+/**
+ * Formats minutes as "h:mm", e.g. 95 → "1:35".
+ */
+export function formatDuration(minutes: number): string {
+    const sign = minutes < 0 ? '-' : '';
+    const abs = Math.abs(Math.round(minutes));
+    return `${sign}${Math.floor(abs / 60)}:${String(abs % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Parses a duration typed by the user: "1:30", "1.5" (hours), "90m" or "2h". Returns null when invalid.
+ */
+export function parseDuration(input: string): number | null {
+    const value = input.trim().toLowerCase().replace(',', '.');
+    if (!value) return null;
+
+    const clock = value.match(/^(\d+):([0-5]\d)$/);
+    if (clock) return parseInt(clock[1]) * 60 + parseInt(clock[2]);
+
+    const minutes = value.match(/^(\d+)\s*m(in)?$/);
+    if (minutes) return parseInt(minutes[1]);
+
+    const hours = value.match(/^(\d+(\.\d+)?)\s*h?$/);
+    if (hours) return Math.round(parseFloat(hours[1]) * 60);
+
+    return null;
+}
+
+/**
+ * Monday 00:00 of the week containing `date`.
+ */
+export function getWeekStart(date: Date): Date {
+    const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    start.setDate(start.getDate() - (start.getDay() + 6) % 7);
+    return start;
+}
+
+export function addDays(date: Date, days: number): Date {
+    const next = new Date(date);
+    next.setDate(next.getDate() + days);
+    return next;
+}
+
+/**
+ * Sums entries of one week by member and task. Entries count towards the day they started on.
+ */
+export function buildTimesheet(entries: DbTimeEntry[], tasks: DbTask[], weekStart: Date, now: Date = new Date()): Timesheet {
+    const weekEnd = addDays(weekStart, 7);
+    const rows = new Map<string, TimesheetRow>();
+
+    entries.forEach(entry => {
+        const started = new Date(entry.started_at);
+        if (started < weekStart || started >= weekEnd) return;
+
+        const key = `${entry.user_id}:${entry.task_id}`;
+        if (!rows.has(key)) {
+            rows.set(key, {
+                key,
+                user_id: entry.user_id,
+                user_name: entry.user_name || '—',
+                task_id: entry.task_id,
+                task_title: tasks.find(t => t.id === entry.task_id)?.title || '—',
+                days: [0, 0, 0, 0, 0, 0, 0],
+                total: 0,
+            });
+        }
+        const row = rows.get(key)!;
+        const day = (started.getDay() + 6) % 7;
+        const minutes = getEntryMinutes(entry, now);
+        row.days[day] += minutes;
+        row.total += minutes;
+    });
+
+    const sorted = [...rows.values()].sort((a, b) =>
+        a.user_name.localeCompare(b.user_name) || a.task_title.localeCompare(b.task_title)
+    );
+    const dayTotals = [0, 1, 2, 3, 4, 5, 6].map(day => sorted.reduce((sum, row) => sum + row.days[day], 0));
+
+    return { weekStart, rows: sorted, dayTotals, total: dayTotals.reduce((a, b) => a + b, 0) };
+}
+
+const csvCell = (value: string | number) => {
+    const text = String(value);
+    return /[",\n;]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Local calendar date as YYYY-MM-DD.
+ */
+export const toDateKey = (date: Date) =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * CSV for payroll: one line per member and task, hours as decimals.
+ */
+export function timesheetToCsv(sheet: Timesheet, headers: { member: string; task: string; total: string }): string {
+    const days = [0, 1, 2, 3, 4, 5, 6].map(day => toDateKey(addDays(sheet.weekStart, day)));
+    const hours = (minutes: number) => (minutes / 60).toFixed(2);
+
+    const lines = [
+        [headers.member, headers.task, ...days, headers.total],
+        ...sheet.rows.map(row => [row.user_name, row.task_title, ...row.days.map(hours), hours(row.total)]),
+        ['', headers.total, ...sheet.dayTotals.map(hours), hours(sheet.total)],
+    ];
+    return lines.map(line => line.map(csvCell).join(',')).join('\n');
+}
+
+/**
+ * Logged minutes per task, including running timers.
+ */
+export function getLoggedMinutesByTask(entries: DbTimeEntry[], now: Date = new Date()): Map<string, number> {
+    const totals = new Map<string, number>();
+    entries.forEach(entry => totals.set(entry.task_id, (totals.get(entry.task_id) || 0) + getEntryMinutes(entry, now)));
+    return totals;
+}
+
+export async function fetchTimeEntries(
+    organizationId: string,
+    filters: { taskId?: string; userId?: string; from?: Date; to?: Date } = {}
+): Promise<DbTimeEntry[]> {
+    let query = supabase
+        .from('time_entries')
+        .select('*')
+        .eq('organization_id', organizationId);
+
+    if (filters.taskId) query = query.eq('task_id', filters.taskId);
+    if (filters.userId) query = query.eq('user_id', filters.userId);
+    if (filters.from) query = query.gte('started_at', filters.from.toISOString());
+    if (filters.to) query = query.lt('started_at', filters.to.toISOString());
+
+    const { data, error } = await query.order('started_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+}
+
+/**
+ * The current user's running timer, if any. A user runs at most one timer at a time,
+ * across all organizations.
+ */
+export async function fetchRunningTimer(): Promise<DbTimeEntry | null> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return null;
+
+    const { data, error } = await supabase
+        .from('time_entries')
+        .select('*')
+        .eq('user_id', user.id)
+        .is('ended_at', null)
+        .maybeSingle();
+
+    if (error) throw error;
+    return data;
+}
+
+export async function stopTimer(entry: DbTimeEntry): Promise<DbTimeEntry> {
+    const endedAt = new Date();
+    const { data, error } = await supabase
+        .from('time_entries')
+        .update({ ended_at: endedAt.toISOString(), minutes: getEntryMinutes(entry, endedAt) })
+        .eq('id', entry.id)
+        .select()
+        .single();
+
+    if (error) throw error;
+    return data;
+}
+
+/**
+ * Starts a timer on the task. A timer still running on another task is stopped first.
+ */
+export async function startTimer(task: DbTask, running: DbTimeEntry | null): Promise<{ started: DbTimeEntry; stopped: DbTimeEntry | null }> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+        throw new Error('Not authenticated');
+    }
+
+    const stopped = running ? await stopTimer(running) : null;
+
+    const { data, error } = await supabase
+        .from('time_entries')
+        .insert({
+            task_id: task.id,
+            organization_id: task.organization_id,
+            user_id: user.id,
+            user_name: user.user_metadata?.full_name || user.email?.split('@')[0] || null,
+            started_at: new Date().toISOString(),
+            ended_at: null,
+            minutes: 0,
+        })
+        .select()
+        .single();
+
+    if (error) throw error;
+    return { started: data, stopped };
+}
+
+export async function addTimeEntry(task: DbTask, entry: { startedAt: Date; minutes: number; note: string }): Promise<DbTimeEntry> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+        throw new Error('Not authenticated');
+    }
+
+    const { data, error } = await supabase
+        .from('time_entries')
+        .insert({
+            task_id: task.id,
+            organization_id: task.organization_id,
+            user_id: user.id,
+            user_name: user.user_metadata?.full_name || user.email?.split('@')[0] || null,
+            started_at: entry.startedAt.toISOString(),
+            ended_at: new Date(entry.startedAt.getTime() + entry.minutes * 60000).toISOString(),
+            minutes: entry.minutes,
+            note: entry.note.trim() || null,
+        })
+        .select()
+        .single();
+
+    if (error) throw error;
+    return data;
+}
+
+export async function deleteTimeEntry(entryId: string) {
+    const { error } = await supabase
+        .from('time_entries')
+        .delete()
+        .eq('id', entryId);
+
+    if (error) throw error;
+}
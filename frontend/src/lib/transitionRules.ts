@@ -0,0 +1,135 @@
+// Status move policy shared by the board (transitionService.ts) and the Telegram bot
+// (supabase/functions/telegram-bot). No imports, so the edge functions load it as is.
+
+export type TransitionRole = 'assignee' | 'creator' | 'reviewer' | 'manager' | 'owner';
+
+export const TRANSITION_ROLES: TransitionRole[] = ['assignee', 'creator', 'reviewer', 'manager', 'owner'];
+
+export interface TransitionRuleFields {
+    id: string;
+    organization_id: string;
+    from_status: string | null; // null matches any source column
+    to_status: string;
+    roles: TransitionRole[];
+    require_reason: boolean;
+    require_approval: boolean;
+}
+
+/** The task fields the policy looks at. */
+export interface TransitionTask {
+    status: string;
+    creator_id: string;
+    reviewer_id: string | null;
+    assignee_id: string | null;
+    assignee_ids: string[] | null;
+}
+
+/** A team member's place in the reporting line. */
+export interface ReportingLineMember {
+    id: string;
+    user_id: string;
+    manager_id: string | null;
+}
+
+export interface TransitionPolicyContext {
+    rules: TransitionRuleFields[];
+    userId: string | null;
+    team: ReportingLineMember[];
+    isOwner: boolean;
+}
+
+export type TransitionDecision =
+    | { allowed: true; requireReason: boolean; requireApproval: boolean }
+    | { allowed: false; reason: 'not_allowed' | 'role'; roles: TransitionRole[] };
+
+/**
+ * Rules used until an organization saves its own policy: any move is open to everyone
+ * involved in the task, except that only the reviewer or the owner can finish it.
+ */
+export function getDefaultTransitionRules(workflow: { key: string; is_done: boolean; organization_id: string }[]): TransitionRuleFields[] {
+    return workflow.map(column => ({
+        id: `default-${column.key}`,
+        organization_id: column.organization_id,
+        from_status: null,
+        to_status: column.key,
+        roles: column.is_done ? ['reviewer', 'owner'] : [...TRANSITION_ROLES],
+        require_reason: false,
+        require_approval: false,
+    }));
+}
+
+/**
+ * User ids of everyone assigned to the task, primary assignee first.
+ * Rows written by older clients may only have assignee_id.
+ * Ownership, visibility and statistics are all keyed on these ids.
+ */
+export function getAssigneeIds(task: Pick<TransitionTask, 'assignee_id' | 'assignee_ids'>): string[] {
+    const ids = task.assignee_ids || [];
+    return task.assignee_id && !ids.includes(task.assignee_id) ? [task.assignee_id, ...ids] : ids;
+}
+
+/**
+ * The reviewer decides whether the work is done: the designated reviewer, or the creator when nobody is set.
+ */
+export function getReviewerId(task: Pick<TransitionTask, 'creator_id' | 'reviewer_id'>): string {
+    return task.reviewer_id || task.creator_id;
+}
+
+/**
+ * Checks whether `managerUserId` is above `memberUserId` in the reporting line (directly or indirectly).
+ */
+export function isManagerOf(team: ReportingLineMember[], managerUserId: string, memberUserId: string): boolean {
+    let member = team.find(m => m.user_id === memberUserId);
+    const seen = new Set<string>();
+    while (member?.manager_id && !seen.has(member.id)) {
+        seen.add(member.id);
+        const manager = team.find(m => m.id === member!.manager_id);
+        if (manager?.user_id === managerUserId) return true;
+        member = manager;
+    }
+    return false;
+}
+
+/**
+ * The roles a user plays on a task. Every assignee counts, and managers are anyone above
+ * one of the assignees in the reporting line.
+ */
+export function getTransitionRoles(task: TransitionTask, userId: string | null, team: ReportingLineMember[], isOwner: boolean): TransitionRole[] {
+    if (!userId) return [];
+    const roles: TransitionRole[] = [];
+    const assigneeIds = getAssigneeIds(task);
+
+    if (assigneeIds.includes(userId)) roles.push('assignee');
+    if (task.creator_id === userId) roles.push('creator');
+    if (getReviewerId(task) === userId) roles.push('reviewer');
+
+    if (assigneeIds.some(id => isManagerOf(team, userId, id))) roles.push('manager');
+    if (isOwner) roles.push('owner');
+
+    return roles;
+}
+
+/**
+ * Picks the rule for a move. A rule for the exact source column wins over an "any column" rule.
+ */
+export function findTransitionRule<R extends TransitionRuleFields>(rules: R[], fromStatus: string, toStatus: string): R | null {
+    return rules.find(r => r.from_status === fromStatus && r.to_status === toStatus)
+        || rules.find(r => r.from_status === null && r.to_status === toStatus)
+        || null;
+}
+
+/**
+ * Decides whether the user may move `task` to `toStatus`. The board, the bot and the
+ * enforce_task_transition trigger apply the same policy.
+ */
+export function evaluateTransition(task: TransitionTask, toStatus: string, context: TransitionPolicyContext): TransitionDecision {
+    const rule = findTransitionRule(context.rules, task.status, toStatus);
+    if (!rule) return { allowed: false, reason: 'not_allowed', roles: [] };
+
+    const roles = getTransitionRoles(task, context.userId, context.team, context.isOwner);
+    if (!rule.roles.some(role => roles.includes(role))) {
+        return { allowed: false, reason: 'role', roles: rule.roles };
+    }
+
+    return { allowed: true, requireReason: rule.require_reason, requireApproval: rule.require_approval };
+}
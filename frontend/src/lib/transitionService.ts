@@ -0,0 +1,136 @@
+import { supabase } from './supabase';
+import { getTransitionRoles, type TransitionRuleFields } from './transitionRules';
+import type { DbTask } from './taskService';
+import type { DbTeamMember } from './teamService';
+
+// The policy itself is shared with the Telegram bot, see transitionRules.ts.
+// Every status change (drag-and-drop, card buttons, bulk actions) goes through evaluateTransition.
+export {
+    TRANSITION_ROLES, getDefaultTransitionRules, getReviewerId, getTransitionRoles, findTransitionRule, evaluateTransition,
+    type TransitionDecision, type TransitionRole
+} from './transitionRules';
+
+export type DbTransitionRule = TransitionRuleFields;
+
+export type TransitionRuleInput = Omit<DbTransitionRule, 'id' | 'organization_id'>;
+
+export interface DbTransitionRequest {
+    id: string;
+    task_id: string;
+    organization_id: string;
+    from_status: string;
+    to_status: string;
+    reason: string | null;
+    requested_by: string;
+    requester_name: string | null;
+    status: 'pending' | 'approved' | 'rejected';
+    decided_by: string | null;
+    decided_at: string | null;
+    applied_at: string | null; // set by the database when the approved move is made
+    created_at: string;
+}
+
+export interface TransitionContext {
+    rules: DbTransitionRule[];
+    userId: string | null;
+    team: DbTeamMember[];
+    isOwner: boolean;
+}
+
+/**
+ * Whether the user may approve or reject a pending request: the creator, the reviewer, the assignees'
+ * managers or the owner, but never the requester (can_decide_transition in the migration).
+ */
+export function canDecideTransition(request: DbTransitionRequest, task: DbTask, context: TransitionContext): boolean {
+    if (!context.userId || request.requested_by === context.userId) return false;
+    if (context.isOwner) return true;
+    const roles = getTransitionRoles(task, context.userId, context.team, context.isOwner);
+    return roles.includes('creator') || roles.includes('reviewer') || roles.includes('manager');
+}
+
+export async function fetchTransitionRules(organizationId: string): Promise<DbTransitionRule[]> {
+    const { data, error } = await supabase
+        .from('workflow_transitions')
+        .select('*')
+        .eq('organization_id', organizationId);
+
+    if (error) throw error;
+    return data || [];
+}
+
+/**
+ * Replaces the organization's policy in one transaction (save_transition_rules in the migration),
+ * so a failed save keeps the previous rules.
+ */
+export async function saveTransitionRules(organizationId: string, rules: TransitionRuleInput[]): Promise<DbTransitionRule[]> {
+    const { data, error } = await supabase
+        .rpc('save_transition_rules', {
+            p_organization_id: organizationId,
+            p_rules: rules.map(rule => ({
+                from_status: rule.from_status,
+                to_status: rule.to_status,
+                roles: rule.roles,
+                require_reason: rule.require_reason,
+                require_approval: rule.require_approval,
+            })),
+        });
+
+    if (error) throw error;
+    return data || [];
+}
+
+export async function fetchPendingTransitionRequests(organizationId: string): Promise<DbTransitionRequest[]> {
+    const { data, error } = await supabase
+        .from('transition_requests')
+        .select('*')
+        .eq('organization_id', organizationId)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+}
+
+export async function createTransitionRequest(task: DbTask, toStatus: string, reason: string | null): Promise<DbTransitionRequest> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+        throw new Error('Not authenticated');
+    }
+
+    const { data, error } = await supabase
+        .from('transition_requests')
+        .insert({
+            task_id: task.id,
+            organization_id: task.organization_id,
+            from_status: task.status,
+            to_status: toStatus,
+            reason,
+            requested_by: user.id,
+            requester_name: user.user_metadata?.full_name || user.email?.split('@')[0] || null,
+            status: 'pending',
+        })
+        .select()
+        .single();
+
+    if (error) throw error;
+    return data;
+}
+
+export async function decideTransitionRequest(requestId: string, approved: boolean) {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+        throw new Error('Not authenticated');
+    }
+
+    const { error } = await supabase
+        .from('transition_requests')
+        .update({
+            status: approved ? 'approved' : 'rejected',
+            decided_by: user.id,
+            decided_at: new Date().toISOString(),
+        })
+        .eq('id', requestId)
+        .eq('status', 'pending');
+
+    if (error) throw error;
+}
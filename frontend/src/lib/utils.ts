@@ -29,3 +29,23 @@ export function isUploadedAvatar(url: string | null | undefined): boolean {
     const trimmed = url.trim();
     return /^https?:\/\//.test(trimmed) || trimmed.startsWith('/');
 }
+
+/**
+ * Converts rich-text HTML (from RichTextEditor) into plain text.
+ * Used for searching and parsing content without a DOM.
+ */
+export function stripHtml(html: string | null | undefined): string {
+    if (!html) return '';
+    return html
+        .replace(/<br\s*\/?>/gi, ' ')
+        .replace(/<\/(p|div|li)>/gi, ' ')
+        .replace(/<[^>]*>/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&amp;/g, '&')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/\s+/g, ' ')
+        .trim();
+}
@@ -0,0 +1,90 @@
+import { supabase } from './supabase';
+import { sendNotification, type NotificationMessage } from './notificationService';
+import type { DbTask } from './taskService';
+
+export interface DbTaskWatcher {
+    task_id: string;
+    user_id: string;
+    organization_id: string;
+    created_at: string;
+}
+
+// The creator, the assignees, the reviewer and commenters are added by database triggers,
+// see supabase_migration_task_watchers.sql. The client only adds and removes itself.
+
+export function getWatcherIds(taskId: string, watchers: DbTaskWatcher[]): string[] {
+    return watchers.filter(w => w.task_id === taskId).map(w => w.user_id);
+}
+
+export async function fetchWatchers(organizationId: string): Promise<DbTaskWatcher[]> {
+    const { data, error } = await supabase
+        .from('task_watchers')
+        .select('*')
+        .eq('organization_id', organizationId);
+
+    if (error) throw error;
+    return data || [];
+}
+
+export async function watchTask(task: Pick<DbTask, 'id' | 'organization_id'>): Promise<DbTaskWatcher> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+        throw new Error('Not authenticated');
+    }
+
+    const { data, error } = await supabase
+        .from('task_watchers')
+        .upsert({ task_id: task.id, user_id: user.id, organization_id: task.organization_id }, { onConflict: 'task_id,user_id' })
+        .select()
+        .single();
+
+    if (error) throw error;
+    return data;
+}
+
+export async function unwatchTask(taskId: string) {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+        throw new Error('Not authenticated');
+    }
+
+    const { error } = await supabase
+        .from('task_watchers')
+        .delete()
+        .eq('task_id', taskId)
+        .eq('user_id', user.id);
+
+    if (error) throw error;
+}
+
+/**
+ * Sends a notification to everyone watching the task, except the user who made the change
+ * and `skip` (people who already got a more specific notification about it).
+ * The watcher list is read fresh so triggers that just added someone are taken into account.
+ */
+export async function notifyWatchers(
+    task: Pick<DbTask, 'id' | 'title'>,
+    notification: NotificationMessage,
+    skip: (string | null | undefined)[] = []
+) {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const { data, error } = await supabase
+        .from('task_watchers')
+        .select('user_id')
+        .eq('task_id', task.id);
+
+    if (error) {
+        console.error('Error fetching watchers:', error);
+        return;
+    }
+
+    const recipients = (data || [])
+        .map(w => w.user_id as string)
+        .filter(id => id !== user?.id && !skip.includes(id));
+
+    await Promise.all(recipients.map(id => sendNotification(id, {
+        ...notification,
+        link_url: notification.link_url || `/dashboard/tasks?task=${task.id}`,
+    })));
+}
@@ -0,0 +1,125 @@
+import type { TFunction } from 'i18next';
+import { supabase } from './supabase';
+import type { NotificationStatus } from './notificationDelivery';
+
+export interface DbWorkflowColumn {
+    id: string;
+    organization_id: string;
+    key: string; // Stored in tasks.status
+    name: string; // Empty for built-in columns, which are labelled through i18n
+    color: string;
+    position: number;
+    is_done: boolean; // Exactly one column per workflow is the final state
+    is_review: boolean; // At most one column, where finished work waits for the reviewer
+    wip_limit: number | null;
+}
+
+export type WorkflowColumnInput = Pick<DbWorkflowColumn, 'key' | 'name' | 'color' | 'position' | 'is_done' | 'is_review' | 'wip_limit'> & { id?: string };
+
+// Used until an organization saves its own workflow
+const DEFAULT_COLUMNS: WorkflowColumnInput[] = [
+    { key: 'new', name: '', color: '#94a3b8', position: 0, is_done: false, is_review: false, wip_limit: null },
+    { key: 'progress', name: '', color: '#6366f1', position: 1, is_done: false, is_review: false, wip_limit: null },
+    { key: 'review', name: '', color: '#fbbf24', position: 2, is_done: false, is_review: true, wip_limit: null },
+    { key: 'done', name: '', color: '#34d399', position: 3, is_done: true, is_review: false, wip_limit: null },
+];
+
+export function getDefaultWorkflow(organizationId: string): DbWorkflowColumn[] {
+    return DEFAULT_COLUMNS.map(column => ({
+        ...column,
+        id: `default-${column.key}`,
+        organization_id: organizationId,
+    }));
+}
+
+/**
+ * Status key of the final column. Falls back to the last column for workflows saved without a flag.
+ */
+export function getDoneStatus(workflow: DbWorkflowColumn[]): string {
+    return (workflow.find(c => c.is_done) || workflow[workflow.length - 1])?.key || 'done';
+}
+
+/**
+ * Status given to newly created tasks.
+ */
+export function getInitialStatus(workflow: DbWorkflowColumn[]): string {
+    return workflow[0]?.key || 'new';
+}
+
+/**
+ * The column flagged for review, where finished work waits for the reviewer's approval.
+ * Null when the workflow has none.
+ */
+export function getReviewStatus(workflow: DbWorkflowColumn[]): string | null {
+    return workflow.find(c => c.is_review && !c.is_done)?.key || null;
+}
+
+export function getStatusLabel(workflow: DbWorkflowColumn[], status: string, t: TFunction): string {
+    const column = workflow.find(c => c.key === status);
+    return column?.name || t(`dashboard.status.${status}`, status);
+}
+
+/** The column as notifications refer to it, so each recipient reads it in their own language. */
+export function getNotificationStatus(workflow: DbWorkflowColumn[], status: string): NotificationStatus {
+    return { key: status, name: workflow.find(c => c.key === status)?.name || '' };
+}
+
+export function getStatusColor(workflow: DbWorkflowColumn[], status: string): string {
+    return workflow.find(c => c.key === status)?.color || '#94a3b8';
+}
+
+/**
+ * Turns a column name into a status key that is stable after renames.
+ */
+export function makeStatusKey(name: string, existingKeys: string[]): string {
+    const base = name
+        .toLowerCase()
+        .trim()
+        .replace(/[^\p{L}\p{N}]+/gu, '_')
+        .replace(/^_+|_+$/g, '') || 'column';
+    let key = base;
+    let i = 2;
+    while (existingKeys.includes(key)) {
+        key = `${base}_${i++}`;
+    }
+    return key;
+}
+
+export async function fetchWorkflow(organizationId: string): Promise<DbWorkflowColumn[]> {
+    const { data, error } = await supabase
+        .from('workflow_columns')
+        .select('*')
+        .eq('organization_id', organizationId)
+        .order('position', { ascending: true });
+
+    if (error) throw error;
+    return data && data.length > 0 ? data : getDefaultWorkflow(organizationId);
+}
+
+/**
+ * Replaces the organization's workflow in one transaction (save_workflow in
+ * supabase_migration_workflow_columns.sql). Tasks in removed columns are moved to `fallbackStatus`
+ * so they do not disappear from the board; if anything fails, nothing changes.
+ */
+export async function saveWorkflow(organizationId: string, columns: WorkflowColumnInput[], fallbackStatus: string): Promise<DbWorkflowColumn[]> {
+    if (columns.filter(c => c.is_done).length !== 1) {
+        throw new Error('Workflow must have exactly one done column');
+    }
+
+    const { data, error } = await supabase
+        .rpc('save_workflow', {
+            p_organization_id: organizationId,
+            p_columns: columns.map(column => ({
+                key: column.key,
+                name: column.name,
+                color: column.color,
+                is_done: column.is_done,
+                is_review: column.is_review && !column.is_done,
+                wip_limit: column.wip_limit,
+            })),
+            p_fallback_status: fallbackStatus,
+        });
+
+    if (error) throw error;
+    return data || [];
+}
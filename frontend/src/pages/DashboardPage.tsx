@@ -6,7 +6,8 @@ import { fetchProfile, type DbProfile } from '../lib/profileService';
 import { ensureUserInTeam, getPendingInvites, acceptInvite, declineInvite } from '../lib/teamService';
 import type { User } from '@supabase/supabase-js';
 import { getInitials } from '../lib/utils';
-import { fetchNotifications, markAsRead, markAllAsRead, deleteNotification, type DbNotification } from '../lib/notificationService';
+import { fetchNotifications, fetchUnreadCount, subscribeToNotifications, markAsRead, markAllAsRead, deleteNotification, type DbNotification } from '../lib/notificationService';
+import { mergeRealtimeChange } from '../lib/realtime';
 import { createOrganization } from '../lib/organizationService';
 import { OrgProvider, useOrg } from '../lib/OrgContext';
 import '../styles/dashboard.css';
@@ -17,6 +18,8 @@ const LANGUAGES = [
     { code: 'en', label: 'EN' },
 ] as const;
 
+const NOTIFICATION_DROPDOWN_LIMIT = 20;
+
 function DashboardInner() {
     const { t, i18n } = useTranslation();
     const navigate = useNavigate();
@@ -26,6 +29,8 @@ function DashboardInner() {
     const [initialized, setInitialized] = useState(false);
     const [notifications, setNotifications] = useState<DbNotification[]>([]);
     const [showNotifications, setShowNotifications] = useState(false);
+    const [unreadCount, setUnreadCount] = useState(0);
+    const notificationIds = useRef(new Set<string>());
     const [showOrgSwitcher, setShowOrgSwitcher] = useState(false);
 
 
@@ -49,11 +54,27 @@ function DashboardInner() {
                     console.error('Init error:', err);
                 }
                 setInitialized(true);
-                fetchNotifications().then(setNotifications);
+                fetchNotifications(NOTIFICATION_DROPDOWN_LIMIT).then(setNotifications);
+                fetchUnreadCount().then(setUnreadCount);
             }
         });
     }, [navigate]);
 
+    useEffect(() => {
+        notificationIds.current = new Set(notifications.map(n => n.id));
+    }, [notifications]);
+
+    // The dropdown keeps the latest rows; the badge is recounted on the server so it
+    // stays correct for notifications beyond the loaded ones
+    useEffect(() => {
+        if (!user) return;
+        return subscribeToNotifications(user.id, change => {
+            if (change.eventType === 'DELETE' && !(change.old.id && notificationIds.current.has(change.old.id))) return;
+            setNotifications(prev => mergeRealtimeChange(prev, change).slice(0, NOTIFICATION_DROPDOWN_LIMIT));
+            fetchUnreadCount().then(setUnreadCount);
+        });
+    }, [user]);
+
     // Auto-create Personal Workspace if no orgs exist
     useEffect(() => {
         const initPersonalWorkspace = async () => {
@@ -81,6 +102,7 @@ function DashboardInner() {
         try {
             await markAllAsRead();
             setNotifications(prev => prev.map(n => ({ ...n, read: true })));
+            setUnreadCount(0);
         } catch (err) {
             console.error('Failed to mark all as read:', err);
         }
@@ -89,13 +111,25 @@ function DashboardInner() {
     const handleDeleteNotification = async (id: string, e: React.MouseEvent) => {
         e.stopPropagation();
         try {
+            const deleted = notifications.find(n => n.id === id);
             await deleteNotification(id);
             setNotifications(prev => prev.filter(n => n.id !== id));
+            if (deleted && !deleted.read) setUnreadCount(prev => Math.max(0, prev - 1));
         } catch (err) {
             console.error('Failed to delete notification:', err);
         }
     };
 
+    const handleOpenNotification = async (notification: DbNotification) => {
+        setShowNotifications(false);
+        if (!notification.read) {
+            setNotifications(prev => prev.map(n => n.id === notification.id ? { ...n, read: true } : n));
+            setUnreadCount(prev => Math.max(0, prev - 1));
+            markAsRead(notification.id).catch(err => console.error('Failed to mark as read:', err));
+        }
+        if (notification.link_url) navigate(notification.link_url);
+    };
+
     const handleLogout = async () => {
         await supabase.auth.signOut();
         navigate('/auth');
@@ -117,6 +151,7 @@ function DashboardInner() {
         { to: '/dashboard/calendar', icon: '📅', label: t('dashboard.nav.calendar'), end: false },
         { to: '/dashboard/team', icon: '👥', label: t('dashboard.nav.team'), end: false },
         { to: '/dashboard/analytics', icon: '📊', label: t('dashboard.nav.analytics'), end: false },
+        { to: '/dashboard/timesheet', icon: '⏱', label: t('dashboard.nav.timesheet'), end: false },
         { to: '/dashboard/profile', icon: '⚙️', label: t('dashboard.nav.profile'), end: false },
     ];
 
@@ -284,8 +319,8 @@ function DashboardInner() {
                             <div className="topbar-notifications">
                                 <button className="topbar-notif-btn" onClick={() => setShowNotifications(!showNotifications)}>
                                     <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 8A6 6 0 0 0 6 8c0 7-3 9-3 9h18s-3-2-3-9" /><path d="M13.73 21a2 2 0 0 1-3.46 0" /></svg>
-                                    {notifications.filter(n => !n.read).length > 0 && (
-                                        <span className="notif-badge">{notifications.filter(n => !n.read).length}</span>
+                                    {unreadCount > 0 && (
+                                        <span className="notif-badge">{unreadCount > 99 ? '99+' : unreadCount}</span>
                                     )}
                                 </button>
                                 {showNotifications && (
@@ -299,7 +334,7 @@ function DashboardInner() {
                                                 <p className="notif-empty">{t('dashboard.notifications.empty')}</p>
                                             ) : (
                                                 notifications.map(n => (
-                                                    <div key={n.id} className={`notif-item ${n.read ? 'read' : 'unread'}`} onClick={() => markAsRead(n.id).then(() => setNotifications(prev => prev.map(item => item.id === n.id ? { ...item, read: true } : item)))}>
+                                                    <div key={n.id} className={`notif-item ${n.read ? 'read' : 'unread'} ${n.link_url ? 'has-link' : ''}`} onClick={() => handleOpenNotification(n)}>
                                                         <div className="notif-content">
                                                             <strong>{n.title}</strong>
                                                             <p>{n.message}</p>
@@ -310,6 +345,9 @@ function DashboardInner() {
                                                 ))
                                             )}
                                         </div>
+                                        <NavLink to="/dashboard/notifications" className="notif-view-all" onClick={() => setShowNotifications(false)}>
+                                            {t('dashboard.notifications.viewAll')}
+                                        </NavLink>
                                     </div>
                                 )}
                             </div>
@@ -1,11 +1,15 @@
 import { useState, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
-import { fetchTasks } from '../../lib/taskService';
+import { fetchTasks, getTaskAssignees } from '../../lib/taskService';
 import { fetchTeam } from '../../lib/teamService';
 
 import type { DbTask } from '../../lib/taskService';
 import type { DbTeamMember } from '../../lib/teamService';
 import { getInitials } from '../../lib/utils';
+import { fetchWorkflow, getDoneStatus, getStatusLabel, type DbWorkflowColumn } from '../../lib/workflowService';
+import { fetchLabels, type DbLabel } from '../../lib/labelService';
+import { fetchCustomFields, aggregateField, type DbCustomField } from '../../lib/customFieldService';
+import { fetchTimeEntries, getLoggedMinutesByTask, formatDuration, type DbTimeEntry } from '../../lib/timeService';
 
 import { useOrg } from '../../lib/OrgContext';
 
@@ -14,6 +18,11 @@ export default function AnalyticsPage() {
     const { activeOrgId } = useOrg();
     const [team, setTeam] = useState<DbTeamMember[]>([]);
     const [tasks, setTasks] = useState<DbTask[]>([]);
+    const [workflow, setWorkflow] = useState<DbWorkflowColumn[]>([]);
+    const [timeEntries, setTimeEntries] = useState<DbTimeEntry[]>([]);
+    const [labels, setLabels] = useState<DbLabel[]>([]);
+    const [customFields, setCustomFields] = useState<DbCustomField[]>([]);
+    const [fieldId, setFieldId] = useState('');
     const [loading, setLoading] = useState(true);
 
     useEffect(() => {
@@ -25,11 +34,19 @@ export default function AnalyticsPage() {
 
             try {
                 // 1. Fetch all tasks for the org
-                const [tasksData, teamData] = await Promise.all([
+                const [tasksData, teamData, workflowData, timeData, labelData, fieldData] = await Promise.all([
                     fetchTasks(activeOrgId),
-                    fetchTeam(activeOrgId)
+                    fetchTeam(activeOrgId),
+                    fetchWorkflow(activeOrgId),
+                    fetchTimeEntries(activeOrgId),
+                    fetchLabels(activeOrgId),
+                    fetchCustomFields(activeOrgId)
                 ]);
                 setTasks(tasksData);
+                setWorkflow(workflowData);
+                setTimeEntries(timeData);
+                setLabels(labelData);
+                setCustomFields(fieldData);
                 setTeam(teamData);
             } catch (err) {
                 console.error(err);
@@ -40,20 +57,49 @@ export default function AnalyticsPage() {
         loadData();
     }, [activeOrgId]);
 
-    const done = tasks.filter(t => t.status === 'done').length;
-    const progress = tasks.filter(t => t.status === 'progress').length;
-    const review = tasks.filter(t => t.status === 'review').length;
-    const newTasks = tasks.filter(t => t.status === 'new').length;
+    const doneStatus = getDoneStatus(workflow);
+    const done = tasks.filter(t => t.status === doneStatus).length;
     const total = tasks.length;
 
     const completionRate = total > 0 ? Math.round((done / total) * 100) : 0;
 
+    // Shared tasks count for every assignee
+    const isAssignedTo = (task: DbTask, member: DbTeamMember) => getTaskAssignees(task, team).some(m => m.id === member.id);
+
     const assigneeStats = team.map(member => {
-        const memberTasks = tasks.filter(t => t.assignee === member.name);
-        const memberDone = memberTasks.filter(t => t.status === 'done').length;
+        const memberTasks = tasks.filter(t => isAssignedTo(t, member));
+        const memberDone = memberTasks.filter(t => t.status === doneStatus).length;
         return { name: member.name, avatar: member.avatar, total: memberTasks.length, done: memberDone };
     });
 
+    // Estimate vs actual, counted only on estimated tasks so the two numbers are comparable
+    const loggedByTask = getLoggedMinutesByTask(timeEntries);
+    const effortStats = team.map(member => {
+        const estimated = tasks.filter(t => t.estimate_minutes && isAssignedTo(t, member));
+        return {
+            id: member.id,
+            name: member.name,
+            estimate: estimated.reduce((sum, t) => sum + (t.estimate_minutes || 0), 0),
+            actual: estimated.reduce((sum, t) => sum + (loggedByTask.get(t.id) || 0), 0),
+        };
+    }).filter(s => s.estimate > 0);
+    const maxEffort = Math.max(1, ...effortStats.map(s => Math.max(s.estimate, s.actual)));
+
+    const labelStats = labels.map(label => {
+        const labelled = tasks.filter(t => t.label_ids.includes(label.id));
+        return {
+            ...label,
+            total: labelled.length,
+            done: labelled.filter(t => t.status === doneStatus).length,
+        };
+    }).filter(l => l.total > 0).sort((a, b) => b.total - a.total);
+    const maxLabelCount = Math.max(1, ...labelStats.map(l => l.total));
+
+    // Custom field breakdown, for the field picked in the card (the first one by default)
+    const aggregatedField = customFields.find(f => f.id === fieldId) || customFields[0] || null;
+    const fieldStats = aggregatedField ? aggregateField(aggregatedField, tasks, team) : null;
+    const maxFieldCount = Math.max(1, ...(fieldStats?.counts.map(c => c.count) || []));
+
     const priorities = {
         high: tasks.filter(t => t.priority === 'high').length,
         medium: tasks.filter(t => t.priority === 'medium').length,
@@ -109,14 +155,13 @@ export default function AnalyticsPage() {
                 <div className="glass-card analytics-status-bars">
                     <h3>{t('dashboard.analytics.byStatus')}</h3>
                     <div className="status-bars">
-                        {[
-                            { key: 'done', count: done, color: '#34d399' },
-                            { key: 'progress', count: progress, color: '#6366f1' },
-                            { key: 'review', count: review, color: '#fbbf24' },
-                            { key: 'new', count: newTasks, color: '#94a3b8' },
-                        ].map(s => (
+                        {[...workflow].reverse().map(column => ({
+                            key: column.key,
+                            count: tasks.filter(t => t.status === column.key).length,
+                            color: column.color,
+                        })).map(s => (
                             <div key={s.key} className="status-bar-row">
-                                <span className="status-bar-label">{t(`dashboard.status.${s.key}`)}</span>
+                                <span className="status-bar-label">{getStatusLabel(workflow, s.key, t)}</span>
                                 <div className="status-bar-track">
                                     <div
                                         className="status-bar-fill"
@@ -190,6 +235,93 @@ export default function AnalyticsPage() {
                     </div>
                 </div>
             </div>
+
+            {/* Tasks by label */}
+            <div className="glass-card analytics-card analytics-effort">
+                <h3>{t('dashboard.labels.byLabel')}</h3>
+                {labelStats.length === 0 ? (
+                    <p className="task-comments-empty">{t('dashboard.labels.noLabels')}</p>
+                ) : (
+                    <div className="priority-chart">
+                        {labelStats.map(l => (
+                            <div key={l.id} className="priority-row">
+                                <span className="label-chip" style={{ '--label-color': l.color } as React.CSSProperties}>{l.name}</span>
+                                <div className="priority-bar-track">
+                                    <div
+                                        className="priority-bar-fill"
+                                        style={{ width: `${(l.total / maxLabelCount) * 100}%`, background: l.color }}
+                                    />
+                                </div>
+                                <span className="priority-count">{l.done}/{l.total}</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {/* Custom field aggregation */}
+            {aggregatedField && fieldStats && (
+                <div className="glass-card analytics-card analytics-effort">
+                    <div className="analytics-card-header">
+                        <h3>{t('dashboard.customFields.analytics')}</h3>
+                        <select value={aggregatedField.id} onChange={e => setFieldId(e.target.value)} className="kanban-select">
+                            {customFields.map(f => <option key={f.id} value={f.id}>{f.name}</option>)}
+                        </select>
+                    </div>
+                    <p className="task-subtask-meta">
+                        {t('dashboard.customFields.filled', { count: fieldStats.filled, total })}
+                        {fieldStats.sum !== null && ` · ${t('dashboard.customFields.sum')}: ${Math.round(fieldStats.sum * 100) / 100}`}
+                        {fieldStats.average !== null && ` · ${t('dashboard.customFields.average')}: ${Math.round(fieldStats.average * 100) / 100}`}
+                    </p>
+                    {fieldStats.counts.length > 0 && (
+                        <div className="priority-chart">
+                            {fieldStats.counts.map(c => (
+                                <div key={c.key} className="priority-row">
+                                    <span className="priority-label" title={c.label}>
+                                        {aggregatedField.type === 'checkbox'
+                                            ? t(c.key === 'true' ? 'dashboard.customFields.checked' : 'dashboard.customFields.unchecked')
+                                            : c.label}
+                                    </span>
+                                    <div className="priority-bar-track">
+                                        <div className="priority-bar-fill" style={{ width: `${(c.count / maxFieldCount) * 100}%`, background: 'var(--color-accent)' }} />
+                                    </div>
+                                    <span className="priority-count">{c.count}</span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {/* Estimate vs actual time */}
+            <div className="glass-card analytics-card analytics-effort">
+                <h3>{t('dashboard.analytics.estimateVsActual')}</h3>
+                {effortStats.length === 0 ? (
+                    <p className="task-comments-empty">{t('dashboard.analytics.noEstimates')}</p>
+                ) : (
+                    <div className="perf-list">
+                        {effortStats.map(s => (
+                            <div key={s.id} className="effort-item">
+                                <div className="perf-member">
+                                    <span>{s.name}</span>
+                                </div>
+                                <div className="effort-bars">
+                                    <div className="perf-bar-track" title={t('dashboard.time.estimate')}>
+                                        <div className="perf-bar-fill effort-estimate" style={{ width: `${(s.estimate / maxEffort) * 100}%` }} />
+                                    </div>
+                                    <div className="perf-bar-track" title={t('dashboard.time.logged')}>
+                                        <div
+                                            className={`perf-bar-fill effort-actual ${s.actual > s.estimate ? 'over' : ''}`}
+                                            style={{ width: `${(s.actual / maxEffort) * 100}%` }}
+                                        />
+                                    </div>
+                                </div>
+                                <span className="perf-count">{formatDuration(s.actual)} / {formatDuration(s.estimate)}</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
         </div>
     );
 }
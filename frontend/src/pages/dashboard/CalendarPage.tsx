@@ -1,14 +1,23 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useTranslation } from 'react-i18next';
-import { fetchTasks } from '../../lib/taskService';
+import { useSearchParams } from 'react-router-dom';
+import { fetchTasks, syncRecurringTasks, getAssigneeIds, formatAssignees } from '../../lib/taskService';
 import { fetchEvents, createEvent, removeEvent } from '../../lib/eventService';
 import { fetchTeam, type DbTeamMember } from '../../lib/teamService';
 
 import { supabase } from '../../lib/supabase';
-import { getVisibleAssigneeNames, getVisibleUserIds } from '../../lib/hierarchy';
+import { getVisibleUserIds } from '../../lib/hierarchy';
+import { useOrgRealtime, mergeRealtimeChange } from '../../lib/realtime';
 import type { DbTask } from '../../lib/taskService';
 import type { DbEvent } from '../../lib/eventService';
 import { useOrg } from '../../lib/OrgContext';
+import { describeRecurrence } from '../../lib/recurrence';
+import { fetchWorkflow, getInitialStatus, type DbWorkflowColumn } from '../../lib/workflowService';
+import { StatusBadge } from '../../components/StatusBadge';
+import { LinkBadges } from '../../components/TaskLinks';
+import { LabelChips } from '../../components/TaskLabels';
+import { fetchLabels, type DbLabel } from '../../lib/labelService';
+import { getLinkInfo, type TaskLink } from '../../lib/links';
 
 interface CalendarItem {
     id: string;
@@ -16,8 +25,9 @@ interface CalendarItem {
     color: string;
     type: 'task-deadline' | 'meeting' | 'deadline' | 'task' | 'event';
     source: 'task' | 'event';
-    link_url?: string | null;
+    links?: TaskLink[];
     time?: string | null;
+    recurring?: boolean;
 }
 
 const TYPE_COLORS: Record<string, string> = {
@@ -41,6 +51,7 @@ export default function CalendarPage() {
         return new Date(now.getFullYear(), now.getMonth(), 1);
     });
     const [tasks, setTasks] = useState<DbTask[]>([]);
+    const [workflow, setWorkflow] = useState<DbWorkflowColumn[]>([]);
     const [events, setEvents] = useState<DbEvent[]>([]);
     const [team, setTeam] = useState<DbTeamMember[]>([]);
     const [loading, setLoading] = useState(true);
@@ -52,9 +63,11 @@ export default function CalendarPage() {
     const [selectedEvent, setSelectedEvent] = useState<DbEvent | null>(null);
     const [selectedDay, setSelectedDay] = useState<{ day: number; dateStr: string; items: CalendarItem[] } | null>(null);
     const [user, setUser] = useState<any>(null);
+    const [labels, setLabels] = useState<DbLabel[]>([]);
+    const [labelFilter, setLabelFilter] = useState('');
+    const [searchParams, setSearchParams] = useSearchParams();
 
     // Visibility logic
-    const visibleNames = user ? getVisibleAssigneeNames(team, user.id) : [];
     const visibleUserIds = user ? getVisibleUserIds(team, user.id) : [];
 
     const loadData = useCallback(async () => {
@@ -65,13 +78,19 @@ export default function CalendarPage() {
                 return;
             }
 
-            const [t, e, teamData, { data: { user: authUser } }] = await Promise.all([
+            const [t, e, teamData, { data: { user: authUser } }, workflowData, labelData] = await Promise.all([
                 fetchTasks(currentOrg),
                 fetchEvents(currentOrg),
                 fetchTeam(currentOrg),
-                supabase.auth.getUser()
+                supabase.auth.getUser(),
+                fetchWorkflow(currentOrg),
+                fetchLabels(currentOrg)
             ]);
-            setTasks(t);
+            setWorkflow(workflowData);
+            setLabels(labelData);
+            // Generated recurring instances must show up without visiting the board first
+            const generated = await syncRecurringTasks(t, getInitialStatus(workflowData));
+            setTasks(generated.length > 0 ? await fetchTasks(currentOrg) : t);
             setEvents(e);
             setTeam(teamData);
             setUser(authUser);
@@ -84,6 +103,37 @@ export default function CalendarPage() {
 
     useEffect(() => { loadData(); }, [loadData]);
 
+    // Open an event referenced from a notification link (?event=<id>)
+    useEffect(() => {
+        const eventParam = searchParams.get('event');
+        const event = eventParam ? events.find(e => e.id === eventParam) : null;
+        if (event) {
+            const date = new Date(event.date);
+            setCurrentDate(new Date(date.getFullYear(), date.getMonth(), 1));
+            setSelectedEvent(event);
+            const next = new URLSearchParams(searchParams);
+            next.delete('event');
+            setSearchParams(next, { replace: true });
+        }
+    }, [searchParams, events, setSearchParams]);
+
+    // Tasks and events created or changed by others show up without a reload
+    useOrgRealtime(activeOrgId, ['tasks', 'events'], (table, change) => {
+        if (table === 'tasks') {
+            setTasks(prev => mergeRealtimeChange(prev, change, row => ({ ...row, checklist: [], label_ids: [] })));
+            setSelectedTask(prev => {
+                if (!prev || prev.id !== (change.new?.id || change.old.id)) return prev;
+                return change.new ? { ...prev, ...change.new } : null;
+            });
+        } else {
+            setEvents(prev => mergeRealtimeChange(prev, change, undefined, (a, b) => a.date.localeCompare(b.date)));
+            setSelectedEvent(prev => {
+                if (!prev || prev.id !== (change.new?.id || change.old.id)) return prev;
+                return change.new ? { ...prev, ...change.new } : null;
+            });
+        }
+    });
+
     const year = currentDate.getFullYear();
     const month = currentDate.getMonth();
     const firstDay = new Date(year, month, 1).getDay();
@@ -143,12 +193,12 @@ export default function CalendarPage() {
     tasks.forEach(task => {
         if (!task.deadline) return;
 
-        // Visibility Filter (Try ID first, fallback to name for old tasks)
-        const isVisible = isOwner || (task.assignee_id === user?.id) || (task.assignee_id
-            ? visibleUserIds.includes(task.assignee_id)
-            : visibleNames.includes(task.assignee));
+        // Visibility Filter
+        const isVisible = isOwner || task.reviewer_id === user?.id ||
+            getAssigneeIds(task).some(id => id === user?.id || visibleUserIds.includes(id));
 
         if (!isVisible) return;
+        if (labelFilter && !task.label_ids.includes(labelFilter)) return;
 
         const parsed = parseCalendarDate(task.deadline);
         if (!parsed) return;
@@ -170,8 +220,9 @@ export default function CalendarPage() {
             color: TYPE_COLORS['task-deadline'],
             type: 'task-deadline',
             source: 'task',
-            link_url: task.link_url,
-            time: timeStr
+            links: task.links,
+            time: timeStr,
+            recurring: !!task.recurrence
         });
 
         itemsMap.set(dateStr, items.sort((a, b) => (a.time || '00:00').localeCompare(b.time || '00:00')));
@@ -261,20 +312,6 @@ export default function CalendarPage() {
         }
     };
 
-    const getLinkInfo = (url: string | null | undefined) => {
-        if (!url) return null;
-        try {
-            const isGoogleDoc = url.includes('docs.google.com') || url.includes('drive.google.com');
-            return {
-                isGoogleDoc,
-                icon: isGoogleDoc ? '📄' : '🔗',
-                label: isGoogleDoc ? 'Google Doc' : 'Link'
-            };
-        } catch {
-            return { isGoogleDoc: false, icon: '🔗', label: 'Link' };
-        }
-    };
-
     if (loading) {
         return (
             <div className="calendar-page">
@@ -294,9 +331,17 @@ export default function CalendarPage() {
                     <h1>{t('dashboard.calendar.title')}</h1>
                     <p>{t('dashboard.calendar.subtitle')}</p>
                 </div>
-                <button className="btn btn-primary" onClick={() => setShowForm(!showForm)}>
-                    + {t('dashboard.calendar.event')}
-                </button>
+                <div className="kanban-header-actions">
+                    {labels.length > 0 && (
+                        <select value={labelFilter} onChange={e => setLabelFilter(e.target.value)} className="kanban-select">
+                            <option value="">{t('dashboard.filters.anyLabel')}</option>
+                            {labels.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+                        </select>
+                    )}
+                    <button className="btn btn-primary" onClick={() => setShowForm(!showForm)}>
+                        + {t('dashboard.calendar.event')}
+                    </button>
+                </div>
             </div>
 
             {/* Add event form */}
@@ -381,6 +426,7 @@ export default function CalendarPage() {
                                             <span className="calendar-event-dot" style={{ background: item.color }} />
                                             <span className="calendar-event-title">
                                                 {item.time && <span className="calendar-event-time">{item.time} </span>}
+                                                {item.recurring && '🔁 '}
                                                 {item.title}
                                             </span>
                                         </div>
@@ -427,9 +473,7 @@ export default function CalendarPage() {
                             <div className="task-modal-grid">
                                 <div className="task-modal-field">
                                     <span className="task-modal-label">{t('dashboard.calendar.taskDetails.status')}</span>
-                                    <span className={`task-status-badge status-${selectedTask.status}`}>
-                                        {t(`dashboard.status.${selectedTask.status}`)}
-                                    </span>
+                                    <StatusBadge status={selectedTask.status} workflow={workflow} />
                                 </div>
 
                                 <div className="task-modal-field">
@@ -441,7 +485,7 @@ export default function CalendarPage() {
 
                                 <div className="task-modal-field">
                                     <span className="task-modal-label">{t('dashboard.calendar.taskDetails.assignee')}</span>
-                                    <span className="task-modal-value">👤 {(selectedTask.assignee_id && team.find(m => m.user_id === selectedTask.assignee_id)?.name) || selectedTask.assignee || '—'}</span>
+                                    <span className="task-modal-value">👤 {formatAssignees(selectedTask, team)}</span>
                                 </div>
 
                                 <div className="task-modal-field">
@@ -451,12 +495,24 @@ export default function CalendarPage() {
                                     </span>
                                 </div>
 
-                                {selectedTask.link_url && (
+                                {selectedTask.label_ids.length > 0 && (
+                                    <div className="task-modal-field task-modal-full">
+                                        <span className="task-modal-label">{t('dashboard.labels.title')}</span>
+                                        <LabelChips labelIds={selectedTask.label_ids} labels={labels} />
+                                    </div>
+                                )}
+
+                                {selectedTask.links.length > 0 && (
+                                    <div className="task-modal-field task-modal-full">
+                                        <span className="task-modal-label">{t('dashboard.links.title')}</span>
+                                        <LinkBadges links={selectedTask.links} />
+                                    </div>
+                                )}
+
+                                {selectedTask.recurrence && (
                                     <div className="task-modal-field task-modal-full">
-                                        <span className="task-modal-label">Link</span>
-                                        <a href={selectedTask.link_url} target="_blank" rel="noopener noreferrer" className={`link-badge ${getLinkInfo(selectedTask.link_url)?.isGoogleDoc ? 'link-badge-doc' : ''}`}>
-                                            {getLinkInfo(selectedTask.link_url)?.icon} {getLinkInfo(selectedTask.link_url)?.label}
-                                        </a>
+                                        <span className="task-modal-label">{t('dashboard.recurrence.repeat')}</span>
+                                        <span className="task-modal-value">🔁 {describeRecurrence(selectedTask.recurrence, t)}</span>
                                     </div>
                                 )}
                             </div>
@@ -539,7 +595,6 @@ export default function CalendarPage() {
                             ) : (
                                 <div style={{ display: 'flex', flexDirection: 'column' }}>
                                     {selectedDay.items.map(item => {
-                                        const linkInfo = getLinkInfo(item.link_url);
                                         return (
                                             <div
                                                 key={item.id}
@@ -552,7 +607,7 @@ export default function CalendarPage() {
                                             >
                                                 <span className="calendar-event-dot" style={{ background: item.color, width: 8, height: 8, flexShrink: 0 }} />
                                                 <div style={{ flex: 1, minWidth: 0 }}>
-                                                    <div style={{ fontWeight: 600, fontSize: '0.85rem', marginBottom: 2 }}>{item.title}</div>
+                                                    <div style={{ fontWeight: 600, fontSize: '0.85rem', marginBottom: 2 }}>{item.recurring && '🔁 '}{item.title}</div>
                                                     <div style={{ fontSize: '0.75rem', color: 'var(--color-text-muted)', display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
                                                         {item.time && <span>🕐 {item.time}</span>}
                                                         <span style={{ color: item.color, fontWeight: 600, textTransform: 'uppercase', fontSize: '0.65rem' }}>
@@ -560,7 +615,11 @@ export default function CalendarPage() {
                                                         </span>
                                                     </div>
                                                 </div>
-                                                {item.link_url && <span style={{ fontSize: '0.85rem', opacity: 0.7 }}>{linkInfo?.icon}</span>}
+                                                {item.links && item.links.length > 0 && (
+                                                    <span style={{ fontSize: '0.85rem', opacity: 0.7 }}>
+                                                        {item.links.map(link => getLinkInfo(link).icon).join('')}
+                                                    </span>
+                                                )}
                                             </div>
                                         );
                                     })}
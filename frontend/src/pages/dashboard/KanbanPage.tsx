@@ -1,16 +1,66 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useTranslation } from 'react-i18next';
-import { fetchTasks, createTask, updateTask, removeTask } from '../../lib/taskService';
+import { useSearchParams } from 'react-router-dom';
+import {
+    fetchTasks, createTask, updateTask, removeTask, getTaskProgress, spawnRecurringInstance, syncRecurringTasks,
+    getAssigneeIds, getTaskAssignees, isTaskAssignee, formatAssignees, toAssigneeFields
+} from '../../lib/taskService';
 import { fetchTeam } from '../../lib/teamService';
 
 import { supabase } from '../../lib/supabase';
 import { getEligibleAssignees, getAllSubordinates } from '../../lib/hierarchy';
-import { sendNotification } from '../../lib/notificationService';
-import type { DbTask } from '../../lib/taskService';
+import { composeNotification, sendNotification, type NotificationChange } from '../../lib/notificationService';
+import { describeRecurrence, type RecurrenceRule } from '../../lib/recurrence';
+import { fetchDependencies, getOpenBlockers, getBlockedTasks, type DbTaskDependency } from '../../lib/dependencyService';
+import { parseFilters, applyFiltersToParams, matchesFilters, type TaskFilters } from '../../lib/taskFilters';
+import { fetchRunningTimer, startTimer, stopTimer, getEntryMinutes, formatDuration, parseDuration, type DbTimeEntry } from '../../lib/timeService';
+import { canBulkEdit, shiftDeadline, runBulk, type BulkAction, type BulkResult } from '../../lib/bulkTasks';
+import { createLink, type TaskLink } from '../../lib/links';
+import { fetchWatchers, watchTask, unwatchTask, notifyWatchers, getWatcherIds, type DbTaskWatcher } from '../../lib/watcherService';
+import { fetchCustomFields, type CustomValues, type DbCustomField } from '../../lib/customFieldService';
+import { fetchLabels, setTaskLabels, type DbLabel } from '../../lib/labelService';
+import { fetchTemplates, createTemplate, deleteTemplate, instantiateTemplate, taskToTemplateItem, type DbTaskTemplate } from '../../lib/templateService';
+import { useOrgRealtime, mergeRealtimeChange, getChangedFields } from '../../lib/realtime';
+import { groupTasksIntoLanes, getLaneUpdates, SWIMLANE_GROUPINGS, type SwimlaneGrouping } from '../../lib/swimlanes';
+import {
+    fetchWorkflow, getDoneStatus, getInitialStatus, getReviewStatus, getStatusLabel, getNotificationStatus,
+    type DbWorkflowColumn
+} from '../../lib/workflowService';
+import type { DbTask, DbChecklistItem } from '../../lib/taskService';
 import type { DbTeamMember } from '../../lib/teamService';
 import { RichTextEditor } from '../../components/RichTextEditor';
+import { TaskBreakdown } from '../../components/TaskBreakdown';
+import { TaskComments } from '../../components/TaskComments';
+import { TaskHistory, DeletedTasksLog } from '../../components/TaskHistory';
+import { RecurrencePicker } from '../../components/RecurrencePicker';
+import { TaskDependencies } from '../../components/TaskDependencies';
+import { StatusBadge } from '../../components/StatusBadge';
+import { WorkflowEditor } from '../../components/WorkflowEditor';
+import { TransitionRulesEditor } from '../../components/TransitionRulesEditor';
+import { TaskFilterBar } from '../../components/TaskFilterBar';
+import { BulkActionBar } from '../../components/BulkActionBar';
+import { TaskTimeLog } from '../../components/TaskTimeLog';
+import { TaskAttachments } from '../../components/TaskAttachments';
+import { LinkBadges, TaskLinksEditor } from '../../components/TaskLinks';
+import { TaskTemplatePicker } from '../../components/TaskTemplatePicker';
+import { LabelChips, TaskLabelPicker } from '../../components/TaskLabels';
+import { LabelManager } from '../../components/LabelManager';
+import { CustomFieldsEditor } from '../../components/CustomFields';
+import { CustomFieldManager } from '../../components/CustomFieldManager';
+import { AssigneeListEditor, ReviewerSelect } from '../../components/TaskAssignees';
+import {
+    fetchTransitionRules, fetchPendingTransitionRequests, getDefaultTransitionRules, evaluateTransition,
+    canDecideTransition, createTransitionRequest, decideTransitionRequest, getTransitionRoles, getReviewerId,
+    type DbTransitionRule, type DbTransitionRequest, type TransitionDecision
+} from '../../lib/transitionService';
 
-const COLUMNS: DbTask['status'][] = ['new', 'progress', 'review', 'done'];
+const MODAL_TABS = ['details', 'time', 'files', 'comments', 'history'] as const;
+type TaskModalTab = typeof MODAL_TABS[number];
+
+// How long cards changed by someone else stay highlighted
+const REMOTE_HIGHLIGHT_MS = 4000;
+// Bookkeeping columns that do not make a change worth flagging
+const REALTIME_IGNORED_FIELDS = ['recurrence_next_id', 'recurrence_last_deadline', 'user_id', 'created_at'];
 
 import { useOrg } from '../../lib/OrgContext';
 
@@ -19,6 +69,12 @@ export default function KanbanPage() {
     const { activeOrgId, userOrgs } = useOrg();
     const [team, setTeam] = useState<DbTeamMember[]>([]);
     const [tasks, setTasks] = useState<DbTask[]>([]);
+    const [dependencies, setDependencies] = useState<DbTaskDependency[]>([]);
+    const [workflow, setWorkflow] = useState<DbWorkflowColumn[]>([]);
+    const [showWorkflowEditor, setShowWorkflowEditor] = useState(false);
+    const [settingsTab, setSettingsTab] = useState<'columns' | 'transitions' | 'labels' | 'fields'>('columns');
+    const [transitionRules, setTransitionRules] = useState<DbTransitionRule[]>([]);
+    const [transitionRequests, setTransitionRequests] = useState<DbTransitionRequest[]>([]);
     const [loading, setLoading] = useState(true);
     const [draggedId, setDraggedId] = useState<string | null>(null);
     const [showForm, setShowForm] = useState(false);
@@ -31,10 +87,49 @@ export default function KanbanPage() {
     };
 
     const [newPriority, setNewPriority] = useState<DbTask['priority']>('medium');
-    const [newAssignee, setNewAssignee] = useState('');
+    const [newAssignee, setNewAssignee] = useState(''); // Team member id, empty means the current user
+    const [newCoAssignees, setNewCoAssignees] = useState<DbTeamMember[]>([]);
+    const [newReviewerId, setNewReviewerId] = useState<string | null>(null);
     const [newDeadline, setNewDeadline] = useState(getLocalISOString(new Date()));
     const [newLink, setNewLink] = useState('');
-    const [selectedTask, setSelectedTask] = useState<DbTask | null>(null);
+    const [newRecurrence, setNewRecurrence] = useState<RecurrenceRule | null>(null);
+    const [newEstimate, setNewEstimate] = useState('');
+    const [templates, setTemplates] = useState<DbTaskTemplate[]>([]);
+    const [labels, setLabels] = useState<DbLabel[]>([]);
+    const [customFields, setCustomFields] = useState<DbCustomField[]>([]);
+    const [watchers, setWatchers] = useState<DbTaskWatcher[]>([]);
+    const [newCustomValues, setNewCustomValues] = useState<CustomValues>({});
+    const [runningTimer, setRunningTimer] = useState<DbTimeEntry | null>(null);
+    const [, setTimerTick] = useState(0);
+    const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null);
+    const [modalTab, setModalTab] = useState<TaskModalTab>('details');
+    const [showDeletedLog, setShowDeletedLog] = useState(false);
+    const [searchParams, setSearchParams] = useSearchParams();
+    const [topLevelOnly, setTopLevelOnly] = useState(() => localStorage.getItem('taskedo-kanban-top-level') === 'true');
+    const [grouping, setGrouping] = useState<SwimlaneGrouping>(() => {
+        const saved = localStorage.getItem('taskedo-kanban-swimlanes') as SwimlaneGrouping | null;
+        return saved && SWIMLANE_GROUPINGS.includes(saved) ? saved : 'none';
+    });
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    const [lastSelectedId, setLastSelectedId] = useState<string | null>(null);
+    const [bulkBusy, setBulkBusy] = useState(false);
+    const [bulkResult, setBulkResult] = useState<BulkResult | null>(null);
+    const [remoteChangedIds, setRemoteChangedIds] = useState<string[]>([]);
+    const [conflict, setConflict] = useState<{ taskId: string; fields: string[] } | null>(null);
+    const [collapsedLanes, setCollapsedLanes] = useState<string[]>(() => {
+        try {
+            return JSON.parse(localStorage.getItem('taskedo-kanban-collapsed-lanes') || '[]');
+        } catch {
+            return [];
+        }
+    });
+
+    // Derive from the task list so the modal reflects subtask/checklist edits immediately
+    const selectedTask = tasks.find(t => t.id === selectedTaskId) || null;
+
+    const doneStatus = getDoneStatus(workflow);
+    const initialStatus = getInitialStatus(workflow);
+    const reviewStatus = getReviewStatus(workflow);
 
     // Hierarchy logic
     const currentMember = team.find(m => m.user_id === user?.id);
@@ -45,6 +140,35 @@ export default function KanbanPage() {
     const isOwner = currentOrg?.role === 'owner';
     const isManager = isOwner || (currentMember && (!currentMember.manager_id || getAllSubordinates(team, currentMember.id).length > 0));
 
+    // Filters live in the query string so a filtered board can be shared as a link
+    const filters = parseFilters(searchParams);
+    const setFilters = (next: TaskFilters) => setSearchParams(applyFiltersToParams(next, searchParams), { replace: true });
+
+    // Tasks the current user can see on the board
+    const visibleTasks = tasks.filter(t =>
+        (!topLevelOnly || !t.parent_id) &&
+        (
+            isOwner || // Owner sees all tasks
+            isTaskAssignee(t, user?.id || null) || // Always show my tasks
+            t.reviewer_id === user?.id || // and the ones I review
+            getTaskAssignees(t, team).some(a => eligibleAssignees.some(ea => ea.id === a.id))
+        ) &&
+        matchesFilters(t, filters, { userId: user?.id || null, team, doneStatus, customFields })
+    );
+
+    // Members the user cannot assign to only get a lane when they already have visible tasks
+    const lanes = groupTasksIntoLanes(visibleTasks, grouping, team, doneStatus).filter(lane =>
+        grouping !== 'assignee' || isOwner || lane.tasks.length > 0 || eligibleAssignees.some(m => m.id === lane.key)
+    );
+
+    // Organizations without saved rules keep the built-in policy
+    const transitionContext = {
+        rules: transitionRules.length > 0 ? transitionRules : getDefaultTransitionRules(workflow),
+        userId: user?.id || null,
+        team,
+        isOwner,
+    };
+
     const loadData = useCallback(async () => {
         try {
             const currentOrg = activeOrgId;
@@ -57,24 +181,41 @@ export default function KanbanPage() {
             const { data: { user: authUser } } = await supabase.auth.getUser();
             setUser(authUser);
 
-            const [taskData, teamData] = await Promise.all([
+            const [taskData, teamData, dependencyData, workflowData, ruleData, requestData, timerData, templateData, labelData, fieldData, watcherData] = await Promise.all([
                 fetchTasks(currentOrg),
-                fetchTeam(currentOrg)
+                fetchTeam(currentOrg),
+                fetchDependencies(currentOrg),
+                fetchWorkflow(currentOrg),
+                fetchTransitionRules(currentOrg),
+                fetchPendingTransitionRequests(currentOrg),
+                fetchRunningTimer(),
+                fetchTemplates(currentOrg),
+                fetchLabels(currentOrg),
+                fetchCustomFields(currentOrg),
+                fetchWatchers(currentOrg)
             ]);
-            setTasks(taskData);
+            setWorkflow(workflowData);
+            setTransitionRules(ruleData);
+            setTransitionRequests(requestData);
+            setRunningTimer(timerData);
+            setTemplates(templateData);
+            setLabels(labelData);
+            setCustomFields(fieldData);
+            setWatchers(watcherData);
+
+            // Generate the next instance of recurring tasks whose date has arrived
+            const generated = await syncRecurringTasks(taskData, getInitialStatus(workflowData));
+            setTasks(generated.length > 0 ? await fetchTasks(currentOrg) : taskData);
             setTeam(teamData);
+            setDependencies(dependencyData);
 
-            // Default to current user if available, otherwise first team member
-            if (!newAssignee) {
-                if (teamData.length > 0) {
-                    const currentUser = teamData.find(m => m.user_id === user?.id) || teamData[0];
-                    const eligible = getEligibleAssignees(teamData, user?.id || '');
-                    const defaultAssignee = eligible.find(m => m.user_id === user?.id) || eligible[0] || currentUser;
-                    setNewAssignee(defaultAssignee.name);
-                } else if (authUser) {
-                    // Fallback for personal workspace (no team members)
-                    setNewAssignee(authUser.user_metadata?.full_name || authUser.email || 'Me');
-                }
+            // Default to current user if available, otherwise first team member.
+            // Personal workspaces without team members keep the empty value: the task goes to the current user
+            if (!newAssignee && teamData.length > 0) {
+                const currentUser = teamData.find(m => m.user_id === user?.id) || teamData[0];
+                const eligible = getEligibleAssignees(teamData, user?.id || '');
+                const defaultAssignee = eligible.find(m => m.user_id === user?.id) || eligible[0] || currentUser;
+                setNewAssignee(defaultAssignee.id);
             }
         } catch (err) {
             console.error('Failed to load data:', err);
@@ -85,32 +226,301 @@ export default function KanbanPage() {
 
     useEffect(() => { loadData(); }, [loadData]);
 
+    const markRemoteChange = (taskId: string) => {
+        setRemoteChangedIds(prev => prev.includes(taskId) ? prev : [...prev, taskId]);
+        setTimeout(() => setRemoteChangedIds(prev => prev.filter(id => id !== taskId)), REMOTE_HIGHLIGHT_MS);
+    };
+
+    // Changes by other people are merged into the board as they happen
+    useOrgRealtime(activeOrgId, ['tasks', 'task_labels'], (table, change) => {
+        if (table === 'task_labels') {
+            // Label rows have no id of their own; they only update label_ids of tasks already on the board
+            const row = change.new || change.old;
+            if (!row.task_id || !row.label_id) return;
+            const labelId = row.label_id;
+            setTasks(prev => prev.map(task => {
+                if (task.id !== row.task_id) return task;
+                const labelIds = task.label_ids.filter(id => id !== labelId);
+                return { ...task, label_ids: change.eventType === 'DELETE' ? labelIds : [...labelIds, labelId] };
+            }));
+            return;
+        }
+
+        const incoming = change.new;
+        const local = tasks.find(t => t.id === (incoming?.id || change.old.id));
+
+        if (change.eventType === 'UPDATE' && incoming && local) {
+            const changed = getChangedFields(local, incoming, REALTIME_IGNORED_FIELDS);
+            if (changed.length === 0) return; // Echo of our own optimistic update
+            markRemoteChange(incoming.id);
+            if (incoming.id === selectedTaskId) setConflict({ taskId: incoming.id, fields: changed });
+        }
+        if (change.eventType === 'INSERT' && incoming && !local && incoming.user_id !== user?.id) {
+            markRemoteChange(incoming.id);
+        }
+        if (change.eventType === 'DELETE' && local && local.id === selectedTaskId) {
+            alert(t('dashboard.realtime.deleted', { title: local.title }));
+        }
+
+        setTasks(prev => mergeRealtimeChange(prev, change, row => ({ ...row, checklist: [], label_ids: [] })));
+    });
+
+    // Re-render every 30 seconds while a timer runs so its duration stays current
+    useEffect(() => {
+        if (!runningTimer) return;
+        const interval = setInterval(() => setTimerTick(tick => tick + 1), 30000);
+        return () => clearInterval(interval);
+    }, [runningTimer]);
+
+    const openTask = (taskId: string | null, tab: TaskModalTab = 'details') => {
+        setSelectedTaskId(taskId);
+        setModalTab(tab);
+    };
+
+    // Open a task referenced from a notification link (?task=<id>&tab=<tab>)
+    useEffect(() => {
+        const taskParam = searchParams.get('task');
+        if (taskParam && tasks.some(t => t.id === taskParam)) {
+            const tabParam = searchParams.get('tab');
+            openTask(taskParam, MODAL_TABS.find(tab => tab === tabParam) || 'details');
+            const next = new URLSearchParams(searchParams);
+            next.delete('task');
+            next.delete('tab');
+            setSearchParams(next, { replace: true });
+        }
+    }, [searchParams, tasks, setSearchParams]);
+
     const handleDragStart = (id: string) => setDraggedId(id);
 
-    const handleDrop = async (status: DbTask['status']) => {
-        if (!draggedId) return;
+    // A recurring task reaching 'done' schedules its next instance
+    const spawnNextInstance = async (task: DbTask) => {
+        if (!task.recurrence) return;
+        try {
+            const instance = await spawnRecurringInstance(task, initialStatus, new Date());
+            if (instance) {
+                setTasks(prev => [instance, ...prev.map(t => t.id === task.id ? { ...t, recurrence_next_id: instance.id, recurrence_last_deadline: instance.deadline } : t)]);
+            }
+        } catch (err) {
+            console.error('Failed to generate recurring task:', err);
+        }
+    };
 
-        const task = tasks.find(t => t.id === draggedId);
-        if (!task) return;
+    // Tell assignees of downstream tasks once their last blocker is done
+    const notifyUnblocked = async (task: DbTask) => {
+        const afterCompletion = tasks.map(t => t.id === task.id ? { ...t, status: doneStatus } : t);
+        const unblocked = getBlockedTasks(task.id, dependencies, afterCompletion)
+            .filter(t => t.status !== doneStatus && getOpenBlockers(t.id, dependencies, afterCompletion, doneStatus).length === 0);
 
-        // Restriction: Only Owner or Creator can move to 'done'
-        if (status === 'done') {
-            if (!isOwner && task.creator_id !== user?.id) {
-                alert(t('dashboard.kanban.errors.onlyCreatorCanComplete') || 'Only the task creator or organization owner can mark a task as Done.');
-                setDraggedId(null);
-                return;
+        for (const blocked of unblocked) {
+            for (const assigneeId of getAssigneeIds(blocked).filter(id => id !== user?.id)) {
+                await sendNotification(assigneeId, composeNotification(t, 'task_unblocked', { template: 'task_unblocked', task: blocked.title }, `/dashboard/tasks?task=${blocked.id}`));
+            }
+        }
+    };
+
+    const handleTaskCompleted = async (task: DbTask) => {
+        await notifyUnblocked(task);
+        await spawnNextInstance(task);
+    };
+
+    // Open blockers of a task that `status` would start; empty for any other move
+    const getStartBlockers = (task: DbTask, status: string) => {
+        if (task.status !== initialStatus || status === initialStatus || status === doneStatus) return [];
+        return getOpenBlockers(task.id, dependencies, tasks, doneStatus);
+    };
+
+    // Starting a task whose blockers are still open needs an explicit confirmation
+    const confirmStartBlocked = (task: DbTask, status: string) => {
+        const blockers = getStartBlockers(task, status);
+        if (blockers.length === 0) return true;
+        return window.confirm(t('dashboard.dependencies.warnStart', { tasks: blockers.map(b => b.title).join(', ') }));
+    };
+
+    const describeRejection = (task: DbTask, status: string, decision: Extract<TransitionDecision, { allowed: false }>) => {
+        const params = {
+            from: getStatusLabel(workflow, task.status, t),
+            to: getStatusLabel(workflow, status, t),
+            roles: decision.roles.map(role => t(`dashboard.transitions.roles.${role}`)).join(', '),
+        };
+        return decision.reason === 'role'
+            ? t('dashboard.transitions.rejected.role', params)
+            : t('dashboard.transitions.rejected.notAllowed', params);
+    };
+
+    // Status, assignee and deadline changes fan out to everyone watching the task.
+    // `skip` holds people who already got a more specific notification about the same change.
+    const notifyTaskWatchers = async (
+        task: DbTask,
+        updates: Partial<Pick<DbTask, 'status' | 'assignee_ids' | 'deadline'>>,
+        skip: (string | null | undefined)[] = []
+    ) => {
+        const changes: NotificationChange[] = [];
+        if (updates.status !== undefined && updates.status !== task.status) {
+            changes.push({ field: 'status', from: getNotificationStatus(workflow, task.status), to: getNotificationStatus(workflow, updates.status) });
+        }
+        if (updates.assignee_ids !== undefined && updates.assignee_ids.join() !== getAssigneeIds(task).join()) {
+            changes.push({ field: 'assignee', name: formatAssignees({ ...task, ...updates }, team) });
+        }
+        if (changes.length > 0) {
+            await notifyWatchers(task, composeNotification(t, 'task_watch', { template: 'task_watch', task: task.title, changes }), skip);
+        }
+
+        // A new deadline goes out on its own so people can route deadlines separately; assignees hear
+        // about it even when they do not watch the task
+        if (updates.deadline !== undefined && updates.deadline !== task.deadline) {
+            const notification = composeNotification(
+                t, 'deadline', { template: 'deadline', task: task.title, date: updates.deadline }, `/dashboard/tasks?task=${task.id}`
+            );
+            const assigneeIds = getAssigneeIds({ ...task, ...updates }).filter(id => id !== user?.id);
+            for (const assigneeId of assigneeIds) {
+                await sendNotification(assigneeId, notification);
             }
+            await notifyWatchers(task, notification, assigneeIds);
+        }
+    };
+
+    // Moves from Telegram set off the same notifications (supabase/functions/telegram-bot/statusEffects.ts)
+    const persistStatusChange = async (task: DbTask, status: string, reason: string | null) => {
+        await updateTask(task.id, { status }, reason);
+        if (status === doneStatus) await handleTaskCompleted(task);
+
+        // If moving to review, notify the reviewer (the creator unless someone is designated)
+        const reviewerId = getReviewerId(task);
+        const notifyReviewer = status === reviewStatus && reviewerId !== user?.id;
+        if (notifyReviewer) {
+            await sendNotification(reviewerId, composeNotification(t, 'task_review', { template: 'task_review', task: task.title }, `/dashboard/tasks?task=${task.id}`));
         }
+        await notifyTaskWatchers(task, { status }, notifyReviewer ? [reviewerId] : []);
+    };
 
+    const applyStatusChange = async (task: DbTask, status: string, reason: string | null) => {
         // Optimistic update
-        setTasks(prev => prev.map(t => t.id === draggedId ? { ...t, status } : t));
-        setDraggedId(null);
+        setTasks(prev => prev.map(t => t.id === task.id ? { ...t, status } : t));
+        try {
+            await persistStatusChange(task, status, reason);
+        } catch (err: any) {
+            // The database enforces the same rules and explains a refused move
+            console.error('Failed to update task status:', err);
+            alert(err.message);
+            loadData(); // rollback
+        }
+    };
+
+    const sendForApproval = async (task: DbTask, status: string, reason: string | null) => {
+        const request = await createTransitionRequest(task, status, reason);
+        setTransitionRequests(prev => [request, ...prev]);
+
+        // The creator, the reviewer and the assignees' direct managers are asked to decide
+        const managerIds = getTaskAssignees(task, team)
+            .map(assignee => team.find(m => m.id === assignee.manager_id)?.user_id);
+        const approverIds = new Set([task.creator_id, task.reviewer_id, ...managerIds].filter((id): id is string => !!id && id !== user?.id));
+        for (const approverId of approverIds) {
+            await sendNotification(approverId, composeNotification(
+                t, 'approval', { template: 'approval', task: task.title, status: getNotificationStatus(workflow, status) }, `/dashboard/tasks?task=${task.id}`
+            ));
+        }
+    };
+
+    // Single entry point for status changes: drag-and-drop and card buttons both go through the policy here
+    const requestStatusChange = async (task: DbTask, status: string) => {
+        if (task.status === status) return;
+
+        const decision = evaluateTransition(task, status, transitionContext);
+        if (!decision.allowed) {
+            alert(describeRejection(task, status, decision));
+            return;
+        }
+
+        if (transitionRequests.some(r => r.task_id === task.id)) {
+            alert(t('dashboard.transitions.alreadyPending'));
+            return;
+        }
+
+        if (!confirmStartBlocked(task, status)) return;
+
+        const column = workflow.find(c => c.key === status);
+        if (column?.wip_limit && tasks.filter(t => t.status === status).length >= column.wip_limit) {
+            if (!window.confirm(t('dashboard.workflow.wipExceeded', { column: getStatusLabel(workflow, status, t), limit: column.wip_limit }))) return;
+        }
+
+        let reason: string | null = null;
+        if (decision.requireReason) {
+            reason = window.prompt(t('dashboard.transitions.reasonPrompt', { to: getStatusLabel(workflow, status, t) }))?.trim() || null;
+            if (!reason) return;
+        }
+
+        if (!decision.requireApproval) {
+            await applyStatusChange(task, status, reason);
+            return;
+        }
+        try {
+            await sendForApproval(task, status, reason);
+            alert(t('dashboard.transitions.sentForApproval'));
+        } catch (err: any) {
+            alert(err.message);
+        }
+    };
+
+    const handleDecision = async (request: DbTransitionRequest, approved: boolean) => {
+        const task = tasks.find(t => t.id === request.task_id);
+        setTransitionRequests(prev => prev.filter(r => r.id !== request.id));
         try {
-            await updateTask(draggedId, { status });
+            await decideTransitionRequest(request.id, approved);
+            // A task moved elsewhere in the meantime keeps its status; the approval no longer applies
+            if (approved && task && task.status === request.from_status) {
+                await applyStatusChange(task, request.to_status, request.reason);
+            }
+            if (request.requested_by !== user?.id) {
+                await sendNotification(request.requested_by, composeNotification(t, 'approval', {
+                    template: approved ? 'approved' : 'rejected',
+                    task: task?.title || '',
+                    status: getNotificationStatus(workflow, request.to_status),
+                }, `/dashboard/tasks?task=${request.task_id}`));
+            }
+        } catch (err) {
+            console.error('Failed to decide transition request:', err);
+            loadData();
+        }
+    };
+
+    // Dropping a card into another lane changes the field the board is grouped by
+    const moveToLane = async (task: DbTask, laneKey: string): Promise<boolean> => {
+        const updates = getLaneUpdates(task, grouping, laneKey, team);
+        if (!updates) {
+            alert(t('dashboard.kanban.swimlanes.cannotDrop'));
+            return false;
+        }
+        if (updates.assignee_ids !== undefined && !isOwner && !eligibleAssignees.some(m => m.id === laneKey)) {
+            alert(t('dashboard.kanban.swimlanes.cannotAssign'));
+            return false;
+        }
+
+        setTasks(prev => prev.map(t => t.id === task.id ? { ...t, ...updates } : t));
+        try {
+            await updateTask(task.id, updates);
+            if (updates.assignee_id && !getAssigneeIds(task).includes(updates.assignee_id) && updates.assignee_id !== user?.id) {
+                await sendNotification(updates.assignee_id, composeNotification(t, 'task_assigned', { template: 'new_task', task: task.title }, `/dashboard/tasks?task=${task.id}`));
+            }
+            await notifyTaskWatchers(task, updates, [updates.assignee_id]);
+            return true;
         } catch (err) {
             console.error('Failed to update task:', err);
-            loadData(); // rollback
+            loadData();
+            return false;
+        }
+    };
+
+    const handleDrop = async (status: DbTask['status'], laneKey?: string) => {
+        if (!draggedId) return;
+        const task = tasks.find(t => t.id === draggedId);
+        setDraggedId(null);
+        if (!task) return;
+
+        if (laneKey !== undefined) {
+            const currentLane = lanes.find(lane => lane.tasks.some(t => t.id === task.id));
+            if (currentLane?.key !== laneKey && !(await moveToLane(task, laneKey))) return;
         }
+        await requestStatusChange(task, status);
     };
 
     const handleAddTask = async (e: React.FormEvent) => {
@@ -121,43 +531,47 @@ export default function KanbanPage() {
             const deadlineDate = new Date(newDeadline);
             const isoDeadline = deadlineDate.toISOString();
 
-            // Find the assignee's user_id from the team list
-            const assigneeMember = team.find(m => m.name === newAssignee);
-            let assigneeId = assigneeMember?.user_id || null;
-
-            // If not found in team (e.g. personal workspace owner), check matches current user
-            if (!assigneeId && user) {
-                const userName = user.user_metadata?.full_name || user.email;
-                if (newAssignee === userName || newAssignee === 'Me') {
-                    assigneeId = user.id;
-                }
-            }
+            // Without a team member (e.g. personal workspace owner) the task goes to the current user
+            const assigneeMember = team.find(m => m.id === newAssignee);
+            const assigneeId = assigneeMember ? assigneeMember.user_id || null : user?.id || null;
+            const assigneeName = assigneeMember?.name || currentMember?.name || user?.user_metadata?.full_name || user?.email || 'Me';
 
-            await createTask({
+            const coAssignees = newCoAssignees.filter(m => m.user_id && m.user_id !== assigneeId);
+            const created = await createTask({
                 title: newTitle,
                 description: newDesc,
-                status: 'new',
+                status: initialStatus,
                 priority: newPriority,
-                assignee: newAssignee,
+                assignee: assigneeName,
                 assignee_id: assigneeId,
+                assignee_ids: [...(assigneeId ? [assigneeId] : []), ...coAssignees.map(m => m.user_id)],
+                reviewer_id: newReviewerId,
                 deadline: isoDeadline,
-                link_url: newLink,
+                links: newLink.trim() ? [createLink(newLink)] : [],
+                recurrence: newRecurrence,
+                estimate_minutes: parseDuration(newEstimate),
+                custom_values: newCustomValues,
                 organization_id: activeOrgId || ''
             });
 
-            // Send notification to assignee
-            if (assigneeMember && assigneeMember.user_id !== user?.id) {
-                await sendNotification(assigneeMember.user_id, {
-                    title: t('dashboard.notifications.new_task_title'),
-                    message: `${t('dashboard.notifications.new_task_msg')}: ${newTitle}`,
-                    type: 'task_assigned'
-                });
+            // Send notification to every assignee
+            const notified = [...(assigneeMember ? [assigneeMember] : []), ...coAssignees].filter(m => m.user_id !== user?.id);
+            for (const member of notified) {
+                await sendNotification(member.user_id, composeNotification(t, 'task_assigned', { template: 'new_task', task: newTitle }, `/dashboard/tasks?task=${created.id}`));
+            }
+            if (newReviewerId && newReviewerId !== user?.id) {
+                await sendNotification(newReviewerId, composeNotification(t, 'task_review', { template: 'reviewer', task: newTitle }, `/dashboard/tasks?task=${created.id}`));
             }
 
             setNewTitle('');
             setNewDesc('');
             setNewLink('');
-            setNewAssignee(team[0]?.name || '');
+            setNewRecurrence(null);
+            setNewEstimate('');
+            setNewCustomValues({});
+            setNewAssignee(team[0]?.id || '');
+            setNewCoAssignees([]);
+            setNewReviewerId(null);
             setNewDeadline(getLocalISOString(new Date()));
             setShowForm(false);
             loadData();
@@ -166,29 +580,236 @@ export default function KanbanPage() {
         }
     };
 
-    const handleTransition = async (task: DbTask, newStatus: DbTask['status']) => {
+    const handleCreateFromTemplate = async (template: DbTaskTemplate) => {
+        const userName = user?.user_metadata?.full_name || user?.email || 'Me';
+        try {
+            const created = await instantiateTemplate(template, {
+                status: initialStatus,
+                members: isOwner ? team : eligibleAssignees,
+                fallback: { name: currentMember?.name || userName, user_id: user?.id || null },
+            });
+
+            await Promise.all(created
+                .filter(task => task.assignee_id && task.assignee_id !== user?.id)
+                .map(task => sendNotification(task.assignee_id!, composeNotification(t, 'task_assigned', { template: 'new_task', task: task.title }, `/dashboard/tasks?task=${task.id}`))));
+
+            setShowForm(false);
+            loadData();
+        } catch (err) {
+            console.error('Failed to create tasks from template:', err);
+            alert(t('dashboard.templates.createError'));
+            loadData();
+        }
+    };
+
+    const handleSaveTemplate = async () => {
+        const selected = boardOrder.filter(task => selectedIds.includes(task.id));
+        if (selected.length === 0 || !activeOrgId) return;
+        const name = window.prompt(t('dashboard.templates.namePrompt'), selected.length === 1 ? selected[0].title : '')?.trim();
+        if (!name) return;
+        try {
+            const template = await createTemplate(activeOrgId, name, selected.map(task => taskToTemplateItem(task, team)));
+            setTemplates(prev => [...prev, template].sort((a, b) => a.name.localeCompare(b.name)));
+            alert(t('dashboard.templates.saved', { name }));
+        } catch (err) {
+            console.error('Failed to save template:', err);
+            alert(t('dashboard.templates.saveError'));
+        }
+    };
+
+    const handleDeleteTemplate = async (template: DbTaskTemplate) => {
+        if (!confirm(t('dashboard.templates.confirmDelete', { name: template.name }))) return;
+        setTemplates(prev => prev.filter(tpl => tpl.id !== template.id));
         try {
-            // Optimistic update
-            setTasks(prev => prev.map(t => t.id === task.id ? { ...t, status: newStatus } : t));
-
-            await updateTask(task.id, { status: newStatus });
-
-            // If moving to review, notify the creator
-            if (newStatus === 'review') {
-                await sendNotification(task.creator_id, {
-                    title: t('dashboard.notifications.task_review_title'),
-                    message: `${t('dashboard.notifications.task_review_msg')}: ${task.title}`,
-                    type: 'task_review'
-                });
+            await deleteTemplate(template.id);
+        } catch (err) {
+            console.error('Failed to delete template:', err);
+            loadData();
+        }
+    };
+
+    // One-click move to the next column: the assignee advances the work, the final step is an approval.
+    // Only offered when the transition policy allows it for the current user.
+    const getNextAction = (task: DbTask) => {
+        const index = workflow.findIndex(c => c.key === task.status);
+        const next = task.status !== doneStatus ? workflow[index + 1] : undefined;
+        if (index < 0 || !next || !evaluateTransition(task, next.key, transitionContext).allowed) return null;
+
+        if (next.key === doneStatus) {
+            return { status: next.key, icon: '✅', label: t('dashboard.kanban.actions.approve'), className: 'btn-success' };
+        }
+
+        if (!isTaskAssignee(task, user?.id || null)) return null;
+        return index === 0
+            ? { status: next.key, icon: '🚀', label: t('dashboard.kanban.actions.start'), className: 'btn-primary' }
+            : { status: next.key, icon: '📤', label: t('dashboard.kanban.actions.complete'), className: 'btn-primary' };
+    };
+
+    const handleCreateSubtask = async (parent: DbTask, input: { title: string; assignee: DbTeamMember | null; deadline: string }) => {
+        const assigneeName = input.assignee?.name || currentMember?.name || user?.user_metadata?.full_name || user?.email || 'Me';
+        const created = await createTask({
+            title: input.title,
+            description: '',
+            status: initialStatus,
+            priority: parent.priority,
+            assignee: assigneeName,
+            assignee_id: input.assignee ? input.assignee.user_id : user?.id || null,
+            deadline: input.deadline ? new Date(input.deadline).toISOString() : '',
+            parent_id: parent.id,
+            organization_id: activeOrgId || ''
+        });
+        setTasks(prev => [created, ...prev]);
+
+        if (input.assignee && input.assignee.user_id && input.assignee.user_id !== user?.id) {
+            await sendNotification(input.assignee.user_id, composeNotification(t, 'task_assigned', { template: 'new_task', task: input.title }, `/dashboard/tasks?task=${created.id}`));
+        }
+    };
+
+    const handleChecklistChange = (taskId: string, checklist: DbChecklistItem[]) => {
+        setTasks(prev => prev.map(t => t.id === taskId ? { ...t, checklist } : t));
+    };
+
+    const handleStopRecurrence = async (task: DbTask) => {
+        setTasks(prev => prev.map(t => t.id === task.id ? { ...t, recurrence: null } : t));
+        try {
+            await updateTask(task.id, { recurrence: null });
+        } catch (err) {
+            console.error('Failed to update task:', err);
+            loadData();
+        }
+    };
+
+    const handleToggleTimer = async (task: DbTask) => {
+        try {
+            if (runningTimer?.task_id === task.id) {
+                await stopTimer(runningTimer);
+                setRunningTimer(null);
+            } else {
+                const { started } = await startTimer(task, runningTimer);
+                setRunningTimer(started);
             }
         } catch (err) {
-            console.error('Failed to transition task:', err);
+            console.error('Failed to toggle timer:', err);
+            setRunningTimer(await fetchRunningTimer().catch(() => null));
+        }
+    };
+
+    const handleEstimateChange = async (task: DbTask, minutes: number | null) => {
+        setTasks(prev => prev.map(t => t.id === task.id ? { ...t, estimate_minutes: minutes } : t));
+        try {
+            await updateTask(task.id, { estimate_minutes: minutes });
+        } catch (err) {
+            console.error('Failed to update task:', err);
+            loadData();
+        }
+    };
+
+    const handleLinksChange = async (task: DbTask, links: TaskLink[]) => {
+        setTasks(prev => prev.map(t => t.id === task.id ? { ...t, links } : t));
+        try {
+            await updateTask(task.id, { links });
+        } catch (err) {
+            console.error('Failed to update task:', err);
             loadData();
         }
     };
 
+    const handleToggleWatch = async (task: DbTask) => {
+        if (!user) return;
+        const watching = getWatcherIds(task.id, watchers).includes(user.id);
+        setWatchers(prev => watching
+            ? prev.filter(w => !(w.task_id === task.id && w.user_id === user.id))
+            : [...prev, { task_id: task.id, user_id: user.id, organization_id: task.organization_id, created_at: new Date().toISOString() }]);
+        try {
+            if (watching) await unwatchTask(task.id);
+            else await watchTask(task);
+        } catch (err) {
+            console.error('Failed to update watchers:', err);
+            loadData();
+        }
+    };
+
+    const handleCustomValuesChange = async (task: DbTask, customValues: CustomValues) => {
+        setTasks(prev => prev.map(t => t.id === task.id ? { ...t, custom_values: customValues } : t));
+        try {
+            await updateTask(task.id, { custom_values: customValues });
+        } catch (err) {
+            console.error('Failed to update task:', err);
+            loadData();
+        }
+    };
+
+    const handleLabelsChange = async (task: DbTask, labelIds: string[]) => {
+        setTasks(prev => prev.map(t => t.id === task.id ? { ...t, label_ids: labelIds } : t));
+        try {
+            await setTaskLabels(task.id, task.label_ids, labelIds);
+        } catch (err) {
+            console.error('Failed to update labels:', err);
+            loadData();
+        }
+    };
+
+    // New assignees still have to be members the user can assign to
+    const handleAssigneesChange = async (task: DbTask, members: DbTeamMember[]) => {
+        const current = getAssigneeIds(task);
+        const added = members.filter(m => m.user_id && !current.includes(m.user_id));
+        if (!isOwner && added.some(m => !eligibleAssignees.some(ea => ea.id === m.id))) {
+            alert(t('dashboard.kanban.swimlanes.cannotAssign'));
+            return;
+        }
+
+        const updates = toAssigneeFields(members);
+        setTasks(prev => prev.map(t => t.id === task.id ? { ...t, ...updates } : t));
+        try {
+            await updateTask(task.id, updates);
+            const notified = added.filter(m => m.user_id !== user?.id);
+            for (const member of notified) {
+                await sendNotification(member.user_id, composeNotification(t, 'task_assigned', { template: 'new_task', task: task.title }, `/dashboard/tasks?task=${task.id}`));
+            }
+            await notifyTaskWatchers(task, updates, notified.map(m => m.user_id));
+        } catch (err) {
+            console.error('Failed to update assignees:', err);
+            loadData();
+        }
+    };
+
+    const handleReviewerChange = async (task: DbTask, reviewerId: string | null) => {
+        setTasks(prev => prev.map(t => t.id === task.id ? { ...t, reviewer_id: reviewerId } : t));
+        try {
+            await updateTask(task.id, { reviewer_id: reviewerId });
+            if (reviewerId && reviewerId !== user?.id) {
+                await sendNotification(reviewerId, composeNotification(t, 'task_review', { template: 'reviewer', task: task.title }, `/dashboard/tasks?task=${task.id}`));
+            }
+        } catch (err) {
+            console.error('Failed to update reviewer:', err);
+            loadData();
+        }
+    };
+
+    const toggleTopLevelOnly = () => {
+        setTopLevelOnly(prev => {
+            localStorage.setItem('taskedo-kanban-top-level', String(!prev));
+            return !prev;
+        });
+    };
+
+    const changeGrouping = (value: SwimlaneGrouping) => {
+        setGrouping(value);
+        localStorage.setItem('taskedo-kanban-swimlanes', value);
+    };
+
+    const toggleLane = (key: string) => {
+        setCollapsedLanes(prev => {
+            const next = prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key];
+            localStorage.setItem('taskedo-kanban-collapsed-lanes', JSON.stringify(next));
+            return next;
+        });
+    };
+
     const handleDelete = async (id: string) => {
-        setTasks(prev => prev.filter(t => t.id !== id));
+        // Subtasks are removed by the database cascade, mirror that locally
+        setTasks(prev => prev.filter(t => t.id !== id && t.parent_id !== id));
+        setDependencies(prev => prev.filter(d => d.task_id !== id && d.blocked_by_id !== id));
         try {
             await removeTask(id);
         } catch (err) {
@@ -197,20 +818,257 @@ export default function KanbanPage() {
         }
     };
 
-    const getLinkInfo = (url: string | null) => {
-        if (!url) return null;
+    // Cards in the order they appear on the board, used for shift-click ranges
+    const boardOrder = (grouping === 'none' ? [visibleTasks] : lanes.map(lane => lane.tasks))
+        .flatMap(laneTasks => workflow.flatMap(column => laneTasks.filter(t => t.status === column.key)));
+
+    const toggleSelected = (taskId: string, range: boolean) => {
+        const ids = boardOrder.map(t => t.id);
+        const from = lastSelectedId ? ids.indexOf(lastSelectedId) : -1;
+        const to = ids.indexOf(taskId);
+        if (range && from >= 0 && to >= 0) {
+            const rangeIds = ids.slice(Math.min(from, to), Math.max(from, to) + 1);
+            setSelectedIds(prev => [...new Set([...prev, ...rangeIds])]);
+        } else {
+            setSelectedIds(prev => prev.includes(taskId) ? prev.filter(id => id !== taskId) : [...prev, taskId]);
+        }
+        setLastSelectedId(taskId);
+    };
+
+    const applyBulkToTask = async (task: DbTask, action: BulkAction, reason: string | null) => {
+        if (action.type === 'status') {
+            if (task.status === action.status) return;
+            const decision = evaluateTransition(task, action.status, transitionContext);
+            if (!decision.allowed) throw new Error(describeRejection(task, action.status, decision));
+            if (transitionRequests.some(r => r.task_id === task.id)) throw new Error(t('dashboard.transitions.alreadyPending'));
+
+            if (decision.requireApproval) {
+                await sendForApproval(task, action.status, reason);
+            } else {
+                await persistStatusChange(task, action.status, reason);
+                setTasks(prev => prev.map(t => t.id === task.id ? { ...t, status: action.status } : t));
+            }
+            return;
+        }
+
+        if (!canBulkEdit(task, user?.id || null, team, isOwner)) throw new Error(t('dashboard.bulk.errors.noAccess'));
+
+        switch (action.type) {
+            case 'assignee': {
+                const member = team.find(m => m.id === action.memberId);
+                if (!member || (!isOwner && !eligibleAssignees.some(m => m.id === member.id))) {
+                    throw new Error(t('dashboard.kanban.swimlanes.cannotAssign'));
+                }
+                // Replaces every assignee, co-assignees are managed in the task modal
+                const updates = toAssigneeFields([member]);
+                await updateTask(task.id, updates);
+                setTasks(prev => prev.map(t => t.id === task.id ? { ...t, ...updates } : t));
+                if (member.user_id && !getAssigneeIds(task).includes(member.user_id) && member.user_id !== user?.id) {
+                    await sendNotification(member.user_id, composeNotification(t, 'task_assigned', { template: 'new_task', task: task.title }, `/dashboard/tasks?task=${task.id}`));
+                }
+                await notifyTaskWatchers(task, updates, [member.user_id]);
+                return;
+            }
+            case 'priority':
+                await updateTask(task.id, { priority: action.priority });
+                setTasks(prev => prev.map(t => t.id === task.id ? { ...t, priority: action.priority } : t));
+                return;
+            case 'shift_deadline': {
+                if (!task.deadline) throw new Error(t('dashboard.bulk.errors.noDeadline'));
+                const deadline = shiftDeadline(task.deadline, action.days);
+                await updateTask(task.id, { deadline });
+                setTasks(prev => prev.map(t => t.id === task.id ? { ...t, deadline } : t));
+                await notifyTaskWatchers(task, { deadline });
+                return;
+            }
+            case 'delete':
+                await removeTask(task.id);
+                setTasks(prev => prev.filter(t => t.id !== task.id && t.parent_id !== task.id));
+                setDependencies(prev => prev.filter(d => d.task_id !== task.id && d.blocked_by_id !== task.id));
+                return;
+        }
+    };
+
+    // Bulk actions report every task that failed instead of rolling the whole board back
+    const handleBulkAction = async (action: BulkAction) => {
+        const selected = tasks.filter(t => selectedIds.includes(t.id));
+        if (selected.length === 0) return;
+        if (action.type === 'delete' && !window.confirm(t('dashboard.bulk.confirmDelete', { count: selected.length }))) return;
+
+        let reason: string | null = null;
+        if (action.type === 'status') {
+            const moving = selected.filter(task => task.status !== action.status);
+            // One confirmation covers every selected task that is still blocked
+            const blocked = moving.filter(task => getStartBlockers(task, action.status).length > 0);
+            if (blocked.length > 0 && !window.confirm(t('dashboard.dependencies.warnStartBulk', { tasks: blocked.map(b => b.title).join(', ') }))) return;
+            const column = workflow.find(c => c.key === action.status);
+            if (column?.wip_limit && tasks.filter(t => t.status === action.status).length + moving.length > column.wip_limit) {
+                if (!window.confirm(t('dashboard.workflow.wipExceeded', { column: getStatusLabel(workflow, action.status, t), limit: column.wip_limit }))) return;
+            }
+            // One reason covers every task whose move needs it
+            const needsReason = moving.some(task => {
+                const decision = evaluateTransition(task, action.status, transitionContext);
+                return decision.allowed && decision.requireReason;
+            });
+            if (needsReason) {
+                reason = window.prompt(t('dashboard.transitions.reasonPrompt', { to: getStatusLabel(workflow, action.status, t) }))?.trim() || null;
+                if (!reason) return;
+            }
+        }
+
+        setBulkBusy(true);
         try {
-            const isGoogleDoc = url.includes('docs.google.com') || url.includes('drive.google.com');
-            return {
-                isGoogleDoc,
-                icon: isGoogleDoc ? '📄' : '🔗',
-                label: isGoogleDoc ? 'Google Doc' : 'Link'
-            };
-        } catch {
-            return { isGoogleDoc: false, icon: '🔗', label: 'Link' };
+            const result = await runBulk(action, selected, task => applyBulkToTask(task, action, reason));
+            setBulkResult(result);
+            // Failed tasks stay selected so the action can be retried
+            setSelectedIds(result.failed.map(f => f.task.id));
+        } finally {
+            setBulkBusy(false);
         }
     };
 
+    const renderCard = (task: DbTask) => {
+        const isOverdue = task.deadline && task.status !== doneStatus && new Date(task.deadline) < new Date();
+        const progress = getTaskProgress(task, tasks, doneStatus);
+        const parentTask = task.parent_id ? tasks.find(p => p.id === task.parent_id) : null;
+        const openBlockers = task.status !== doneStatus ? getOpenBlockers(task.id, dependencies, tasks, doneStatus) : [];
+        const nextAction = getNextAction(task);
+        const pendingRequest = transitionRequests.find(r => r.task_id === task.id);
+
+        return (
+            <div
+                key={task.id}
+                className={`kanban-card glass-card ${draggedId === task.id ? 'dragging' : ''} ${isOverdue ? 'overdue' : ''} ${openBlockers.length > 0 ? 'blocked' : ''} ${selectedIds.includes(task.id) ? 'selected' : ''} ${remoteChangedIds.includes(task.id) ? 'remote-changed' : ''}`}
+                draggable
+                onDragStart={() => handleDragStart(task.id)}
+                onDragEnd={() => setDraggedId(null)}
+                onClick={() => openTask(task.id)}
+                role="button"
+            >
+                <div className="kanban-card-top">
+                    <input
+                        type="checkbox"
+                        className="kanban-card-select"
+                        checked={selectedIds.includes(task.id)}
+                        readOnly
+                        onClick={(e) => { e.stopPropagation(); toggleSelected(task.id, e.shiftKey); }}
+                        title={t('dashboard.bulk.select')}
+                    />
+                    <span className={`task-priority-badge priority-${task.priority}`}>
+                        {t(`dashboard.priority.${task.priority}`)}
+                    </span>
+                    {openBlockers.length > 0 && (
+                        <span className="kanban-blocked-badge" title={openBlockers.map(b => b.title).join(', ')}>
+                            ⛔ {t('dashboard.dependencies.blocked')}
+                        </span>
+                    )}
+                    {pendingRequest && (
+                        <span className="kanban-blocked-badge kanban-pending-badge" title={pendingRequest.reason || undefined}>
+                            ⏳ {getStatusLabel(workflow, pendingRequest.to_status, t)}
+                        </span>
+                    )}
+                    <button
+                        className="kanban-delete"
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            handleDelete(task.id);
+                        }}
+                    >✕</button>
+                </div>
+                {parentTask && (
+                    <div className="kanban-card-parent">↳ {parentTask.title}</div>
+                )}
+                <h4>
+                    {task.recurrence && (
+                        <span className="kanban-card-recurring" title={describeRecurrence(task.recurrence, t)}>🔁 </span>
+                    )}
+                    {task.title}
+                </h4>
+                <LabelChips labelIds={task.label_ids} labels={labels} />
+                <div
+                    className="kanban-card-desc"
+                    dangerouslySetInnerHTML={{ __html: task.description || '' }}
+                />
+
+                {progress && (
+                    <div className="task-progress" title={t('dashboard.kanban.progress')}>
+                        <div className="task-progress-track">
+                            <div className="task-progress-fill" style={{ width: `${progress.percent}%` }} />
+                        </div>
+                        <span className="task-progress-count">{progress.done}/{progress.total}</span>
+                    </div>
+                )}
+
+                {task.links.length > 0 && (
+                    <div className="task-card-link">
+                        <LinkBadges links={task.links} />
+                    </div>
+                )}
+
+                <div className="kanban-card-footer">
+                    {nextAction && (
+                        <div className="kanban-card-actions">
+                            <button
+                                className={`btn btn-sm ${nextAction.className}`}
+                                onClick={(e) => { e.stopPropagation(); requestStatusChange(task, nextAction.status); }}
+                            >
+                                {nextAction.icon} {nextAction.label}
+                            </button>
+                        </div>
+                    )}
+                    <div className="kanban-card-meta">
+                        <button
+                            type="button"
+                            className={`kanban-card-timer ${runningTimer?.task_id === task.id ? 'running' : ''}`}
+                            onClick={(e) => { e.stopPropagation(); handleToggleTimer(task); }}
+                            title={runningTimer?.task_id === task.id ? t('dashboard.time.stop') : t('dashboard.time.start')}
+                        >
+                            {runningTimer?.task_id === task.id ? `⏹ ${formatDuration(getEntryMinutes(runningTimer))}` : '⏱'}
+                        </button>
+                        <span className="kanban-assignee">👤 {formatAssignees(task, team)}</span>
+                        <span className="kanban-date">
+                            {task.deadline ? (
+                                task.deadline.includes('T') && !task.deadline.endsWith('T00:00')
+                                    ? new Date(task.deadline).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+                                    : new Date(task.deadline).toLocaleDateString([], { month: 'short', day: 'numeric' })
+                            ) : ''}
+                        </span>
+                    </div>
+                </div>
+            </div>
+        );
+    };
+
+    const renderColumnHeader = (column: DbWorkflowColumn, visibleCount: number) => {
+        const columnTotal = tasks.filter(t => t.status === column.key).length;
+        return (
+            <div className="kanban-column-header">
+                <span className="kanban-column-dot" style={{ background: column.color }} />
+                <h3>{getStatusLabel(workflow, column.key, t)}</h3>
+                <span className="kanban-count" title={column.wip_limit ? t('dashboard.workflow.wipLimit') : undefined}>
+                    {column.wip_limit ? `${columnTotal}/${column.wip_limit}` : visibleCount}
+                </span>
+            </div>
+        );
+    };
+
+    const renderColumn = (column: DbWorkflowColumn, columnTasks: DbTask[], laneKey?: string) => {
+        const overLimit = !!column.wip_limit && tasks.filter(t => t.status === column.key).length > column.wip_limit;
+        return (
+            <div
+                key={column.key}
+                className={`kanban-column ${overLimit ? 'over-limit' : ''} ${laneKey !== undefined ? 'kanban-lane-cell' : ''}`}
+                onDragOver={e => e.preventDefault()}
+                onDrop={() => handleDrop(column.key, laneKey)}
+            >
+                {laneKey === undefined && renderColumnHeader(column, columnTasks.length)}
+                <div className="kanban-cards">
+                    {columnTasks.map(renderCard)}
+                </div>
+            </div>
+        );
+    };
+
     if (loading) {
         return (
             <div className="kanban-page">
@@ -232,16 +1090,50 @@ export default function KanbanPage() {
                     <h1>{t('dashboard.kanban.title')}</h1>
                     <p>{t('dashboard.kanban.subtitle')}</p>
                 </div>
-                {isManager && (
-                    <button className="btn btn-primary" onClick={() => setShowForm(!showForm)}>
-                        + {t('dashboard.kanban.addTask')}
-                    </button>
-                )}
+                <div className="kanban-header-actions">
+                    <select
+                        value={grouping}
+                        onChange={e => changeGrouping(e.target.value as SwimlaneGrouping)}
+                        className="kanban-select"
+                        title={t('dashboard.kanban.swimlanes.label')}
+                    >
+                        {SWIMLANE_GROUPINGS.map(g => (
+                            <option key={g} value={g}>{t(`dashboard.kanban.swimlanes.${g}`)}</option>
+                        ))}
+                    </select>
+                    <label className="kanban-toggle">
+                        <input type="checkbox" checked={topLevelOnly} onChange={toggleTopLevelOnly} />
+                        {t('dashboard.kanban.topLevelOnly')}
+                    </label>
+                    {isOwner && (
+                        <button className="btn btn-outline" onClick={() => setShowWorkflowEditor(true)}>
+                            ⚙ {t('dashboard.workflow.title')}
+                        </button>
+                    )}
+                    {isManager && (
+                        <button className="btn btn-outline" onClick={() => setShowDeletedLog(true)}>
+                            🗑 {t('dashboard.history.deletedTasks')}
+                        </button>
+                    )}
+                    {isManager && (
+                        <button className="btn btn-primary" onClick={() => setShowForm(!showForm)}>
+                            + {t('dashboard.kanban.addTask')}
+                        </button>
+                    )}
+                </div>
             </div>
 
             {/* New task form */}
             {showForm && (
                 <form className="glass-card kanban-form animate-fade-in-up" onSubmit={handleAddTask}>
+                    <TaskTemplatePicker
+                        templates={templates}
+                        members={isOwner ? team : eligibleAssignees}
+                        fallbackName={currentMember?.name || user?.user_metadata?.full_name || user?.email || 'Me'}
+                        canDelete={template => isOwner || template.created_by === user?.id}
+                        onCreate={handleCreateFromTemplate}
+                        onDelete={handleDeleteTemplate}
+                    />
                     <input
                         type="text"
                         placeholder={t('dashboard.kanban.taskTitle')}
@@ -280,12 +1172,12 @@ export default function KanbanPage() {
                         >
                             {/* Always show current user if team is empty or not in team */}
                             {(eligibleAssignees.length === 0 || !eligibleAssignees.find(m => m.user_id === user?.id)) && (
-                                <option value={user?.user_metadata?.full_name || user?.email || 'Me'}>
+                                <option value="">
                                     {user?.user_metadata?.full_name || user?.email || 'Me'}
                                 </option>
                             )}
                             {(isOwner ? team : eligibleAssignees).map(m => (
-                                <option key={m.id} value={m.name}>{m.name}</option>
+                                <option key={m.id} value={m.id}>{m.name}</option>
                             ))}
                         </select>
                         <input
@@ -296,6 +1188,41 @@ export default function KanbanPage() {
                             style={{ flex: 1.5, colorScheme: 'dark' }}
                         />
                     </div>
+                    <div className="kanban-form-row">
+                        <AssigneeListEditor
+                            members={newCoAssignees}
+                            options={(isOwner ? team : eligibleAssignees).filter(m => m.id !== newAssignee)}
+                            canEdit
+                            onChange={setNewCoAssignees}
+                        />
+                        <ReviewerSelect
+                            reviewerId={newReviewerId}
+                            creatorName={currentMember?.name || user?.user_metadata?.full_name || user?.email || 'Me'}
+                            team={team}
+                            assigneeIds={[...team.filter(m => m.id === newAssignee), ...newCoAssignees].map(m => m.user_id)}
+                            canEdit
+                            onChange={setNewReviewerId}
+                        />
+                    </div>
+                    <input
+                        type="text"
+                        placeholder={`${t('dashboard.time.estimate')} (${t('dashboard.time.durationPlaceholder')})`}
+                        value={newEstimate}
+                        onChange={e => setNewEstimate(e.target.value)}
+                        className="kanban-input"
+                    />
+                    <CustomFieldsEditor
+                        fields={customFields}
+                        values={newCustomValues}
+                        team={team}
+                        canEdit
+                        onChange={setNewCustomValues}
+                    />
+                    <RecurrencePicker
+                        value={newRecurrence}
+                        onChange={setNewRecurrence}
+                        defaultDate={new Date(newDeadline)}
+                    />
                     <div className="kanban-form-row kanban-form-row-end">
                         <div className="kanban-form-actions">
                             <button type="button" className="btn btn-outline" onClick={() => setShowForm(false)}>
@@ -309,189 +1236,423 @@ export default function KanbanPage() {
                 </form>
             )}
 
+            <TaskFilterBar
+                organizationId={activeOrgId || ''}
+                filters={filters}
+                team={team}
+                labels={labels}
+                customFields={customFields}
+                userId={user?.id || null}
+                isOwner={isOwner}
+                onChange={setFilters}
+            />
+
+            <BulkActionBar
+                selectedCount={tasks.filter(t => selectedIds.includes(t.id)).length}
+                workflow={workflow}
+                assignees={isOwner ? team : eligibleAssignees}
+                busy={bulkBusy}
+                result={bulkResult}
+                onAction={handleBulkAction}
+                onClear={() => setSelectedIds([])}
+                onDismissResult={() => setBulkResult(null)}
+                onSaveTemplate={isManager ? handleSaveTemplate : undefined}
+            />
+
             {/* Kanban board */}
-            <div className="kanban-board">
-                {COLUMNS.map(status => {
-                    const columnTasks = tasks.filter(t =>
-                        t.status === status &&
-                        (
-                            isOwner || // Owner sees all tasks
-                            t.assignee_id === user?.id || // Always show my tasks
-                            (t.assignee_id ? eligibleAssignees.some(ea => ea.user_id === t.assignee_id) : eligibleAssignees.some(ea => ea.name === t.assignee))
-                        )
-                    );
-                    return (
-                        <div
-                            key={status}
-                            className="kanban-column"
-                            onDragOver={e => e.preventDefault()}
-                            onDrop={() => handleDrop(status)}
-                        >
-                            <div className="kanban-column-header">
-                                <span className={`kanban-column-dot status-bg-${status}`} />
-                                <h3>{t(`dashboard.status.${status}`)}</h3>
-                                <span className="kanban-count">{columnTasks.length}</span>
+            {grouping === 'none' ? (
+                <div className="kanban-board" style={{ '--kanban-columns': workflow.length } as React.CSSProperties}>
+                    {workflow.map(column => renderColumn(column, visibleTasks.filter(t => t.status === column.key)))}
+                </div>
+            ) : (
+                <div className="kanban-lanes">
+                    <div className="kanban-board kanban-lanes-header" style={{ '--kanban-columns': workflow.length } as React.CSSProperties}>
+                        {workflow.map(column => (
+                            <div key={column.key} className="kanban-column kanban-lane-cell">
+                                {renderColumnHeader(column, visibleTasks.filter(t => t.status === column.key).length)}
                             </div>
-                            <div className="kanban-cards">
-                                {columnTasks.map(task => {
-                                    const linkInfo = getLinkInfo(task.link_url);
-                                    const isOverdue = task.deadline && task.status !== 'done' && new Date(task.deadline) < new Date();
-
-                                    return (
-                                        <div
-                                            key={task.id}
-                                            className={`kanban-card glass-card ${draggedId === task.id ? 'dragging' : ''} ${isOverdue ? 'overdue' : ''}`}
-                                            draggable
-                                            onDragStart={() => handleDragStart(task.id)}
-                                            onDragEnd={() => setDraggedId(null)}
-                                            onClick={() => setSelectedTask(task)}
-                                            role="button"
-                                        >
-                                            <div className="kanban-card-top">
-                                                <span className={`task-priority-badge priority-${task.priority}`}>
-                                                    {t(`dashboard.priority.${task.priority}`)}
-                                                </span>
-                                                <button
-                                                    className="kanban-delete"
-                                                    onClick={(e) => {
-                                                        e.stopPropagation();
-                                                        handleDelete(task.id);
-                                                    }}
-                                                >✕</button>
-                                            </div>
-                                            <h4>{task.title}</h4>
+                        ))}
+                    </div>
+                    {lanes.map(lane => {
+                        const collapsed = collapsedLanes.includes(lane.key);
+                        return (
+                            <div key={lane.key} className={`kanban-lane ${collapsed ? 'collapsed' : ''}`}>
+                                <button type="button" className="kanban-lane-header" onClick={() => toggleLane(lane.key)}>
+                                    <span className="kanban-lane-chevron">{collapsed ? '▸' : '▾'}</span>
+                                    <span className="kanban-lane-title">{lane.translate ? t(lane.label) : lane.label}</span>
+                                    <span className="kanban-count">{lane.tasks.length}</span>
+                                </button>
+                                {!collapsed && (
+                                    <div className="kanban-board" style={{ '--kanban-columns': workflow.length } as React.CSSProperties}>
+                                        {workflow.map(column => renderColumn(column, lane.tasks.filter(t => t.status === column.key), lane.key))}
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+
+            {/* Task detail modal */}
+            {selectedTask && (
+                <div className="task-modal-overlay" onClick={() => setSelectedTaskId(null)}>
+                    <div className="task-modal glass-card animate-fade-in-up" onClick={e => e.stopPropagation()}>
+                        <div className="task-modal-header">
+                            <h2>{selectedTask.title}</h2>
+                            {(() => {
+                                const watcherIds = getWatcherIds(selectedTask.id, watchers);
+                                const watching = !!user && watcherIds.includes(user.id);
+                                return (
+                                    <button
+                                        type="button"
+                                        className={`btn btn-sm ${watching ? 'btn-primary' : 'btn-outline'} task-watch-toggle`}
+                                        title={watcherIds.map(id => team.find(m => m.user_id === id)?.name).filter(Boolean).join(', ')}
+                                        onClick={() => handleToggleWatch(selectedTask)}
+                                    >
+                                        👁 {watching ? t('dashboard.watchers.watching') : t('dashboard.watchers.watch')} · {watcherIds.length}
+                                    </button>
+                                );
+                            })()}
+                            <button className="kanban-delete" style={{ opacity: 1 }} onClick={() => setSelectedTaskId(null)}>✕</button>
+                        </div>
+
+                        {conflict?.taskId === selectedTask.id && (
+                            <div className="task-conflict-warning">
+                                <span>
+                                    ⚠️ {t('dashboard.realtime.conflict', {
+                                        fields: conflict.fields.map(field => t(`dashboard.history.fields.${field}`, field)).join(', '),
+                                    })}
+                                </span>
+                                <button type="button" className="kanban-delete" style={{ opacity: 1 }} onClick={() => setConflict(null)}>✕</button>
+                            </div>
+                        )}
+
+                        <div className="task-modal-tabs">
+                            {MODAL_TABS.map(tab => (
+                                <button
+                                    key={tab}
+                                    className={`task-modal-tab ${modalTab === tab ? 'active' : ''}`}
+                                    onClick={() => setModalTab(tab)}
+                                >
+                                    {t(`dashboard.kanban.tabs.${tab}`)}
+                                </button>
+                            ))}
+                        </div>
+
+                        <div className="task-modal-body">
+                            {modalTab === 'details' && (
+                                <>
+                                    {selectedTask.description && (
+                                        <div className="task-modal-field">
+                                            <span className="task-modal-label">{t('dashboard.kanban.taskDesc')}</span>
                                             <div
-                                                className="kanban-card-desc"
-                                                dangerouslySetInnerHTML={{ __html: task.description || '' }}
+                                                className="task-modal-description"
+                                                dangerouslySetInnerHTML={{ __html: selectedTask.description || '' }}
                                             />
+                                        </div>
+                                    )}
 
-                                            {task.link_url && (
-                                                <div className="task-card-link">
-                                                    <a href={task.link_url} target="_blank" rel="noopener noreferrer" className={`link-badge ${linkInfo?.isGoogleDoc ? 'link-badge-doc' : ''}`}>
-                                                        {linkInfo?.icon} {linkInfo?.label}
-                                                    </a>
-                                                </div>
-                                            )}
+                                    <div className="task-modal-grid">
+                                        <div className="task-modal-field">
+                                            <span className="task-modal-label">{t('dashboard.calendar.taskDetails.status')}</span>
+                                            <StatusBadge status={selectedTask.status} workflow={workflow} />
+                                        </div>
+
+                                        <div className="task-modal-field">
+                                            <span className="task-modal-label">{t('dashboard.calendar.taskDetails.priority')}</span>
+                                            <span className={`task-priority-badge priority-${selectedTask.priority}`}>
+                                                {t(`dashboard.priority.${selectedTask.priority}`)}
+                                            </span>
+                                        </div>
+
+                                        <div className="task-modal-field">
+                                            <span className="task-modal-label">{t('dashboard.assignees.title')}</span>
+                                            <AssigneeListEditor
+                                                members={getTaskAssignees(selectedTask, team)}
+                                                options={isOwner ? team : eligibleAssignees}
+                                                canEdit={canBulkEdit(selectedTask, user?.id || null, team, isOwner)}
+                                                minCount={1}
+                                                onChange={(members) => handleAssigneesChange(selectedTask, members)}
+                                            />
+                                        </div>
+
+                                        <div className="task-modal-field">
+                                            <span className="task-modal-label">{t('dashboard.assignees.reviewer')}</span>
+                                            <ReviewerSelect
+                                                reviewerId={selectedTask.reviewer_id}
+                                                creatorName={team.find(m => m.user_id === selectedTask.creator_id)?.name || '—'}
+                                                team={team}
+                                                assigneeIds={getAssigneeIds(selectedTask)}
+                                                canEdit={getTransitionRoles(selectedTask, user?.id || null, team, isOwner)
+                                                    .some(role => role === 'creator' || role === 'manager' || role === 'owner')}
+                                                onChange={(reviewerId) => handleReviewerChange(selectedTask, reviewerId)}
+                                            />
+                                        </div>
+
+                                        <div className="task-modal-field">
+                                            <span className="task-modal-label">{t('dashboard.calendar.taskDetails.deadline')}</span>
+                                            <span className="task-modal-value">
+                                                📅 {selectedTask.deadline
+                                                    ? new Date(selectedTask.deadline).toLocaleString([], {
+                                                        year: 'numeric',
+                                                        month: 'long',
+                                                        day: 'numeric',
+                                                        hour: '2-digit',
+                                                        minute: '2-digit'
+                                                    })
+                                                    : '—'}
+                                            </span>
+                                        </div>
+
+                                        <div className="task-modal-field task-modal-full">
+                                            <span className="task-modal-label">{t('dashboard.labels.title')}</span>
+                                            <TaskLabelPicker
+                                                labelIds={selectedTask.label_ids}
+                                                labels={labels}
+                                                canEdit={!!isManager || selectedTask.creator_id === user?.id || isTaskAssignee(selectedTask, user?.id || null)}
+                                                onChange={(labelIds) => handleLabelsChange(selectedTask, labelIds)}
+                                            />
+                                        </div>
+
+                                        {customFields.length > 0 && (
+                                            <div className="task-modal-field task-modal-full">
+                                                <CustomFieldsEditor
+                                                    fields={customFields}
+                                                    values={selectedTask.custom_values || {}}
+                                                    team={team}
+                                                    canEdit={!!isManager || selectedTask.creator_id === user?.id || isTaskAssignee(selectedTask, user?.id || null)}
+                                                    commitOnBlur
+                                                    onChange={(values) => handleCustomValuesChange(selectedTask, values)}
+                                                />
+                                            </div>
+                                        )}
+
+                                        <div className="task-modal-field task-modal-full">
+                                            <span className="task-modal-label">{t('dashboard.links.title')}</span>
+                                            <TaskLinksEditor
+                                                key={selectedTask.id}
+                                                links={selectedTask.links}
+                                                canEdit={!!isManager || selectedTask.creator_id === user?.id || isTaskAssignee(selectedTask, user?.id || null)}
+                                                onChange={(links) => handleLinksChange(selectedTask, links)}
+                                            />
+                                        </div>
 
-                                            <div className="kanban-card-footer">
-                                                {(task.status === 'new' && (task.assignee_id === user?.id || (!task.assignee_id && task.assignee === currentMember?.name)) ||
-                                                    task.status === 'progress' && (task.assignee_id === user?.id || (!task.assignee_id && task.assignee === currentMember?.name)) ||
-                                                    task.status === 'review' && task.creator_id === user?.id) && (
-                                                        <div className="kanban-card-actions">
-                                                            {task.status === 'new' && (task.assignee_id === user?.id || (!task.assignee_id && task.assignee === currentMember?.name)) && (
-                                                                <button
-                                                                    className="btn btn-sm btn-primary"
-                                                                    onClick={(e) => { e.stopPropagation(); handleTransition(task, 'progress'); }}
-                                                                >
-                                                                    🚀 {t('dashboard.kanban.actions.start')}
-                                                                </button>
-                                                            )}
-                                                            {task.status === 'progress' && (task.assignee_id === user?.id || (!task.assignee_id && task.assignee === currentMember?.name)) && (
-                                                                <button
-                                                                    className="btn btn-sm btn-primary"
-                                                                    onClick={(e) => { e.stopPropagation(); handleTransition(task, 'review'); }}
-                                                                >
-                                                                    📤 {t('dashboard.kanban.actions.complete')}
-                                                                </button>
-                                                            )}
-                                                            {task.status === 'review' && task.creator_id === user?.id && (
-                                                                <button
-                                                                    className="btn btn-sm btn-success"
-                                                                    onClick={(e) => { e.stopPropagation(); handleTransition(task, 'done'); }}
-                                                                >
-                                                                    ✅ {t('dashboard.kanban.actions.approve')}
-                                                                </button>
-                                                            )}
-                                                        </div>
+                                        {selectedTask.recurrence && (
+                                            <div className="task-modal-field task-modal-full">
+                                                <span className="task-modal-label">{t('dashboard.recurrence.repeat')}</span>
+                                                <div className="task-modal-recurrence">
+                                                    <span className="task-modal-value">🔁 {describeRecurrence(selectedTask.recurrence, t)}</span>
+                                                    {(isOwner || selectedTask.creator_id === user?.id) && (
+                                                        <button type="button" className="btn btn-outline btn-sm" onClick={() => handleStopRecurrence(selectedTask)}>
+                                                            {t('dashboard.recurrence.stop')}
+                                                        </button>
                                                     )}
-                                                <div className="kanban-card-meta">
-                                                    <span className="kanban-assignee">👤 {(task.assignee_id && team.find(m => m.user_id === task.assignee_id)?.name) || task.assignee}</span>
-                                                    <span className="kanban-date">
-                                                        {task.deadline ? (
-                                                            task.deadline.includes('T') && !task.deadline.endsWith('T00:00')
-                                                                ? new Date(task.deadline).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
-                                                                : new Date(task.deadline).toLocaleDateString([], { month: 'short', day: 'numeric' })
-                                                        ) : ''}
-                                                    </span>
                                                 </div>
                                             </div>
+                                        )}
+
+                                        {selectedTask.parent_id && (
+                                            <div className="task-modal-field task-modal-full">
+                                                <span className="task-modal-label">{t('dashboard.kanban.parentTask')}</span>
+                                                <button type="button" className="task-parent-link" onClick={() => openTask(selectedTask.parent_id)}>
+                                                    ↳ {tasks.find(p => p.id === selectedTask.parent_id)?.title || '—'}
+                                                </button>
+                                            </div>
+                                        )}
+                                    </div>
+
+                                    {(() => {
+                                        const progress = getTaskProgress(selectedTask, tasks, doneStatus);
+                                        return progress && (
+                                            <div className="task-progress task-modal-progress">
+                                                <div className="task-progress-track">
+                                                    <div className="task-progress-fill" style={{ width: `${progress.percent}%` }} />
+                                                </div>
+                                                <span className="task-progress-count">{progress.percent}%</span>
+                                            </div>
+                                        );
+                                    })()}
+
+                                    {transitionRequests.filter(r => r.task_id === selectedTask.id).map(request => (
+                                        <div key={request.id} className="task-approval">
+                                            <div className="task-approval-text">
+                                                ⏳ {t('dashboard.transitions.pending', {
+                                                    name: (team.find(m => m.user_id === request.requested_by)?.name) || request.requester_name || '—',
+                                                    from: getStatusLabel(workflow, request.from_status, t),
+                                                    to: getStatusLabel(workflow, request.to_status, t),
+                                                })}
+                                                {request.reason && <span className="task-history-reason">“{request.reason}”</span>}
+                                            </div>
+                                            {canDecideTransition(request, selectedTask, transitionContext) && (
+                                                <div className="kanban-form-actions">
+                                                    <button type="button" className="btn btn-outline btn-sm" onClick={() => handleDecision(request, false)}>
+                                                        {t('dashboard.transitions.reject')}
+                                                    </button>
+                                                    <button type="button" className="btn btn-success btn-sm" onClick={() => handleDecision(request, true)}>
+                                                        {t('dashboard.transitions.approve')}
+                                                    </button>
+                                                </div>
+                                            )}
                                         </div>
-                                    );
-                                })}
-                            </div>
+                                    ))}
+
+                                    <TaskBreakdown
+                                        task={selectedTask}
+                                        tasks={tasks}
+                                        team={team}
+                                        workflow={workflow}
+                                        assignees={isOwner ? team : eligibleAssignees}
+                                        canAddSubtasks={!!isManager || isTaskAssignee(selectedTask, user?.id || null)}
+                                        onOpenTask={openTask}
+                                        onCreateSubtask={(input) => handleCreateSubtask(selectedTask, input)}
+                                        onChecklistChange={handleChecklistChange}
+                                    />
+
+                                    <TaskDependencies
+                                        task={selectedTask}
+                                        tasks={tasks}
+                                        dependencies={dependencies}
+                                        team={team}
+                                        workflow={workflow}
+                                        canEdit={!!isManager || selectedTask.creator_id === user?.id || isTaskAssignee(selectedTask, user?.id || null)}
+                                        onOpenTask={openTask}
+                                        onDependenciesChange={setDependencies}
+                                    />
+                                </>
+                            )}
+
+                            {modalTab === 'time' && (
+                                <TaskTimeLog
+                                    key={selectedTask.id}
+                                    task={selectedTask}
+                                    userId={user?.id || null}
+                                    isOwner={isOwner}
+                                    canEditEstimate={!!isManager || selectedTask.creator_id === user?.id}
+                                    runningTimer={runningTimer}
+                                    onToggleTimer={handleToggleTimer}
+                                    onEstimateChange={handleEstimateChange}
+                                />
+                            )}
+
+                            {modalTab === 'files' && (
+                                <TaskAttachments key={selectedTask.id} task={selectedTask} currentUserId={user?.id || null} />
+                            )}
+
+                            {modalTab === 'comments' && (
+                                <TaskComments
+                                    task={selectedTask}
+                                    team={team}
+                                    currentUserId={user?.id || null}
+                                    onPosted={() => {
+                                        // Commenting subscribes the author (done by a trigger), mirror it locally
+                                        if (user && !getWatcherIds(selectedTask.id, watchers).includes(user.id)) {
+                                            setWatchers(prev => [...prev, { task_id: selectedTask.id, user_id: user.id, organization_id: selectedTask.organization_id, created_at: new Date().toISOString() }]);
+                                        }
+                                    }}
+                                />
+                            )}
+
+                            {modalTab === 'history' && (
+                                <TaskHistory taskId={selectedTask.id} team={team} workflow={workflow} customFields={customFields} />
+                            )}
                         </div>
-                    );
-                })}
-            </div>
 
-            {/* Task detail modal */}
-            {selectedTask && (
-                <div className="task-modal-overlay" onClick={() => setSelectedTask(null)}>
+                        <div className="task-modal-footer">
+                            <button className="btn btn-outline" onClick={() => setSelectedTaskId(null)}>
+                                {t('dashboard.calendar.taskDetails.close')}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {/* Workflow columns editor */}
+            {showWorkflowEditor && activeOrgId && (
+                <div className="task-modal-overlay" onClick={() => setShowWorkflowEditor(false)}>
                     <div className="task-modal glass-card animate-fade-in-up" onClick={e => e.stopPropagation()}>
                         <div className="task-modal-header">
-                            <h2>{selectedTask.title}</h2>
-                            <button className="kanban-delete" style={{ opacity: 1 }} onClick={() => setSelectedTask(null)}>✕</button>
+                            <h2>{t('dashboard.workflow.title')}</h2>
+                            <button className="kanban-delete" style={{ opacity: 1 }} onClick={() => setShowWorkflowEditor(false)}>✕</button>
+                        </div>
+                        <div className="task-modal-tabs">
+                            {(['columns', 'transitions', 'labels', 'fields'] as const).map(tab => (
+                                <button
+                                    key={tab}
+                                    className={`task-modal-tab ${settingsTab === tab ? 'active' : ''}`}
+                                    onClick={() => setSettingsTab(tab)}
+                                >
+                                    {t(`dashboard.workflow.tabs.${tab}`)}
+                                </button>
+                            ))}
                         </div>
-
                         <div className="task-modal-body">
-                            {selectedTask.description && (
-                                <div className="task-modal-field">
-                                    <span className="task-modal-label">{t('dashboard.kanban.taskDesc')}</span>
-                                    <div
-                                        className="task-modal-description"
-                                        dangerouslySetInnerHTML={{ __html: selectedTask.description || '' }}
-                                    />
-                                </div>
+                            {settingsTab === 'columns' ? (
+                                <WorkflowEditor
+                                    organizationId={activeOrgId}
+                                    workflow={workflow}
+                                    taskCounts={tasks.reduce<Record<string, number>>((acc, task) => {
+                                        acc[task.status] = (acc[task.status] || 0) + 1;
+                                        return acc;
+                                    }, {})}
+                                    onSaved={() => {
+                                        setShowWorkflowEditor(false);
+                                        loadData();
+                                    }}
+                                    onClose={() => setShowWorkflowEditor(false)}
+                                />
+                            ) : settingsTab === 'fields' ? (
+                                <CustomFieldManager
+                                    organizationId={activeOrgId}
+                                    fields={customFields}
+                                    onChange={setCustomFields}
+                                />
+                            ) : settingsTab === 'labels' ? (
+                                <LabelManager
+                                    organizationId={activeOrgId}
+                                    labels={labels}
+                                    usage={tasks.reduce<Record<string, number>>((acc, task) => {
+                                        task.label_ids.forEach(id => { acc[id] = (acc[id] || 0) + 1; });
+                                        return acc;
+                                    }, {})}
+                                    onChange={(next) => {
+                                        setLabels(next);
+                                        // A deleted label disappears from every task
+                                        setTasks(prev => prev.map(task => ({
+                                            ...task,
+                                            label_ids: task.label_ids.filter(id => next.some(l => l.id === id)),
+                                        })));
+                                    }}
+                                />
+                            ) : (
+                                <TransitionRulesEditor
+                                    organizationId={activeOrgId}
+                                    workflow={workflow}
+                                    rules={transitionContext.rules}
+                                    onSaved={(rules) => {
+                                        setTransitionRules(rules);
+                                        setShowWorkflowEditor(false);
+                                    }}
+                                    onClose={() => setShowWorkflowEditor(false)}
+                                />
                             )}
-
-                            <div className="task-modal-grid">
-                                <div className="task-modal-field">
-                                    <span className="task-modal-label">{t('dashboard.calendar.taskDetails.status')}</span>
-                                    <span className={`task-status-badge status-${selectedTask.status}`}>
-                                        {t(`dashboard.status.${selectedTask.status}`)}
-                                    </span>
-                                </div>
-
-                                <div className="task-modal-field">
-                                    <span className="task-modal-label">{t('dashboard.calendar.taskDetails.priority')}</span>
-                                    <span className={`task-priority-badge priority-${selectedTask.priority}`}>
-                                        {t(`dashboard.priority.${selectedTask.priority}`)}
-                                    </span>
-                                </div>
-
-                                <div className="task-modal-field">
-                                    <span className="task-modal-label">{t('dashboard.calendar.taskDetails.assignee')}</span>
-                                    <span className="task-modal-value">👤 {(selectedTask.assignee_id && team.find(m => m.user_id === selectedTask.assignee_id)?.name) || selectedTask.assignee || '—'}</span>
-                                </div>
-
-                                <div className="task-modal-field">
-                                    <span className="task-modal-label">{t('dashboard.calendar.taskDetails.deadline')}</span>
-                                    <span className="task-modal-value">
-                                        📅 {selectedTask.deadline
-                                            ? new Date(selectedTask.deadline).toLocaleString([], {
-                                                year: 'numeric',
-                                                month: 'long',
-                                                day: 'numeric',
-                                                hour: '2-digit',
-                                                minute: '2-digit'
-                                            })
-                                            : '—'}
-                                    </span>
-                                </div>
-
-                                {selectedTask.link_url && (
-                                    <div className="task-modal-field task-modal-full">
-                                        <span className="task-modal-label">Link</span>
-                                        <a href={selectedTask.link_url} target="_blank" rel="noopener noreferrer" className={`link-badge ${getLinkInfo(selectedTask.link_url)?.isGoogleDoc ? 'link-badge-doc' : ''}`}>
-                                            {getLinkInfo(selectedTask.link_url)?.icon} {getLinkInfo(selectedTask.link_url)?.label}
-                                        </a>
-                                    </div>
-                                )}
-                            </div>
                         </div>
+                    </div>
+                </div>
+            )}
 
+            {/* Deleted tasks audit log */}
+            {showDeletedLog && activeOrgId && (
+                <div className="task-modal-overlay" onClick={() => setShowDeletedLog(false)}>
+                    <div className="task-modal glass-card animate-fade-in-up" onClick={e => e.stopPropagation()}>
+                        <div className="task-modal-header">
+                            <h2>{t('dashboard.history.deletedTasks')}</h2>
+                            <button className="kanban-delete" style={{ opacity: 1 }} onClick={() => setShowDeletedLog(false)}>✕</button>
+                        </div>
+                        <div className="task-modal-body">
+                            <DeletedTasksLog organizationId={activeOrgId} team={team} workflow={workflow} />
+                        </div>
                         <div className="task-modal-footer">
-                            <button className="btn btn-outline" onClick={() => setSelectedTask(null)}>
+                            <button className="btn btn-outline" onClick={() => setShowDeletedLog(false)}>
                                 {t('dashboard.calendar.taskDetails.close')}
                             </button>
                         </div>
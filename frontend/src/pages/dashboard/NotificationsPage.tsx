@@ -0,0 +1,196 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { supabase } from '../../lib/supabase';
+import {
+    fetchNotificationPage, subscribeToNotifications, markAsRead, markAllAsRead, deleteNotification,
+    NOTIFICATION_TYPES, type DbNotification, type NotificationType
+} from '../../lib/notificationService';
+
+const PAGE_SIZE = 20;
+const TABS = ['all', 'unread', 'read'] as const;
+
+type NotificationTab = typeof TABS[number];
+
+export default function NotificationsPage() {
+    const { t } = useTranslation();
+    const navigate = useNavigate();
+
+    const [tab, setTab] = useState<NotificationTab>('all');
+    const [typeFilter, setTypeFilter] = useState<NotificationType | ''>('');
+    const [page, setPage] = useState(0);
+    const [notifications, setNotifications] = useState<DbNotification[]>([]);
+    const [total, setTotal] = useState(0);
+    const [loading, setLoading] = useState(true);
+    const [userId, setUserId] = useState<string | null>(null);
+    const loadedIds = useRef(new Set<string>());
+
+    const loadPage = useCallback(async () => {
+        try {
+            const result = await fetchNotificationPage({
+                page,
+                pageSize: PAGE_SIZE,
+                type: typeFilter || null,
+                read: tab === 'all' ? null : tab === 'read',
+            });
+            // A deletion can leave the current page empty
+            if (result.notifications.length === 0 && page > 0) {
+                setPage(Math.max(0, Math.ceil(result.total / PAGE_SIZE) - 1));
+                return;
+            }
+            setNotifications(result.notifications);
+            setTotal(result.total);
+        } catch (err) {
+            console.error('Failed to load notifications:', err);
+        } finally {
+            setLoading(false);
+        }
+    }, [page, tab, typeFilter]);
+
+    useEffect(() => {
+        loadPage();
+    }, [loadPage]);
+
+    useEffect(() => {
+        loadedIds.current = new Set(notifications.map(n => n.id));
+    }, [notifications]);
+
+    useEffect(() => {
+        supabase.auth.getUser().then(({ data }) => setUserId(data.user?.id || null));
+    }, []);
+
+    // Filters and paging are server-side, so any change reloads the current page
+    const reload = useRef(loadPage);
+    useEffect(() => {
+        reload.current = loadPage;
+    });
+
+    useEffect(() => {
+        if (!userId) return;
+        return subscribeToNotifications(userId, change => {
+            if (change.eventType === 'DELETE' && !(change.old.id && loadedIds.current.has(change.old.id))) return;
+            reload.current();
+        }, 'page');
+    }, [userId]);
+
+    const changeTab = (next: NotificationTab) => {
+        setTab(next);
+        setPage(0);
+    };
+
+    const changeType = (next: NotificationType | '') => {
+        setTypeFilter(next);
+        setPage(0);
+    };
+
+    const handleOpen = async (notification: DbNotification) => {
+        if (!notification.read) {
+            try {
+                await markAsRead(notification.id);
+            } catch (err) {
+                console.error('Failed to mark as read:', err);
+            }
+        }
+        if (notification.link_url) {
+            navigate(notification.link_url);
+        } else {
+            loadPage();
+        }
+    };
+
+    const handleMarkRead = async (id: string, e: React.MouseEvent) => {
+        e.stopPropagation();
+        try {
+            await markAsRead(id);
+            loadPage();
+        } catch (err) {
+            console.error('Failed to mark as read:', err);
+        }
+    };
+
+    const handleDelete = async (id: string, e: React.MouseEvent) => {
+        e.stopPropagation();
+        try {
+            await deleteNotification(id);
+            loadPage();
+        } catch (err) {
+            console.error('Failed to delete notification:', err);
+        }
+    };
+
+    const handleMarkAllRead = async () => {
+        try {
+            await markAllAsRead();
+            loadPage();
+        } catch (err) {
+            console.error('Failed to mark all as read:', err);
+        }
+    };
+
+    const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+    return (
+        <div className="notifications-page">
+            <div className="page-header">
+                <div>
+                    <h1>{t('dashboard.notifications.title')}</h1>
+                    <p>{t('dashboard.notifications.subtitle')}</p>
+                </div>
+                <div className="kanban-header-actions">
+                    <select value={typeFilter} onChange={e => changeType(e.target.value as NotificationType | '')} className="kanban-select">
+                        <option value="">{t('dashboard.notifications.allTypes')}</option>
+                        {NOTIFICATION_TYPES.map(type => (
+                            <option key={type} value={type}>{t(`dashboard.notifications.types.${type}`)}</option>
+                        ))}
+                    </select>
+                    <button className="btn btn-outline" onClick={handleMarkAllRead}>
+                        {t('dashboard.notifications.markAllRead')}
+                    </button>
+                </div>
+            </div>
+
+            <div className="glass-card notifications-card">
+                <div className="task-modal-tabs notifications-tabs">
+                    {TABS.map(key => (
+                        <button key={key} className={`task-modal-tab ${tab === key ? 'active' : ''}`} onClick={() => changeTab(key)}>
+                            {t(`dashboard.notifications.tabs.${key}`)}
+                        </button>
+                    ))}
+                </div>
+
+                {loading ? (
+                    <div className="kanban-loading">{t('auth.loading')}</div>
+                ) : notifications.length === 0 ? (
+                    <p className="notif-empty">{t('dashboard.notifications.empty')}</p>
+                ) : (
+                    <div className="notifications-page-list">
+                        {notifications.map(n => (
+                            <div key={n.id} className={`notif-item ${n.read ? 'read' : 'unread'} ${n.link_url ? 'has-link' : ''}`} onClick={() => handleOpen(n)}>
+                                <div className="notif-content">
+                                    <span className="notif-type">{t(`dashboard.notifications.types.${n.type}`)}</span>
+                                    <strong>{n.title}</strong>
+                                    <p>{n.message}</p>
+                                    <span className="notif-time">{new Date(n.created_at).toLocaleString([], { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}</span>
+                                </div>
+                                <div className="notif-actions">
+                                    {!n.read && (
+                                        <button className="notif-mark-read" onClick={(e) => handleMarkRead(n.id, e)} title={t('dashboard.notifications.markRead')}>✓</button>
+                                    )}
+                                    <button className="notif-delete" onClick={(e) => handleDelete(n.id, e)}>✕</button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                {total > PAGE_SIZE && (
+                    <div className="notifications-pagination">
+                        <button className="calendar-nav-btn" onClick={() => setPage(page - 1)} disabled={page === 0}>◀</button>
+                        <span>{t('dashboard.notifications.page', { page: page + 1, total: pageCount })}</span>
+                        <button className="calendar-nav-btn" onClick={() => setPage(page + 1)} disabled={page >= pageCount - 1}>▶</button>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
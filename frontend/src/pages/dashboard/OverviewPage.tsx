@@ -1,11 +1,15 @@
 import { useState, useEffect, useRef } from 'react';
 import { useTranslation } from 'react-i18next';
-import { fetchTasks, type DbTask } from '../../lib/taskService';
+import { fetchTasks, getAssigneeIds, formatAssignees, type DbTask } from '../../lib/taskService';
 import { fetchTeam, ensureOwnerMember, type DbTeamMember } from '../../lib/teamService';
 import { fetchTodayAnnouncements, createAnnouncement, deleteAnnouncement, type DbAnnouncement } from '../../lib/announcementService';
 import { getInitials } from '../../lib/utils';
 import { supabase } from '../../lib/supabase';
-import { getVisibleAssigneeNames, getVisibleUserIds } from '../../lib/hierarchy';
+import { getVisibleUserIds } from '../../lib/hierarchy';
+import { useOrgRealtime, mergeRealtimeChange } from '../../lib/realtime';
+import { fetchWorkflow, getDoneStatus, getInitialStatus, type DbWorkflowColumn } from '../../lib/workflowService';
+import { getLinkInfo } from '../../lib/links';
+import { StatusBadge } from '../../components/StatusBadge';
 
 import { useOrg } from '../../lib/OrgContext';
 
@@ -17,6 +21,7 @@ export default function OverviewPage() {
 
     const [team, setTeam] = useState<DbTeamMember[]>([]);
     const [tasks, setTasks] = useState<DbTask[]>([]);
+    const [workflow, setWorkflow] = useState<DbWorkflowColumn[]>([]);
     const [announcements, setAnnouncements] = useState<DbAnnouncement[]>([]);
     const [newMsg, setNewMsg] = useState('');
     // Removed local organization state
@@ -42,7 +47,8 @@ export default function OverviewPage() {
                 fetchTasks(activeOrgId),
                 fetchTeam(activeOrgId),
                 fetchTodayAnnouncements(activeOrgId),
-                supabase.auth.getUser()
+                supabase.auth.getUser(),
+                fetchWorkflow(activeOrgId)
             ]);
 
             if (results[0].status === 'fulfilled') setTasks(results[0].value);
@@ -56,6 +62,9 @@ export default function OverviewPage() {
 
             if (results[3].status === 'fulfilled') setUser(results[3].value.data.user);
 
+            if (results[4].status === 'fulfilled') setWorkflow(results[4].value);
+            else console.error('Error fetching workflow:', results[4].reason);
+
         } catch (err) {
             console.error('Unexpected error in loadData:', err);
         } finally {
@@ -148,6 +157,22 @@ export default function OverviewPage() {
         }
     };
 
+    // Keep tasks and today's announcements in sync with other members
+    useOrgRealtime(activeOrgId, ['tasks', 'announcements'], (table, change) => {
+        if (table === 'tasks') {
+            setTasks(prev => mergeRealtimeChange(prev, change, row => ({ ...row, checklist: [], label_ids: [] })));
+            return;
+        }
+        const startOfToday = new Date();
+        startOfToday.setHours(0, 0, 0, 0);
+        setAnnouncements(prev => mergeRealtimeChange(
+            prev,
+            change,
+            row => new Date(row.created_at) >= startOfToday ? row : null,
+            (a, b) => b.created_at.localeCompare(a.created_at)
+        ));
+    });
+
     useEffect(() => {
         loadData();
         fetchWeather();
@@ -179,23 +204,24 @@ export default function OverviewPage() {
 
     // Visibility logic
     const visibleTeam = team;
-    const visibleAssigneeNames = user ? getVisibleAssigneeNames(team, user.id) : [];
     const visibleUserIds = user ? getVisibleUserIds(team, user.id) : [];
 
     const visibleTasks = tasks.filter(t =>
         isOwner ||
-        (t.assignee_id === user?.id) ||
-        (t.assignee_id
-            ? visibleUserIds.includes(t.assignee_id)
-            : visibleAssigneeNames.includes(t.assignee))
+        t.reviewer_id === user?.id ||
+        getAssigneeIds(t).some(id => id === user?.id || visibleUserIds.includes(id))
     );
 
+    const doneStatus = getDoneStatus(workflow);
+    const initialStatus = getInitialStatus(workflow);
+
     const stats = {
         total: visibleTasks.length,
-        done: visibleTasks.filter(t => t.status === 'done').length,
-        progress: visibleTasks.filter(t => t.status === 'progress').length,
+        done: visibleTasks.filter(t => t.status === doneStatus).length,
+        // Everything that has left the first column but is not finished yet
+        progress: visibleTasks.filter(t => t.status !== initialStatus && t.status !== doneStatus).length,
         overdue: visibleTasks.filter(t => {
-            if (!t.deadline || t.status === 'done') return false;
+            if (!t.deadline || t.status === doneStatus) return false;
             const deadline = new Date(t.deadline);
             const now = new Date();
             return deadline < now;
@@ -205,20 +231,6 @@ export default function OverviewPage() {
 
     const recentTasks = visibleTasks.slice(0, 5);
 
-    const getLinkInfo = (url: string | null | undefined) => {
-        if (!url) return null;
-        try {
-            const isGoogleDoc = url.includes('docs.google.com') || url.includes('drive.google.com');
-            return {
-                isGoogleDoc,
-                icon: isGoogleDoc ? '📄' : '🔗',
-                label: isGoogleDoc ? 'Google Doc' : 'Link'
-            };
-        } catch {
-            return { isGoogleDoc: false, icon: '🔗', label: 'Link' };
-        }
-    };
-
     const getWeatherIcon = (code: number) => {
         if (code === 0) return '☀️'; // Clear sky
         if (code <= 3) return '🌤️'; // Partly cloudy
@@ -338,34 +350,29 @@ export default function OverviewPage() {
                             <p style={{ color: 'var(--color-text-muted)', fontSize: 'var(--font-size-sm)' }}>{t('auth.loading')}</p>
                         ) : recentTasks.length === 0 ? (
                             <p style={{ color: 'var(--color-text-muted)', fontSize: 'var(--font-size-sm)' }}>—</p>
-                        ) : recentTasks.map(task => {
-                            const linkInfo = getLinkInfo(task.link_url);
-                            return (
-                                <div key={task.id} className="recent-task-item">
-                                    <div className={`task-priority-dot priority-${task.priority}`} />
-                                    <div className="recent-task-info">
-                                        <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
-                                            <span className="recent-task-title">{task.title}</span>
-                                            {task.link_url && (
-                                                <span title={linkInfo?.label} style={{ fontSize: '0.8rem', opacity: 0.7 }}>
-                                                    {linkInfo?.icon}
-                                                </span>
-                                            )}
-                                        </div>
-                                        <span className="recent-task-meta">
-                                            {team.find(m => m.user_id === task.assignee_id)?.name || task.assignee} · {task.deadline ? (
-                                                task.deadline.includes('T') && !task.deadline.endsWith('T00:00')
-                                                    ? new Date(task.deadline).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
-                                                    : new Date(task.deadline).toLocaleDateString([], { month: 'short', day: 'numeric' })
-                                            ) : ''}
-                                        </span>
+                        ) : recentTasks.map(task => (
+                            <div key={task.id} className="recent-task-item">
+                                <div className={`task-priority-dot priority-${task.priority}`} />
+                                <div className="recent-task-info">
+                                    <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                                        <span className="recent-task-title">{task.title}</span>
+                                        {task.links.map(link => (
+                                            <span key={link.id} title={getLinkInfo(link).label} style={{ fontSize: '0.8rem', opacity: 0.7 }}>
+                                                {getLinkInfo(link).icon}
+                                            </span>
+                                        ))}
                                     </div>
-                                    <span className={`task-status-badge status-${task.status}`}>
-                                        {t(`dashboard.status.${task.status}`)}
+                                    <span className="recent-task-meta">
+                                        {formatAssignees(task, team)} · {task.deadline ? (
+                                            task.deadline.includes('T') && !task.deadline.endsWith('T00:00')
+                                                ? new Date(task.deadline).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+                                                : new Date(task.deadline).toLocaleDateString([], { month: 'short', day: 'numeric' })
+                                        ) : ''}
                                     </span>
                                 </div>
-                            );
-                        })}
+                                <StatusBadge status={task.status} workflow={workflow} />
+                            </div>
+                        ))}
                     </div>
                 </div>
 
@@ -5,6 +5,8 @@ import { useOrg } from '../../lib/OrgContext';
 import { supabase } from '../../lib/supabase';
 import type { DbProfile } from '../../lib/profileService';
 import { getInitials } from '../../lib/utils';
+import { NotificationPreferencesForm } from '../../components/NotificationPreferences';
+import { TelegramLinkCard } from '../../components/TelegramLink';
 
 export default function ProfilePage() {
     const { t } = useTranslation();
@@ -200,7 +202,9 @@ export default function ProfilePage() {
                 </div>
             </form>
 
+            <TelegramLinkCard />
 
+            {profile?.id && <NotificationPreferencesForm userId={profile.id} />}
 
             {/* Change Password Section */}
             <div className="glass-card profile-form" style={{ marginTop: '2rem' }}>
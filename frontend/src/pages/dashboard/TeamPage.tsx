@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useTranslation } from 'react-i18next';
+import { useSearchParams } from 'react-router-dom';
 import { useOrg } from '../../lib/OrgContext';
 import { CustomSelect } from '../../components/CustomSelect';
 import { supabase } from '../../lib/supabase';
@@ -202,6 +203,8 @@ export default function TeamPage() {
 
     // Join Requests (Admin view)
     const [joinRequests, setJoinRequests] = useState<DbJoinRequest[]>([]);
+    const [highlightedRequestId, setHighlightedRequestId] = useState<string | null>(null);
+    const [searchParams, setSearchParams] = useSearchParams();
 
     // Create org form
     const [orgName, setOrgName] = useState('');
@@ -225,6 +228,18 @@ export default function TeamPage() {
     // Profile detail modal
     const [selectedMember, setSelectedMember] = useState<TeamMember | null>(null);
 
+    // Highlight a join request referenced from a notification link (?request=<id>)
+    useEffect(() => {
+        const requestParam = searchParams.get('request');
+        if (requestParam && joinRequests.some(r => r.id === requestParam)) {
+            setHighlightedRequestId(requestParam);
+            document.getElementById(`join-request-${requestParam}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+            const next = new URLSearchParams(searchParams);
+            next.delete('request');
+            setSearchParams(next, { replace: true });
+        }
+    }, [searchParams, joinRequests, setSearchParams]);
+
     useEffect(() => {
         if (editingMember) {
             setEditName(editingMember.name || '');
@@ -800,7 +815,12 @@ export default function TeamPage() {
                     </div>
                     <div>
                         {joinRequests.map(req => (
-                            <div key={req.id} style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', padding: '1rem', borderBottom: '1px solid rgba(255,255,255,0.05)' }}>
+                            <div
+                                key={req.id}
+                                id={`join-request-${req.id}`}
+                                className={req.id === highlightedRequestId ? 'join-request-highlighted' : ''}
+                                style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', padding: '1rem', borderBottom: '1px solid rgba(255,255,255,0.05)' }}
+                            >
                                 <div>
                                     <div style={{ fontWeight: 600 }}>{req.user_name || req.user_email || 'Unknown User'}</div>
                                     <div style={{ fontSize: '0.85rem', color: 'var(--color-text-muted)' }}>{req.user_email}</div>
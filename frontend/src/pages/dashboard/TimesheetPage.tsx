@@ -0,0 +1,179 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { fetchTasks } from '../../lib/taskService';
+import { fetchTeam } from '../../lib/teamService';
+import { supabase } from '../../lib/supabase';
+import { getVisibleUserIds } from '../../lib/hierarchy';
+import {
+    fetchTimeEntries, buildTimesheet, timesheetToCsv, formatDuration, getWeekStart, addDays, toDateKey,
+    type DbTimeEntry
+} from '../../lib/timeService';
+import type { DbTask } from '../../lib/taskService';
+import type { DbTeamMember } from '../../lib/teamService';
+import { useOrg } from '../../lib/OrgContext';
+
+const DAY_KEYS = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+
+export default function TimesheetPage() {
+    const { t } = useTranslation();
+    const { activeOrgId, userOrgs } = useOrg();
+
+    const currentOrg = userOrgs.find(o => o.id === activeOrgId);
+    const isOwner = currentOrg?.role === 'owner';
+
+    const [weekStart, setWeekStart] = useState(() => getWeekStart(new Date()));
+    const [team, setTeam] = useState<DbTeamMember[]>([]);
+    const [tasks, setTasks] = useState<DbTask[]>([]);
+    const [entries, setEntries] = useState<DbTimeEntry[]>([]);
+    const [userId, setUserId] = useState<string | null>(null);
+    const [memberFilter, setMemberFilter] = useState<string | null>(null); // user_id, '' for everyone visible
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        const loadData = async () => {
+            if (!activeOrgId) {
+                setLoading(false);
+                return;
+            }
+
+            try {
+                const { data: { user } } = await supabase.auth.getUser();
+                setUserId(user?.id || null);
+
+                const [tasksData, teamData, entriesData] = await Promise.all([
+                    fetchTasks(activeOrgId),
+                    fetchTeam(activeOrgId),
+                    fetchTimeEntries(activeOrgId, { from: weekStart, to: addDays(weekStart, 7) })
+                ]);
+                setTasks(tasksData);
+                setTeam(teamData);
+                setEntries(entriesData);
+            } catch (err) {
+                console.error('Failed to load timesheet:', err);
+            } finally {
+                setLoading(false);
+            }
+        };
+        loadData();
+    }, [activeOrgId, weekStart]);
+
+    // Members see their own time, managers also their reports, owners everyone
+    const visibleIds = isOwner ? team.map(m => m.user_id) : userId ? getVisibleUserIds(team, userId) : [];
+    const members = team.filter(m => m.user_id && visibleIds.includes(m.user_id));
+    const selected = memberFilter ?? userId ?? '';
+    const sheetEntries = entries.filter(e =>
+        selected ? e.user_id === selected : e.user_id === userId || visibleIds.includes(e.user_id)
+    );
+    const sheet = buildTimesheet(sheetEntries, tasks, weekStart);
+
+    const handleExport = () => {
+        const csv = timesheetToCsv(sheet, {
+            member: t('dashboard.timesheet.member'),
+            task: t('dashboard.timesheet.task'),
+            total: t('dashboard.timesheet.total'),
+        });
+        // BOM so spreadsheet apps pick up UTF-8 names
+        const blob = new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        const memberName = selected ? members.find(m => m.user_id === selected)?.name || 'me' : 'team';
+        link.href = url;
+        link.download = `timesheet-${memberName.replace(/\s+/g, '_')}-${toDateKey(weekStart)}.csv`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const formatDay = (day: number) =>
+        addDays(weekStart, day).toLocaleDateString([], { day: 'numeric', month: 'short' });
+
+    if (loading) {
+        return (
+            <div className="timesheet-page">
+                <div className="page-header">
+                    <h1>{t('dashboard.timesheet.title')}</h1>
+                    <p>{t('dashboard.timesheet.subtitle')}</p>
+                </div>
+                <div className="kanban-loading">{t('auth.loading')}</div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="timesheet-page">
+            <div className="page-header">
+                <div>
+                    <h1>{t('dashboard.timesheet.title')}</h1>
+                    <p>{t('dashboard.timesheet.subtitle')}</p>
+                </div>
+                <div className="kanban-header-actions">
+                    {members.length > 1 && (
+                        <select value={selected} onChange={e => setMemberFilter(e.target.value)} className="kanban-select">
+                            <option value="">{t('dashboard.timesheet.allMembers')}</option>
+                            {members.map(m => (
+                                <option key={m.id} value={m.user_id}>{m.name}</option>
+                            ))}
+                        </select>
+                    )}
+                    <button className="btn btn-outline" onClick={handleExport} disabled={sheet.rows.length === 0}>
+                        ⬇ {t('dashboard.timesheet.export')}
+                    </button>
+                </div>
+            </div>
+
+            <div className="glass-card timesheet-card">
+                <div className="calendar-header">
+                    <button className="calendar-nav-btn" onClick={() => setWeekStart(addDays(weekStart, -7))}>◀</button>
+                    <h2>
+                        {formatDay(0)} — {formatDay(6)}
+                    </h2>
+                    <button className="calendar-nav-btn" onClick={() => setWeekStart(addDays(weekStart, 7))}>▶</button>
+                </div>
+
+                {sheet.rows.length === 0 ? (
+                    <p className="task-comments-empty">{t('dashboard.timesheet.empty')}</p>
+                ) : (
+                    <div className="timesheet-table-wrapper">
+                        <table className="timesheet-table">
+                            <thead>
+                                <tr>
+                                    {!selected && <th>{t('dashboard.timesheet.member')}</th>}
+                                    <th>{t('dashboard.timesheet.task')}</th>
+                                    {DAY_KEYS.map((key, day) => (
+                                        <th key={key}>
+                                            {t(`dashboard.calendar.days.${key}`)}
+                                            <span className="timesheet-date">{formatDay(day)}</span>
+                                        </th>
+                                    ))}
+                                    <th>{t('dashboard.timesheet.total')}</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {sheet.rows.map(row => (
+                                    <tr key={row.key}>
+                                        {!selected && <td>{row.user_name}</td>}
+                                        <td className="timesheet-task">{row.task_title}</td>
+                                        {row.days.map((minutes, day) => (
+                                            <td key={day} className={minutes === 0 ? 'empty' : ''}>
+                                                {minutes > 0 ? formatDuration(minutes) : '—'}
+                                            </td>
+                                        ))}
+                                        <td className="timesheet-total">{formatDuration(row.total)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                            <tfoot>
+                                <tr>
+                                    <td colSpan={selected ? 1 : 2}>{t('dashboard.timesheet.total')}</td>
+                                    {sheet.dayTotals.map((minutes, day) => (
+                                        <td key={day}>{formatDuration(minutes)}</td>
+                                    ))}
+                                    <td className="timesheet-total">{formatDuration(sheet.total)}</td>
+                                </tr>
+                            </tfoot>
+                        </table>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,6 @@
+// Text that ends up in HTML: email bodies and comments written from Telegram
+export const escapeHtml = (value: string) => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
@@ -0,0 +1,45 @@
+// Server-side translations read from the same locale files as the web app.
+import { ru } from '../../../frontend/src/i18n/locales/ru.ts';
+import { en } from '../../../frontend/src/i18n/locales/en.ts';
+import { kg } from '../../../frontend/src/i18n/locales/kg.ts';
+
+export type Language = 'ru' | 'en' | 'kg';
+
+const LOCALES: Record<Language, unknown> = { ru, en, kg };
+
+// Same fallback as the web app
+const FALLBACK_LANGUAGE: Language = 'ru';
+
+/** Locales for Intl date formatting. */
+export const DATE_LOCALES: Record<Language, string> = { ru: 'ru-RU', en: 'en-GB', kg: 'ky-KG' };
+
+/**
+ * Maps a client language code (Telegram `language_code`, Accept-Language) to a supported language.
+ * Kyrgyz comes in as the ISO code `ky`.
+ */
+export function toLanguage(code: string | null | undefined): Language {
+    const base = (code || '').toLowerCase().split(/[-_]/)[0];
+    if (base === 'ky' || base === 'kg') return 'kg';
+    if (base === 'en') return 'en';
+    return FALLBACK_LANGUAGE;
+}
+
+const lookup = (language: Language, key: string): string | null => {
+    const value = key.split('.').reduce<unknown>(
+        (node, part) => node && typeof node === 'object' ? (node as Record<string, unknown>)[part] : undefined,
+        LOCALES[language]
+    );
+    return typeof value === 'string' ? value : null;
+};
+
+/** Looks up `key` with i18next-style `{{name}}` interpolation, falling back to Russian and then the key. */
+export function translate(language: Language, key: string, values: Record<string, string | number> = {}): string {
+    const template = lookup(language, key) ?? lookup(FALLBACK_LANGUAGE, key) ?? key;
+    return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name) => name in values ? String(values[name]) : '');
+}
+
+export type Translate = (key: string, values?: Record<string, string | number>) => string;
+
+export function getTranslator(language: Language): Translate {
+    return (key, values) => translate(language, key, values);
+}
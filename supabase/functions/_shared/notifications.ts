@@ -0,0 +1,72 @@
+// Notifications sent by the edge functions themselves. Channels and quiet hours are planned
+// like in the web app (frontend/src/lib/notificationDelivery.ts); rows are written with the service role.
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import {
+    createNotificationDispatcher, getDefaultPreferences,
+    type NotificationDispatcher, type NotificationTransport
+} from '../../../frontend/src/lib/notificationDelivery.ts';
+
+// How long a run holds an outbox row it is sending; rows of a run that died come back after this
+const OUTBOX_LEASE_MS = 10 * 60 * 1000;
+
+/**
+ * Takes a due outbox row for this run. The attempt counter only moves if no other run got there
+ * first, and delivery is pushed back so overlapping runs skip the row while it is being sent.
+ */
+export async function claimOutboxRow(db: SupabaseClient, row: { id: string; attempts: number }, now: Date): Promise<boolean> {
+    const { data, error } = await db
+        .from('notification_outbox')
+        .update({ attempts: row.attempts + 1, deliver_after: new Date(now.getTime() + OUTBOX_LEASE_MS).toISOString() })
+        .eq('id', row.id)
+        .eq('status', 'pending')
+        .eq('attempts', row.attempts)
+        .select('id');
+    if (error) throw error;
+    return !!data?.length;
+}
+
+export function createServiceDispatcher(db: SupabaseClient, now: () => Date = () => new Date()): NotificationDispatcher {
+    const inApp: NotificationTransport = {
+        channel: 'in_app',
+        async deliver(userId, notification) {
+            const { error } = await db.from('notifications').insert({
+                user_id: userId,
+                title: notification.title,
+                message: notification.message,
+                type: notification.type,
+                link_url: notification.link_url || null,
+                read: false,
+            });
+            if (error) throw error;
+        },
+    };
+
+    const outbox = (channel: 'email' | 'telegram'): NotificationTransport => ({
+        channel,
+        async deliver(userId, notification, delivery) {
+            const { error } = await db.from('notification_outbox').insert({
+                user_id: userId,
+                channel,
+                type: notification.type,
+                title: notification.title,
+                message: notification.message || '',
+                link_url: notification.link_url || null,
+                params: notification.params || null,
+                deliver_after: delivery.deliver_after || now().toISOString(),
+                digest: delivery.digest,
+                status: 'pending',
+            });
+            if (error) throw error;
+        },
+    });
+
+    return createNotificationDispatcher({
+        transports: [inApp, outbox('email'), outbox('telegram')],
+        loadPreferences: async (userId) => {
+            const { data, error } = await db.from('notification_preferences').select('*').eq('user_id', userId).maybeSingle();
+            if (error) throw error;
+            return data ? { ...getDefaultPreferences(userId), ...data, channels: data.channels || {} } : getDefaultPreferences(userId);
+        },
+        now,
+    });
+}
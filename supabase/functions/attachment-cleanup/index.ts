@@ -0,0 +1,59 @@
+// Attachment cleanup: removes files of deleted tasks from storage. The database queues their paths in
+// attachment_cleanup when attachment rows go with a deleted task or organization.
+//
+// Secrets: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY (set by Supabase).
+//
+// POST <function url>  every 10 minutes (see supabase_migration_task_attachments.sql), with the service role key
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const BUCKET = 'task-attachments';
+const BATCH = 100;
+
+const env = (name: string) => {
+    const value = Deno.env.get(name);
+    if (!value) throw new Error(`Missing environment variable ${name}`);
+    return value;
+};
+
+const serviceRoleKey = env('SUPABASE_SERVICE_ROLE_KEY');
+const db = createClient(env('SUPABASE_URL'), serviceRoleKey, { auth: { persistSession: false } });
+
+const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+async function cleanUp(): Promise<{ removed: number }> {
+    let removed = 0;
+    for (;;) {
+        const { data, error } = await db
+            .from('attachment_cleanup')
+            .select('file_path')
+            .order('created_at', { ascending: true })
+            .limit(BATCH);
+        if (error) throw error;
+        if (!data || data.length === 0) break;
+
+        // Storage skips paths that are already gone, so a retried batch is harmless
+        const paths = data.map(row => row.file_path);
+        const { error: storageError } = await db.storage.from(BUCKET).remove(paths);
+        if (storageError) throw storageError;
+
+        const { error: deleteError } = await db.from('attachment_cleanup').delete().in('file_path', paths);
+        if (deleteError) throw deleteError;
+
+        removed += paths.length;
+        if (paths.length < BATCH) break;
+    }
+    return { removed };
+}
+
+Deno.serve(async (request) => {
+    if (request.method !== 'POST') return json({ error: 'Method not allowed' }, 405);
+    if (request.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) return json({ error: 'Unauthorized' }, 401);
+
+    try {
+        return json(await cleanUp());
+    } catch (err) {
+        console.error('Attachment cleanup failed:', err);
+        return json({ error: String(err) }, 500);
+    }
+});
@@ -0,0 +1,155 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import type { NotificationParams } from '../../../frontend/src/lib/notificationDelivery.ts';
+
+export interface DigestTask {
+    id: string;
+    title: string;
+    status: string;
+    deadline: string | null;
+    organization_id: string;
+}
+
+export interface DigestAnnouncement {
+    id: string;
+    content: string;
+    author_name: string | null;
+    type: 'announcement' | 'birthday';
+}
+
+export interface DigestNotification {
+    id: string;
+    title: string;
+    message: string;
+    link_url: string | null;
+    params: NotificationParams | null;
+}
+
+export interface Digest {
+    dueToday: DigestTask[];
+    overdue: DigestTask[];
+    awaitingReview: DigestTask[];
+    announcements: DigestAnnouncement[];
+    notifications: DigestNotification[]; // emails held for the digest (notification_preferences.digest)
+}
+
+const TASK_FIELDS = 'id, title, status, deadline, organization_id';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** 'YYYY-MM-DD' of `date` in `timezone`. */
+export function getLocalDateKey(date: Date, timezone: string): string {
+    try {
+        return new Intl.DateTimeFormat('en-CA', { timeZone: timezone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+    } catch {
+        return date.toISOString().slice(0, 10);
+    }
+}
+
+export function getLocalHour(date: Date, timezone: string): number {
+    try {
+        return Number(new Intl.DateTimeFormat('en-GB', { timeZone: timezone, hour: '2-digit', hourCycle: 'h23' }).format(date));
+    } catch {
+        return date.getUTCHours();
+    }
+}
+
+export function isDigestEmpty(digest: Digest): boolean {
+    return Object.values(digest).every(items => items.length === 0);
+}
+
+interface StatusKeys {
+    done: string;
+    review: string | null;
+}
+
+// Same rules as getDoneStatus/getReviewStatus in frontend/src/lib/workflowService.ts
+async function loadStatusKeys(db: SupabaseClient, organizationIds: string[]): Promise<Map<string, StatusKeys>> {
+    const { data, error } = await db
+        .from('workflow_columns')
+        .select('organization_id, key, position, is_done, is_review')
+        .in('organization_id', organizationIds)
+        .order('position');
+    if (error) throw error;
+
+    const keys = new Map<string, StatusKeys>();
+    for (const organizationId of organizationIds) {
+        const columns = (data || []).filter(c => c.organization_id === organizationId);
+        if (columns.length === 0) {
+            keys.set(organizationId, { done: 'done', review: 'review' });
+            continue;
+        }
+        const done = columns.find(c => c.is_done) || columns[columns.length - 1];
+        keys.set(organizationId, { done: done.key, review: columns.find(c => c.is_review && !c.is_done)?.key || null });
+    }
+    return keys;
+}
+
+async function getOrganizationIds(db: SupabaseClient, userId: string): Promise<string[]> {
+    const [members, owned] = await Promise.all([
+        db.from('team_members').select('organization_id').eq('user_id', userId),
+        db.from('organizations').select('id').eq('owner_id', userId),
+    ]);
+    if (members.error) throw members.error;
+    if (owned.error) throw owned.error;
+    return [...new Set([...(members.data || []).map(m => m.organization_id), ...(owned.data || []).map(o => o.id)])];
+}
+
+/**
+ * Everything that goes into one user's digest, with "today" taken in the user's timezone.
+ */
+export async function collectDigest(db: SupabaseClient, userId: string, timezone: string, now: Date): Promise<Digest> {
+    const today = getLocalDateKey(now, timezone);
+    const organizationIds = await getOrganizationIds(db, userId);
+
+    const { data: held, error: heldError } = await db
+        .from('notification_outbox')
+        .select('id, title, message, link_url, params')
+        .eq('user_id', userId)
+        .eq('channel', 'email')
+        .eq('digest', true)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: true });
+    if (heldError) throw heldError;
+
+    if (organizationIds.length === 0) {
+        return { dueToday: [], overdue: [], awaitingReview: [], announcements: [], notifications: held || [] };
+    }
+
+    const [statusKeys, assigned, reviewing, announcements] = await Promise.all([
+        loadStatusKeys(db, organizationIds),
+        db.from('tasks')
+            .select(TASK_FIELDS)
+            .in('organization_id', organizationIds)
+            .or(`assignee_id.eq.${userId},assignee_ids.cs.{${userId}}`)
+            .not('deadline', 'is', null)
+            .lt('deadline', new Date(now.getTime() + 2 * DAY_MS).toISOString())
+            .order('deadline', { ascending: true }),
+        // The reviewer is the designated one, or the creator when nobody is set
+        db.from('tasks')
+            .select(TASK_FIELDS)
+            .in('organization_id', organizationIds)
+            .or(`reviewer_id.eq.${userId},and(reviewer_id.is.null,creator_id.eq.${userId})`),
+        // Same rows as fetchTodayAnnouncements, for every organization of the user
+        db.from('announcements')
+            .select('id, content, author_name, type, created_at')
+            .in('organization_id', organizationIds)
+            .gte('created_at', new Date(now.getTime() - DAY_MS).toISOString())
+            .order('created_at', { ascending: false }),
+    ]);
+    for (const result of [assigned, reviewing, announcements]) {
+        if (result.error) throw result.error;
+    }
+
+    const open = ((assigned.data || []) as DigestTask[]).filter(task => task.status !== statusKeys.get(task.organization_id)?.done);
+    const overdue = open.filter(task => new Date(task.deadline!) < now);
+
+    return {
+        overdue,
+        dueToday: open.filter(task => !overdue.includes(task) && getLocalDateKey(new Date(task.deadline!), timezone) === today),
+        awaitingReview: ((reviewing.data || []) as DigestTask[]).filter(task => {
+            const review = statusKeys.get(task.organization_id)?.review;
+            return review !== null && task.status === review;
+        }),
+        announcements: (announcements.data || []).filter(a => getLocalDateKey(new Date(a.created_at), timezone) === today),
+        notifications: held || [],
+    };
+}
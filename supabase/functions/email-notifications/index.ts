@@ -0,0 +1,45 @@
+// Email notifications: sends queued emails from notification_outbox and the daily digest.
+//
+// Secrets: APP_URL (e.g. https://taskedo.app), SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY (set by Supabase),
+// MAIL_ADAPTER=resend with RESEND_API_KEY and MAIL_FROM, or MAIL_ADAPTER=file with MAIL_DIR for local runs.
+//
+// POST <function url>?action=deliver         every minute
+// POST <function url>?action=digest          every hour (see supabase_migration_email_notifications.sql)
+// POST <function url>?action=digest&force=1  sends today's digests regardless of the hour
+// All calls need the service role key as the bearer token.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { createMailAdapterFromEnv } from './mailAdapter.ts';
+import { createEmailService } from './service.ts';
+
+const env = (name: string) => {
+    const value = Deno.env.get(name);
+    if (!value) throw new Error(`Missing environment variable ${name}`);
+    return value;
+};
+
+const serviceRoleKey = env('SUPABASE_SERVICE_ROLE_KEY');
+
+const service = createEmailService({
+    db: createClient(env('SUPABASE_URL'), serviceRoleKey, { auth: { persistSession: false } }),
+    mail: createMailAdapterFromEnv(),
+    appUrl: env('APP_URL').replace(/\/$/, ''),
+});
+
+const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+Deno.serve(async (request) => {
+    if (request.method !== 'POST') return json({ error: 'Method not allowed' }, 405);
+    if (request.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) return json({ error: 'Unauthorized' }, 401);
+
+    const url = new URL(request.url);
+    const action = url.searchParams.get('action');
+    try {
+        if (action === 'deliver') return json(await service.deliverOutbox());
+        if (action === 'digest') return json(await service.sendDigests(url.searchParams.get('force') === '1'));
+        return json({ error: `Unknown action "${action}"` }, 400);
+    } catch (err) {
+        console.error(`Email ${action} failed:`, err);
+        return json({ error: String(err) }, 500);
+    }
+});
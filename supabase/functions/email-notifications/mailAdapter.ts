@@ -0,0 +1,53 @@
+// Mail delivery is pluggable: Resend in production, files on disk for local runs.
+
+export interface MailMessage {
+    to: string;
+    subject: string;
+    text: string;
+    html: string;
+}
+
+export interface MailAdapter {
+    send(message: MailMessage): Promise<void>;
+}
+
+export function createResendAdapter(apiKey: string, from: string, fetchImpl: typeof fetch = fetch): MailAdapter {
+    return {
+        async send(message) {
+            const response = await fetchImpl('https://api.resend.com/emails', {
+                method: 'POST',
+                headers: { 'Authorization': `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+                body: JSON.stringify({ from, ...message, to: [message.to] }),
+            });
+            if (!response.ok) throw new Error(`Resend responded ${response.status}: ${await response.text()}`);
+        }
+    };
+}
+
+/**
+ * Writes every message to `directory` as a JSON file plus an HTML preview instead of sending it.
+ */
+export function createFileMailAdapter(directory: string): MailAdapter {
+    let counter = 0;
+    return {
+        async send(message) {
+            await Deno.mkdir(directory, { recursive: true });
+            const name = `${new Date().toISOString().replace(/[:.]/g, '-')}-${++counter}-${message.to.replace(/[^\w.@-]/g, '_')}`;
+            await Deno.writeTextFile(`${directory}/${name}.json`, JSON.stringify(message, null, 2));
+            await Deno.writeTextFile(`${directory}/${name}.html`, message.html);
+        }
+    };
+}
+
+/** MAIL_ADAPTER=file (MAIL_DIR, default ./mail-out) or resend (RESEND_API_KEY, MAIL_FROM). */
+export function createMailAdapterFromEnv(): MailAdapter {
+    const adapter = Deno.env.get('MAIL_ADAPTER') || 'resend';
+    if (adapter === 'file') return createFileMailAdapter(Deno.env.get('MAIL_DIR') || './mail-out');
+    if (adapter === 'resend') {
+        const apiKey = Deno.env.get('RESEND_API_KEY');
+        const from = Deno.env.get('MAIL_FROM');
+        if (!apiKey || !from) throw new Error('RESEND_API_KEY and MAIL_FROM are required for the resend mail adapter');
+        return createResendAdapter(apiKey, from);
+    }
+    throw new Error(`Unknown MAIL_ADAPTER "${adapter}"`);
+}
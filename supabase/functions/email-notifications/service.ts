@@ -0,0 +1,187 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { getTranslator, toLanguage } from '../_shared/i18n.ts';
+import { claimOutboxRow } from '../_shared/notifications.ts';
+import type { MailAdapter } from './mailAdapter.ts';
+import { collectDigest, getLocalDateKey, getLocalHour, isDigestEmpty } from './digest.ts';
+import { renderDigestEmail, renderNotificationEmail, type OutboxEmail, type TemplateContext } from './templates.ts';
+
+export interface EmailServiceDeps {
+    db: SupabaseClient; // service role
+    mail: MailAdapter;
+    appUrl: string;
+    now?: () => Date;
+}
+
+interface Recipient {
+    id: string;
+    email: string | null;
+    display_name: string | null;
+    timezone: string;
+    language: string | null;
+    daily_digest: boolean;
+    digest: boolean;
+}
+
+interface OutboxRow extends OutboxEmail {
+    id: string;
+    user_id: string;
+    attempts: number;
+}
+
+// Local hour at which the digest goes out; the function is called hourly
+const DIGEST_HOUR = 8;
+const MAX_ATTEMPTS = 3;
+const OUTBOX_BATCH = 50;
+const PROFILE_PAGE = 500;
+
+export function createEmailService({ db, mail, appUrl, now = () => new Date() }: EmailServiceDeps) {
+    // Users who never saved preferences get no digest; their emails are in Russian, in UTC
+    const loadRecipients = async (profiles: { id: string; email: string | null; display_name: string | null }[]): Promise<Recipient[]> => {
+        if (profiles.length === 0) return [];
+        const { data, error } = await db
+            .from('notification_preferences')
+            .select('user_id, timezone, language, daily_digest, digest')
+            .in('user_id', profiles.map(p => p.id));
+        if (error) throw error;
+
+        return profiles.map(profile => {
+            const preferences = data?.find(p => p.user_id === profile.id);
+            return {
+                ...profile,
+                timezone: preferences?.timezone || 'UTC',
+                language: preferences?.language || null,
+                daily_digest: preferences?.daily_digest ?? false,
+                digest: preferences?.digest ?? false,
+            };
+        });
+    };
+
+    const getContext = (recipient: Recipient): TemplateContext => {
+        const language = toLanguage(recipient.language);
+        return { t: getTranslator(language), language, timezone: recipient.timezone, appUrl };
+    };
+
+    const markOutbox = (ids: string[], updates: Record<string, unknown>) =>
+        db.from('notification_outbox').update(updates).in('id', ids);
+
+    return {
+        /**
+         * Sends due email rows from `notification_outbox`. Rows held for the digest are left to sendDigests.
+         */
+        async deliverOutbox(): Promise<{ sent: number; failed: number }> {
+            const { data, error } = await db
+                .from('notification_outbox')
+                .select('id, user_id, title, message, link_url, params, attempts')
+                .eq('channel', 'email')
+                .eq('status', 'pending')
+                .eq('digest', false)
+                .lte('deliver_after', now().toISOString())
+                .order('created_at', { ascending: true })
+                .limit(OUTBOX_BATCH);
+            if (error) throw error;
+
+            const rows = (data || []) as OutboxRow[];
+            if (rows.length === 0) return { sent: 0, failed: 0 };
+
+            const { data: profiles, error: profileError } = await db
+                .from('profiles')
+                .select('id, email, display_name')
+                .in('id', [...new Set(rows.map(r => r.user_id))]);
+            if (profileError) throw profileError;
+            const recipients = await loadRecipients(profiles || []);
+
+            let sent = 0;
+            let failed = 0;
+            for (const row of rows) {
+                // Another run that overlaps this one may already be sending it
+                if (!await claimOutboxRow(db, row, now())) continue;
+
+                const recipient = recipients.find(r => r.id === row.user_id);
+                if (!recipient?.email) {
+                    await markOutbox([row.id], { status: 'failed', last_error: 'No email address' });
+                    failed++;
+                    continue;
+                }
+                try {
+                    await mail.send(renderNotificationEmail(getContext(recipient), recipient.email, row));
+                    await markOutbox([row.id], { status: 'sent', sent_at: now().toISOString() });
+                    sent++;
+                } catch (err) {
+                    const attempts = row.attempts + 1;
+                    await markOutbox([row.id], {
+                        status: attempts >= MAX_ATTEMPTS ? 'failed' : 'pending',
+                        deliver_after: now().toISOString(), // retried by the next run
+                        last_error: String(err),
+                    });
+                    failed++;
+                }
+            }
+            return { sent, failed };
+        },
+
+        /**
+         * Sends the daily digest to users whose local time is DIGEST_HOUR (any hour with `force`),
+         * at most once per local day. Users with nothing to report get no email.
+         */
+        async sendDigests(force = false): Promise<{ sent: number; skipped: number }> {
+            const current = now();
+            let sent = 0;
+            let skipped = 0;
+
+            for (let from = 0; ; from += PROFILE_PAGE) {
+                const { data: profiles, error } = await db
+                    .from('profiles')
+                    .select('id, email, display_name')
+                    .not('email', 'is', null)
+                    .order('id')
+                    .range(from, from + PROFILE_PAGE - 1);
+                if (error) throw error;
+                if (!profiles || profiles.length === 0) break;
+
+                for (const recipient of await loadRecipients(profiles)) {
+                    // Held notifications still need a digest even when the agenda part is turned off
+                    if (!recipient.email || !(recipient.daily_digest || recipient.digest)) continue;
+                    if (!force && getLocalHour(current, recipient.timezone) !== DIGEST_HOUR) continue;
+
+                    // The log row is written first and claims the day, so an overlapping run skips the user
+                    const digestDate = getLocalDateKey(current, recipient.timezone);
+                    const { error: claimError } = await db.from('digest_log').insert({ user_id: recipient.id, digest_date: digestDate });
+                    if (claimError) continue;
+                    const release = () => db.from('digest_log').delete().eq('user_id', recipient.id).eq('digest_date', digestDate);
+
+                    let mailed = false;
+                    try {
+                        const digest = await collectDigest(db, recipient.id, recipient.timezone, current);
+                        if (!recipient.daily_digest) {
+                            digest.dueToday = [];
+                            digest.overdue = [];
+                            digest.awaitingReview = [];
+                            digest.announcements = [];
+                        }
+                        if (isDigestEmpty(digest)) {
+                            await release();
+                            skipped++;
+                            continue;
+                        }
+
+                        const name = recipient.display_name || recipient.email.split('@')[0];
+                        await mail.send(renderDigestEmail(getContext(recipient), recipient.email, name, digest, current));
+                        mailed = true;
+                        if (digest.notifications.length > 0) {
+                            await markOutbox(digest.notifications.map(n => n.id), { status: 'sent', sent_at: current.toISOString() });
+                        }
+                        sent++;
+                    } catch (err) {
+                        console.error(`Digest for ${recipient.id} failed:`, err);
+                        // Once the email is out the day stays claimed, even if marking the held rows failed
+                        if (!mailed) await release();
+                        skipped++;
+                    }
+                }
+
+                if (profiles.length < PROFILE_PAGE) break;
+            }
+            return { sent, skipped };
+        },
+    };
+}
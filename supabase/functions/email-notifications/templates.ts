@@ -0,0 +1,116 @@
+import { escapeHtml } from '../_shared/html.ts';
+import { DATE_LOCALES, type Language, type Translate } from '../_shared/i18n.ts';
+import { getNotificationText, type NotificationParams } from '../../../frontend/src/lib/notificationDelivery.ts';
+import type { MailMessage } from './mailAdapter.ts';
+import type { Digest, DigestTask } from './digest.ts';
+
+export interface TemplateContext {
+    t: Translate;
+    language: Language;
+    timezone: string;
+    appUrl: string;
+}
+
+export interface OutboxEmail {
+    title: string; // as the sender read it; `params` words it again in the recipient's language
+    message: string;
+    link_url: string | null;
+    params: NotificationParams | null;
+}
+
+const formatDate = (context: TemplateContext, value: string | Date, withTime = false) =>
+    new Intl.DateTimeFormat(DATE_LOCALES[context.language], {
+        timeZone: context.timezone,
+        day: 'numeric',
+        month: 'long',
+        ...(withTime ? { hour: '2-digit', minute: '2-digit' } : {}),
+    }).format(new Date(value));
+
+const layout = (context: TemplateContext, body: string) => `<!doctype html>
+<html lang="${context.language === 'kg' ? 'ky' : context.language}">
+<body style="margin:0;padding:24px;background:#0b1120;font-family:Arial,sans-serif;color:#e2e8f0;">
+<div style="max-width:560px;margin:0 auto;background:#111827;border:1px solid #1f2937;border-radius:12px;padding:24px;">
+${body}
+<p style="margin-top:32px;font-size:12px;color:#64748b;">
+${escapeHtml(context.t('dashboard.email.footer'))}
+<a href="${context.appUrl}/dashboard/profile" style="color:#818cf8;">${escapeHtml(context.t('dashboard.email.settings'))}</a>
+</p>
+</div>
+</body>
+</html>`;
+
+const button = (href: string, label: string) =>
+    `<a href="${href}" style="display:inline-block;margin-top:16px;padding:10px 18px;background:#6366f1;color:#fff;border-radius:8px;text-decoration:none;">${escapeHtml(label)}</a>`;
+
+const notificationText = (context: TemplateContext, notification: OutboxEmail) =>
+    getNotificationText(notification, context.t, date => formatDate(context, date, true));
+
+export function renderNotificationEmail(context: TemplateContext, to: string, notification: OutboxEmail): MailMessage {
+    const { t, appUrl } = context;
+    const link = notification.link_url ? `${appUrl}${notification.link_url}` : `${appUrl}/dashboard/notifications`;
+    const { title, message } = notificationText(context, notification);
+
+    return {
+        to,
+        subject: title,
+        text: [title, message, '', `${t('dashboard.email.open')}: ${link}`, '', t('dashboard.email.footer')].join('\n'),
+        html: layout(context, `
+<h2 style="margin:0 0 8px;font-size:18px;">${escapeHtml(title)}</h2>
+<p style="margin:0;color:#cbd5e1;">${escapeHtml(message)}</p>
+${button(link, t('dashboard.email.open'))}`),
+    };
+}
+
+export function renderDigestEmail(context: TemplateContext, to: string, name: string, digest: Digest, now: Date): MailMessage {
+    const { t, appUrl } = context;
+    const taskLink = (task: DigestTask) => `${appUrl}/dashboard/tasks?task=${task.id}`;
+    const taskLine = (task: DigestTask) => task.deadline
+        ? `${task.title} (${t('dashboard.email.digest.due', { date: formatDate(context, task.deadline, true) })})`
+        : task.title;
+
+    const sections: { title: string; items: { text: string; href?: string }[] }[] = [
+        { title: t('dashboard.email.digest.overdue'), items: digest.overdue.map(task => ({ text: taskLine(task), href: taskLink(task) })) },
+        { title: t('dashboard.email.digest.dueToday'), items: digest.dueToday.map(task => ({ text: taskLine(task), href: taskLink(task) })) },
+        { title: t('dashboard.email.digest.awaitingReview'), items: digest.awaitingReview.map(task => ({ text: task.title, href: taskLink(task) })) },
+        {
+            title: t('dashboard.email.digest.announcements'),
+            items: digest.announcements.map(a => ({
+                text: a.type === 'birthday' ? `🎂 ${a.content}` : a.author_name ? `${a.author_name}: ${a.content}` : a.content,
+            })),
+        },
+        {
+            title: t('dashboard.email.digest.notifications'),
+            items: digest.notifications.map(n => {
+                const { title, message } = notificationText(context, n);
+                return { text: message ? `${title} — ${message}` : title, href: n.link_url ? `${appUrl}${n.link_url}` : undefined };
+            }),
+        },
+    ].filter(section => section.items.length > 0);
+
+    const subject = t('dashboard.email.digest.subject', { date: formatDate(context, now) });
+    const greeting = t('dashboard.email.digest.greeting', { name });
+
+    const text = [
+        greeting,
+        t('dashboard.email.digest.intro'),
+        ...sections.flatMap(section => ['', section.title, ...section.items.map(item => `• ${item.text}${item.href ? ` — ${item.href}` : ''}`)]),
+        '',
+        `${t('dashboard.email.open')}: ${appUrl}/dashboard`,
+        '',
+        t('dashboard.email.footer'),
+    ].join('\n');
+
+    const html = layout(context, `
+<h2 style="margin:0 0 8px;font-size:18px;">${escapeHtml(greeting)}</h2>
+<p style="margin:0;color:#cbd5e1;">${escapeHtml(t('dashboard.email.digest.intro'))}</p>
+${sections.map(section => `
+<h3 style="margin:24px 0 8px;font-size:15px;color:#a5b4fc;">${escapeHtml(section.title)}</h3>
+<ul style="margin:0;padding-left:20px;">
+${section.items.map(item => `<li style="margin-bottom:6px;">${item.href
+        ? `<a href="${item.href}" style="color:#e2e8f0;">${escapeHtml(item.text)}</a>`
+        : escapeHtml(item.text)}</li>`).join('\n')}
+</ul>`).join('')}
+${button(`${appUrl}/dashboard`, t('dashboard.email.open'))}`);
+
+    return { to, subject, text, html };
+}
@@ -0,0 +1,361 @@
+// deno test supabase/functions/telegram-bot
+// The bot runs against an in-memory stand-in for the service role client and a Telegram API
+// whose fetch records the calls.
+import assert from 'node:assert/strict';
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { translate } from '../_shared/i18n.ts';
+import { createBot } from './bot.ts';
+import { createTelegramApi } from './telegramApi.ts';
+
+type Row = Record<string, unknown>;
+type Tables = Record<string, Row[]>;
+
+const PRIMARY_KEYS: Record<string, string> = { telegram_links: 'user_id', notification_preferences: 'user_id' };
+
+// Just enough of the PostgREST query builder for the bot
+class FakeQuery implements PromiseLike<{ data: unknown; error: { message: string } | null }> {
+    private action: 'select' | 'insert' | 'update' | 'upsert' | 'delete' = 'select';
+    private payload: Row[] = [];
+    private conflict = '';
+    private filters: ((row: Row) => boolean)[] = [];
+    private ordering: { column: string; ascending: boolean } | null = null;
+    private max = Infinity;
+    private mode: 'many' | 'single' | 'maybeSingle' = 'many';
+
+    constructor(private tables: Tables, private table: string) {}
+
+    select() { return this; }
+    insert(values: Row | Row[]) { return this.write('insert', values); }
+    update(values: Row) { return this.write('update', values); }
+    upsert(values: Row | Row[], options?: { onConflict?: string }) {
+        this.conflict = options?.onConflict || PRIMARY_KEYS[this.table] || 'id';
+        return this.write('upsert', values);
+    }
+    delete() { this.action = 'delete'; return this; }
+
+    eq(column: string, value: unknown) { return this.where(row => row[column] === value); }
+    neq(column: string, value: unknown) { return this.where(row => row[column] !== value); }
+    is(column: string, value: null) { return this.where(row => (row[column] ?? null) === value); }
+    in(column: string, values: unknown[]) { return this.where(row => values.includes(row[column])); }
+    lte(column: string, value: string) { return this.where(row => String(row[column]) <= value); }
+    order(column: string, options?: { ascending?: boolean }) {
+        this.ordering = { column, ascending: options?.ascending ?? true };
+        return this;
+    }
+    limit(count: number) { this.max = count; return this; }
+    single() { this.mode = 'single'; return this; }
+    maybeSingle() { this.mode = 'maybeSingle'; return this; }
+    setHeader() { return this; }
+
+    then<A = { data: unknown; error: { message: string } | null }, B = never>(
+        resolve?: ((value: { data: unknown; error: { message: string } | null }) => A | PromiseLike<A>) | null,
+        reject?: ((reason: unknown) => B | PromiseLike<B>) | null
+    ): PromiseLike<A | B> {
+        return Promise.resolve().then(() => this.run()).then(resolve, reject);
+    }
+
+    private write(action: FakeQuery['action'], values: Row | Row[]) {
+        this.action = action;
+        this.payload = Array.isArray(values) ? values : [values];
+        return this;
+    }
+
+    private where(filter: (row: Row) => boolean) {
+        this.filters.push(filter);
+        return this;
+    }
+
+    private run() {
+        const rows = this.tables[this.table] ??= [];
+        const matches = () => rows.filter(row => this.filters.every(filter => filter(row)));
+        let result: Row[];
+
+        switch (this.action) {
+            case 'insert':
+                result = this.payload.map(values => ({ id: crypto.randomUUID(), ...values }));
+                rows.push(...result);
+                break;
+            case 'upsert':
+                result = this.payload.map(values => {
+                    const existing = rows.find(row => this.conflict.split(',').every(key => row[key] === values[key]));
+                    if (existing) return Object.assign(existing, values);
+                    rows.push({ ...values });
+                    return rows[rows.length - 1];
+                });
+                break;
+            case 'update':
+                result = matches().map(row => Object.assign(row, this.payload[0]));
+                break;
+            case 'delete':
+                result = matches();
+                this.tables[this.table] = rows.filter(row => !result.includes(row));
+                break;
+            default: {
+                result = matches();
+                const ordering = this.ordering;
+                if (ordering) {
+                    result.sort((a, b) => (String(a[ordering.column]) < String(b[ordering.column]) ? -1 : 1) * (ordering.ascending ? 1 : -1));
+                }
+                result = result.slice(0, this.max);
+            }
+        }
+
+        // Copies, like rows coming back over the wire
+        result = result.map(row => ({ ...row }));
+        if (this.mode === 'many') return { data: result, error: null };
+        if (this.mode === 'single' && result.length !== 1) return { data: null, error: { message: `Expected one ${this.table} row` } };
+        return { data: result[0] ?? null, error: null };
+    }
+}
+
+const fakeDb = (tables: Tables) => ({ from: (table: string) => new FakeQuery(tables, table) }) as unknown as SupabaseClient;
+
+function fakeTelegram(failing: string[] = []) {
+    const calls: { method: string; body: Record<string, unknown> }[] = [];
+    let nextMessageId = 100;
+    const fetchImpl = async (input: string | URL | Request, init?: RequestInit) => {
+        const method = String(input).split('/').pop()!;
+        const body = JSON.parse(String(init?.body));
+        calls.push({ method, body });
+        if (failing.includes(method)) {
+            return new Response(JSON.stringify({ ok: false, description: 'Forbidden: bot was blocked by the user' }), { status: 403 });
+        }
+        const result = method === 'sendMessage' ? { message_id: nextMessageId++, chat: { id: body.chat_id } } : true;
+        return new Response(JSON.stringify({ ok: true, result }));
+    };
+    return { api: createTelegramApi('TOKEN', 'https://telegram.test', fetchImpl as typeof fetch), calls };
+}
+
+const NOW = new Date('2026-03-10T12:00:00Z');
+const ORG = 'org-1';
+const OWNER = 'owner-1';
+const WORKER = 'worker-1';
+const CHAT = 555;
+const TASK_1 = '11111111-1111-4111-8111-111111111111';
+const TASK_2 = '22222222-2222-4222-8222-222222222222';
+const TASK_3 = '33333333-3333-4333-8333-333333333333';
+const TASK_4 = '44444444-4444-4444-8444-444444444444';
+const en = (key: string, values?: Record<string, string | number>) => translate('en', key, values);
+
+const task = (overrides: Row = {}): Row => ({
+    id: TASK_1,
+    title: 'Write the report',
+    description: '',
+    status: 'new',
+    priority: 'medium',
+    organization_id: ORG,
+    creator_id: OWNER,
+    reviewer_id: null,
+    assignee: 'Worker',
+    assignee_id: WORKER,
+    assignee_ids: [WORKER],
+    deadline: '2026-03-10T15:30:00Z',
+    recurrence: null,
+    recurrence_next_id: null,
+    recurrence_last_deadline: null,
+    custom_values: {},
+    ...overrides,
+});
+
+function setup(tables: Tables = {}, failing: string[] = []) {
+    const data: Tables = {
+        organizations: [{ id: ORG, owner_id: OWNER }],
+        team_members: [{ id: 'member-1', user_id: WORKER, manager_id: null, organization_id: ORG }],
+        telegram_links: [{ user_id: WORKER, chat_id: CHAT, username: 'worker', language: 'en' }],
+        ...tables,
+    };
+    const telegram = fakeTelegram(failing);
+    const bot = createBot({ api: telegram.api, db: fakeDb(data), appUrl: 'https://taskedo.test', now: () => NOW });
+    return { bot, data, calls: telegram.calls };
+}
+
+const move = (taskId: string, status: string, chatId = CHAT) => ({
+    update_id: 1,
+    callback_query: {
+        id: 'callback-1',
+        from: { id: chatId, language_code: 'en' },
+        message: { message_id: 42, chat: { id: chatId } },
+        data: `move:${taskId}:${status}`,
+    },
+});
+
+Deno.test('handleUpdate links a chat with a valid code', async () => {
+    const { bot, data, calls } = setup({
+        telegram_links: [],
+        telegram_link_codes: [{ user_id: WORKER, code: 'ABC123', expires_at: '2026-03-10T12:10:00Z' }],
+    });
+
+    await bot.handleUpdate({
+        update_id: 1,
+        message: { message_id: 1, chat: { id: CHAT }, from: { id: CHAT, username: 'worker', language_code: 'en' }, text: '/start abc123' },
+    });
+
+    assert.deepEqual(data.telegram_links.map(l => [l.user_id, l.chat_id, l.language]), [[WORKER, CHAT, 'en']]);
+    assert.equal(data.telegram_link_codes.length, 0);
+    assert.deepEqual(data.notification_preferences[0].channels, { task_assigned: ['in_app', 'telegram'], task_review: ['in_app', 'telegram'] });
+    assert.deepEqual(calls.map(c => [c.method, c.body.text]), [['sendMessage', en('dashboard.telegram.bot.linked')]]);
+});
+
+Deno.test('handleUpdate refuses a move the policy does not allow', async () => {
+    const { bot, data, calls } = setup({ tasks: [task({ status: 'review' })] });
+
+    await bot.handleUpdate(move(TASK_1, 'done'));
+
+    assert.equal(data.tasks[0].status, 'review');
+    assert.deepEqual(calls.map(c => [c.method, c.body.text]), [['answerCallbackQuery', en('dashboard.telegram.bot.moveNotAllowed')]]);
+});
+
+Deno.test('handleUpdate moves a task to review and notifies the reviewer and watchers', async () => {
+    const { bot, data, calls } = setup({
+        tasks: [task({ status: 'progress' })],
+        task_watchers: [{ task_id: TASK_1, user_id: OWNER }, { task_id: TASK_1, user_id: WORKER }, { task_id: TASK_1, user_id: 'watcher-1' }],
+        notification_preferences: [{ user_id: 'watcher-1', channels: { task_updates: ['in_app', 'telegram'] } }],
+    });
+
+    await bot.handleUpdate(move(TASK_1, 'review'));
+
+    assert.equal(data.tasks[0].status, 'review');
+    assert.deepEqual(calls.map(c => c.method), ['answerCallbackQuery', 'editMessageReplyMarkup']);
+    assert.deepEqual(
+        data.notifications.map(n => [n.user_id, n.type, n.link_url]),
+        [[OWNER, 'task_review', `/dashboard/tasks?task=${TASK_1}`], ['watcher-1', 'task_watch', `/dashboard/tasks?task=${TASK_1}`]]
+    );
+    assert.deepEqual(data.notification_outbox.find(r => r.user_id === 'watcher-1')?.params, {
+        template: 'task_watch',
+        task: 'Write the report',
+        changes: [{ field: 'status', from: { key: 'progress', name: '' }, to: { key: 'review', name: '' } }],
+    });
+});
+
+Deno.test('handleUpdate completing a task notifies unblocked assignees and schedules the next instance', async () => {
+    const { bot, data } = setup({
+        telegram_links: [{ user_id: OWNER, chat_id: CHAT, username: 'owner', language: 'en' }],
+        tasks: [
+            task({ status: 'review', recurrence: { freq: 'after_completion', interval: 2 } }),
+            task({ id: TASK_2, title: 'Send the report', status: 'new' }),
+            task({ id: TASK_3, title: 'Archive', status: 'new', assignee_id: 'other-1', assignee_ids: ['other-1'] }),
+            task({ id: TASK_4, title: 'Still blocking', status: 'progress' }),
+        ],
+        task_dependencies: [
+            { task_id: TASK_2, blocked_by_id: TASK_1 },
+            { task_id: TASK_3, blocked_by_id: TASK_1 },
+            { task_id: TASK_3, blocked_by_id: TASK_4 },
+        ],
+        task_checklist_items: [{ task_id: TASK_1, title: 'Draft', position: 0, done: true }],
+        task_labels: [{ task_id: TASK_1, label_id: 'label-1' }],
+    });
+
+    await bot.handleUpdate(move(TASK_1, 'done'));
+
+    assert.deepEqual(data.notifications.map(n => [n.user_id, n.type, n.link_url]), [[WORKER, 'task_unblocked', `/dashboard/tasks?task=${TASK_2}`]]);
+
+    const original = data.tasks[0];
+    const instance = data.tasks.find(t => t.id === original.recurrence_next_id)!;
+    assert.equal(instance.status, 'new');
+    assert.equal(instance.creator_id, OWNER);
+    assert.equal(new Date(String(instance.deadline)).getTime(), new Date(String(original.recurrence_last_deadline)).getTime());
+    assert.deepEqual(data.task_checklist_items.filter(i => i.task_id === instance.id).map(i => [i.title, i.done]), [['Draft', false]]);
+    assert.deepEqual(data.task_labels.filter(l => l.task_id === instance.id).map(l => l.label_id), ['label-1']);
+});
+
+Deno.test('handleUpdate stores a reply as an escaped comment and notifies mentions and watchers', async () => {
+    const { bot, data, calls } = setup({
+        tasks: [task()],
+        telegram_messages: [{ chat_id: CHAT, message_id: 100, task_id: TASK_1, user_id: WORKER }],
+        team_members: [
+            { id: 'member-1', user_id: WORKER, manager_id: null, organization_id: ORG, name: 'Worker' },
+            { id: 'member-2', user_id: OWNER, manager_id: null, organization_id: ORG, name: 'Owner' },
+        ],
+        profiles: [{ id: OWNER, display_name: 'Anna Lee' }],
+        task_watchers: [{ task_id: TASK_1, user_id: OWNER }, { task_id: TASK_1, user_id: WORKER }, { task_id: TASK_1, user_id: 'watcher-1' }],
+    });
+
+    await bot.handleUpdate({
+        update_id: 1,
+        message: {
+            message_id: 101,
+            chat: { id: CHAT },
+            from: { id: CHAT, language_code: 'en' },
+            text: '@Anna Lee done <script>alert(1)</script>\nsee draft',
+            reply_to_message: { message_id: 100, chat: { id: CHAT } },
+        },
+    });
+
+    assert.deepEqual(data.task_comments.map(c => c.content), ['<p>@Anna Lee done &lt;script&gt;alert(1)&lt;/script&gt;<br>see draft</p>']);
+    assert.deepEqual(calls.map(c => c.body.text), [en('dashboard.telegram.bot.commentAdded', { title: 'Write the report' })]);
+    assert.deepEqual(
+        data.notifications.map(n => [n.user_id, n.type, n.link_url]),
+        [[OWNER, 'mention', `/dashboard/tasks?task=${TASK_1}&tab=comments`], ['watcher-1', 'task_watch', `/dashboard/tasks?task=${TASK_1}&tab=comments`]]
+    );
+});
+
+Deno.test('deliverOutbox sends due rows with quick status buttons', async () => {
+    const { bot, data, calls } = setup({
+        tasks: [task()],
+        notification_outbox: [
+            { id: 'out-1', user_id: WORKER, channel: 'telegram', status: 'pending', deliver_after: '2026-03-10T11:00:00Z', created_at: '1',
+                title: 'New task', message: 'New task: Write the report', type: 'task_assigned', link_url: `/dashboard/tasks?task=${TASK_1}`, attempts: 0 },
+            { id: 'out-2', user_id: WORKER, channel: 'telegram', status: 'pending', deliver_after: '2026-03-11T08:00:00Z', created_at: '2',
+                title: 'Later', message: '', type: 'task_watch', link_url: null, attempts: 0 },
+            { id: 'out-3', user_id: 'unlinked-1', channel: 'telegram', status: 'pending', deliver_after: '2026-03-10T11:00:00Z', created_at: '3',
+                title: 'New task', message: '', type: 'task_assigned', link_url: null, attempts: 0 },
+        ],
+    });
+
+    assert.deepEqual(await bot.deliverOutbox(), { sent: 1, failed: 1 });
+
+    assert.deepEqual(data.notification_outbox.map(r => [r.id, r.status]), [['out-1', 'sent'], ['out-2', 'pending'], ['out-3', 'failed']]);
+    assert.equal(calls.length, 1);
+    assert.equal(calls[0].body.chat_id, CHAT);
+    assert.equal(calls[0].body.text, `New task\nNew task: Write the report\n${en('dashboard.telegram.bot.open')}: https://taskedo.test/dashboard/tasks?task=${TASK_1}`);
+    assert.deepEqual(
+        (calls[0].body.reply_markup as { inline_keyboard: { callback_data: string }[][] }).inline_keyboard[0].map(b => b.callback_data),
+        [`move:${TASK_1}:progress`, `move:${TASK_1}:review`, `move:${TASK_1}:done`]
+    );
+    assert.deepEqual(data.telegram_messages.map(m => [m.chat_id, m.message_id, m.task_id]), [[CHAT, 100, TASK_1]]);
+});
+
+Deno.test('deliverOutbox words the message in the recipient\'s language and timezone', async () => {
+    const { bot, calls } = setup({
+        notification_preferences: [{ user_id: WORKER, timezone: 'Asia/Bishkek' }],
+        notification_outbox: [
+            { id: 'out-1', user_id: WORKER, channel: 'telegram', status: 'pending', deliver_after: '2026-03-10T11:00:00Z', created_at: '1',
+                title: 'Изменения в задаче', message: 'Write the report: срок', type: 'task_watch', link_url: null, attempts: 0,
+                params: { template: 'task_watch', task: 'Write the report', changes: [{ field: 'deadline', date: '2026-03-12T13:00:00Z' }] } },
+        ],
+    });
+
+    await bot.deliverOutbox();
+
+    const change = en('dashboard.watchers.changes.deadline', { date: '12 March at 19:00' });
+    assert.equal(calls[0].body.text, `${en('dashboard.notifications.task_watch_title')}\nWrite the report: ${change}`);
+});
+
+Deno.test('deliverOutbox sends a row once when runs overlap', async () => {
+    const { bot, data, calls } = setup({
+        notification_outbox: [
+            { id: 'out-1', user_id: WORKER, channel: 'telegram', status: 'pending', deliver_after: '2026-03-10T11:00:00Z', created_at: '1',
+                title: 'Heads up', message: '', type: 'system', link_url: null, attempts: 0 },
+        ],
+    });
+
+    const runs = await Promise.all([bot.deliverOutbox(), bot.deliverOutbox()]);
+
+    assert.deepEqual(runs.map(r => r.sent).sort(), [0, 1]);
+    assert.equal(calls.length, 1);
+    assert.deepEqual([data.notification_outbox[0].status, data.notification_outbox[0].attempts], ['sent', 1]);
+});
+
+Deno.test('deliverOutbox keeps a failed row pending until the last attempt', async () => {
+    const row = { id: 'out-1', user_id: WORKER, channel: 'telegram', status: 'pending', deliver_after: '2026-03-10T11:00:00Z', created_at: '1',
+        title: 'Heads up', message: '', type: 'system', link_url: null, attempts: 0 };
+    const { bot, data } = setup({ notification_outbox: [row] }, ['sendMessage']);
+
+    assert.deepEqual(await bot.deliverOutbox(), { sent: 0, failed: 1 });
+    assert.deepEqual([data.notification_outbox[0].status, data.notification_outbox[0].attempts], ['pending', 1]);
+
+    data.notification_outbox[0].attempts = 2;
+    await bot.deliverOutbox();
+    assert.equal(data.notification_outbox[0].status, 'failed');
+    assert.match(String(data.notification_outbox[0].last_error), /bot was blocked/);
+});
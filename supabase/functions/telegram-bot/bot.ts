@@ -0,0 +1,331 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { DATE_LOCALES, getTranslator, toLanguage, type Language, type Translate } from '../_shared/i18n.ts';
+import { escapeHtml } from '../_shared/html.ts';
+import { claimOutboxRow, createServiceDispatcher } from '../_shared/notifications.ts';
+import { getNotificationText, type NotificationDispatcher, type NotificationParams } from '../../../frontend/src/lib/notificationDelivery.ts';
+import type { InlineButton, TelegramApi, TelegramMessage, TelegramUpdate } from './telegramApi.ts';
+import { createCommentEffects } from './commentEffects.ts';
+import { createStatusEffects } from './statusEffects.ts';
+import {
+    evaluateBotTransition, getQuickStatuses, getStatusLabel, loadTransitionPolicy,
+    type BotTask, type TransitionPolicy
+} from './transitions.ts';
+
+export interface BotDeps {
+    api: TelegramApi;
+    db: SupabaseClient; // service role: the bot acts for users identified by their linked chat
+    appUrl: string;
+    notifications?: NotificationDispatcher; // defaults to writing rows with `db`
+    now?: () => Date;
+}
+
+interface TelegramLink {
+    user_id: string;
+    chat_id: number;
+    username: string | null;
+    language: Language;
+}
+
+interface OutboxRow {
+    id: string;
+    user_id: string;
+    title: string;
+    message: string;
+    type: string;
+    link_url: string | null;
+    params: NotificationParams | null;
+    attempts: number;
+}
+
+// Types that come with buttons to move the task
+const ACTIONABLE_TYPES = ['task_assigned', 'task_review'];
+const MAX_ATTEMPTS = 3;
+const OUTBOX_BATCH = 50;
+const TASK_SELECT = 'id, title, status, organization_id, creator_id, reviewer_id, assignee_id, assignee_ids';
+
+const TASK_ID_PATTERN = /[?&]task=([0-9a-f-]{36})/i;
+
+export function getTaskIdFromLink(linkUrl: string | null): string | null {
+    return linkUrl?.match(TASK_ID_PATTERN)?.[1] || null;
+}
+
+export function createBot({ api, db, appUrl, now = () => new Date(), notifications = createServiceDispatcher(db, now) }: BotDeps) {
+    const statusEffects = createStatusEffects(db, notifications, now);
+    const commentEffects = createCommentEffects(db, notifications);
+
+    const findLink = async (chatId: number): Promise<TelegramLink | null> => {
+        const { data, error } = await db.from('telegram_links').select('*').eq('chat_id', chatId).maybeSingle();
+        if (error) throw error;
+        return data;
+    };
+
+    const fetchTask = async (taskId: string): Promise<BotTask | null> => {
+        const { data, error } = await db.from('tasks').select(TASK_SELECT).eq('id', taskId).maybeSingle();
+        if (error) throw error;
+        return data;
+    };
+
+    // callback_data is capped at 64 bytes, so long custom status keys get no button
+    const buildButtons = (t: Translate, task: BotTask, policy: TransitionPolicy): InlineButton[][] => {
+        const buttons = getQuickStatuses(policy, task.status)
+            .map(column => ({ text: `→ ${getStatusLabel(t, policy, column.key)}`, callback_data: `move:${task.id}:${column.key}` }))
+            .filter(button => new TextEncoder().encode(button.callback_data).length <= 64);
+        return buttons.length > 0 ? [buttons] : [];
+    };
+
+    const getActorName = async (link: TelegramLink) => {
+        const { data } = await db.from('profiles').select('display_name').eq('id', link.user_id).maybeSingle();
+        return data?.display_name || link.username || 'Telegram';
+    };
+
+    // ---- Linking ----
+
+    const handleStart = async (message: TelegramMessage, code: string, t: Translate, language: Language) => {
+        const chatId = message.chat.id;
+        if (!code) {
+            await api.sendMessage(chatId, t('dashboard.telegram.bot.startHelp'));
+            return;
+        }
+
+        const { data: linkCode, error } = await db
+            .from('telegram_link_codes')
+            .select('*')
+            .eq('code', code.toUpperCase())
+            .maybeSingle();
+        if (error) throw error;
+
+        if (!linkCode || new Date(linkCode.expires_at) < now()) {
+            await api.sendMessage(chatId, t('dashboard.telegram.bot.linkExpired'));
+            return;
+        }
+
+        // A chat belongs to one account: linking again moves it
+        await db.from('telegram_links').delete().eq('chat_id', chatId);
+        const { error: linkError } = await db.from('telegram_links').upsert({
+            user_id: linkCode.user_id,
+            chat_id: chatId,
+            username: message.from?.username || message.chat.username || null,
+            language,
+            linked_at: now().toISOString(),
+        });
+        if (linkError) throw linkError;
+        await db.from('telegram_link_codes').delete().eq('user_id', linkCode.user_id);
+
+        await enableTelegramForTasks(linkCode.user_id);
+        await api.sendMessage(chatId, t('dashboard.telegram.bot.linked'));
+    };
+
+    // Assignments and reviews start arriving in Telegram right after linking; the rest stays as configured
+    const enableTelegramForTasks = async (userId: string) => {
+        const { data } = await db.from('notification_preferences').select('channels').eq('user_id', userId).maybeSingle();
+        const channels: Record<string, string[]> = { ...(data?.channels || {}) };
+        for (const category of ACTIONABLE_TYPES) {
+            const current = channels[category] ?? ['in_app'];
+            if (!current.includes('telegram')) channels[category] = [...current, 'telegram'];
+        }
+        const { error } = await db.from('notification_preferences').upsert(
+            { user_id: userId, channels, updated_at: now().toISOString() },
+            { onConflict: 'user_id' }
+        );
+        if (error) console.error('Failed to enable Telegram notifications:', error);
+    };
+
+    // ---- Messages ----
+
+    const handleReply = async (message: TelegramMessage, link: TelegramLink, t: Translate) => {
+        const { data: sent } = await db
+            .from('telegram_messages')
+            .select('task_id')
+            .eq('chat_id', message.chat.id)
+            .eq('message_id', message.reply_to_message!.message_id)
+            .maybeSingle();
+        const task = sent ? await fetchTask(sent.task_id) : null;
+        if (!task) {
+            await api.sendMessage(message.chat.id, t('dashboard.telegram.bot.taskNotFound'));
+            return;
+        }
+
+        // Comments are stored as HTML, like the rich text editor on the board writes them
+        const text = message.text!;
+        const { error } = await db.from('task_comments').insert({
+            task_id: task.id,
+            user_id: link.user_id,
+            author_name: await getActorName(link),
+            content: `<p>${escapeHtml(text).replace(/\n/g, '<br>')}</p>`,
+            organization_id: task.organization_id,
+        });
+        if (error) {
+            console.error('Failed to add comment from Telegram:', error);
+            await api.sendMessage(message.chat.id, t('dashboard.telegram.bot.commentFailed'));
+            return;
+        }
+        await api.sendMessage(message.chat.id, t('dashboard.telegram.bot.commentAdded', { title: task.title }));
+        // Mentions and watchers, as when the comment is posted on the board
+        await commentEffects.afterComment({ task, text, actorId: link.user_id, t });
+    };
+
+    const handleMessage = async (message: TelegramMessage) => {
+        const text = message.text?.trim() || '';
+        const chatId = message.chat.id;
+        const link = await findLink(chatId);
+        const clientLanguage = toLanguage(message.from?.language_code);
+        const t = getTranslator(link?.language || clientLanguage);
+
+        if (text.startsWith('/start')) {
+            await handleStart(message, text.slice('/start'.length).trim(), getTranslator(clientLanguage), clientLanguage);
+            return;
+        }
+        if (!link) {
+            await api.sendMessage(chatId, t('dashboard.telegram.bot.notLinked'));
+            return;
+        }
+        if (text === '/unlink') {
+            await db.from('telegram_links').delete().eq('chat_id', chatId);
+            await api.sendMessage(chatId, t('dashboard.telegram.bot.unlinked'));
+            return;
+        }
+        if (message.reply_to_message && text) {
+            await handleReply(message, link, t);
+            return;
+        }
+        await api.sendMessage(chatId, t('dashboard.telegram.bot.help'));
+    };
+
+    // ---- Quick actions ----
+
+    const handleCallback = async (callback: NonNullable<TelegramUpdate['callback_query']>) => {
+        const chatId = callback.message?.chat.id ?? callback.from.id;
+        const link = await findLink(chatId);
+        const t = getTranslator(link?.language || toLanguage(callback.from.language_code));
+        if (!link) {
+            await api.answerCallbackQuery(callback.id, t('dashboard.telegram.bot.notLinked'));
+            return;
+        }
+
+        const [action, taskId, toStatus] = (callback.data || '').split(':');
+        const task = action === 'move' && taskId ? await fetchTask(taskId) : null;
+        if (!task || !toStatus) {
+            await api.answerCallbackQuery(callback.id, t('dashboard.telegram.bot.taskNotFound'));
+            return;
+        }
+
+        const policy = await loadTransitionPolicy(db, task.organization_id);
+        const result = policy.workflow.some(c => c.key === toStatus)
+            ? evaluateBotTransition(task, toStatus, link.user_id, policy)
+            : 'not_allowed';
+        if (result !== 'allowed') {
+            await api.answerCallbackQuery(callback.id, t(result === 'needs_app' ? 'dashboard.telegram.bot.moveInApp' : 'dashboard.telegram.bot.moveNotAllowed'));
+            return;
+        }
+
+        // The history trigger records the move under the linked user
+        const { error } = await db
+            .from('tasks')
+            .update({ status: toStatus })
+            .eq('id', task.id)
+            .setHeader('x-actor-id', link.user_id);
+        if (error) throw error;
+
+        await api.answerCallbackQuery(callback.id, t('dashboard.telegram.bot.moved', { status: getStatusLabel(t, policy, toStatus) }));
+        if (callback.message) {
+            await api.editMessageReplyMarkup(chatId, callback.message.message_id, buildButtons(t, { ...task, status: toStatus }, policy));
+        }
+        // Notifications and the next recurring instance, as when the move is made on the board
+        await statusEffects.afterStatusChange({ task, toStatus, actorId: link.user_id, policy, t });
+    };
+
+    return {
+        /** Handles one webhook update from Telegram. */
+        async handleUpdate(update: TelegramUpdate) {
+            if (update.callback_query) {
+                await handleCallback(update.callback_query);
+            } else if (update.message) {
+                await handleMessage(update.message);
+            }
+        },
+
+        /**
+         * Sends due Telegram rows from `notification_outbox`. Failed rows are retried on the next run
+         * until MAX_ATTEMPTS; users without a linked chat are marked failed right away.
+         */
+        async deliverOutbox(): Promise<{ sent: number; failed: number }> {
+            const { data, error } = await db
+                .from('notification_outbox')
+                .select('id, user_id, title, message, type, link_url, params, attempts')
+                .eq('channel', 'telegram')
+                .eq('status', 'pending')
+                .lte('deliver_after', now().toISOString())
+                .order('created_at', { ascending: true })
+                .limit(OUTBOX_BATCH);
+            if (error) throw error;
+
+            let sent = 0;
+            let failed = 0;
+            for (const row of (data || []) as OutboxRow[]) {
+                // Another run that overlaps this one may already be sending it
+                if (!await claimOutboxRow(db, row, now())) continue;
+                try {
+                    const { data: link } = await db.from('telegram_links').select('*').eq('user_id', row.user_id).maybeSingle();
+                    if (!link) {
+                        await db.from('notification_outbox')
+                            .update({ status: 'failed', last_error: 'Telegram is not linked' })
+                            .eq('id', row.id);
+                        failed++;
+                        continue;
+                    }
+
+                    const language = toLanguage(link.language);
+                    const t = getTranslator(language);
+                    const taskId = getTaskIdFromLink(row.link_url);
+                    const task = taskId ? await fetchTask(taskId) : null;
+                    const buttons = task && ACTIONABLE_TYPES.includes(row.type)
+                        ? buildButtons(t, task, await loadTransitionPolicy(db, task.organization_id))
+                        : undefined;
+
+                    // Worded in the recipient's language, with deadlines in their timezone
+                    const { data: preferences } = await db
+                        .from('notification_preferences')
+                        .select('timezone')
+                        .eq('user_id', row.user_id)
+                        .maybeSingle();
+                    const { title, message: text } = getNotificationText(row, t, date =>
+                        new Intl.DateTimeFormat(DATE_LOCALES[language], {
+                            timeZone: preferences?.timezone || 'UTC',
+                            day: 'numeric',
+                            month: 'long',
+                            hour: '2-digit',
+                            minute: '2-digit',
+                        }).format(new Date(date))
+                    );
+
+                    const lines = [title, text, row.link_url ? `${t('dashboard.telegram.bot.open')}: ${appUrl}${row.link_url}` : ''];
+                    const message = await api.sendMessage(link.chat_id, lines.filter(Boolean).join('\n'), buttons);
+
+                    if (task) {
+                        await db.from('telegram_messages').insert({
+                            chat_id: link.chat_id,
+                            message_id: message.message_id,
+                            task_id: task.id,
+                            user_id: row.user_id,
+                        });
+                    }
+                    await db.from('notification_outbox')
+                        .update({ status: 'sent', sent_at: now().toISOString() })
+                        .eq('id', row.id);
+                    sent++;
+                } catch (err) {
+                    const attempts = row.attempts + 1;
+                    await db.from('notification_outbox')
+                        .update({
+                            status: attempts >= MAX_ATTEMPTS ? 'failed' : 'pending',
+                            deliver_after: now().toISOString(), // retried by the next run
+                            last_error: String(err),
+                        })
+                        .eq('id', row.id);
+                    failed++;
+                }
+            }
+            return { sent, failed };
+        },
+    };
+}
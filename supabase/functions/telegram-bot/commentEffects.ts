@@ -0,0 +1,62 @@
+// What a comment from a chat sets off, the same as posting in TaskComments on the board
+// (frontend/src/components/TaskComments.tsx): mentioned members hear about the mention,
+// everyone else watching the task about the comment.
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import type { Translate } from '../_shared/i18n.ts';
+import { findMentions } from '../../../frontend/src/lib/mentions.ts';
+import { composeNotification, type NotificationDispatcher } from '../../../frontend/src/lib/notificationDelivery.ts';
+import type { BotTask } from './transitions.ts';
+
+export interface CommentPosted {
+    task: BotTask;
+    text: string; // plain text, as typed in the chat
+    actorId: string;
+    t: Translate; // in-app rows are worded in the actor's language, like on the board
+}
+
+const commentsLink = (taskId: string) => `/dashboard/tasks?task=${taskId}&tab=comments`;
+
+export function createCommentEffects(db: SupabaseClient, notifications: NotificationDispatcher) {
+    // Members are matched by the name the board shows: the profile's display name when there is one
+    const loadMembers = async (organizationId: string) => {
+        const { data: members, error } = await db.from('team_members').select('user_id, name').eq('organization_id', organizationId);
+        if (error) throw error;
+        const userIds = (members || []).map(m => m.user_id as string).filter(Boolean);
+        if (userIds.length === 0) return [];
+
+        const { data: profiles } = await db.from('profiles').select('id, display_name').in('id', userIds);
+        return (members || []).map(member => ({
+            user_id: member.user_id as string | null,
+            name: (profiles || []).find(p => p.id === member.user_id)?.display_name || member.name as string,
+        }));
+    };
+
+    return {
+        /** Runs after the comment has been saved. */
+        async afterComment({ task, text, actorId, t }: CommentPosted) {
+            const mentioned = findMentions(text, await loadMembers(task.organization_id))
+                .map(member => member.user_id!)
+                .filter(id => id !== actorId);
+            for (const userId of mentioned) {
+                await notifications.dispatch(userId, composeNotification(
+                    t, 'mention', { template: 'mention', task: task.title }, commentsLink(task.id)
+                ));
+            }
+
+            const { data, error } = await db.from('task_watchers').select('user_id').eq('task_id', task.id);
+            if (error) throw error;
+
+            const notification = composeNotification(t, 'task_watch', {
+                template: 'comment',
+                task: task.title,
+                excerpt: text.replace(/\s+/g, ' ').trim().slice(0, 120),
+            }, commentsLink(task.id));
+            const recipients = (data || [])
+                .map(w => w.user_id as string)
+                .filter(id => id !== actorId && !mentioned.includes(id));
+            for (const userId of recipients) {
+                await notifications.dispatch(userId, notification);
+            }
+        },
+    };
+}
@@ -0,0 +1,55 @@
+// Telegram bot: account linking, task notifications with quick status buttons, replies as comments.
+//
+// Secrets: TELEGRAM_BOT_TOKEN, TELEGRAM_WEBHOOK_SECRET, APP_URL (e.g. https://taskedo.app),
+// SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY (set by Supabase). TELEGRAM_API_URL points the bot
+// at a stubbed Bot API for local runs.
+//
+// Deploy with --no-verify-jwt: Telegram calls the webhook without a Supabase token.
+// Webhook: setWebhook?url=<function url>&secret_token=<TELEGRAM_WEBHOOK_SECRET>
+// Outbox:  POST <function url>?action=deliver with the service role key (see supabase_migration_telegram_bot.sql)
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { createTelegramApi, type TelegramUpdate } from './telegramApi.ts';
+import { createBot } from './bot.ts';
+
+const env = (name: string) => {
+    const value = Deno.env.get(name);
+    if (!value) throw new Error(`Missing environment variable ${name}`);
+    return value;
+};
+
+const serviceRoleKey = env('SUPABASE_SERVICE_ROLE_KEY');
+const webhookSecret = env('TELEGRAM_WEBHOOK_SECRET');
+
+const bot = createBot({
+    api: createTelegramApi(env('TELEGRAM_BOT_TOKEN'), Deno.env.get('TELEGRAM_API_URL') || undefined),
+    db: createClient(env('SUPABASE_URL'), serviceRoleKey, { auth: { persistSession: false } }),
+    appUrl: env('APP_URL').replace(/\/$/, ''),
+});
+
+const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+Deno.serve(async (request) => {
+    if (request.method !== 'POST') return json({ error: 'Method not allowed' }, 405);
+
+    const url = new URL(request.url);
+    if (url.searchParams.get('action') === 'deliver') {
+        if (request.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) return json({ error: 'Unauthorized' }, 401);
+        try {
+            return json(await bot.deliverOutbox());
+        } catch (err) {
+            console.error('Telegram outbox delivery failed:', err);
+            return json({ error: String(err) }, 500);
+        }
+    }
+
+    if (request.headers.get('X-Telegram-Bot-Api-Secret-Token') !== webhookSecret) return json({ error: 'Unauthorized' }, 401);
+
+    try {
+        await bot.handleUpdate(await request.json() as TelegramUpdate);
+    } catch (err) {
+        // Telegram retries non-2xx responses, which would repeat the update
+        console.error('Telegram update failed:', err);
+    }
+    return json({ ok: true });
+});
@@ -0,0 +1,173 @@
+// What a move from a chat sets off, the same as persistStatusChange on the board
+// (frontend/src/pages/dashboard/KanbanPage.tsx): the reviewer hears about work waiting for review,
+// watchers about the move, and completing a task notifies the assignees it unblocks and schedules
+// the next instance of a recurring task.
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import type { Translate } from '../_shared/i18n.ts';
+import { composeNotification, type NotificationDispatcher } from '../../../frontend/src/lib/notificationDelivery.ts';
+import { getNextInstanceDeadline } from '../../../frontend/src/lib/recurrence.ts';
+import { getAssigneeIds, getReviewerId } from '../../../frontend/src/lib/transitionRules.ts';
+import { getDoneColumn, getNotificationStatus, getReviewColumn, type BotTask, type TransitionPolicy } from './transitions.ts';
+
+export interface StatusChange {
+    task: BotTask; // as it was before the move
+    toStatus: string;
+    actorId: string;
+    policy: TransitionPolicy;
+    t: Translate; // in-app rows are worded in the actor's language, like on the board
+}
+
+const taskLink = (taskId: string) => `/dashboard/tasks?task=${taskId}`;
+
+export function createStatusEffects(db: SupabaseClient, notifications: NotificationDispatcher, now: () => Date) {
+    // Tell assignees of downstream tasks once their last blocker is done
+    const notifyUnblocked = async ({ task, actorId, policy, t }: StatusChange) => {
+        const doneStatus = getDoneColumn(policy).key;
+        const { data: links, error } = await db.from('task_dependencies').select('task_id').eq('blocked_by_id', task.id);
+        if (error) throw error;
+        if (!links?.length) return;
+
+        const { data: blocked, error: blockedError } = await db
+            .from('tasks')
+            .select('id, title, status, assignee_id, assignee_ids')
+            .in('id', links.map(link => link.task_id))
+            .neq('status', doneStatus);
+        if (blockedError) throw blockedError;
+
+        for (const candidate of blocked || []) {
+            const { data: blockers } = await db.from('task_dependencies').select('blocked_by_id').eq('task_id', candidate.id);
+            const otherIds = (blockers || []).map(b => b.blocked_by_id as string).filter(id => id !== task.id);
+            if (otherIds.length > 0) {
+                const { data: open } = await db.from('tasks').select('id').in('id', otherIds).neq('status', doneStatus);
+                if (open?.length) continue;
+            }
+
+            for (const assigneeId of getAssigneeIds(candidate).filter(id => id !== actorId)) {
+                await notifications.dispatch(assigneeId, composeNotification(
+                    t, 'task_unblocked', { template: 'task_unblocked', task: candidate.title }, taskLink(candidate.id)
+                ));
+            }
+        }
+    };
+
+    // A recurring task reaching the final column schedules its next instance, claimed the same way
+    // as spawnRecurringInstance in the web app so a client doing it at once cannot double it
+    const spawnNextInstance = async ({ task, actorId, policy }: StatusChange) => {
+        const { data: source, error } = await db.from('tasks').select('*').eq('id', task.id).maybeSingle();
+        if (error) throw error;
+        const nextDeadline = source ? getNextInstanceDeadline(source, now(), now()) : null;
+        if (!source || !nextDeadline) return;
+
+        let claim = db
+            .from('tasks')
+            .update({ recurrence_last_deadline: nextDeadline.toISOString() })
+            .eq('id', source.id)
+            .is('recurrence_next_id', null);
+        claim = source.recurrence_last_deadline
+            ? claim.eq('recurrence_last_deadline', source.recurrence_last_deadline)
+            : claim.is('recurrence_last_deadline', null);
+        const { data: claimed, error: claimError } = await claim.select('id');
+        if (claimError) throw claimError;
+        if (!claimed?.length) return;
+
+        const [checklist, labels] = await Promise.all([
+            db.from('task_checklist_items').select('title, position').eq('task_id', source.id).order('position'),
+            db.from('task_labels').select('label_id').eq('task_id', source.id),
+        ]);
+
+        let instanceId: string;
+        try {
+            const { data: instance, error: createError } = await db
+                .from('tasks')
+                .insert({
+                    user_id: actorId,
+                    creator_id: source.creator_id,
+                    title: source.title,
+                    description: source.description,
+                    status: policy.workflow[0].key,
+                    priority: source.priority,
+                    assignee: source.assignee,
+                    assignee_id: source.assignee_id,
+                    assignee_ids: getAssigneeIds(source),
+                    reviewer_id: source.reviewer_id,
+                    deadline: nextDeadline.toISOString(),
+                    links: source.links || [],
+                    parent_id: source.parent_id,
+                    recurrence: source.recurrence,
+                    estimate_minutes: source.estimate_minutes,
+                    custom_values: source.custom_values || {},
+                    organization_id: source.organization_id,
+                })
+                .select('id')
+                .single()
+                .setHeader('x-actor-id', actorId);
+            if (createError) throw createError;
+            instanceId = instance.id;
+
+            const titles = (checklist.data || []).map(item => item.title as string);
+            if (titles.length > 0) {
+                const { error: checklistError } = await db
+                    .from('task_checklist_items')
+                    .insert(titles.map((title, position) => ({ task_id: instanceId, title, position, done: false })));
+                if (checklistError) throw checklistError;
+            }
+            const labelIds = (labels.data || []).map(label => label.label_id as string);
+            if (labelIds.length > 0) {
+                const { error: labelsError } = await db
+                    .from('task_labels')
+                    .insert(labelIds.map(label_id => ({ task_id: instanceId, label_id })));
+                if (labelsError) throw labelsError;
+            }
+        } catch (err) {
+            // Give the occurrence back so the next attempt can generate it
+            await db
+                .from('tasks')
+                .update({ recurrence_last_deadline: source.recurrence_last_deadline })
+                .eq('id', source.id)
+                .eq('recurrence_last_deadline', nextDeadline.toISOString());
+            throw err;
+        }
+
+        const { error: linkError } = await db.from('tasks').update({ recurrence_next_id: instanceId }).eq('id', source.id);
+        if (linkError) throw linkError;
+    };
+
+    // Status changes fan out to everyone watching the task except the actor and `skip`
+    const notifyWatchers = async ({ task, toStatus, actorId, policy, t }: StatusChange, skip: string[]) => {
+        const { data, error } = await db.from('task_watchers').select('user_id').eq('task_id', task.id);
+        if (error) throw error;
+
+        const notification = composeNotification(t, 'task_watch', {
+            template: 'task_watch',
+            task: task.title,
+            changes: [{ field: 'status', from: getNotificationStatus(policy, task.status), to: getNotificationStatus(policy, toStatus) }],
+        }, taskLink(task.id));
+        const recipients = (data || [])
+            .map(w => w.user_id as string)
+            .filter(id => id !== actorId && !skip.includes(id));
+        for (const userId of recipients) {
+            await notifications.dispatch(userId, notification);
+        }
+    };
+
+    return {
+        /** Runs after the task has been moved to `change.toStatus`. */
+        async afterStatusChange(change: StatusChange) {
+            const { task, toStatus, actorId, policy, t } = change;
+            if (toStatus === getDoneColumn(policy).key) {
+                await notifyUnblocked(change);
+                await spawnNextInstance(change);
+            }
+
+            // Moving to review notifies the reviewer (the creator unless someone is designated)
+            const reviewerId = getReviewerId(task);
+            const notifyReviewer = toStatus === getReviewColumn(policy)?.key && reviewerId !== actorId;
+            if (notifyReviewer) {
+                await notifications.dispatch(reviewerId, composeNotification(
+                    t, 'task_review', { template: 'task_review', task: task.title }, taskLink(task.id)
+                ));
+            }
+            await notifyWatchers(change, notifyReviewer ? [reviewerId] : []);
+        },
+    };
+}
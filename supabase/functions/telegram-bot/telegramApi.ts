@@ -0,0 +1,64 @@
+// Thin client for the Telegram Bot API. `baseUrl` and `fetchImpl` can point at a stub server
+// (TELEGRAM_API_URL) so the bot runs locally without talking to Telegram.
+
+export interface InlineButton {
+    text: string;
+    callback_data: string;
+}
+
+export interface TelegramMessage {
+    message_id: number;
+    chat: { id: number; username?: string };
+    from?: { id: number; username?: string; language_code?: string };
+    text?: string;
+    reply_to_message?: TelegramMessage;
+}
+
+export interface TelegramUpdate {
+    update_id: number;
+    message?: TelegramMessage;
+    callback_query?: {
+        id: string;
+        from: { id: number; username?: string; language_code?: string };
+        message?: TelegramMessage;
+        data?: string;
+    };
+}
+
+export interface TelegramApi {
+    sendMessage(chatId: number, text: string, buttons?: InlineButton[][]): Promise<TelegramMessage>;
+    answerCallbackQuery(callbackQueryId: string, text: string): Promise<void>;
+    editMessageReplyMarkup(chatId: number, messageId: number, buttons: InlineButton[][]): Promise<void>;
+}
+
+export function createTelegramApi(
+    token: string,
+    baseUrl = 'https://api.telegram.org',
+    fetchImpl: typeof fetch = fetch
+): TelegramApi {
+    const call = async <T>(method: string, body: Record<string, unknown>): Promise<T> => {
+        const response = await fetchImpl(`${baseUrl}/bot${token}/${method}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+        });
+        const payload = await response.json();
+        if (!payload.ok) throw new Error(`Telegram ${method} failed: ${payload.description || response.status}`);
+        return payload.result as T;
+    };
+
+    return {
+        sendMessage: (chatId, text, buttons) => call<TelegramMessage>('sendMessage', {
+            chat_id: chatId,
+            text,
+            disable_web_page_preview: true,
+            ...(buttons ? { reply_markup: { inline_keyboard: buttons } } : {}),
+        }),
+        answerCallbackQuery: async (callbackQueryId, text) => {
+            await call('answerCallbackQuery', { callback_query_id: callbackQueryId, text });
+        },
+        editMessageReplyMarkup: async (chatId, messageId, buttons) => {
+            await call('editMessageReplyMarkup', { chat_id: chatId, message_id: messageId, reply_markup: { inline_keyboard: buttons } });
+        },
+    };
+}
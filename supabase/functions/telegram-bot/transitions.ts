@@ -0,0 +1,113 @@
+// Status moves from the bot follow the same policy as the board: the rules come from
+// frontend/src/lib/transitionRules.ts, which the web app uses as well.
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import type { Translate } from '../_shared/i18n.ts';
+import {
+    evaluateTransition, getDefaultTransitionRules,
+    type ReportingLineMember, type TransitionRuleFields, type TransitionTask
+} from '../../../frontend/src/lib/transitionRules.ts';
+import type { NotificationStatus } from '../../../frontend/src/lib/notificationDelivery.ts';
+
+export interface BotTask extends TransitionTask {
+    id: string;
+    title: string;
+    organization_id: string;
+}
+
+interface WorkflowColumn {
+    key: string;
+    name: string;
+    position: number;
+    is_done: boolean;
+    is_review: boolean;
+}
+
+export interface TransitionPolicy {
+    workflow: WorkflowColumn[];
+    rules: TransitionRuleFields[];
+    team: ReportingLineMember[];
+    ownerId: string | null;
+}
+
+export type BotTransitionResult = 'allowed' | 'not_allowed' | 'needs_app';
+
+const DEFAULT_WORKFLOW: WorkflowColumn[] = [
+    { key: 'new', name: '', position: 0, is_done: false, is_review: false },
+    { key: 'progress', name: '', position: 1, is_done: false, is_review: false },
+    { key: 'review', name: '', position: 2, is_done: false, is_review: true },
+    { key: 'done', name: '', position: 3, is_done: true, is_review: false },
+];
+
+export async function loadTransitionPolicy(db: SupabaseClient, organizationId: string): Promise<TransitionPolicy> {
+    const [columns, rules, team, org] = await Promise.all([
+        db.from('workflow_columns').select('key, name, position, is_done, is_review').eq('organization_id', organizationId).order('position'),
+        db.from('workflow_transitions').select('*').eq('organization_id', organizationId),
+        db.from('team_members').select('id, user_id, manager_id').eq('organization_id', organizationId),
+        db.from('organizations').select('owner_id').eq('id', organizationId).maybeSingle(),
+    ]);
+    for (const result of [columns, rules, team, org]) {
+        if (result.error) throw result.error;
+    }
+
+    const workflow: WorkflowColumn[] = columns.data?.length ? columns.data : DEFAULT_WORKFLOW;
+    return {
+        workflow,
+        rules: rules.data?.length
+            ? rules.data
+            : getDefaultTransitionRules(workflow.map(column => ({ ...column, organization_id: organizationId }))),
+        team: team.data || [],
+        ownerId: org.data?.owner_id || null,
+    };
+}
+
+/**
+ * Whether the user may move the task from a chat. Moves that need a reason or an approval
+ * are left to the web app, which asks for them.
+ */
+export function evaluateBotTransition(task: BotTask, toStatus: string, userId: string, policy: TransitionPolicy): BotTransitionResult {
+    const decision = evaluateTransition(task, toStatus, {
+        rules: policy.rules,
+        userId,
+        team: policy.team,
+        isOwner: policy.ownerId === userId,
+    });
+    if (!decision.allowed) return 'not_allowed';
+    if (decision.requireReason || decision.requireApproval) return 'needs_app';
+    return 'allowed';
+}
+
+/** The final column, like getDoneStatus in the web app. */
+export function getDoneColumn(policy: TransitionPolicy): WorkflowColumn {
+    return policy.workflow.find(c => c.is_done) || policy.workflow[policy.workflow.length - 1];
+}
+
+/** The column where finished work waits for the reviewer, if the workflow has one. */
+export function getReviewColumn(policy: TransitionPolicy): WorkflowColumn | null {
+    return policy.workflow.find(c => c.is_review && !c.is_done) || null;
+}
+
+/** The column as notifications refer to it, so each recipient reads it in their own language. */
+export function getNotificationStatus(policy: TransitionPolicy, status: string): NotificationStatus {
+    return { key: status, name: policy.workflow.find(c => c.key === status)?.name || '' };
+}
+
+export function getStatusLabel(t: Translate, policy: TransitionPolicy, status: string): string {
+    const column = policy.workflow.find(c => c.key === status);
+    if (column?.name) return column.name;
+    const key = `dashboard.status.${status}`;
+    const label = t(key);
+    return label === key ? status : label;
+}
+
+/**
+ * The columns offered as buttons: the one after the first (in progress), the review column
+ * and the final one, without the task's current status.
+ */
+export function getQuickStatuses(policy: TransitionPolicy, currentStatus: string): WorkflowColumn[] {
+    const { workflow } = policy;
+    const candidates = [workflow[1], getReviewColumn(policy), getDoneColumn(policy)];
+
+    return candidates.filter((column, index): column is WorkflowColumn =>
+        !!column && column.key !== currentStatus && candidates.findIndex(c => c?.key === column.key) === index
+    );
+}
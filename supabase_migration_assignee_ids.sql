@@ -0,0 +1,45 @@
+-- =============================================
+-- Assignees by ID - Supabase Migration
+-- Run this SQL in Supabase SQL Editor
+-- Run after supabase_migration_multiple_assignees.sql
+-- =============================================
+
+-- 1. Старые задачи без assignee_id: находим участника по имени внутри организации.
+-- Если одно имя носят несколько участников, задача не трогается
+UPDATE tasks t
+SET assignee_id = tm.user_id
+FROM team_members tm
+WHERE t.assignee_id IS NULL
+  AND t.assignee IS NOT NULL
+  AND tm.organization_id = t.organization_id
+  AND tm.user_id IS NOT NULL
+  AND tm.name = t.assignee
+  AND (
+      SELECT count(*) FROM team_members same
+      WHERE same.organization_id = t.organization_id AND same.name = t.assignee
+  ) = 1;
+
+-- 2. Список исполнителей для перенесённых задач (на случай, если триггер синхронизации ещё не создан)
+-- Уже назначенные исполнители сохраняются, основной ставится первым
+UPDATE tasks SET assignee_ids = array_prepend(assignee_id, COALESCE(assignee_ids, '{}'))
+WHERE assignee_id IS NOT NULL AND NOT (assignee_id = ANY(COALESCE(assignee_ids, '{}')));
+
+-- 3. Индекс
+CREATE INDEX IF NOT EXISTS idx_tasks_assignee_id ON tasks(assignee_id);
+
+-- 4. assignee - только кэш имени для отображения: обновляется при переименовании участника
+CREATE OR REPLACE FUNCTION refresh_task_assignee_name()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.user_id IS NOT NULL AND NEW.name IS DISTINCT FROM OLD.name THEN
+        UPDATE tasks SET assignee = NEW.name
+        WHERE assignee_id = NEW.user_id AND organization_id = NEW.organization_id;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_team_member_rename ON team_members;
+CREATE TRIGGER on_team_member_rename
+    AFTER UPDATE OF name ON team_members
+    FOR EACH ROW EXECUTE FUNCTION refresh_task_assignee_name();
@@ -0,0 +1,64 @@
+-- =============================================
+-- Custom Fields - Supabase Migration
+-- Run this SQL in Supabase SQL Editor
+-- =============================================
+
+-- 1. Дополнительные поля задач, определяемые организацией
+CREATE TABLE IF NOT EXISTS custom_fields (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    type TEXT NOT NULL CHECK (type IN ('text', 'number', 'date', 'select', 'multi_select', 'member', 'checkbox')),
+    options TEXT[] NOT NULL DEFAULT '{}', -- Варианты для select и multi_select
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_custom_fields_org ON custom_fields(organization_id, position);
+
+-- 2. Значения хранятся в самой задаче: { "<field id>": value }
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS custom_values JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- 3. При удалении поля его значения удаляются из всех задач
+CREATE OR REPLACE FUNCTION remove_custom_field_values()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE tasks
+    SET custom_values = custom_values - OLD.id::text
+    WHERE organization_id = OLD.organization_id
+      AND custom_values ? OLD.id::text;
+    RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_custom_field_deleted ON custom_fields;
+CREATE TRIGGER on_custom_field_deleted
+    AFTER DELETE ON custom_fields
+    FOR EACH ROW EXECUTE FUNCTION remove_custom_field_values();
+
+-- 4. RLS (Row Level Security)
+ALTER TABLE custom_fields ENABLE ROW LEVEL SECURITY;
+
+-- Поля видят все участники организации
+CREATE POLICY "Members can view custom fields" ON custom_fields
+    FOR SELECT USING (
+        organization_id IN (
+            SELECT organization_id FROM team_members WHERE user_id = auth.uid()
+        )
+        OR organization_id IN (
+            SELECT id FROM organizations WHERE owner_id = auth.uid()
+        )
+    );
+
+-- Создавать, изменять и удалять поля может только владелец организации
+CREATE POLICY "Owners can manage custom fields" ON custom_fields
+    FOR ALL USING (
+        organization_id IN (
+            SELECT id FROM organizations WHERE owner_id = auth.uid()
+        )
+    )
+    WITH CHECK (
+        organization_id IN (
+            SELECT id FROM organizations WHERE owner_id = auth.uid()
+        )
+    );
@@ -0,0 +1,40 @@
+-- =============================================
+-- Email Notifications & Daily Digest - Supabase Migration
+-- Run this SQL in Supabase SQL Editor
+-- Run after supabase_migration_notification_preferences.sql
+-- =============================================
+
+-- 1. Ежедневная сводка (только по явному согласию) и язык писем
+ALTER TABLE notification_preferences ADD COLUMN IF NOT EXISTS daily_digest BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE notification_preferences ALTER COLUMN daily_digest SET DEFAULT false;
+ALTER TABLE notification_preferences ADD COLUMN IF NOT EXISTS language TEXT NOT NULL DEFAULT 'ru'
+    CHECK (language IN ('ru', 'en', 'kg'));
+
+-- 2. Журнал отправленных сводок: не больше одной в день на пользователя
+CREATE TABLE IF NOT EXISTS digest_log (
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    digest_date DATE NOT NULL,
+    sent_at TIMESTAMPTZ DEFAULT now(),
+    PRIMARY KEY (user_id, digest_date)
+);
+
+-- 3. Индекс для выборки задач со сроком
+CREATE INDEX IF NOT EXISTS idx_tasks_deadline ON tasks(deadline) WHERE deadline IS NOT NULL;
+
+-- 4. RLS (Row Level Security): журнал ведёт только серверная функция (service role)
+ALTER TABLE digest_log ENABLE ROW LEVEL SECURITY;
+
+-- 5. Расписание (нужны расширения pg_cron и pg_net; подставьте адрес проекта и service role key):
+-- письма из очереди - каждую минуту, сводка - каждый час (уходит в 8:00 по времени пользователя)
+-- SELECT cron.schedule('email-outbox', '* * * * *', $$
+--     SELECT net.http_post(
+--         url := 'https://<project>.supabase.co/functions/v1/email-notifications?action=deliver',
+--         headers := jsonb_build_object('Authorization', 'Bearer <service_role_key>')
+--     );
+-- $$);
+-- SELECT cron.schedule('email-digest', '0 * * * *', $$
+--     SELECT net.http_post(
+--         url := 'https://<project>.supabase.co/functions/v1/email-notifications?action=digest',
+--         headers := jsonb_build_object('Authorization', 'Bearer <service_role_key>')
+--     );
+-- $$);
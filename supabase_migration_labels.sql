@@ -0,0 +1,72 @@
+-- =============================================
+-- Task Labels - Supabase Migration
+-- Run this SQL in Supabase SQL Editor
+-- =============================================
+
+-- 1. Метки организации (название и цвет)
+CREATE TABLE IF NOT EXISTS labels (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    color TEXT NOT NULL DEFAULT '#6366f1',
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Названия уникальны в пределах организации (без учёта регистра)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_labels_org_name ON labels(organization_id, lower(name));
+
+-- 2. Связь задач и меток (многие ко многим).
+-- Задачи ссылаются на метку по id: переименование видно сразу во всех задачах,
+-- удаление метки снимает её со всех задач каскадом
+CREATE TABLE IF NOT EXISTS task_labels (
+    task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    label_id UUID NOT NULL REFERENCES labels(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    PRIMARY KEY (task_id, label_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_labels_label ON task_labels(label_id);
+
+-- 3. RLS (Row Level Security)
+ALTER TABLE labels ENABLE ROW LEVEL SECURITY;
+ALTER TABLE task_labels ENABLE ROW LEVEL SECURITY;
+
+-- Метки видят все участники организации
+CREATE POLICY "Members can view labels" ON labels
+    FOR SELECT USING (
+        organization_id IN (
+            SELECT organization_id FROM team_members WHERE user_id = auth.uid()
+        )
+        OR organization_id IN (
+            SELECT id FROM organizations WHERE owner_id = auth.uid()
+        )
+    );
+
+-- Создавать, изменять и удалять метки может только владелец организации
+CREATE POLICY "Owners can manage labels" ON labels
+    FOR ALL USING (
+        organization_id IN (
+            SELECT id FROM organizations WHERE owner_id = auth.uid()
+        )
+    )
+    WITH CHECK (
+        organization_id IN (
+            SELECT id FROM organizations WHERE owner_id = auth.uid()
+        )
+    );
+
+-- Метки задачи доступны тем, кто видит задачу
+CREATE POLICY "Users can view labels of visible tasks" ON task_labels
+    FOR SELECT USING (task_id IN (SELECT id FROM tasks));
+
+CREATE POLICY "Users can label visible tasks" ON task_labels
+    FOR INSERT WITH CHECK (
+        task_id IN (SELECT id FROM tasks)
+        AND label_id IN (
+            SELECT l.id FROM labels l JOIN tasks t ON t.organization_id = l.organization_id
+            WHERE t.id = task_labels.task_id
+        )
+    );
+
+CREATE POLICY "Users can unlabel visible tasks" ON task_labels
+    FOR DELETE USING (task_id IN (SELECT id FROM tasks));
@@ -0,0 +1,69 @@
+-- =============================================
+-- Multiple Assignees & Reviewers - Supabase Migration
+-- Run this SQL in Supabase SQL Editor
+-- =============================================
+
+-- 1. Несколько исполнителей и отдельный проверяющий.
+-- assignee / assignee_id остаются основным (первым) исполнителем для карточек и старых клиентов
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS assignee_ids UUID[] NOT NULL DEFAULT '{}';
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS reviewer_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- 2. Перенос единственного исполнителя существующих задач
+UPDATE tasks SET assignee_ids = ARRAY[assignee_id]
+WHERE assignee_id IS NOT NULL AND assignee_ids = '{}';
+
+-- 3. Индексы
+CREATE INDEX IF NOT EXISTS idx_tasks_assignee_ids ON tasks USING GIN (assignee_ids);
+CREATE INDEX IF NOT EXISTS idx_tasks_reviewer ON tasks(reviewer_id);
+
+-- 4. Клиенты, которые пишут только assignee_id, не теряют исполнителя
+CREATE OR REPLACE FUNCTION sync_task_assignee_ids()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- Клиент может прислать NULL вместо пустого списка
+    NEW.assignee_ids := COALESCE(NEW.assignee_ids, '{}');
+    IF NEW.assignee_id IS NOT NULL AND NOT (NEW.assignee_id = ANY(NEW.assignee_ids)) THEN
+        NEW.assignee_ids := array_prepend(NEW.assignee_id, NEW.assignee_ids);
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS on_task_sync_assignee_ids ON tasks;
+CREATE TRIGGER on_task_sync_assignee_ids
+    BEFORE INSERT OR UPDATE OF assignee_id, assignee_ids ON tasks
+    FOR EACH ROW EXECUTE FUNCTION sync_task_assignee_ids();
+
+-- 5. Наблюдатели: все исполнители и проверяющий подписываются автоматически
+CREATE OR REPLACE FUNCTION watch_task_participants()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO task_watchers (task_id, user_id, organization_id)
+    SELECT DISTINCT NEW.id, participant, NEW.organization_id
+    FROM unnest(ARRAY[NEW.creator_id, NEW.assignee_id, NEW.reviewer_id] || NEW.assignee_ids) AS participant
+    WHERE participant IS NOT NULL
+    ON CONFLICT (task_id, user_id) DO NOTHING;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_task_watch_participants ON tasks;
+CREATE TRIGGER on_task_watch_participants
+    AFTER INSERT OR UPDATE OF assignee_id, assignee_ids, reviewer_id ON tasks
+    FOR EACH ROW EXECUTE FUNCTION watch_task_participants();
+
+-- 6. Сохранённые правила переходов: кто мог завершать задачу как автор, теперь может и как проверяющий
+UPDATE workflow_transitions wt
+SET roles = array_append(wt.roles, 'reviewer')
+WHERE 'creator' = ANY(wt.roles)
+  AND NOT ('reviewer' = ANY(wt.roles))
+  AND (
+      wt.to_status IN (
+          SELECT wc.key FROM workflow_columns wc
+          WHERE wc.organization_id = wt.organization_id AND wc.is_done
+      )
+      OR (
+          wt.to_status = 'done'
+          AND NOT EXISTS (SELECT 1 FROM workflow_columns wc WHERE wc.organization_id = wt.organization_id)
+      )
+  );
@@ -0,0 +1,144 @@
+-- =============================================
+-- Notification Preferences & Channels - Supabase Migration
+-- Run this SQL in Supabase SQL Editor
+-- Run after supabase_migration_notifications_realtime.sql
+-- =============================================
+
+-- 1. Настройки уведомлений пользователя
+-- channels: { "<категория>": ["in_app", "email", "telegram"] }, пустой массив - отключено,
+-- отсутствующая категория - только в приложении
+CREATE TABLE IF NOT EXISTS notification_preferences (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    channels JSONB NOT NULL DEFAULT '{}',
+    quiet_hours_start TIME,
+    quiet_hours_end TIME,
+    timezone TEXT NOT NULL DEFAULT 'UTC',
+    digest BOOLEAN NOT NULL DEFAULT false,
+    updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- 2. Очередь писем и сообщений Telegram (отправляются серверными функциями)
+CREATE TABLE IF NOT EXISTS notification_outbox (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    channel TEXT NOT NULL CHECK (channel IN ('email', 'telegram')),
+    title TEXT NOT NULL,
+    message TEXT NOT NULL DEFAULT '',
+    type TEXT NOT NULL,
+    link_url TEXT,
+    params JSONB, -- шаблон и значения: письма и Telegram пишутся на языке получателя
+    deliver_after TIMESTAMPTZ NOT NULL DEFAULT now(),
+    digest BOOLEAN NOT NULL DEFAULT false,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    sent_at TIMESTAMPTZ
+);
+
+ALTER TABLE notification_outbox ADD COLUMN IF NOT EXISTS params JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_notification_outbox_pending
+    ON notification_outbox(channel, deliver_after) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_notification_outbox_user ON notification_outbox(user_id, created_at DESC);
+
+-- 3. Новые типы уведомлений: сроки и заявки на вступление
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_type_check CHECK (type IN (
+    'task_assigned', 'task_review', 'task_completed', 'task_unblocked', 'approval', 'mention', 'task_watch',
+    'deadline', 'join_request', 'system'
+));
+
+-- 4. Кому пользователь может слать уведомления: участникам и владельцам своих организаций, а заявитель -
+-- владельцу организации, куда подал заявку. Этим же ограничено чтение чужих настроек
+CREATE OR REPLACE FUNCTION shares_organization_with(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+    WITH my_orgs AS (
+        SELECT organization_id FROM team_members WHERE user_id = auth.uid()
+        UNION
+        SELECT id FROM organizations WHERE owner_id = auth.uid()
+    )
+    SELECT EXISTS (
+        SELECT 1 FROM team_members
+        WHERE user_id = p_user_id AND organization_id IN (SELECT organization_id FROM my_orgs)
+        UNION ALL
+        SELECT 1 FROM organizations
+        WHERE owner_id = p_user_id AND id IN (SELECT organization_id FROM my_orgs)
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION received_my_join_request(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM join_requests jr
+        JOIN organizations o ON o.id = jr.organization_id
+        WHERE jr.user_id = auth.uid() AND jr.status = 'pending' AND o.owner_id = p_user_id
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 5. RLS (Row Level Security)
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_outbox ENABLE ROW LEVEL SECURITY;
+
+-- Отправитель читает настройки получателя, чтобы выбрать каналы (только тех, кому может написать)
+DROP POLICY IF EXISTS "Authenticated users can view notification preferences" ON notification_preferences;
+DROP POLICY IF EXISTS "Users can view preferences of people they notify" ON notification_preferences;
+CREATE POLICY "Users can view preferences of people they notify" ON notification_preferences
+    FOR SELECT USING (
+        user_id = auth.uid()
+        OR shares_organization_with(user_id)
+        OR received_my_join_request(user_id)
+    );
+
+DROP POLICY IF EXISTS "Users can insert own notification preferences" ON notification_preferences;
+CREATE POLICY "Users can insert own notification preferences" ON notification_preferences
+    FOR INSERT WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can update own notification preferences" ON notification_preferences;
+CREATE POLICY "Users can update own notification preferences" ON notification_preferences
+    FOR UPDATE USING (user_id = auth.uid());
+
+-- В очередь пишут только через queue_notification (раздел 6), читает только получатель;
+-- отправка и смена статуса - через service role
+DROP POLICY IF EXISTS "Authenticated users can queue notifications" ON notification_outbox;
+
+DROP POLICY IF EXISTS "Users can view own queued notifications" ON notification_outbox;
+CREATE POLICY "Users can view own queued notifications" ON notification_outbox
+    FOR SELECT USING (user_id = auth.uid());
+
+-- 6. Постановка письма или сообщения Telegram в очередь. Получатель должен состоять с отправителем
+-- в одной организации; заявитель может написать только владельцу организации, куда подал заявку
+DROP FUNCTION IF EXISTS queue_notification(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, TIMESTAMPTZ, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION queue_notification(
+    p_user_id UUID,
+    p_channel TEXT,
+    p_type TEXT,
+    p_title TEXT,
+    p_message TEXT,
+    p_link_url TEXT,
+    p_params JSONB,
+    p_deliver_after TIMESTAMPTZ,
+    p_digest BOOLEAN
+)
+RETURNS UUID AS $$
+DECLARE
+    sender UUID := auth.uid();
+    queued UUID;
+BEGIN
+    IF sender IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    IF p_user_id <> sender
+        AND NOT shares_organization_with(p_user_id)
+        AND NOT (p_type = 'join_request' AND received_my_join_request(p_user_id)) THEN
+        RAISE EXCEPTION 'Recipient is not in any of your organizations';
+    END IF;
+
+    INSERT INTO notification_outbox (user_id, channel, type, title, message, link_url, params, deliver_after, digest, status)
+    VALUES (p_user_id, p_channel, p_type, p_title, COALESCE(p_message, ''), p_link_url, p_params, COALESCE(p_deliver_after, now()), COALESCE(p_digest, false), 'pending')
+    RETURNING id INTO queued;
+    RETURN queued;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,20 @@
+-- =============================================
+-- Realtime Notifications - Supabase Migration
+-- Run this SQL in Supabase SQL Editor
+-- =============================================
+
+-- 1. Новые и прочитанные уведомления доставляются через Supabase Realtime
+-- (получатель видит только свои строки по RLS-политике notifications)
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'notifications'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+    END IF;
+END $$;
+
+-- 2. Индекс для страницы уведомлений (вкладки прочитанные/непрочитанные, счётчик)
+CREATE INDEX IF NOT EXISTS idx_notifications_user_read ON notifications(user_id, read, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_user_type ON notifications(user_id, type, created_at DESC);
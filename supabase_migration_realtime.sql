@@ -0,0 +1,20 @@
+-- =============================================
+-- Realtime Board Sync - Supabase Migration
+-- Run this SQL in Supabase SQL Editor
+-- =============================================
+
+-- 1. Изменения задач, их меток, событий и объявлений рассылаются через Supabase Realtime
+-- (права на чтение проверяются теми же RLS-политиками)
+DO $$
+DECLARE
+    realtime_table TEXT;
+BEGIN
+    FOREACH realtime_table IN ARRAY ARRAY['tasks', 'task_labels', 'events', 'announcements'] LOOP
+        IF NOT EXISTS (
+            SELECT 1 FROM pg_publication_tables
+            WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = realtime_table
+        ) THEN
+            EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE %I', realtime_table);
+        END IF;
+    END LOOP;
+END $$;
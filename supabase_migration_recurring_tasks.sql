@@ -0,0 +1,23 @@
+-- =============================================
+-- Recurring Tasks - Supabase Migration
+-- Run this SQL in Supabase SQL Editor
+-- =============================================
+
+-- 1. Правило повторения: {"freq": "daily|weekly|monthly|after_completion", "interval": 1, "weekdays": [1,4], "monthDay": 15}
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS recurrence JSONB;
+
+-- 2. Ссылка на следующий экземпляр (обнуляется, если экземпляр удалили)
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS recurrence_next_id UUID REFERENCES tasks(id) ON DELETE SET NULL;
+
+-- 3. Срок последнего созданного повторения: клиенты занимают повторение условным обновлением этого поля,
+-- и оно остаётся после удаления экземпляра, поэтому удалённое повторение считается пропущенным
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS recurrence_last_deadline TIMESTAMPTZ;
+
+UPDATE tasks t
+SET recurrence_last_deadline = next_task.deadline
+FROM tasks next_task
+WHERE t.recurrence_next_id = next_task.id AND t.recurrence_last_deadline IS NULL;
+
+-- 4. Индексы
+CREATE INDEX IF NOT EXISTS idx_tasks_recurring ON tasks(organization_id, deadline)
+    WHERE recurrence IS NOT NULL AND recurrence_next_id IS NULL;
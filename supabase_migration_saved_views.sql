@@ -0,0 +1,60 @@
+-- =============================================
+-- Saved Views - Supabase Migration
+-- Run this SQL in Supabase SQL Editor
+-- =============================================
+
+-- 1. Сохранённые фильтры доски (личные или общие для организации)
+CREATE TABLE IF NOT EXISTS saved_views (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+    is_shared BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- 2. Индексы
+CREATE INDEX IF NOT EXISTS idx_saved_views_org_user ON saved_views(organization_id, user_id);
+
+-- 3. RLS (Row Level Security)
+ALTER TABLE saved_views ENABLE ROW LEVEL SECURITY;
+
+-- Свои виды и общие виды своей организации
+CREATE POLICY "Users can view own and shared views" ON saved_views
+    FOR SELECT USING (
+        user_id = auth.uid()
+        OR (
+            is_shared AND (
+                organization_id IN (
+                    SELECT organization_id FROM team_members WHERE user_id = auth.uid()
+                )
+                OR organization_id IN (
+                    SELECT id FROM organizations WHERE owner_id = auth.uid()
+                )
+            )
+        )
+    );
+
+-- Создавать виды можно только от своего имени и в своей организации
+CREATE POLICY "Users can create own views" ON saved_views
+    FOR INSERT WITH CHECK (
+        user_id = auth.uid()
+        AND (
+            organization_id IN (
+                SELECT organization_id FROM team_members WHERE user_id = auth.uid()
+            )
+            OR organization_id IN (
+                SELECT id FROM organizations WHERE owner_id = auth.uid()
+            )
+        )
+    );
+
+-- Удалять может автор, общие виды также владелец организации
+CREATE POLICY "Users can delete own views" ON saved_views
+    FOR DELETE USING (
+        user_id = auth.uid()
+        OR organization_id IN (
+            SELECT id FROM organizations WHERE owner_id = auth.uid()
+        )
+    );
@@ -0,0 +1,34 @@
+-- =============================================
+-- Subtasks & Checklists - Supabase Migration
+-- Run this SQL in Supabase SQL Editor
+-- =============================================
+
+-- 1. Родительская задача (подзадачи удаляются вместе с родителем)
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES tasks(id) ON DELETE CASCADE;
+
+-- 2. Пункты чек-листа
+CREATE TABLE IF NOT EXISTS task_checklist_items (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    title TEXT NOT NULL,
+    done BOOLEAN NOT NULL DEFAULT false,
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- 3. Индексы
+CREATE INDEX IF NOT EXISTS idx_tasks_parent ON tasks(parent_id);
+CREATE INDEX IF NOT EXISTS idx_checklist_task ON task_checklist_items(task_id, position);
+
+-- 4. RLS (Row Level Security)
+ALTER TABLE task_checklist_items ENABLE ROW LEVEL SECURITY;
+
+-- Чек-лист доступен участникам организации, которой принадлежит задача
+CREATE POLICY "Members can manage checklist items" ON task_checklist_items
+    FOR ALL USING (
+        task_id IN (
+            SELECT id FROM tasks WHERE organization_id IN (
+                SELECT organization_id FROM team_members WHERE user_id = auth.uid()
+            )
+        )
+    );
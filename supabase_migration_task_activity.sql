@@ -0,0 +1,117 @@
+-- =============================================
+-- Task Activity (Audit Trail) - Supabase Migration
+-- Run this SQL in Supabase SQL Editor
+-- =============================================
+
+-- 1. Журнал изменений задач
+-- task_id намеренно без внешнего ключа: записи остаются после удаления задачи
+CREATE TABLE IF NOT EXISTS task_activity (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    task_id UUID NOT NULL,
+    task_title TEXT NOT NULL,
+    organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+    actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    actor_name TEXT,
+    action TEXT NOT NULL CHECK (action IN ('created', 'updated', 'deleted')),
+    field TEXT,
+    old_value TEXT,
+    new_value TEXT,
+    snapshot JSONB,
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- 2. Индексы
+CREATE INDEX IF NOT EXISTS idx_task_activity_task ON task_activity(task_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_task_activity_org_action ON task_activity(organization_id, action);
+
+-- 3. RLS (Row Level Security)
+ALTER TABLE task_activity ENABLE ROW LEVEL SECURITY;
+
+-- Участники организации читают журнал
+CREATE POLICY "Members can view task activity" ON task_activity
+    FOR SELECT USING (
+        organization_id IN (
+            SELECT organization_id FROM team_members WHERE user_id = auth.uid()
+        )
+    );
+
+-- Журнал пишет только триггер ниже: клиент не может добавить или подделать записи,
+-- а изменения, сделанные в обход приложения (API, бот), тоже попадают в историю.
+-- UPDATE/DELETE политик нет — журнал неизменяемый
+DROP POLICY IF EXISTS "Members can append task activity" ON task_activity;
+
+-- 4. Заголовок запроса PostgREST (NULL вне API)
+CREATE OR REPLACE FUNCTION request_header(p_name TEXT)
+RETURNS TEXT AS $$
+    SELECT NULLIF(current_setting('request.headers', true), '')::jsonb ->> lower(p_name);
+$$ LANGUAGE sql STABLE;
+
+-- 5. Кто меняет задачу: текущий пользователь, а для сервисного ключа (бот, серверные функции)
+-- пользователь, от имени которого он действует (заголовок x-actor-id)
+CREATE OR REPLACE FUNCTION task_actor_id()
+RETURNS UUID AS $$
+    SELECT COALESCE(
+        auth.uid(),
+        CASE WHEN auth.role() = 'service_role' THEN NULLIF(request_header('x-actor-id'), '')::uuid END
+    );
+$$ LANGUAGE sql STABLE;
+
+-- 6. Запись истории: создание, изменение каждого поля и удаление (со снимком строки)
+CREATE OR REPLACE FUNCTION log_task_activity()
+RETURNS TRIGGER AS $$
+DECLARE
+    actor UUID := task_actor_id();
+    actor_label TEXT;
+    old_row JSONB;
+    new_row JSONB;
+    field_name TEXT;
+    old_text TEXT;
+    new_text TEXT;
+BEGIN
+    IF actor IS NOT NULL THEN
+        SELECT COALESCE(raw_user_meta_data ->> 'full_name', split_part(email, '@', 1))
+        INTO actor_label FROM auth.users WHERE id = actor;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        INSERT INTO task_activity (task_id, task_title, organization_id, actor_id, actor_name, action)
+        VALUES (NEW.id, NEW.title, NEW.organization_id, actor, actor_label, 'created');
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'DELETE' THEN
+        -- Задачи удаляются вместе с организацией: тогда журнал не нужен
+        IF NOT EXISTS (SELECT 1 FROM organizations WHERE id = OLD.organization_id) THEN
+            RETURN OLD;
+        END IF;
+        INSERT INTO task_activity (task_id, task_title, organization_id, actor_id, actor_name, action, snapshot)
+        VALUES (OLD.id, OLD.title, OLD.organization_id, actor, actor_label, 'deleted', to_jsonb(OLD));
+        RETURN OLD;
+    END IF;
+
+    old_row := to_jsonb(OLD);
+    new_row := to_jsonb(NEW);
+    FOR field_name IN SELECT jsonb_object_keys(new_row) LOOP
+        -- Служебные поля и id не показываются в истории: вместо assignee_id пишется имя,
+        -- а имя основного исполнителя не дублирует полный список исполнителей
+        CONTINUE WHEN field_name IN (
+            'id', 'user_id', 'creator_id', 'organization_id', 'created_at',
+            'assignee_id', 'recurrence_next_id', 'recurrence_last_deadline'
+        );
+        CONTINUE WHEN field_name = 'assignee' AND old_row -> 'assignee_ids' IS DISTINCT FROM new_row -> 'assignee_ids';
+
+        old_text := NULLIF(old_row ->> field_name, '');
+        new_text := NULLIF(new_row ->> field_name, '');
+        CONTINUE WHEN old_row -> field_name = new_row -> field_name OR old_text IS NOT DISTINCT FROM new_text;
+
+        INSERT INTO task_activity (task_id, task_title, organization_id, actor_id, actor_name, action, field, old_value, new_value)
+        VALUES (NEW.id, NEW.title, NEW.organization_id, actor, actor_label, 'updated', field_name, old_text, new_text);
+    END LOOP;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_task_activity ON tasks;
+CREATE TRIGGER on_task_activity
+    AFTER INSERT OR UPDATE OR DELETE ON tasks
+    FOR EACH ROW EXECUTE FUNCTION log_task_activity();
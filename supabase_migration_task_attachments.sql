@@ -0,0 +1,101 @@
+-- =============================================
+-- Task Attachments - Supabase Migration
+-- Run this SQL in Supabase SQL Editor
+-- =============================================
+
+-- 1. Приватный бакет для файлов задач (лимит = самый большой лимит в attachmentService.ts)
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('task-attachments', 'task-attachments', false, 20971520)
+ON CONFLICT (id) DO UPDATE SET public = false, file_size_limit = EXCLUDED.file_size_limit;
+
+-- 2. Вложения задач (файл лежит в бакете по пути <organization_id>/<task_id>/<uuid>-<имя>)
+CREATE TABLE IF NOT EXISTS task_attachments (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    uploaded_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    uploader_name TEXT,
+    file_name TEXT NOT NULL,
+    file_path TEXT NOT NULL UNIQUE,
+    mime_type TEXT,
+    size BIGINT NOT NULL CHECK (size > 0 AND size <= 20971520),
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- 3. Индексы
+CREATE INDEX IF NOT EXISTS idx_task_attachments_task ON task_attachments(task_id, created_at);
+
+-- 4. RLS (Row Level Security)
+ALTER TABLE task_attachments ENABLE ROW LEVEL SECURITY;
+
+-- Вложения видит тот, кому видна сама задача (подзапрос к tasks проходит через RLS задач)
+CREATE POLICY "Task viewers can view attachments" ON task_attachments
+    FOR SELECT USING (
+        task_id IN (SELECT id FROM tasks)
+    );
+
+CREATE POLICY "Task viewers can add attachments" ON task_attachments
+    FOR INSERT WITH CHECK (
+        uploaded_by = auth.uid()
+        AND task_id IN (SELECT id FROM tasks)
+    );
+
+-- Удалять может только тот, кто загрузил файл
+CREATE POLICY "Uploaders can delete attachments" ON task_attachments
+    FOR DELETE USING (uploaded_by = auth.uid());
+
+-- 5. Доступ к файлам в бакете (второй сегмент пути — id задачи)
+CREATE POLICY "Task viewers can read attachment files" ON storage.objects
+    FOR SELECT USING (
+        bucket_id = 'task-attachments'
+        AND (storage.foldername(name))[2]::uuid IN (SELECT id FROM tasks)
+    );
+
+CREATE POLICY "Task viewers can upload attachment files" ON storage.objects
+    FOR INSERT WITH CHECK (
+        bucket_id = 'task-attachments'
+        AND owner = auth.uid()
+        AND (storage.foldername(name))[2]::uuid IN (SELECT id FROM tasks)
+    );
+
+-- Удалять файл может только загрузивший; файлы удалённых задач убирает сервер (раздел 6)
+DROP POLICY IF EXISTS "Uploaders can delete attachment files" ON storage.objects;
+
+CREATE POLICY "Uploaders can delete attachment files" ON storage.objects
+    FOR DELETE USING (
+        bucket_id = 'task-attachments'
+        AND owner = auth.uid()
+    );
+
+-- 6. Файлы удалённых задач (и организаций): строки вложений уходят каскадом, пути файлов
+-- попадают в очередь, которую разбирает функция attachment-cleanup (service role)
+CREATE TABLE IF NOT EXISTS attachment_cleanup (
+    file_path TEXT PRIMARY KEY,
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE attachment_cleanup ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION queue_attachment_cleanup()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- Отдельное вложение удаляет сам загрузивший вместе с файлом, в очередь идут только каскадные удаления
+    IF NOT EXISTS (SELECT 1 FROM tasks WHERE id = OLD.task_id) THEN
+        INSERT INTO attachment_cleanup (file_path) VALUES (OLD.file_path) ON CONFLICT DO NOTHING;
+    END IF;
+    RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_task_attachment_deleted ON task_attachments;
+CREATE TRIGGER on_task_attachment_deleted
+    AFTER DELETE ON task_attachments
+    FOR EACH ROW EXECUTE FUNCTION queue_attachment_cleanup();
+
+-- 7. Расписание (нужны расширения pg_cron и pg_net; подставьте адрес проекта и service role key):
+-- SELECT cron.schedule('attachment-cleanup', '*/10 * * * *', $$
+--     SELECT net.http_post(
+--         url := 'https://<project>.supabase.co/functions/v1/attachment-cleanup',
+--         headers := jsonb_build_object('Authorization', 'Bearer <service_role_key>')
+--     );
+-- $$);
@@ -0,0 +1,45 @@
+-- =============================================
+-- Task Comments - Supabase Migration
+-- Run this SQL in Supabase SQL Editor
+-- =============================================
+
+-- 1. Комментарии к задачам
+CREATE TABLE IF NOT EXISTS task_comments (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    author_name TEXT,
+    content TEXT NOT NULL,
+    organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    updated_at TIMESTAMPTZ
+);
+
+-- 2. Индексы
+CREATE INDEX IF NOT EXISTS idx_task_comments_task ON task_comments(task_id, created_at);
+
+-- 3. RLS (Row Level Security)
+ALTER TABLE task_comments ENABLE ROW LEVEL SECURITY;
+
+-- Участники организации читают и пишут комментарии
+CREATE POLICY "Members can view task comments" ON task_comments
+    FOR SELECT USING (
+        organization_id IN (
+            SELECT organization_id FROM team_members WHERE user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Members can add task comments" ON task_comments
+    FOR INSERT WITH CHECK (
+        user_id = auth.uid()
+        AND organization_id IN (
+            SELECT organization_id FROM team_members WHERE user_id = auth.uid()
+        )
+    );
+
+-- Редактировать и удалять может только автор
+CREATE POLICY "Authors can update their comments" ON task_comments
+    FOR UPDATE USING (user_id = auth.uid());
+
+CREATE POLICY "Authors can delete their comments" ON task_comments
+    FOR DELETE USING (user_id = auth.uid());
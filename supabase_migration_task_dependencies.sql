@@ -0,0 +1,54 @@
+-- =============================================
+-- Task Dependencies - Supabase Migration
+-- Run this SQL in Supabase SQL Editor
+-- =============================================
+
+-- 1. Связи "заблокирована задачей" (task_id ждёт завершения blocked_by_id)
+CREATE TABLE IF NOT EXISTS task_dependencies (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    blocked_by_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    UNIQUE (task_id, blocked_by_id),
+    CHECK (task_id <> blocked_by_id)
+);
+
+-- 2. Индексы
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_org ON task_dependencies(organization_id);
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_blocker ON task_dependencies(blocked_by_id);
+
+-- 3. Запрет циклов: новая связь не должна замыкать цепочку зависимостей
+CREATE OR REPLACE FUNCTION prevent_task_dependency_cycle()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF EXISTS (
+        WITH RECURSIVE upstream(id) AS (
+            SELECT NEW.blocked_by_id
+            UNION
+            SELECT d.blocked_by_id FROM task_dependencies d
+            JOIN upstream u ON d.task_id = u.id
+        )
+        SELECT 1 FROM upstream WHERE id = NEW.task_id
+    ) THEN
+        RAISE EXCEPTION 'Dependency cycle';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS task_dependencies_no_cycle ON task_dependencies;
+CREATE TRIGGER task_dependencies_no_cycle
+    BEFORE INSERT OR UPDATE ON task_dependencies
+    FOR EACH ROW EXECUTE FUNCTION prevent_task_dependency_cycle();
+
+-- 4. RLS (Row Level Security)
+ALTER TABLE task_dependencies ENABLE ROW LEVEL SECURITY;
+
+-- Связи видят и редактируют участники организации
+CREATE POLICY "Members can manage task dependencies" ON task_dependencies
+    FOR ALL USING (
+        organization_id IN (
+            SELECT organization_id FROM team_members WHERE user_id = auth.uid()
+        )
+    );
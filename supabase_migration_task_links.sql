@@ -0,0 +1,29 @@
+-- =============================================
+-- Task Links - Supabase Migration
+-- Run this SQL in Supabase SQL Editor
+-- =============================================
+
+-- 1. Список ссылок задачи: [{ id, url, label, type }] в порядке отображения
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS links JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- 2. Перенос старого поля link_url в новый список
+UPDATE tasks
+SET links = jsonb_build_array(jsonb_build_object(
+    'id', gen_random_uuid(),
+    'url', CASE WHEN link_url ~* '^[a-z][a-z0-9+.-]*:' THEN link_url ELSE 'https://' || link_url END,
+    'label', '',
+    'type', CASE
+        WHEN link_url ~* 'docs\.google\.com/spreadsheets' THEN 'google_sheet'
+        WHEN link_url ~* 'docs\.google\.com/presentation' THEN 'google_slides'
+        WHEN link_url ~* '(docs|drive)\.google\.com' THEN 'google_doc'
+        WHEN link_url ~* 'figma\.com' THEN 'figma'
+        WHEN link_url ~* 'github\.com/[^/]+/[^/]+/pull/[0-9]+' THEN 'github_pr'
+        WHEN link_url ~* 'github\.com/[^/]+/[^/]+/issues/[0-9]+' THEN 'github_issue'
+        ELSE 'url'
+    END
+))
+WHERE link_url IS NOT NULL AND btrim(link_url) <> '' AND links = '[]'::jsonb;
+
+-- 3. Колонка link_url больше не используется приложением.
+-- Удалите её после проверки переноса:
+-- ALTER TABLE tasks DROP COLUMN link_url;
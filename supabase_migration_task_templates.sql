@@ -0,0 +1,55 @@
+-- =============================================
+-- Task Templates - Supabase Migration
+-- Run this SQL in Supabase SQL Editor
+-- =============================================
+
+-- 1. Шаблоны задач организации (одна задача или набор задач)
+-- items: [{ title, description, priority, deadline_offset_days, checklist, assignee_role }]
+CREATE TABLE IF NOT EXISTS task_templates (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    items JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(items) = 'array'),
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- 2. Индексы
+CREATE INDEX IF NOT EXISTS idx_task_templates_org ON task_templates(organization_id);
+
+-- 3. RLS (Row Level Security)
+ALTER TABLE task_templates ENABLE ROW LEVEL SECURITY;
+
+-- Шаблоны видят все участники организации
+CREATE POLICY "Members can view templates" ON task_templates
+    FOR SELECT USING (
+        organization_id IN (
+            SELECT organization_id FROM team_members WHERE user_id = auth.uid()
+        )
+        OR organization_id IN (
+            SELECT id FROM organizations WHERE owner_id = auth.uid()
+        )
+    );
+
+-- Создавать шаблоны можно только от своего имени и в своей организации
+CREATE POLICY "Members can create templates" ON task_templates
+    FOR INSERT WITH CHECK (
+        created_by = auth.uid()
+        AND (
+            organization_id IN (
+                SELECT organization_id FROM team_members WHERE user_id = auth.uid()
+            )
+            OR organization_id IN (
+                SELECT id FROM organizations WHERE owner_id = auth.uid()
+            )
+        )
+    );
+
+-- Удалять может автор шаблона или владелец организации
+CREATE POLICY "Authors and owners can delete templates" ON task_templates
+    FOR DELETE USING (
+        created_by = auth.uid()
+        OR organization_id IN (
+            SELECT id FROM organizations WHERE owner_id = auth.uid()
+        )
+    );
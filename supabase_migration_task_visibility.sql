@@ -0,0 +1,138 @@
+-- =============================================
+-- Task Visibility by Hierarchy - Supabase Migration
+-- Run this SQL in Supabase SQL Editor
+-- Run after supabase_migration_multiple_assignees.sql
+-- =============================================
+
+-- 1. Индекс для обхода цепочки подчинения
+CREATE INDEX IF NOT EXISTS idx_team_members_manager ON team_members(manager_id);
+CREATE INDEX IF NOT EXISTS idx_team_members_user_org ON team_members(user_id, organization_id);
+
+-- 2. Пользователь и все его подчинённые (рекурсивно) в организации
+CREATE OR REPLACE FUNCTION get_subordinate_user_ids(p_organization_id UUID, p_user_id UUID)
+RETURNS SETOF UUID AS $$
+    WITH RECURSIVE line AS (
+        SELECT id, user_id FROM team_members
+        WHERE organization_id = p_organization_id AND user_id = p_user_id
+        UNION
+        SELECT tm.id, tm.user_id FROM team_members tm
+        JOIN line ON tm.manager_id = line.id
+        WHERE tm.organization_id = p_organization_id
+    )
+    SELECT user_id FROM line WHERE user_id IS NOT NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 3. Видит ли текущий пользователь задачу (те же правила, что в hierarchy.ts):
+-- владелец и участники без руководителя видят всё, остальные - задачи, где исполнитель
+-- или автор они сами или их подчинённые, а также задачи, где они проверяющие
+CREATE OR REPLACE FUNCTION can_view_task(
+    p_organization_id UUID,
+    p_creator_id UUID,
+    p_assignee_ids UUID[],
+    p_reviewer_id UUID
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    visible UUID[];
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RETURN false;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM organizations WHERE id = p_organization_id AND owner_id = auth.uid()) THEN
+        RETURN true;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM team_members
+        WHERE organization_id = p_organization_id AND user_id = auth.uid() AND manager_id IS NULL
+    ) THEN
+        RETURN true;
+    END IF;
+
+    IF p_reviewer_id = auth.uid() THEN
+        RETURN true;
+    END IF;
+
+    visible := ARRAY(SELECT get_subordinate_user_ids(p_organization_id, auth.uid()));
+    RETURN p_creator_id = ANY(visible) OR COALESCE(p_assignee_ids, '{}') && visible;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 4. Старые политики задач (доступ всей организации) заменяются политиками по иерархии
+DO $$
+DECLARE
+    existing RECORD;
+BEGIN
+    FOR existing IN SELECT policyname FROM pg_policies WHERE schemaname = 'public' AND tablename = 'tasks' LOOP
+        EXECUTE format('DROP POLICY %I ON tasks', existing.policyname);
+    END LOOP;
+END $$;
+
+-- 5. RLS (Row Level Security)
+ALTER TABLE tasks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view tasks in their reporting line" ON tasks
+    FOR SELECT USING (can_view_task(organization_id, creator_id, assignee_ids, reviewer_id));
+
+-- Создавать задачи может любой участник организации
+CREATE POLICY "Members can create tasks" ON tasks
+    FOR INSERT WITH CHECK (
+        user_id = auth.uid()
+        AND (
+            organization_id IN (SELECT organization_id FROM team_members WHERE user_id = auth.uid())
+            OR organization_id IN (SELECT id FROM organizations WHERE owner_id = auth.uid())
+        )
+    );
+
+-- Изменять и удалять можно только видимые задачи
+CREATE POLICY "Users can update visible tasks" ON tasks
+    FOR UPDATE USING (can_view_task(organization_id, creator_id, assignee_ids, reviewer_id));
+
+CREATE POLICY "Users can delete visible tasks" ON tasks
+    FOR DELETE USING (can_view_task(organization_id, creator_id, assignee_ids, reviewer_id));
+
+-- 6. Есть ли задача (в обход RLS): отличает удалённую задачу от скрытой
+CREATE OR REPLACE FUNCTION task_exists(p_task_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (SELECT 1 FROM tasks WHERE id = p_task_id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 7. Данные задачи видны тем же, кому видна задача (подзапрос к tasks проходит через RLS задач)
+DROP POLICY IF EXISTS "Members can view task comments" ON task_comments;
+CREATE POLICY "Users can view comments of visible tasks" ON task_comments
+    FOR SELECT USING (task_id IN (SELECT id FROM tasks));
+
+DROP POLICY IF EXISTS "Members can add task comments" ON task_comments;
+CREATE POLICY "Users can comment on visible tasks" ON task_comments
+    FOR INSERT WITH CHECK (user_id = auth.uid() AND task_id IN (SELECT id FROM tasks));
+
+DROP POLICY IF EXISTS "Members can manage checklist items" ON task_checklist_items;
+CREATE POLICY "Users can manage checklists of visible tasks" ON task_checklist_items
+    FOR ALL USING (task_id IN (SELECT id FROM tasks));
+
+DROP POLICY IF EXISTS "Members can view time entries" ON time_entries;
+CREATE POLICY "Users can view time of visible tasks" ON time_entries
+    FOR SELECT USING (task_id IN (SELECT id FROM tasks));
+
+DROP POLICY IF EXISTS "Members can view transition requests" ON transition_requests;
+CREATE POLICY "Users can view transition requests of visible tasks" ON transition_requests
+    FOR SELECT USING (task_id IN (SELECT id FROM tasks));
+
+DROP POLICY IF EXISTS "Members can manage task dependencies" ON task_dependencies;
+CREATE POLICY "Users can manage dependencies of visible tasks" ON task_dependencies
+    FOR ALL USING (task_id IN (SELECT id FROM tasks));
+
+-- История удалённой задачи видна владельцу организации и тому, кто её менял
+DROP POLICY IF EXISTS "Members can view task activity" ON task_activity;
+CREATE POLICY "Users can view activity of visible tasks" ON task_activity
+    FOR SELECT USING (
+        task_id IN (SELECT id FROM tasks)
+        OR (
+            NOT task_exists(task_id)
+            AND (
+                actor_id = auth.uid()
+                OR organization_id IN (SELECT id FROM organizations WHERE owner_id = auth.uid())
+            )
+        )
+    );
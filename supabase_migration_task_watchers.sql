@@ -0,0 +1,81 @@
+-- =============================================
+-- Task Watchers - Supabase Migration
+-- Run this SQL in Supabase SQL Editor
+-- =============================================
+
+-- 1. Наблюдатели задач: получают уведомления о статусе, исполнителе, сроке и комментариях
+CREATE TABLE IF NOT EXISTS task_watchers (
+    task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    PRIMARY KEY (task_id, user_id)
+);
+
+-- 2. Индексы
+CREATE INDEX IF NOT EXISTS idx_task_watchers_org ON task_watchers(organization_id);
+CREATE INDEX IF NOT EXISTS idx_task_watchers_user ON task_watchers(user_id);
+
+-- 3. Автоматическая подписка автора и исполнителя задачи
+CREATE OR REPLACE FUNCTION watch_task_participants()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO task_watchers (task_id, user_id, organization_id)
+    SELECT NEW.id, participant, NEW.organization_id
+    FROM unnest(ARRAY[NEW.creator_id, NEW.assignee_id]) AS participant
+    WHERE participant IS NOT NULL
+    ON CONFLICT (task_id, user_id) DO NOTHING;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_task_watch_participants ON tasks;
+CREATE TRIGGER on_task_watch_participants
+    AFTER INSERT OR UPDATE OF assignee_id ON tasks
+    FOR EACH ROW EXECUTE FUNCTION watch_task_participants();
+
+-- 4. Автоматическая подписка автора комментария
+CREATE OR REPLACE FUNCTION watch_task_on_comment()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.user_id IS NOT NULL THEN
+        INSERT INTO task_watchers (task_id, user_id, organization_id)
+        SELECT t.id, NEW.user_id, t.organization_id FROM tasks t WHERE t.id = NEW.task_id
+        ON CONFLICT (task_id, user_id) DO NOTHING;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_task_comment_watch ON task_comments;
+CREATE TRIGGER on_task_comment_watch
+    AFTER INSERT ON task_comments
+    FOR EACH ROW EXECUTE FUNCTION watch_task_on_comment();
+
+-- 5. Подписка участников уже существующих задач
+INSERT INTO task_watchers (task_id, user_id, organization_id)
+SELECT id, creator_id, organization_id FROM tasks WHERE creator_id IS NOT NULL
+UNION
+SELECT id, assignee_id, organization_id FROM tasks WHERE assignee_id IS NOT NULL
+UNION
+SELECT c.task_id, c.user_id, t.organization_id
+FROM task_comments c JOIN tasks t ON t.id = c.task_id
+WHERE c.user_id IS NOT NULL
+ON CONFLICT (task_id, user_id) DO NOTHING;
+
+-- 6. RLS (Row Level Security)
+ALTER TABLE task_watchers ENABLE ROW LEVEL SECURITY;
+
+-- Список наблюдателей виден тем, кто видит задачу
+CREATE POLICY "Users can view watchers of visible tasks" ON task_watchers
+    FOR SELECT USING (task_id IN (SELECT id FROM tasks));
+
+-- Подписаться и отписаться можно только самому
+CREATE POLICY "Users can watch visible tasks" ON task_watchers
+    FOR INSERT WITH CHECK (user_id = auth.uid() AND task_id IN (SELECT id FROM tasks));
+
+CREATE POLICY "Users can update own watch" ON task_watchers
+    FOR UPDATE USING (user_id = auth.uid());
+
+CREATE POLICY "Users can unwatch" ON task_watchers
+    FOR DELETE USING (user_id = auth.uid());
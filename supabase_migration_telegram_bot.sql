@@ -0,0 +1,69 @@
+-- =============================================
+-- Telegram Bot - Supabase Migration
+-- Run this SQL in Supabase SQL Editor
+-- Run after supabase_migration_notification_preferences.sql
+-- =============================================
+
+-- 1. Привязка аккаунта к чату Telegram (один чат на пользователя)
+CREATE TABLE IF NOT EXISTS telegram_links (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    chat_id BIGINT NOT NULL UNIQUE,
+    username TEXT,
+    language TEXT NOT NULL DEFAULT 'ru', -- язык сообщений бота, из language_code клиента Telegram
+    linked_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- 2. Одноразовые коды привязки (/start <код> в боте)
+CREATE TABLE IF NOT EXISTS telegram_link_codes (
+    code TEXT PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    expires_at TIMESTAMPTZ NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_telegram_link_codes_user ON telegram_link_codes(user_id);
+
+-- 3. Отправленные ботом сообщения: ответ на сообщение становится комментарием к задаче
+CREATE TABLE IF NOT EXISTS telegram_messages (
+    chat_id BIGINT NOT NULL,
+    message_id BIGINT NOT NULL,
+    task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    PRIMARY KEY (chat_id, message_id)
+);
+
+-- 4. RLS (Row Level Security)
+-- Бот работает с service role; пользователь видит и удаляет только свою привязку и коды
+ALTER TABLE telegram_links ENABLE ROW LEVEL SECURITY;
+ALTER TABLE telegram_link_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE telegram_messages ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own telegram link" ON telegram_links;
+CREATE POLICY "Users can view own telegram link" ON telegram_links
+    FOR SELECT USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can unlink own telegram" ON telegram_links;
+CREATE POLICY "Users can unlink own telegram" ON telegram_links
+    FOR DELETE USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can view own link codes" ON telegram_link_codes;
+CREATE POLICY "Users can view own link codes" ON telegram_link_codes
+    FOR SELECT USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can create own link codes" ON telegram_link_codes;
+CREATE POLICY "Users can create own link codes" ON telegram_link_codes
+    FOR INSERT WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can delete own link codes" ON telegram_link_codes;
+CREATE POLICY "Users can delete own link codes" ON telegram_link_codes
+    FOR DELETE USING (user_id = auth.uid());
+
+-- 5. Доставка очереди Telegram раз в минуту (нужны расширения pg_cron и pg_net;
+-- подставьте адрес проекта и service role key)
+-- SELECT cron.schedule('telegram-outbox', '* * * * *', $$
+--     SELECT net.http_post(
+--         url := 'https://<project>.supabase.co/functions/v1/telegram-bot?action=deliver',
+--         headers := jsonb_build_object('Authorization', 'Bearer <service_role_key>')
+--     );
+-- $$);
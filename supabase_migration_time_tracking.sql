@@ -0,0 +1,66 @@
+-- =============================================
+-- Time Tracking - Supabase Migration
+-- Run this SQL in Supabase SQL Editor
+-- =============================================
+
+-- 1. Первоначальная оценка задачи в минутах
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS estimate_minutes INTEGER CHECK (estimate_minutes IS NULL OR estimate_minutes > 0);
+
+-- 2. Записи учёта времени (таймеры и ручные записи)
+CREATE TABLE IF NOT EXISTS time_entries (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    user_name TEXT,
+    started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    ended_at TIMESTAMPTZ, -- NULL пока таймер запущен
+    minutes INTEGER NOT NULL DEFAULT 0 CHECK (minutes >= 0),
+    note TEXT,
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- 3. Индексы (не больше одного запущенного таймера на пользователя)
+CREATE INDEX IF NOT EXISTS idx_time_entries_task ON time_entries(task_id);
+CREATE INDEX IF NOT EXISTS idx_time_entries_org_started ON time_entries(organization_id, started_at);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_time_entries_running ON time_entries(user_id) WHERE ended_at IS NULL;
+
+-- 4. RLS (Row Level Security)
+ALTER TABLE time_entries ENABLE ROW LEVEL SECURITY;
+
+-- Записи видят все участники организации (табель, аналитика)
+CREATE POLICY "Members can view time entries" ON time_entries
+    FOR SELECT USING (
+        organization_id IN (
+            SELECT organization_id FROM team_members WHERE user_id = auth.uid()
+        )
+        OR organization_id IN (
+            SELECT id FROM organizations WHERE owner_id = auth.uid()
+        )
+    );
+
+-- Время записывается только от своего имени
+CREATE POLICY "Members can log own time" ON time_entries
+    FOR INSERT WITH CHECK (
+        user_id = auth.uid()
+        AND (
+            organization_id IN (
+                SELECT organization_id FROM team_members WHERE user_id = auth.uid()
+            )
+            OR organization_id IN (
+                SELECT id FROM organizations WHERE owner_id = auth.uid()
+            )
+        )
+    );
+
+CREATE POLICY "Members can update own time entries" ON time_entries
+    FOR UPDATE USING (user_id = auth.uid());
+
+-- Удалять может автор записи или владелец организации
+CREATE POLICY "Members can delete own time entries" ON time_entries
+    FOR DELETE USING (
+        user_id = auth.uid()
+        OR organization_id IN (
+            SELECT id FROM organizations WHERE owner_id = auth.uid()
+        )
+    );
@@ -0,0 +1,134 @@
+-- =============================================
+-- Transition Enforcement - Supabase Migration
+-- Run this SQL in Supabase SQL Editor
+-- Run after supabase_migration_transition_rules.sql and supabase_migration_task_visibility.sql
+-- =============================================
+
+-- 1. Правила проверяются и на сервере (как evaluateTransition в transitionService.ts), клиент лишь
+-- объясняет отказ заранее. Переход с согласованием проходит только по одобренному запросу, который
+-- при этом помечается выполненным. Не проверяются изменения без пользователя и сохранение доски
+-- (save_workflow переносит задачи из удалённых колонок)
+CREATE OR REPLACE FUNCTION enforce_task_transition()
+RETURNS TRIGGER AS $$
+DECLARE
+    actor UUID := task_actor_id();
+    rule RECORD;
+    assignees UUID[] := COALESCE(OLD.assignee_ids, '{}');
+    actor_roles TEXT[] := '{}';
+BEGIN
+    IF NEW.status IS NOT DISTINCT FROM OLD.status OR actor IS NULL
+        OR current_setting('taskedo.saving_workflow', true) = 'on' THEN
+        RETURN NEW;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM workflow_transitions WHERE organization_id = OLD.organization_id) THEN
+        -- Правило для конкретной исходной колонки важнее правила «из любой»
+        SELECT roles, require_reason, require_approval INTO rule
+        FROM workflow_transitions
+        WHERE organization_id = OLD.organization_id
+            AND to_status = NEW.status
+            AND (from_status = OLD.status OR from_status IS NULL)
+        ORDER BY from_status NULLS LAST
+        LIMIT 1;
+    ELSE
+        -- Политика по умолчанию (getDefaultTransitionRules): завершают проверяющий или владелец
+        SELECT
+            CASE WHEN workflow.is_done THEN ARRAY['reviewer', 'owner'] ELSE ARRAY['assignee', 'creator', 'reviewer', 'manager', 'owner'] END AS roles,
+            false AS require_reason,
+            false AS require_approval
+        INTO rule
+        FROM (
+            SELECT key, is_done FROM workflow_columns WHERE organization_id = OLD.organization_id
+            UNION ALL
+            SELECT key, key = 'done' FROM unnest(ARRAY['new', 'progress', 'review', 'done']) AS key
+            WHERE NOT EXISTS (SELECT 1 FROM workflow_columns WHERE organization_id = OLD.organization_id)
+        ) workflow
+        WHERE workflow.key = NEW.status;
+    END IF;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Moving a task from % to % is not allowed', OLD.status, NEW.status;
+    END IF;
+
+    IF rule.require_approval THEN
+        UPDATE transition_requests SET applied_at = now()
+        WHERE id = (
+            SELECT id FROM transition_requests
+            WHERE task_id = OLD.id AND from_status = OLD.status AND to_status = NEW.status
+                AND status = 'approved' AND applied_at IS NULL
+            ORDER BY decided_at DESC
+            LIMIT 1
+        );
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Moving a task from % to % needs an approved request', OLD.status, NEW.status;
+        END IF;
+        RETURN NEW;
+    END IF;
+
+    IF OLD.assignee_id IS NOT NULL AND NOT (OLD.assignee_id = ANY(assignees)) THEN
+        assignees := array_prepend(OLD.assignee_id, assignees);
+    END IF;
+    IF actor = ANY(assignees) THEN
+        actor_roles := array_append(actor_roles, 'assignee');
+    END IF;
+    IF OLD.creator_id = actor THEN
+        actor_roles := array_append(actor_roles, 'creator');
+    END IF;
+    IF COALESCE(OLD.reviewer_id, OLD.creator_id) = actor THEN
+        actor_roles := array_append(actor_roles, 'reviewer');
+    END IF;
+    IF EXISTS (
+        SELECT 1 FROM get_subordinate_user_ids(OLD.organization_id, actor) subordinate
+        WHERE subordinate <> actor AND subordinate = ANY(assignees)
+    ) THEN
+        actor_roles := array_append(actor_roles, 'manager');
+    END IF;
+    IF EXISTS (SELECT 1 FROM organizations WHERE id = OLD.organization_id AND owner_id = actor) THEN
+        actor_roles := array_append(actor_roles, 'owner');
+    END IF;
+
+    IF NOT (actor_roles && rule.roles) THEN
+        RAISE EXCEPTION 'Moving a task from % to % needs one of the roles %', OLD.status, NEW.status, rule.roles;
+    END IF;
+    IF rule.require_reason AND task_change_reason() IS NULL THEN
+        RAISE EXCEPTION 'Moving a task from % to % needs a reason', OLD.status, NEW.status;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_task_transition ON tasks;
+CREATE TRIGGER on_task_transition
+    BEFORE UPDATE OF status ON tasks
+    FOR EACH ROW EXECUTE FUNCTION enforce_task_transition();
+
+-- 2. Кто решает запрос (canDecideTransition в transitionService.ts): автор задачи, проверяющий,
+-- руководители исполнителей и владелец организации
+CREATE OR REPLACE FUNCTION can_decide_transition(p_task_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+    RETURN EXISTS (
+        SELECT 1 FROM tasks t
+        WHERE t.id = p_task_id AND (
+            t.creator_id = auth.uid()
+            OR t.reviewer_id = auth.uid()
+            OR EXISTS (SELECT 1 FROM organizations WHERE id = t.organization_id AND owner_id = auth.uid())
+            OR EXISTS (
+                SELECT 1 FROM get_subordinate_user_ids(t.organization_id, auth.uid()) subordinate
+                WHERE subordinate <> auth.uid()
+                    AND (subordinate = t.assignee_id OR subordinate = ANY(COALESCE(t.assignee_ids, '{}')))
+            )
+        )
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 3. RLS: запрос решают согласующие (свой запрос решить нельзя)
+DROP POLICY IF EXISTS "Members can decide transition requests" ON transition_requests;
+
+CREATE POLICY "Approvers can decide transition requests" ON transition_requests
+    FOR UPDATE USING (
+        requested_by IS DISTINCT FROM auth.uid()
+        AND can_decide_transition(task_id)
+    )
+    WITH CHECK (decided_by = auth.uid());
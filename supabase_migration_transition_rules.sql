@@ -0,0 +1,130 @@
+-- =============================================
+-- Transition Rules & Approvals - Supabase Migration
+-- Run this SQL in Supabase SQL Editor
+-- =============================================
+
+-- 1. Разрешённые переходы между колонками (без строк действует политика по умолчанию)
+CREATE TABLE IF NOT EXISTS workflow_transitions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    from_status TEXT, -- NULL = из любой колонки
+    to_status TEXT NOT NULL,
+    roles TEXT[] NOT NULL DEFAULT ARRAY['assignee', 'creator', 'manager', 'owner'],
+    require_reason BOOLEAN NOT NULL DEFAULT false,
+    require_approval BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- 2. Запросы на согласование смены статуса
+CREATE TABLE IF NOT EXISTS transition_requests (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+    from_status TEXT NOT NULL,
+    to_status TEXT NOT NULL,
+    reason TEXT,
+    requested_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    requester_name TEXT,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+    decided_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    decided_at TIMESTAMPTZ,
+    applied_at TIMESTAMPTZ, -- одобренный переход выполнен (одобрение срабатывает один раз)
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE transition_requests ADD COLUMN IF NOT EXISTS applied_at TIMESTAMPTZ;
+
+-- 3. Причина перехода в истории задачи
+ALTER TABLE task_activity ADD COLUMN IF NOT EXISTS reason TEXT;
+
+-- Причину передаёт клиент в заголовке x-change-reason (UTF-8 в base64), история пишется триггером
+CREATE OR REPLACE FUNCTION task_change_reason()
+RETURNS TEXT AS $$
+    SELECT NULLIF(convert_from(decode(request_header('x-change-reason'), 'base64'), 'UTF8'), '');
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION fill_task_activity_reason()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.action = 'updated' THEN
+        NEW.reason := COALESCE(NEW.reason, task_change_reason());
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS on_task_activity_reason ON task_activity;
+CREATE TRIGGER on_task_activity_reason
+    BEFORE INSERT ON task_activity
+    FOR EACH ROW EXECUTE FUNCTION fill_task_activity_reason();
+
+-- 4. Сохранение политики одной транзакцией: старые правила заменяются новыми целиком.
+-- При любой ошибке остаются прежние правила
+CREATE OR REPLACE FUNCTION save_transition_rules(p_organization_id UUID, p_rules JSONB)
+RETURNS SETOF workflow_transitions AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM organizations WHERE id = p_organization_id AND owner_id = auth.uid()) THEN
+        RAISE EXCEPTION 'Only the organization owner can change transition rules';
+    END IF;
+
+    DELETE FROM workflow_transitions WHERE organization_id = p_organization_id;
+
+    INSERT INTO workflow_transitions (organization_id, from_status, to_status, roles, require_reason, require_approval)
+    SELECT
+        p_organization_id,
+        rule.value ->> 'from_status',
+        rule.value ->> 'to_status',
+        ARRAY(SELECT jsonb_array_elements_text(rule.value -> 'roles')),
+        COALESCE((rule.value ->> 'require_reason')::boolean, false),
+        COALESCE((rule.value ->> 'require_approval')::boolean, false)
+    FROM jsonb_array_elements(p_rules) AS rule(value);
+
+    RETURN QUERY SELECT * FROM workflow_transitions WHERE organization_id = p_organization_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- 5. Индексы (не больше одного открытого запроса на задачу)
+CREATE INDEX IF NOT EXISTS idx_workflow_transitions_org ON workflow_transitions(organization_id);
+CREATE INDEX IF NOT EXISTS idx_transition_requests_org ON transition_requests(organization_id, status);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transition_requests_pending ON transition_requests(task_id) WHERE status = 'pending';
+
+-- 6. RLS (Row Level Security)
+ALTER TABLE workflow_transitions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE transition_requests ENABLE ROW LEVEL SECURITY;
+
+-- Правила видят все участники, меняет только владелец
+CREATE POLICY "Members can view transition rules" ON workflow_transitions
+    FOR SELECT USING (
+        organization_id IN (
+            SELECT organization_id FROM team_members WHERE user_id = auth.uid()
+        )
+        OR organization_id IN (
+            SELECT id FROM organizations WHERE owner_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Owners can manage transition rules" ON workflow_transitions
+    FOR ALL USING (
+        organization_id IN (
+            SELECT id FROM organizations WHERE owner_id = auth.uid()
+        )
+    );
+
+-- Запросы создают участники организации, решают согласующие (свой запрос решить нельзя)
+CREATE POLICY "Members can view transition requests" ON transition_requests
+    FOR SELECT USING (
+        organization_id IN (
+            SELECT organization_id FROM team_members WHERE user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Members can create transition requests" ON transition_requests
+    FOR INSERT WITH CHECK (
+        requested_by = auth.uid()
+        AND organization_id IN (
+            SELECT organization_id FROM team_members WHERE user_id = auth.uid()
+        )
+    );
+
+-- Решать запросы можно после supabase_migration_transition_enforcement.sql, вместе с проверкой
+-- переходов на сервере: обеим нужны исполнители и цепочка подчинения из более поздних миграций
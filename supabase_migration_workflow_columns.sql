@@ -0,0 +1,112 @@
+-- =============================================
+-- Workflow Columns - Supabase Migration
+-- Run this SQL in Supabase SQL Editor
+-- =============================================
+
+-- 1. Колонки доски для каждой организации (без строк используется new → progress → review → done)
+CREATE TABLE IF NOT EXISTS workflow_columns (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    key TEXT NOT NULL,
+    name TEXT NOT NULL DEFAULT '',
+    color TEXT NOT NULL DEFAULT '#6366f1',
+    position INTEGER NOT NULL DEFAULT 0,
+    is_done BOOLEAN NOT NULL DEFAULT false,
+    is_review BOOLEAN NOT NULL DEFAULT false, -- здесь готовая работа ждёт проверяющего
+    wip_limit INTEGER CHECK (wip_limit IS NULL OR wip_limit > 0),
+    created_at TIMESTAMPTZ DEFAULT now(),
+    UNIQUE (organization_id, key)
+);
+
+ALTER TABLE workflow_columns ADD COLUMN IF NOT EXISTS is_review BOOLEAN NOT NULL DEFAULT false;
+
+-- 2. Индексы (не больше одной финальной колонки и одной колонки проверки на организацию)
+CREATE INDEX IF NOT EXISTS idx_workflow_columns_org ON workflow_columns(organization_id, position);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_workflow_columns_done ON workflow_columns(organization_id) WHERE is_done;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_workflow_columns_review ON workflow_columns(organization_id) WHERE is_review;
+
+-- 3. Статус задачи теперь ключ колонки, а не фиксированный список
+ALTER TABLE tasks DROP CONSTRAINT IF EXISTS tasks_status_check;
+
+-- 4. Сохранение доски одной транзакцией: задачи из удалённых колонок переносятся в p_fallback_status
+-- (с записью в историю), колонки обновляются по ключу, удалённые ключи удаляются.
+-- При любой ошибке не меняется ничего
+CREATE OR REPLACE FUNCTION save_workflow(p_organization_id UUID, p_columns JSONB, p_fallback_status TEXT)
+RETURNS SETOF workflow_columns AS $$
+DECLARE
+    new_keys TEXT[] := ARRAY(SELECT value ->> 'key' FROM jsonb_array_elements(p_columns));
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM organizations WHERE id = p_organization_id AND owner_id = auth.uid()) THEN
+        RAISE EXCEPTION 'Only the organization owner can change the workflow';
+    END IF;
+    IF (SELECT count(*) FROM jsonb_array_elements(p_columns) WHERE (value ->> 'is_done')::boolean) <> 1 THEN
+        RAISE EXCEPTION 'Workflow must have exactly one done column';
+    END IF;
+    IF NOT (p_fallback_status = ANY(new_keys)) THEN
+        RAISE EXCEPTION 'Fallback status % is not a column of the workflow', p_fallback_status;
+    END IF;
+
+    -- Перенос не проверяется правилами переходов (supabase_migration_transition_enforcement.sql)
+    PERFORM set_config('taskedo.saving_workflow', 'on', true);
+    UPDATE tasks SET status = p_fallback_status
+    WHERE organization_id = p_organization_id AND NOT (status = ANY(new_keys));
+
+    DELETE FROM workflow_columns WHERE organization_id = p_organization_id AND NOT (key = ANY(new_keys));
+
+    -- Флаги сбрасываются заранее, иначе уникальные индексы сработают посреди обновления
+    UPDATE workflow_columns SET is_done = false, is_review = false WHERE organization_id = p_organization_id;
+
+    INSERT INTO workflow_columns (organization_id, key, name, color, position, is_done, is_review, wip_limit)
+    SELECT
+        p_organization_id,
+        column_data.value ->> 'key',
+        COALESCE(column_data.value ->> 'name', ''),
+        COALESCE(column_data.value ->> 'color', '#6366f1'),
+        column_data.ordinality - 1,
+        COALESCE((column_data.value ->> 'is_done')::boolean, false),
+        COALESCE((column_data.value ->> 'is_review')::boolean, false),
+        (column_data.value ->> 'wip_limit')::integer
+    FROM jsonb_array_elements(p_columns) WITH ORDINALITY AS column_data(value, ordinality)
+    ON CONFLICT (organization_id, key) DO UPDATE SET
+        name = EXCLUDED.name,
+        color = EXCLUDED.color,
+        position = EXCLUDED.position,
+        is_done = EXCLUDED.is_done,
+        is_review = EXCLUDED.is_review,
+        wip_limit = EXCLUDED.wip_limit;
+
+    RETURN QUERY SELECT * FROM workflow_columns WHERE organization_id = p_organization_id ORDER BY position;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- 5. Колонка проверки раньше определялась как предпоследняя; сохранённые доски получают явный флаг
+UPDATE workflow_columns wc
+SET is_review = true
+FROM workflow_columns done_column
+WHERE done_column.organization_id = wc.organization_id
+    AND done_column.is_done
+    AND wc.position = done_column.position - 1
+    AND wc.position > 0
+    AND NOT EXISTS (SELECT 1 FROM workflow_columns r WHERE r.organization_id = wc.organization_id AND r.is_review);
+
+-- 6. RLS (Row Level Security)
+ALTER TABLE workflow_columns ENABLE ROW LEVEL SECURITY;
+
+-- Колонки видят все участники организации
+CREATE POLICY "Members can view workflow columns" ON workflow_columns
+    FOR SELECT USING (
+        organization_id IN (
+            SELECT organization_id FROM team_members WHERE user_id = auth.uid()
+        )
+        OR organization_id IN (
+            SELECT id FROM organizations WHERE owner_id = auth.uid()
+        )
+    );
+
+-- Менять колонки может только владелец организации
+CREATE POLICY "Owners can manage workflow columns" ON workflow_columns
+    FOR ALL USING (
+        organization_id IN (
+            SELECT id FROM organizations WHERE owner_id = auth.uid()
+        )
+    );